@@ -11,6 +11,7 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { ArrowLeft, FileText, MapPin, Package } from 'lucide-react';
 import { NotificationModal } from '@/components/ui/notification-modal';
+import { LocationPricingModal } from '@/components/modals/LocationPricingModal';
 
 interface Contract {
   contractId: string;
@@ -38,6 +39,7 @@ interface Contract {
     partyRole: string;
   }>;
   contractLocations?: Array<{
+    locationSpecificPricing?: { items?: Record<string, any> } | null;
     location: {
       locationId: string;
       locationName: string;
@@ -74,6 +76,7 @@ export default function ContractDetailPage() {
   const [activeTab, setActiveTab] = useState<'overview' | 'parties' | 'locations' | 'billable-items' | 'invoices'>('overview');
   const [notification, setNotification] = useState<{type: 'success' | 'error' | 'info' | 'warning', title: string, message: string} | null>(null);
   const [invoices, setInvoices] = useState<any[]>([]);
+  const [pricingLocationId, setPricingLocationId] = useState<string | null>(null);
 
   useEffect(() => {
     loadContract();
@@ -159,6 +162,10 @@ export default function ContractDetailPage() {
     );
   }
 
+  const pricingLocation = contract.contractLocations?.find(
+    (cl) => cl.location.locationId === pricingLocationId
+  );
+
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
@@ -370,6 +377,7 @@ export default function ContractDetailPage() {
                       <TableHead className="text-xs">Address</TableHead>
                       <TableHead className="text-xs">City</TableHead>
                       <TableHead className="text-xs">State</TableHead>
+                      <TableHead className="text-xs">Location Pricing</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -388,11 +396,23 @@ export default function ContractDetailPage() {
                           <TableCell className="py-2.5 text-xs text-muted-foreground">
                             {cl.location.state || 'N/A'}
                           </TableCell>
+                          <TableCell className="py-2.5 text-xs">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 text-xs"
+                              onClick={() => setPricingLocationId(cl.location.locationId)}
+                            >
+                              {Object.keys(cl.locationSpecificPricing?.items || {}).length > 0
+                                ? `${Object.keys(cl.locationSpecificPricing?.items || {}).length} override(s)`
+                                : 'Add overrides'}
+                            </Button>
+                          </TableCell>
                         </TableRow>
                       ))
                     ) : (
                       <TableRow>
-                        <TableCell colSpan={4} className="px-6 py-12 text-center">
+                        <TableCell colSpan={5} className="px-6 py-12 text-center">
                           <p className="text-xs text-muted-foreground">No locations found</p>
                         </TableCell>
                       </TableRow>
@@ -529,6 +549,16 @@ export default function ContractDetailPage() {
         </TabsContent>
       </Tabs>
 
+      <LocationPricingModal
+        open={pricingLocationId !== null}
+        onOpenChange={(open) => !open && setPricingLocationId(null)}
+        onSuccess={loadContract}
+        contractId={contract.contractId}
+        location={pricingLocation?.location || null}
+        locationSpecificPricing={pricingLocation?.locationSpecificPricing}
+        billableItems={contract.billableItems || []}
+      />
+
       {notification && (
         <NotificationModal
           open={!!notification}
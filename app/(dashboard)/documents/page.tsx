@@ -1,12 +1,12 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { fetchWithAuth } from '@/lib/auth-client';
 import { Card, CardContent } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { FileText, Download } from 'lucide-react';
+import { FileText, Download, CornerDownRight } from 'lucide-react';
 
 interface Document {
   documentId: string;
@@ -16,6 +16,11 @@ interface Document {
   uploadedDate: string;
   ocrCompleted: boolean;
   extractionCompleted: boolean;
+  processingStatus?: string | null;
+  pageRangeStart?: number | null;
+  pageRangeEnd?: number | null;
+  // Invoices split out of a multi-invoice upload
+  childDocuments?: Document[];
 }
 
 export default function DocumentsPage() {
@@ -81,53 +86,92 @@ export default function DocumentsPage() {
               </TableHeader>
               <TableBody>
                 {documents.map((doc) => (
-                  <TableRow key={doc.documentId}>
-                    <TableCell className="py-2.5">
-                      <div className="flex items-center gap-2">
-                        <FileText className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-xs font-medium">{doc.documentName}</span>
-                      </div>
-                    </TableCell>
-                    <TableCell className="py-2.5">
-                      <Badge variant="outline" className="text-xs">
-                        {doc.documentType}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="py-2.5 text-xs text-muted-foreground">
-                      {formatFileSize(doc.fileSizeBytes)}
-                    </TableCell>
-                    <TableCell className="py-2.5 text-xs text-muted-foreground">
-                      {new Date(doc.uploadedDate).toLocaleDateString()}
-                    </TableCell>
-                    <TableCell className="py-2.5">
-                      <Badge
-                        variant={
-                          doc.extractionCompleted
-                            ? 'default'
+                  <Fragment key={doc.documentId}>
+                    <TableRow>
+                      <TableCell className="py-2.5">
+                        <div className="flex items-center gap-2">
+                          <FileText className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-xs font-medium">{doc.documentName}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="py-2.5">
+                        <Badge variant="outline" className="text-xs">
+                          {doc.documentType}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="py-2.5 text-xs text-muted-foreground">
+                        {formatFileSize(doc.fileSizeBytes)}
+                      </TableCell>
+                      <TableCell className="py-2.5 text-xs text-muted-foreground">
+                        {new Date(doc.uploadedDate).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="py-2.5">
+                        <Badge
+                          variant={
+                            doc.extractionCompleted
+                              ? 'default'
+                              : doc.ocrCompleted
+                              ? 'secondary'
+                              : 'outline'
+                          }
+                          className="text-xs"
+                        >
+                          {doc.childDocuments?.length
+                            ? `Split into ${doc.childDocuments.length}`
+                            : doc.extractionCompleted
+                            ? 'Extracted'
                             : doc.ocrCompleted
-                            ? 'secondary'
-                            : 'outline'
-                        }
-                        className="text-xs"
-                      >
-                        {doc.extractionCompleted
-                          ? 'Extracted'
-                          : doc.ocrCompleted
-                          ? 'OCR Done'
-                          : 'Processing'}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="py-2.5">
-                      <div className="flex items-center gap-1">
-                        <Button size="sm" variant="ghost" className="px-2 text-xs" asChild>
-                          <a href={doc.documentUrl || '#'} download>
-                            <Download className="h-3 w-3 mr-1" />
-                            Download
-                          </a>
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
+                            ? 'OCR Done'
+                            : 'Processing'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="py-2.5">
+                        <div className="flex items-center gap-1">
+                          <Button size="sm" variant="ghost" className="px-2 text-xs" asChild>
+                            <a href={doc.documentUrl || '#'} download>
+                              <Download className="h-3 w-3 mr-1" />
+                              Download
+                            </a>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {doc.childDocuments?.map((child) => (
+                      <TableRow key={child.documentId} className="bg-muted/30">
+                        <TableCell className="py-2 pl-8" colSpan={4}>
+                          <div className="flex items-center gap-2">
+                            <CornerDownRight className="h-3 w-3 text-muted-foreground" />
+                            <span className="text-xs">
+                              Pages {child.pageRangeStart}
+                              {child.pageRangeEnd !== child.pageRangeStart && `-${child.pageRangeEnd}`}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="py-2">
+                          <Badge
+                            variant={
+                              child.processingStatus === 'completed'
+                                ? 'default'
+                                : child.processingStatus === 'error'
+                                ? 'destructive'
+                                : 'secondary'
+                            }
+                            className="text-xs"
+                          >
+                            {child.processingStatus === 'completed'
+                              ? 'Processed'
+                              : child.processingStatus === 'error'
+                              ? 'Failed'
+                              : child.processingStatus === 'needs_review' ||
+                                child.processingStatus === 'validation_error'
+                              ? 'Needs Review'
+                              : 'Processing'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="py-2" />
+                      </TableRow>
+                    ))}
+                  </Fragment>
                 ))}
                 {documents.length === 0 && (
                   <TableRow>
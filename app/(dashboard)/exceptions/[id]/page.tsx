@@ -24,6 +24,9 @@ interface Exception {
   varianceAmount?: number;
   resolved?: boolean;
   dueDate?: string;
+  relatedInvoice?: { invoiceId: string; invoiceNumber?: string };
+  source?: string;
+  advisory?: boolean;
   vendorIntelligence?: {
     exceptionCount: number;
     totalImpact: number;
@@ -70,20 +73,24 @@ interface Exception {
       decision?: string;
     }>;
   };
-  contractExtraction?: {
-    extractionId: string;
-    sourcePageNumber?: number;
-    textSnippet?: string;
-    extractedValue?: string;
-    document?: { documentUrl: string };
-  };
-  invoiceExtraction?: {
-    extractionId: string;
-    sourcePageNumber?: number;
-    textSnippet?: string;
-    extractedValue?: string;
-    document?: { documentUrl: string };
-  };
+  contractExtraction?: SourceExtraction;
+  invoiceExtraction?: SourceExtraction;
+}
+
+interface SourceExtraction {
+  extractionId: string;
+  sourcePageNumber?: number;
+  textSnippet?: string;
+  extractedValue?: string;
+  boundingBoxCoordinates?: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    pageWidth?: number;
+    pageHeight?: number;
+  } | null;
+  document?: { documentUrl: string };
 }
 
 export default function ExceptionDetailPage() {
@@ -94,6 +101,7 @@ export default function ExceptionDetailPage() {
   const [expandedValidations, setExpandedValidations] = useState(false);
   const [expandedAudit, setExpandedAudit] = useState(false);
   const [activeTab, setActiveTab] = useState<'overview' | 'contract' | 'invoice'>('overview');
+  const [citedSource, setCitedSource] = useState<'contract' | 'invoice' | null>(null);
   const [processing, setProcessing] = useState<string | null>(null);
   const [notification, setNotification] = useState<{type: 'success' | 'error' | 'info' | 'warning', title: string, message: string} | null>(null);
 
@@ -280,6 +288,11 @@ export default function ExceptionDetailPage() {
   const validationCount = exception.allValidations?.length || 0;
   const failedValidations = exception.allValidations?.filter(v => v.overallStatus === 'Failed').length || 0;
 
+  // Extraction rows the exception cites, for highlighting the clause or invoice line
+  const sourceExtraction = (source: 'contract' | 'invoice') =>
+    source === 'contract' ? exception.contractExtraction : exception.invoiceExtraction;
+  const citedExtraction = citedSource ? sourceExtraction(citedSource) : null;
+
   return (
     <Sheet open={true} onOpenChange={() => router.push('/exceptions')}>
       <SheetContent size="l3" side="right" className="overflow-y-auto">
@@ -312,6 +325,18 @@ export default function ExceptionDetailPage() {
                     <ExternalLink className="h-3 w-3" />
                   </Link>
                 </div>
+                {exception.relatedInvoice && (
+                  <div className="flex items-center justify-between py-1.5 border-b">
+                    <span className="text-muted-foreground">Prior Invoice</span>
+                    <Link
+                      href={`/invoices/${exception.relatedInvoice.invoiceId}`}
+                      className="text-primary hover:text-primary/80 font-medium flex items-center gap-1"
+                    >
+                      {exception.relatedInvoice.invoiceNumber || exception.relatedInvoice.invoiceId}
+                      <ExternalLink className="h-3 w-3" />
+                    </Link>
+                  </div>
+                )}
                 {exception.validation.invoice.contract && (
                   <div className="flex items-center justify-between py-1.5 border-b">
                     <span className="text-muted-foreground">Contract</span>
@@ -344,6 +369,12 @@ export default function ExceptionDetailPage() {
                     {exception.severity}
                   </Badge>
                 </div>
+                {exception.advisory && (
+                  <div className="flex items-center justify-between py-1.5 border-b">
+                    <span className="text-muted-foreground">Source</span>
+                    <Badge variant="outline">Advisory ({exception.source?.toUpperCase()})</Badge>
+                  </div>
+                )}
                 {exception.dueDate && (
                   <div className="flex items-center justify-between py-1.5">
                     <span className="text-muted-foreground">Due Date</span>
@@ -649,7 +680,37 @@ export default function ExceptionDetailPage() {
                     Contract PDF
                   </Link>
                 )}
+                {(['contract', 'invoice'] as const).map((source) => {
+                  const extraction = sourceExtraction(source);
+                  if (!extraction?.document) return null;
+                  return (
+                    <button
+                      key={source}
+                      type="button"
+                      onClick={() => setCitedSource(citedSource === source ? null : source)}
+                      className="flex items-center gap-2 text-primary hover:text-primary/80"
+                    >
+                      <ExternalLink className="h-3.5 w-3.5" />
+                      {citedSource === source ? 'Hide' : 'Show'} cited {source} text
+                      {extraction.sourcePageNumber ? ` (page ${extraction.sourcePageNumber})` : ''}
+                    </button>
+                  );
+                })}
               </div>
+              {citedExtraction?.document && (
+                <div className="mt-3">
+                  <DocumentViewer
+                    documentUrl={citedExtraction.document.documentUrl}
+                    citations={[
+                      {
+                        pageNumber: citedExtraction.sourcePageNumber || 1,
+                        boundingBox: citedExtraction.boundingBoxCoordinates || undefined,
+                        text: citedExtraction.textSnippet || citedExtraction.extractedValue,
+                      },
+                    ]}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -13,6 +13,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { ArrowLeft, FileText, AlertCircle, CheckCircle2, XCircle, Edit, Trash2, RefreshCw } from 'lucide-react';
 import { NotificationModal } from '@/components/ui/notification-modal';
 import { InvoiceModal } from '@/components/modals/InvoiceModal';
+import { ContractMatchPanel } from '@/components/panels/ContractMatchPanel';
+import { LineItemMatchPanel } from '@/components/panels/LineItemMatchPanel';
 
 interface Invoice {
   invoiceId: string;
@@ -431,6 +433,12 @@ export default function InvoiceDetailPage() {
               </CardContent>
             </Card>
           </div>
+
+          <ContractMatchPanel
+            invoiceId={invoice.invoiceId}
+            onChange={loadInvoice}
+            onNotify={setNotification}
+          />
         </TabsContent>
 
         <TabsContent value="line-items" className="space-y-4">
@@ -484,6 +492,12 @@ export default function InvoiceDetailPage() {
               </div>
             </CardContent>
           </Card>
+
+          <LineItemMatchPanel
+            invoiceId={invoice.invoiceId}
+            onChange={loadInvoice}
+            onNotify={setNotification}
+          />
         </TabsContent>
 
         <TabsContent value="validation" className="space-y-4">
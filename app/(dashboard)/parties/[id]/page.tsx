@@ -56,6 +56,14 @@ interface Party {
   }>;
 }
 
+interface FieldAccuracy {
+  fieldName: string;
+  month: string;
+  reviewed: number;
+  corrected: number;
+  accuracy: number;
+}
+
 export default function PartyDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -64,6 +72,7 @@ export default function PartyDetailPage() {
   const [activeTab, setActiveTab] = useState<'overview' | 'contracts' | 'invoices'>('overview');
   const [notification, setNotification] = useState<{type: 'success' | 'error' | 'info' | 'warning', title: string, message: string} | null>(null);
   const [invoices, setInvoices] = useState<any[]>([]);
+  const [accuracy, setAccuracy] = useState<FieldAccuracy[]>([]);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [deleting, setDeleting] = useState(false);
 
@@ -79,6 +88,7 @@ export default function PartyDetailPage() {
         setParty(data);
         // Load invoices for this party
         loadInvoices(data.partyId);
+        loadExtractionAccuracy(data.partyId);
       } else if (response.status === 404) {
         setNotification({
           type: 'error',
@@ -116,6 +126,18 @@ export default function PartyDetailPage() {
     }
   };
 
+  const loadExtractionAccuracy = async (partyId: string) => {
+    try {
+      const response = await fetchWithAuth(`/api/parties/${partyId}/extraction-accuracy`);
+      if (response.ok) {
+        const data = await response.json();
+        setAccuracy(data.accuracy || []);
+      }
+    } catch (error) {
+      console.error('Error loading extraction accuracy:', error);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -354,6 +376,47 @@ export default function PartyDetailPage() {
               </CardContent>
             </Card>
           </div>
+
+          {accuracy.length > 0 && (
+            <Card>
+              <CardContent className="p-3">
+                <h2 className="text-sm font-semibold mb-1">Extraction Accuracy</h2>
+                <p className="text-xs text-muted-foreground mb-3">
+                  Fields on reviewed invoices from this vendor left unchanged by reviewers.
+                  Corrections are used as examples when extracting the vendor&apos;s next invoices.
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs">Month</TableHead>
+                      <TableHead className="text-xs">Field</TableHead>
+                      <TableHead className="text-xs text-right">Reviewed</TableHead>
+                      <TableHead className="text-xs text-right">Corrected</TableHead>
+                      <TableHead className="text-xs text-right">Accuracy</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {accuracy.map((row) => (
+                      <TableRow key={`${row.month}-${row.fieldName}`}>
+                        <TableCell className="text-xs">{row.month}</TableCell>
+                        <TableCell className="text-xs font-mono">{row.fieldName}</TableCell>
+                        <TableCell className="text-xs text-right">{row.reviewed}</TableCell>
+                        <TableCell className="text-xs text-right">{row.corrected}</TableCell>
+                        <TableCell className="text-xs text-right">
+                          <Badge
+                            variant={row.accuracy < 0.9 ? 'destructive' : 'secondary'}
+                            className="text-xs"
+                          >
+                            {Math.round(row.accuracy * 100)}%
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         <TabsContent value="contracts" className="space-y-3">
@@ -7,8 +7,9 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Plus, Building2, TrendingUp, Edit, Trash2 } from 'lucide-react';
+import { Plus, Building2, TrendingUp, Edit, Trash2, Check, X, Copy } from 'lucide-react';
 import { PartyModal } from '@/components/modals/PartyModal';
+import { DuplicatePartiesPanel } from '@/components/panels/DuplicatePartiesPanel';
 import { NotificationModal } from '@/components/ui/notification-modal';
 
 interface Party {
@@ -20,16 +21,29 @@ interface Party {
   taxId?: string;
 }
 
+interface MatchSuggestion {
+  suggestionId: string;
+  score: number;
+  reasons: string[];
+  party: Party;
+  candidateParty: Party;
+  document: { documentId: string; documentName: string } | null;
+}
+
 export default function PartiesPage() {
   const [parties, setParties] = useState<Party[]>([]);
+  const [suggestions, setSuggestions] = useState<MatchSuggestion[]>([]);
+  const [reviewing, setReviewing] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [partyModalOpen, setPartyModalOpen] = useState(false);
   const [editParty, setEditParty] = useState<Party | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
   const [notification, setNotification] = useState<{type: 'success' | 'error' | 'info' | 'warning', title: string, message: string} | null>(null);
 
   useEffect(() => {
     loadParties();
+    loadSuggestions();
   }, []);
 
   const loadParties = async () => {
@@ -46,6 +60,52 @@ export default function PartiesPage() {
     }
   };
 
+  const loadSuggestions = async () => {
+    try {
+      const response = await fetchWithAuth('/api/parties/match-suggestions');
+      if (response.ok) {
+        const data = await response.json();
+        setSuggestions(data.suggestions || []);
+      }
+    } catch (error) {
+      console.error('Error loading match suggestions:', error);
+    }
+  };
+
+  const handleReviewSuggestion = async (suggestionId: string, action: 'accept' | 'reject') => {
+    setReviewing(suggestionId);
+    try {
+      const response = await fetchWithAuth(`/api/parties/match-suggestions/${suggestionId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setNotification({
+          type: 'success',
+          title: action === 'accept' ? 'Parties Merged' : 'Suggestion Rejected',
+          message:
+            action === 'accept'
+              ? 'The pending party was merged into the existing party.'
+              : 'The pending party was kept as a separate party.',
+        });
+        loadParties();
+        loadSuggestions();
+      } else {
+        setNotification({
+          type: 'error',
+          title: 'Error',
+          message: data.error || 'Failed to review match suggestion',
+        });
+      }
+    } catch (error) {
+      console.error('Error reviewing match suggestion:', error);
+    } finally {
+      setReviewing(null);
+    }
+  };
+
   const handleAddParty = () => {
     setEditParty(null);
     setPartyModalOpen(true);
@@ -109,12 +169,122 @@ export default function PartiesPage() {
           <h1 className="text-lg font-semibold text-foreground">Vendor Management</h1>
           <p className="text-xs text-muted-foreground mt-0.5">Manage vendors and customers</p>
         </div>
-        <Button size="sm" onClick={handleAddParty}>
-          <Plus className="h-3.5 w-3.5" />
-          Add Party
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant={showDuplicates ? 'default' : 'outline'}
+            onClick={() => setShowDuplicates(!showDuplicates)}
+          >
+            <Copy className="h-3.5 w-3.5" />
+            Possible Duplicates
+          </Button>
+          <Button size="sm" onClick={handleAddParty}>
+            <Plus className="h-3.5 w-3.5" />
+            Add Party
+          </Button>
+        </div>
       </div>
 
+      {showDuplicates && (
+        <DuplicatePartiesPanel
+          onChange={() => {
+            loadParties();
+            loadSuggestions();
+          }}
+          onNotify={setNotification}
+        />
+      )}
+
+      {suggestions.length > 0 && (
+        <Card>
+          <CardContent className="p-3 space-y-2">
+            <div>
+              <p className="text-xs font-medium">Match Suggestions</p>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Pending parties created from documents that may be existing parties
+              </p>
+            </div>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Pending Party</TableHead>
+                    <TableHead className="text-xs">Possible Match</TableHead>
+                    <TableHead className="text-xs">Score</TableHead>
+                    <TableHead className="text-xs">Reasons</TableHead>
+                    <TableHead className="text-xs">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suggestions.map((suggestion) => (
+                    <TableRow key={suggestion.suggestionId}>
+                      <TableCell className="py-2.5">
+                        <Link
+                          href={`/parties/${suggestion.party.partyId}`}
+                          className="text-xs font-medium text-primary hover:text-primary/80"
+                        >
+                          {suggestion.party.legalName}
+                        </Link>
+                        {suggestion.document && (
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            From {suggestion.document.documentName}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="py-2.5">
+                        <Link
+                          href={`/parties/${suggestion.candidateParty.partyId}`}
+                          className="text-xs font-medium text-primary hover:text-primary/80"
+                        >
+                          {suggestion.candidateParty.legalName}
+                        </Link>
+                        {suggestion.candidateParty.taxId && (
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            Tax ID {suggestion.candidateParty.taxId}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="py-2.5">
+                        <Badge variant="outline" className="text-xs">
+                          {Math.round(suggestion.score * 100)}%
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="py-2.5 text-xs text-muted-foreground">
+                        {suggestion.reasons.join('; ')}
+                      </TableCell>
+                      <TableCell className="py-2.5">
+                        <div className="flex items-center gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="px-2 text-xs"
+                            onClick={() => handleReviewSuggestion(suggestion.suggestionId, 'accept')}
+                            disabled={reviewing === suggestion.suggestionId}
+                          >
+                            <Check className="h-3 w-3 mr-1" />
+                            Merge
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="px-2 text-xs"
+                            onClick={() => handleReviewSuggestion(suggestion.suggestionId, 'reject')}
+                            disabled={reviewing === suggestion.suggestionId}
+                          >
+                            <X className="h-3 w-3 mr-1" />
+                            Not a match
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardContent className="p-3">
           <div className="rounded-md border">
@@ -0,0 +1,331 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { fetchWithAuth } from '@/lib/auth-client';
+import DocumentViewer from '@/components/DocumentViewer';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NotificationModal } from '@/components/ui/notification-modal';
+import { ArrowLeft, CheckCircle, AlertCircle, Save } from 'lucide-react';
+
+interface ReviewField {
+  extractionId: string;
+  fieldName: string;
+  extractedValue: string | null;
+  normalizedValue: string | null;
+  confidenceScore: number | null;
+  requiresHumanReview: boolean | null;
+  isValidated: boolean | null;
+  validationNotes: string | null;
+  sourcePageNumber: number | null;
+  boundingBoxCoordinates: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    pageWidth?: number;
+    pageHeight?: number;
+  } | null;
+  textSnippet: string | null;
+}
+
+interface ReviewDocument {
+  documentId: string;
+  documentName: string;
+  documentType: string;
+  documentUrl: string | null;
+  processingStatus: string | null;
+  processingError: string | null;
+}
+
+interface FieldEdit {
+  value: string;
+  notes: string;
+}
+
+export default function ReviewDocumentPage() {
+  const params = useParams();
+  const router = useRouter();
+  const documentId = params.id as string;
+  const [document, setDocument] = useState<ReviewDocument | null>(null);
+  const [fields, setFields] = useState<ReviewField[]>([]);
+  const [edits, setEdits] = useState<Record<string, FieldEdit>>({});
+  const [activeFieldId, setActiveFieldId] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [notification, setNotification] = useState<{type: 'success' | 'error' | 'info' | 'warning', title: string, message: string} | null>(null);
+
+  const loadDocument = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth(`/api/review/${documentId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDocument(data.document);
+        setFields(data.fields || []);
+        setEdits({});
+      }
+    } catch (error) {
+      console.error('Error loading review document:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    loadDocument();
+  }, [loadDocument]);
+
+  const currentValue = (field: ReviewField) =>
+    edits[field.extractionId]?.value ?? field.normalizedValue ?? field.extractedValue ?? '';
+
+  const updateEdit = (field: ReviewField, change: Partial<FieldEdit>) => {
+    setEdits((previous) => ({
+      ...previous,
+      [field.extractionId]: {
+        value: previous[field.extractionId]?.value ?? currentValue(field),
+        notes: previous[field.extractionId]?.notes ?? field.validationNotes ?? '',
+        ...change,
+      },
+    }));
+  };
+
+  const saveEdits = async (): Promise<boolean> => {
+    const changed = Object.entries(edits).map(([extractionId, edit]) => ({
+      extractionId,
+      value: edit.value === '' ? null : edit.value,
+      notes: edit.notes || null,
+    }));
+    if (changed.length === 0) return true;
+
+    const response = await fetchWithAuth(`/api/review/${documentId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fields: changed }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setNotification({
+        type: 'error',
+        title: 'Save Failed',
+        message: data.error || 'Failed to save corrections',
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (await saveEdits()) {
+        await loadDocument();
+        setNotification({ type: 'success', title: 'Saved', message: 'Corrections saved.' });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    setSaving(true);
+    setIssues([]);
+    try {
+      if (!(await saveEdits())) return;
+
+      const response = await fetchWithAuth(`/api/review/${documentId}/approve`, { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setNotification({
+          type: 'success',
+          title: 'Review Approved',
+          message: 'The document was re-processed with the reviewed values.',
+        });
+        router.push('/review');
+      } else if (response.status === 422) {
+        setIssues(data.details || []);
+        await loadDocument();
+      } else {
+        setNotification({
+          type: 'error',
+          title: 'Approval Failed',
+          message: data.error || 'Failed to approve review',
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!document) {
+    return <div className="p-6 text-sm text-muted-foreground">Document not found</div>;
+  }
+
+  const flagged = fields.filter((field) => field.requiresHumanReview && !field.isValidated);
+  const visibleFields = showAll ? fields : flagged;
+  const activeField = fields.find((field) => field.extractionId === activeFieldId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="ghost" className="px-2" asChild>
+            <Link href="/review">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-lg font-semibold text-foreground">{document.documentName}</h1>
+            <p className="text-xs text-muted-foreground mt-0.5">{document.processingError}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={handleSave} disabled={saving}>
+            <Save className="h-3.5 w-3.5 mr-1.5" />
+            Save
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleApprove}
+            disabled={saving || document.processingStatus !== 'needs_review'}
+          >
+            <CheckCircle className="h-3.5 w-3.5 mr-1.5" />
+            Approve
+          </Button>
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+          <div className="flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 text-red-600 mt-0.5" />
+            <div className="text-xs text-red-800 dark:text-red-200">
+              <p className="font-medium mb-1">The reviewed data is still incomplete:</p>
+              <ul className="space-y-0.5">
+                {issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+        <Card>
+          <CardContent className="p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-medium">
+                {flagged.length} of {fields.length} fields need review
+              </p>
+              <Button size="sm" variant="ghost" className="text-xs" onClick={() => setShowAll(!showAll)}>
+                {showAll ? 'Show flagged only' : 'Show all fields'}
+              </Button>
+            </div>
+            <div className="space-y-2 max-h-[720px] overflow-y-auto">
+              {visibleFields.map((field) => {
+                const edit = edits[field.extractionId];
+                const confidence = field.confidenceScore;
+                return (
+                  <div
+                    key={field.extractionId}
+                    onClick={() => setActiveFieldId(field.extractionId)}
+                    className={`rounded-md border p-2 space-y-1.5 cursor-pointer ${
+                      field.extractionId === activeFieldId ? 'border-primary bg-primary/5' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs font-mono text-muted-foreground truncate" title={field.fieldName}>
+                        {field.fieldName}
+                      </span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {field.sourcePageNumber && (
+                          <Badge variant="outline" className="text-xs">
+                            p. {field.sourcePageNumber}
+                          </Badge>
+                        )}
+                        {confidence !== null && (
+                          <Badge variant={confidence < 0.7 ? 'destructive' : 'secondary'} className="text-xs">
+                            {Math.round(confidence * 100)}%
+                          </Badge>
+                        )}
+                        {field.isValidated && <CheckCircle className="h-3.5 w-3.5 text-green-600" />}
+                      </div>
+                    </div>
+                    <Input
+                      value={currentValue(field)}
+                      onChange={(e) => updateEdit(field, { value: e.target.value })}
+                      className="h-8 text-xs"
+                    />
+                    {field.extractedValue !== currentValue(field) && (
+                      <p className="text-xs text-muted-foreground">Extracted: {field.extractedValue || '-'}</p>
+                    )}
+                    {edit && (
+                      <Input
+                        value={edit.notes}
+                        onChange={(e) => updateEdit(field, { notes: e.target.value })}
+                        placeholder="Reason for the correction (optional)"
+                        className="h-8 text-xs"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              {visibleFields.length === 0 && (
+                <p className="text-xs text-muted-foreground text-center py-6">
+                  No flagged fields. Review the remaining fields or approve.
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-3">
+            {document.documentUrl ? (
+              <DocumentViewer
+                documentUrl={document.documentUrl}
+                citations={
+                  activeField
+                    ? [
+                        {
+                          pageNumber: activeField.sourcePageNumber || 1,
+                          boundingBox: activeField.boundingBoxCoordinates || undefined,
+                          text: activeField.textSnippet || activeField.extractedValue || undefined,
+                        },
+                      ]
+                    : []
+                }
+              />
+            ) : (
+              <p className="text-xs text-muted-foreground text-center py-6">No source document file</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {notification && (
+        <NotificationModal
+          open={!!notification}
+          onOpenChange={(open) => !open && setNotification(null)}
+          type={notification.type}
+          title={notification.title}
+          message={notification.message}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchWithAuth } from '@/lib/auth-client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ClipboardCheck, FileText } from 'lucide-react';
+
+interface ReviewDocument {
+  documentId: string;
+  documentName: string;
+  documentType: string;
+  uploadedDate: string;
+  processingError?: string | null;
+  pageRangeStart?: number | null;
+  pageRangeEnd?: number | null;
+  fieldsToReview: number;
+}
+
+export default function ReviewQueuePage() {
+  const [documents, setDocuments] = useState<ReviewDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const loadQueue = async () => {
+    try {
+      const response = await fetchWithAuth('/api/review');
+      if (response.ok) {
+        const data = await response.json();
+        setDocuments(data.documents || []);
+      }
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-lg font-semibold text-foreground">Review Queue</h1>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Extractions held for review before their invoices and contracts are processed
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-3">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Document</TableHead>
+                  <TableHead className="text-xs">Type</TableHead>
+                  <TableHead className="text-xs">Uploaded</TableHead>
+                  <TableHead className="text-xs">Fields to Review</TableHead>
+                  <TableHead className="text-xs">Reason</TableHead>
+                  <TableHead className="text-xs">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {documents.map((doc) => (
+                  <TableRow key={doc.documentId}>
+                    <TableCell className="py-2.5">
+                      <div className="flex items-center gap-2">
+                        <FileText className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-xs font-medium">{doc.documentName}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="py-2.5">
+                      <Badge variant="outline" className="text-xs">
+                        {doc.documentType}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="py-2.5 text-xs text-muted-foreground">
+                      {new Date(doc.uploadedDate).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="py-2.5">
+                      <Badge variant={doc.fieldsToReview > 0 ? 'secondary' : 'outline'} className="text-xs">
+                        {doc.fieldsToReview}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="py-2.5 text-xs text-muted-foreground max-w-xs truncate">
+                      {doc.processingError || '-'}
+                    </TableCell>
+                    <TableCell className="py-2.5">
+                      <Button size="sm" variant="ghost" className="px-2 text-xs" asChild>
+                        <Link href={`/review/${doc.documentId}`}>
+                          <ClipboardCheck className="h-3 w-3 mr-1" />
+                          Review
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {documents.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="px-6 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center">
+                        <ClipboardCheck className="h-8 w-8 text-muted-foreground mb-2" />
+                        <p className="text-xs font-medium text-foreground mb-0.5">Nothing to review</p>
+                        <p className="text-xs text-muted-foreground">Low-confidence extractions will appear here</p>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
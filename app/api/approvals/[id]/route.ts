@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { authenticateRequest } from '@/lib/middleware/auth';
+import { applyDecisionToVolume } from '@/lib/approval-workflow';
 import { z } from 'zod';
 
 const approveRequestSchema = z.object({
@@ -55,6 +56,12 @@ export async function PATCH(
       },
     });
 
+    await applyDecisionToVolume(
+      approval.invoiceId,
+      approval.currentStatus,
+      updatedApproval.currentStatus
+    );
+
     // Create history entry
     await prisma.invoiceApprovalHistory.create({
       data: {
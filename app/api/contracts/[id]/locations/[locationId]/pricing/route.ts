@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { z } from 'zod';
+import { locationSpecificPricingSchema } from '@/lib/location-pricing';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; locationId: string } }
+) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('contracts:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const data = locationSpecificPricingSchema.parse(body);
+
+    const contractLocation = await prisma.contractLocation.findUnique({
+      where: {
+        contractId_locationId: { contractId: params.id, locationId: params.locationId },
+      },
+    });
+
+    if (!contractLocation) {
+      return NextResponse.json({ error: 'Contract location not found' }, { status: 404 });
+    }
+
+    // Overrides may only reference billable items on this contract
+    const itemIds = Object.keys(data.items);
+    if (itemIds.length > 0) {
+      const contractItems = await prisma.billableItem.count({
+        where: { contractId: params.id, itemId: { in: itemIds } },
+      });
+      if (contractItems !== itemIds.length) {
+        return NextResponse.json(
+          { error: 'Overrides reference billable items that are not on this contract' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updated = await prisma.contractLocation.update({
+      where: {
+        contractId_locationId: { contractId: params.id, locationId: params.locationId },
+      },
+      data: { locationSpecificPricing: data },
+      include: { location: true },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update location pricing error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
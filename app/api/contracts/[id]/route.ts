@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { authenticateRequest } from '@/lib/middleware/auth';
 import { z } from 'zod';
+import { validationConfigSchema } from '@/lib/validation-rule-registry';
 
 const updateContractSchema = z.object({
   parentContractId: z.string().uuid().optional().nullable(),
@@ -19,7 +20,7 @@ const updateContractSchema = z.object({
   currency: z.string().length(3).optional(),
   contractStatus: z.string().optional(),
   version: z.string().optional().nullable(),
-  validationConfig: z.any().optional(),
+  validationConfig: validationConfigSchema.optional(),
   externalIds: z.any().optional(),
   legalTerms: z.any().optional(),
   serviceRequirements: z.any().optional(),
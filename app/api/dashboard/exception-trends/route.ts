@@ -21,7 +21,9 @@ export async function GET(request: NextRequest) {
 
     const exceptions = await prisma.validationException.findMany({
       where: {
+        advisory: false,
         validation: {
+          supersededById: null,
           validationDate: { gte: ninetyDaysAgo },
         },
       },
@@ -18,6 +18,8 @@ export async function GET(request: NextRequest) {
     // Get top exceptions ordered by: severity (High > Medium > Low), due date, impact
     const exceptions = await prisma.validationException.findMany({
       where: {
+        advisory: false,
+        validation: { supersededById: null },
         resolved: false,
       },
       include: {
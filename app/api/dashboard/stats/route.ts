@@ -25,9 +25,11 @@ export async function GET(request: NextRequest) {
     // Today's prevented overpayments (exceptions created today with variance)
     const todayExceptions = await prisma.validationException.findMany({
       where: {
+        advisory: false,
         resolved: false,
         varianceAmount: { not: null },
         validation: {
+          supersededById: null,
           validationDate: { gte: today },
         },
       },
@@ -44,9 +46,11 @@ export async function GET(request: NextRequest) {
     // Month-to-date prevented
     const monthExceptions = await prisma.validationException.findMany({
       where: {
+        advisory: false,
         resolved: false,
         varianceAmount: { not: null },
         validation: {
+          supersededById: null,
           validationDate: { gte: startOfMonth },
         },
       },
@@ -130,6 +134,8 @@ export async function GET(request: NextRequest) {
     // Open exceptions over $10k
     const openExceptionsOver10k = await prisma.validationException.count({
       where: {
+        advisory: false,
+        validation: { supersededById: null },
         resolved: false,
         varianceAmount: { gte: new Decimal(10000) },
       },
@@ -138,9 +144,11 @@ export async function GET(request: NextRequest) {
     // Previous period exceptions over $10k (last month)
     const previousExceptionsOver10k = await prisma.validationException.count({
       where: {
+        advisory: false,
         resolved: false,
         varianceAmount: { gte: new Decimal(10000) },
         validation: {
+          supersededById: null,
           validationDate: { gte: lastMonth, lt: startOfMonth },
         },
       },
@@ -149,9 +157,11 @@ export async function GET(request: NextRequest) {
     // Savings waterfall by exception type
     const allExceptions = await prisma.validationException.findMany({
       where: {
+        advisory: false,
         resolved: false,
         varianceAmount: { not: null },
         validation: {
+          supersededById: null,
           validationDate: { gte: startOfYear },
         },
       },
@@ -248,6 +258,8 @@ export async function GET(request: NextRequest) {
     // Critical exceptions count (High severity, unresolved)
     const criticalExceptionsCount = await prisma.validationException.count({
       where: {
+        advisory: false,
+        validation: { supersededById: null },
         resolved: false,
         severity: 'High',
       },
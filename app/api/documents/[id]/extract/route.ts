@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { authenticateRequest } from '@/lib/middleware/auth';
 import { extractContractData, extractInvoiceData, storeExtractionResults } from '@/lib/ai-extraction';
-import { extractTextFromPDF } from '@/lib/ocr';
+import { extractTextWithCoordinates } from '@/lib/ocr';
+import { sliceOCRResult } from '@/lib/document-splitting';
+import { parseCacheMode } from '@/lib/extraction-cache';
 import { join } from 'path';
 
 export async function POST(
@@ -20,6 +22,12 @@ export async function POST(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
+    // ?cache=refresh calls the model again; ?cache=replay only uses stored responses
+    const cacheMode = parseCacheMode(request.nextUrl.searchParams.get('cache'));
+    if (!cacheMode) {
+      return NextResponse.json({ error: 'Invalid cache mode' }, { status: 400 });
+    }
+
     const document = await prisma.documentMetadata.findUnique({
       where: { documentId: params.id },
     });
@@ -44,14 +52,29 @@ export async function POST(
 
     // Get OCR text - documentUrl is like /uploads/filename, files are in public/uploads
     const filepath = join(process.cwd(), 'public', document.documentUrl);
-    const ocrResult = await extractTextFromPDF(filepath);
+    // Invoices split out of a batch only cover their own pages of the shared file
+    const ocrResult = sliceOCRResult(
+      await extractTextWithCoordinates(filepath),
+      document.pageRangeStart,
+      document.pageRangeEnd
+    );
 
     // Perform AI extraction based on document type
     let extractionResult;
     if (document.documentType === 'contract') {
-      extractionResult = await extractContractData(ocrResult.text, params.id, ocrResult.totalPages);
+      extractionResult = await extractContractData(
+        ocrResult.text,
+        params.id,
+        ocrResult.totalPages,
+        { pages: ocrResult.pages, fileHash: document.fileHash, cacheMode }
+      );
     } else if (document.documentType === 'invoice') {
-      extractionResult = await extractInvoiceData(ocrResult.text, params.id, ocrResult.totalPages);
+      extractionResult = await extractInvoiceData(
+        ocrResult.text,
+        params.id,
+        ocrResult.totalPages,
+        { pages: ocrResult.pages, fileHash: document.fileHash, cacheMode }
+      );
     } else {
       return NextResponse.json(
         { error: 'Unsupported document type for extraction' },
@@ -62,7 +85,12 @@ export async function POST(
     // Even if extraction partially failed, store what we have
     if (!extractionResult.success && extractionResult.data) {
       // Partial extraction - still store the data
-      await storeExtractionResults(params.id, extractionResult, ocrResult.totalPages);
+      await storeExtractionResults(
+        params.id,
+        extractionResult,
+        ocrResult.totalPages,
+        ocrResult.pages
+      );
       await prisma.documentMetadata.update({
         where: { documentId: params.id },
         data: {
@@ -87,7 +115,12 @@ export async function POST(
     }
 
     // Store extraction results with provenance
-    await storeExtractionResults(params.id, extractionResult, ocrResult.totalPages);
+    await storeExtractionResults(
+      params.id,
+      extractionResult,
+      ocrResult.totalPages,
+      ocrResult.pages
+    );
 
     // Update document metadata
     await prisma.documentMetadata.update({
@@ -97,11 +130,30 @@ export async function POST(
       },
     });
 
+    // Output that still doesn't match the extraction schema after repair is held for review
+    if (extractionResult.schemaErrors?.length) {
+      await prisma.documentMetadata.update({
+        where: { documentId: params.id },
+        data: {
+          processingStatus: 'needs_review',
+          processingError: `Extraction needs review: ${extractionResult.schemaErrors.join('; ')}`,
+        },
+      });
+
+      return NextResponse.json({
+        message: 'Extraction needs review',
+        data: extractionResult.data,
+        confidence: extractionResult.confidence,
+        schemaErrors: extractionResult.schemaErrors,
+        warning: 'The extracted data does not match the expected schema and was not normalized.',
+      });
+    }
+
     // Normalize data (create database entities from extraction)
     if (extractionResult.success && extractionResult.data) {
       const { normalizeContractData, normalizeInvoiceData } = await import('@/lib/data-normalization');
       try {
-        let entityId: string;
+        let entityId: string | undefined;
         if (document.documentType === 'contract') {
           entityId = await normalizeContractData(extractionResult.data, params.id, user.userId);
           // Link extraction records to contract
@@ -117,6 +169,13 @@ export async function POST(
             data: { invoiceId: entityId },
           });
         }
+
+        // Entities from low-confidence extractions are held until reviewed
+        const { reviewHoldReason, holdForReview } = await import('@/lib/extraction-review');
+        const holdReason = entityId ? await reviewHoldReason(params.id, extractionResult) : null;
+        if (entityId && holdReason) {
+          await holdForReview(params.id, document.documentType, entityId, holdReason);
+        }
       } catch (normalizeError) {
         console.error('Error normalizing data:', normalizeError);
         // Don't fail the extraction if normalization fails - data is still extracted
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { authenticateRequest } from '@/lib/middleware/auth';
 import { normalizeContractData, normalizeInvoiceData } from '@/lib/data-normalization';
+import { latestExtractedFields } from '@/lib/ai-extraction';
 
 export async function POST(
   request: NextRequest,
@@ -35,10 +36,7 @@ export async function POST(
 
     // Get extraction data
     const extractions = await prisma.documentExtractionData.findMany({
-      where: {
-        documentId: params.id,
-        entityType: 'extracted_field',
-      },
+      where: await latestExtractedFields(params.id),
     });
 
     // Reconstruct the extracted JSON object
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { authenticateRequest } from '@/lib/middleware/auth';
 import { extractTextWithCoordinates } from '@/lib/ocr';
+import { sliceOCRResult } from '@/lib/document-splitting';
 import { join } from 'path';
 
 export async function POST(
@@ -37,8 +38,12 @@ export async function POST(
     // Extract filepath from URL - documentUrl is like /uploads/filename, files are in public/uploads
     const filepath = join(process.cwd(), 'public', document.documentUrl);
 
-    // Perform OCR extraction
-    const ocrResult = await extractTextWithCoordinates(filepath);
+    // Perform OCR extraction; invoices split out of a batch only cover their own pages
+    const ocrResult = sliceOCRResult(
+      await extractTextWithCoordinates(filepath),
+      document.pageRangeStart,
+      document.pageRangeEnd
+    );
 
     // Update document metadata
     await prisma.documentMetadata.update({
@@ -25,6 +25,9 @@ export async function GET(
         documentExtractions: {
           orderBy: { sourcePageNumber: 'asc' },
         },
+        childDocuments: {
+          orderBy: { pageRangeStart: 'asc' },
+        },
       },
     });
 
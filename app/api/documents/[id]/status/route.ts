@@ -1,6 +1,68 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { authenticateRequest } from '@/lib/middleware/auth';
+import { DocumentMetadata } from '@prisma/client';
+
+function documentProgress(document: DocumentMetadata) {
+  // Calculate progress based on processing status
+  let progress = 0;
+  let stage = 'uploaded';
+
+  if (document.processingStatus === 'uploaded') {
+    progress = 10;
+    stage = 'Uploaded';
+  } else if (document.processingStatus === 'ocr') {
+    progress = 30;
+    stage = 'Running OCR';
+  } else if (document.processingStatus === 'type_validation') {
+    progress = 40;
+    stage = 'Validating document type';
+  } else if (document.processingStatus === 'extraction') {
+    progress = 50;
+    stage = 'Extracting data';
+  } else if (document.processingStatus === 'normalization') {
+    progress = 70;
+    stage = 'Normalizing data';
+  } else if (document.processingStatus === 'validation') {
+    progress = 90;
+    stage = 'Running validation';
+  } else if (document.processingStatus === 'needs_review') {
+    progress = 60;
+    stage = 'Needs Review';
+  } else if (document.processingStatus === 'completed') {
+    progress = 100;
+    stage = 'Complete';
+  } else if (document.processingStatus === 'error' || document.processingStatus === 'validation_error') {
+    progress = document.processingStatus === 'validation_error' ? 95 : 0;
+    stage = document.processingStatus === 'validation_error' ? 'Validation Error' : 'Error';
+  } else {
+    // Fallback: calculate based on completion flags
+    if (document.ocrCompleted && !document.extractionCompleted) {
+      progress = 30;
+      stage = 'OCR Complete';
+    } else if (document.extractionCompleted && !document.validationCompleted) {
+      progress = 60;
+      stage = 'Extraction Complete';
+    } else if (document.validationCompleted) {
+      progress = 100;
+      stage = 'Complete';
+    } else {
+      progress = 10;
+      stage = 'Uploaded';
+    }
+  }
+
+  const status =
+    document.processingStatus === 'completed'
+      ? 'completed'
+      : document.processingStatus === 'error'
+      ? 'error'
+      : document.processingStatus === 'needs_review'
+      ? 'review'
+      : 'processing';
+
+  return { status, progress, stage };
+}
 
 export async function GET(
   request: NextRequest,
@@ -19,59 +81,65 @@ export async function GET(
 
     const document = await prisma.documentMetadata.findUnique({
       where: { documentId: params.id },
+      include: {
+        childDocuments: {
+          orderBy: { pageRangeStart: 'asc' },
+        },
+      },
     });
 
     if (!document) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Calculate progress based on processing status
-    let progress = 0;
-    let stage = 'uploaded';
+    // A batch split into several invoices is finished once every invoice in it is
+    if (document.childDocuments.length > 0) {
+      const splits = document.childDocuments.map((child) => ({
+        documentId: child.documentId,
+        documentName: child.documentName,
+        pageRangeStart: child.pageRangeStart,
+        pageRangeEnd: child.pageRangeEnd,
+        processingStatus: child.processingStatus || 'uploaded',
+        ...documentProgress(child),
+        error: child.processingError || null,
+      }));
+      // Invoices whose validation failed are done processing and wait on a person, like review
+      const reviewed = splits.filter(
+        (split) => split.status === 'review' || split.processingStatus === 'validation_error'
+      ).length;
+      const failed = splits.filter((split) => split.status === 'error').length;
+      const completed = splits.filter((split) => split.status === 'completed').length;
+      const finished = completed + failed + reviewed;
 
-    if (document.processingStatus === 'uploaded') {
-      progress = 10;
-      stage = 'Uploaded';
-    } else if (document.processingStatus === 'ocr') {
-      progress = 30;
-      stage = 'Running OCR';
-    } else if (document.processingStatus === 'type_validation') {
-      progress = 40;
-      stage = 'Validating document type';
-    } else if (document.processingStatus === 'extraction') {
-      progress = 50;
-      stage = 'Extracting data';
-    } else if (document.processingStatus === 'normalization') {
-      progress = 70;
-      stage = 'Normalizing data';
-    } else if (document.processingStatus === 'validation') {
-      progress = 90;
-      stage = 'Running validation';
-    } else if (document.processingStatus === 'completed') {
-      progress = 100;
-      stage = 'Complete';
-    } else if (document.processingStatus === 'error' || document.processingStatus === 'validation_error') {
-      progress = document.processingStatus === 'validation_error' ? 95 : 0;
-      stage = document.processingStatus === 'validation_error' ? 'Validation Error' : 'Error';
-    } else {
-      // Fallback: calculate based on completion flags
-      if (document.ocrCompleted && !document.extractionCompleted) {
-        progress = 30;
-        stage = 'OCR Complete';
-      } else if (document.extractionCompleted && !document.validationCompleted) {
-        progress = 60;
-        stage = 'Extraction Complete';
-      } else if (document.validationCompleted) {
-        progress = 100;
-        stage = 'Complete';
-      } else {
-        progress = 10;
-        stage = 'Uploaded';
-      }
+      return NextResponse.json({
+        status:
+          finished < splits.length
+            ? 'processing'
+            : failed === splits.length
+            ? 'error'
+            : failed + reviewed > 0
+            ? 'review'
+            : 'completed',
+        progress: Math.round(
+          splits.reduce((sum, split) => sum + split.progress, 0) / splits.length
+        ),
+        stage:
+          finished < splits.length
+            ? `Processing invoice ${finished + 1} of ${splits.length}`
+            : `Split into ${splits.length} invoices`,
+        ocrCompleted: document.ocrCompleted || false,
+        extractionCompleted: finished === splits.length,
+        validationCompleted: completed === splits.length,
+        processingStatus: document.processingStatus || 'split',
+        error: failed > 0 ? `${failed} of ${splits.length} invoices failed to process` : null,
+        splits,
+      });
     }
 
+    const { status, progress, stage } = documentProgress(document);
+
     return NextResponse.json({
-      status: document.processingStatus === 'completed' ? 'completed' : document.processingStatus === 'error' ? 'error' : 'processing',
+      status,
       progress,
       stage,
       ocrCompleted: document.ocrCompleted || false,
@@ -21,7 +21,8 @@ export async function GET(request: NextRequest) {
     const documentType = searchParams.get('documentType');
     const search = searchParams.get('search');
 
-    const where: any = {};
+    // Invoices split out of a batch are listed under their parent
+    const where: any = { parentDocumentId: null };
 
     if (documentType) {
       where.documentType = documentType;
@@ -37,6 +38,11 @@ export async function GET(request: NextRequest) {
         skip,
         take: limit,
         orderBy: { uploadedDate: 'desc' },
+        include: {
+          childDocuments: {
+            orderBy: { pageRangeStart: 'asc' },
+          },
+        },
       }),
       prisma.documentMetadata.count({ where }),
     ]);
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { authenticateRequest } from '@/lib/middleware/auth';
 import { saveFile, generateFileHash, generateUniqueFilename } from '@/lib/storage';
+import { IMAGE_EXTENSIONS, OCRResult } from '@/lib/ocr';
+import { DocumentMetadata } from '@prisma/client';
 import { IncomingForm } from 'formidable';
 import { readFileSync } from 'fs';
 
@@ -14,7 +16,7 @@ async function processDocumentPipeline(documentId: string, userId: string, filen
       data: { processingStatus: 'ocr' },
     });
 
-    const { extractTextFromPDF } = await import('@/lib/ocr');
+    const { extractTextWithCoordinates } = await import('@/lib/ocr');
     const document = await prisma.documentMetadata.findUnique({
       where: { documentId },
     });
@@ -32,7 +34,7 @@ async function processDocumentPipeline(documentId: string, userId: string, filen
     
     let ocrResult;
     try {
-      ocrResult = await extractTextFromPDF(filepath);
+      ocrResult = await extractTextWithCoordinates(filepath);
     } catch (ocrError) {
       const errorMessage = ocrError instanceof Error ? ocrError.message : 'OCR failed';
       await prisma.documentMetadata.update({
@@ -62,7 +64,7 @@ async function processDocumentPipeline(documentId: string, userId: string, filen
     const { detectDocumentType } = await import('@/lib/ai-extraction');
     let typeDetectionResult;
     try {
-      typeDetectionResult = await detectDocumentType(ocrResult.text);
+      typeDetectionResult = await detectDocumentType(ocrResult.text, document.fileHash);
     } catch (detectionError) {
       const errorMessage = detectionError instanceof Error ? detectionError.message : 'Type detection failed';
       await prisma.documentMetadata.update({
@@ -97,159 +99,236 @@ async function processDocumentPipeline(documentId: string, userId: string, filen
       throw new Error(errorMessage);
     }
 
-    // Step 3: AI Extraction
+    // Multi-invoice batches are split into one child document per invoice, each extracted
+    // and normalized on its own
+    if (document.documentType === 'invoice' && ocrResult.totalPages > 1) {
+      const { detectInvoiceBoundaries, createSplitDocuments, sliceOCRResult } = await import('@/lib/document-splitting');
+      const segments = detectInvoiceBoundaries(ocrResult.pages);
+      if (segments.length > 1) {
+        const children = await createSplitDocuments(document, segments);
+        for (const child of children) {
+          // One bad invoice shouldn't stop the rest of the batch
+          try {
+            await processExtractionPipeline(
+              child,
+              userId,
+              sliceOCRResult(ocrResult, child.pageRangeStart, child.pageRangeEnd)
+            );
+          } catch (childError) {
+            await markPipelineError(child.documentId, childError);
+          }
+        }
+        return;
+      }
+    }
+
+    await processExtractionPipeline(document, userId, ocrResult);
+  } catch (error) {
+    await markPipelineError(documentId, error);
+    // Don't re-throw - error is logged and status is updated
+  }
+}
+
+// Extraction, normalization and validation of one invoice or contract. Throws after
+// recording the failed step on the document.
+async function processExtractionPipeline(document: DocumentMetadata, userId: string, ocrResult: OCRResult) {
+  const { documentId } = document;
+
+  // Step 3: AI Extraction
+  await prisma.documentMetadata.update({
+    where: { documentId },
+    data: { processingStatus: 'extraction' },
+  });
+
+  const { extractContractData, extractInvoiceData, storeExtractionResults } = await import('@/lib/ai-extraction');
+  let extractionResult;
+  try {
+    if (document.documentType === 'contract') {
+      extractionResult = await extractContractData(
+        ocrResult.text,
+        documentId,
+        ocrResult.totalPages,
+        { pages: ocrResult.pages, fileHash: document.fileHash }
+      );
+    } else if (document.documentType === 'invoice') {
+      extractionResult = await extractInvoiceData(
+        ocrResult.text,
+        documentId,
+        ocrResult.totalPages,
+        { pages: ocrResult.pages, fileHash: document.fileHash }
+      );
+    } else {
+      throw new Error(`Unsupported document type: ${document.documentType}`);
+    }
+  } catch (extractionError) {
+    const errorMessage = extractionError instanceof Error ? extractionError.message : 'Extraction failed';
     await prisma.documentMetadata.update({
       where: { documentId },
-      data: { processingStatus: 'extraction' },
+      data: { 
+        processingStatus: 'error',
+        processingError: `Extraction failed: ${errorMessage}`,
+      },
     });
+    throw new Error(`Extraction failed: ${errorMessage}`);
+  }
 
-    const { extractContractData, extractInvoiceData, storeExtractionResults } = await import('@/lib/ai-extraction');
-    let extractionResult;
-    try {
-      if (document.documentType === 'contract') {
-        extractionResult = await extractContractData(ocrResult.text, documentId, ocrResult.totalPages);
-      } else if (document.documentType === 'invoice') {
-        extractionResult = await extractInvoiceData(ocrResult.text, documentId, ocrResult.totalPages);
-      } else {
-        throw new Error(`Unsupported document type: ${document.documentType}`);
-      }
-    } catch (extractionError) {
-      const errorMessage = extractionError instanceof Error ? extractionError.message : 'Extraction failed';
-      await prisma.documentMetadata.update({
+  if (!extractionResult.success || !extractionResult.data) {
+    const errorMessage = extractionResult.errors?.join(', ') || 'Extraction failed or returned no data';
+    await prisma.documentMetadata.update({
+      where: { documentId },
+      data: { 
+        processingStatus: 'error',
+        processingError: errorMessage,
+      },
+    });
+    throw new Error(errorMessage);
+  }
+
+  // Step 4: Store extraction results with provenance
+  try {
+    await storeExtractionResults(
+      documentId,
+      extractionResult,
+      ocrResult.totalPages,
+      ocrResult.pages
+    );
+  } catch (storeError) {
+    console.error('Error storing extraction results:', storeError);
+    // Non-fatal - continue with normalization
+  }
+
+  await prisma.documentMetadata.update({
+    where: { documentId },
+    data: { extractionCompleted: true },
+  });
+
+  // Output that still doesn't match the extraction schema after repair is held for review
+  // instead of being normalized
+  if (extractionResult.schemaErrors?.length) {
+    await prisma.documentMetadata.update({
+      where: { documentId },
+      data: {
+        processingStatus: 'needs_review',
+        processingError: `Extraction needs review: ${extractionResult.schemaErrors.join('; ')}`,
+      },
+    });
+    return;
+  }
+
+  // Step 5: Normalize data (create database entities)
+  await prisma.documentMetadata.update({
+    where: { documentId },
+    data: { processingStatus: 'normalization' },
+  });
+
+  const { normalizeContractData, normalizeInvoiceData } = await import('@/lib/data-normalization');
+  let entityId: string;
+
+  // Low-confidence extractions are still normalized, but the entity is held for review
+  const { reviewHoldReason, holdForReview } = await import('@/lib/extraction-review');
+  const holdReason = await reviewHoldReason(documentId, extractionResult);
+  
+  try {
+    if (document.documentType === 'contract' && extractionResult.data) {
+      entityId = await normalizeContractData(extractionResult.data, documentId, userId);
+      
+      // Link extraction records to contract
+      await prisma.documentExtractionData.updateMany({
         where: { documentId },
-        data: { 
-          processingStatus: 'error',
-          processingError: `Extraction failed: ${errorMessage}`,
-        },
+        data: { contractId: entityId },
       });
-      throw new Error(`Extraction failed: ${errorMessage}`);
-    }
 
-    if (!extractionResult.success || !extractionResult.data) {
-      const errorMessage = extractionResult.errors?.join(', ') || 'Extraction failed or returned no data';
+      if (holdReason) {
+        await holdForReview(documentId, document.documentType, entityId, holdReason);
+        return;
+      }
+      
+      // Mark contract normalization as completed
       await prisma.documentMetadata.update({
         where: { documentId },
         data: { 
-          processingStatus: 'error',
-          processingError: errorMessage,
+          validationCompleted: true, // For contracts, normalization completion = validation completion
         },
       });
-      throw new Error(errorMessage);
-    }
-
-    // Step 4: Store extraction results with provenance
-    try {
-      await storeExtractionResults(documentId, extractionResult, ocrResult.totalPages);
-    } catch (storeError) {
-      console.error('Error storing extraction results:', storeError);
-      // Non-fatal - continue with normalization
-    }
+    } else if (document.documentType === 'invoice' && extractionResult.data) {
+      entityId = await normalizeInvoiceData(extractionResult.data, documentId, userId);
+      
+      // Link extraction records to invoice
+      await prisma.documentExtractionData.updateMany({
+        where: { documentId },
+        data: { invoiceId: entityId },
+      });
 
-    await prisma.documentMetadata.update({
-      where: { documentId },
-      data: { extractionCompleted: true },
-    });
+      if (holdReason) {
+        await holdForReview(documentId, document.documentType, entityId, holdReason);
+        return;
+      }
 
-    // Step 5: Normalize data (create database entities)
-    await prisma.documentMetadata.update({
-      where: { documentId },
-      data: { processingStatus: 'normalization' },
-    });
+      // Step 5: Run validation engine for invoices
+      await prisma.documentMetadata.update({
+        where: { documentId },
+        data: { processingStatus: 'validation' },
+      });
 
-    const { normalizeContractData, normalizeInvoiceData } = await import('@/lib/data-normalization');
-    let entityId: string;
-    
-    try {
-      if (document.documentType === 'contract' && extractionResult.data) {
-        entityId = await normalizeContractData(extractionResult.data, documentId, userId);
+      try {
+        // Use runInvoiceValidation which handles the full validation flow
+        // including exceptions and approval requests
+        const { runInvoiceValidation } = await import('@/lib/validation-orchestration');
+        await runInvoiceValidation(entityId, userId);
         
-        // Link extraction records to contract
-        await prisma.documentExtractionData.updateMany({
+        await prisma.documentMetadata.update({
           where: { documentId },
-          data: { contractId: entityId },
+          data: { validationCompleted: true },
         });
-        
-        // Mark contract normalization as completed
+      } catch (validationError) {
+        console.error('Validation error (non-fatal):', validationError);
+        // Update status but don't fail the pipeline - validation can be retried later
         await prisma.documentMetadata.update({
           where: { documentId },
           data: { 
-            validationCompleted: true, // For contracts, normalization completion = validation completion
+            processingStatus: 'validation_error',
+            processingError: validationError instanceof Error ? validationError.message : 'Validation failed',
           },
         });
-      } else if (document.documentType === 'invoice' && extractionResult.data) {
-        entityId = await normalizeInvoiceData(extractionResult.data, documentId, userId);
-        
-        // Link extraction records to invoice
-        await prisma.documentExtractionData.updateMany({
-          where: { documentId },
-          data: { invoiceId: entityId },
-        });
-
-        // Step 5: Run validation engine for invoices
-        await prisma.documentMetadata.update({
-          where: { documentId },
-          data: { processingStatus: 'validation' },
-        });
-
-        try {
-          // Use runInvoiceValidation which handles the full validation flow
-          // including exceptions and approval requests
-          const { runInvoiceValidation } = await import('@/lib/validation-orchestration');
-          await runInvoiceValidation(entityId, userId);
-          
-          await prisma.documentMetadata.update({
-            where: { documentId },
-            data: { validationCompleted: true },
-          });
-        } catch (validationError) {
-          console.error('Validation error (non-fatal):', validationError);
-          // Update status but don't fail the pipeline - validation can be retried later
-          await prisma.documentMetadata.update({
-            where: { documentId },
-            data: { 
-              processingStatus: 'validation_error',
-              processingError: validationError instanceof Error ? validationError.message : 'Validation failed',
-            },
-          });
-          // Don't throw - allow pipeline to continue
-        }
-      } else {
-        throw new Error(`Cannot normalize: document type is ${document.documentType} but no extraction data available`);
+        // Don't throw - allow pipeline to continue
       }
-    } catch (normalizeError) {
-      const errorMessage = normalizeError instanceof Error ? normalizeError.message : 'Normalization failed';
-      await prisma.documentMetadata.update({
-        where: { documentId },
-        data: { 
-          processingStatus: 'error',
-          processingError: `Normalization failed: ${errorMessage}`,
-        },
-      });
-      throw new Error(`Normalization failed: ${errorMessage}`);
+    } else {
+      throw new Error(`Cannot normalize: document type is ${document.documentType} but no extraction data available`);
     }
+  } catch (normalizeError) {
+    const errorMessage = normalizeError instanceof Error ? normalizeError.message : 'Normalization failed';
+    await prisma.documentMetadata.update({
+      where: { documentId },
+      data: { 
+        processingStatus: 'error',
+        processingError: `Normalization failed: ${errorMessage}`,
+      },
+    });
+    throw new Error(`Normalization failed: ${errorMessage}`);
+  }
 
-    // Mark as completed
+  // Mark as completed
+  await prisma.documentMetadata.update({
+    where: { documentId },
+    data: { processingStatus: 'completed' },
+  });
+}
+
+async function markPipelineError(documentId: string, error: unknown) {
+  console.error(`Error processing document ${documentId}:`, error);
+  // Update document with error status
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  try {
     await prisma.documentMetadata.update({
       where: { documentId },
-      data: { processingStatus: 'completed' },
+      data: { 
+        extractionCompleted: false,
+        processingStatus: 'error',
+        processingError: errorMessage,
+      },
     });
-  } catch (error) {
-    console.error(`Error processing document ${documentId}:`, error);
-    // Update document with error status
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    try {
-      await prisma.documentMetadata.update({
-        where: { documentId },
-        data: { 
-          extractionCompleted: false,
-          processingStatus: 'error',
-          processingError: errorMessage,
-        },
-      });
-    } catch (updateError) {
-      console.error('Failed to update document error status:', updateError);
-    }
-    // Don't re-throw - error is logged and status is updated
+  } catch (updateError) {
+    console.error('Failed to update document error status:', updateError);
   }
 }
 
@@ -280,13 +359,13 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    const allowedTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-    const allowedExtensions = ['.pdf', '.doc', '.docx'];
+    const allowedTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'image/png', 'image/jpeg', 'image/tiff'];
+    const allowedExtensions = ['.pdf', '.doc', '.docx', ...IMAGE_EXTENSIONS];
     const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
     
     if (!allowedExtensions.includes(fileExtension) && !allowedTypes.includes(file.type)) {
       return NextResponse.json(
-        { error: 'Invalid file type. Only PDF, DOC, and DOCX files are allowed' },
+        { error: 'Invalid file type. Only PDF, DOC, DOCX, PNG, JPEG, and TIFF files are allowed' },
         { status: 400 }
       );
     }
@@ -64,6 +64,9 @@ export async function GET(
             document: true,
           },
         },
+        relatedInvoice: {
+          select: { invoiceId: true, invoiceNumber: true },
+        },
       },
     });
 
@@ -21,9 +21,16 @@ export async function GET(request: NextRequest) {
     const severity = searchParams.get('severity');
     const resolved = searchParams.get('resolved');
     const invoiceId = searchParams.get('invoiceId');
+    const advisory = searchParams.get('advisory');
+    const includeSuperseded = searchParams.get('includeSuperseded') === 'true';
 
     const where: any = {};
 
+    // Exceptions of validations replaced by a re-run are history, not queue items
+    if (!includeSuperseded) {
+      where.validation = { supersededById: null };
+    }
+
     if (severity) {
       where.severity = severity;
     }
@@ -32,8 +39,13 @@ export async function GET(request: NextRequest) {
       where.resolved = resolved === 'true';
     }
 
+    if (advisory !== null) {
+      where.advisory = advisory === 'true';
+    }
+
     if (invoiceId) {
       where.validation = {
+        ...where.validation,
         invoiceId,
       };
     }
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import {
+  CONTRACT_MATCH_MARGIN,
+  CONTRACT_MATCH_THRESHOLD,
+  overrideContractMatch,
+} from '@/lib/contract-matching';
+import { z } from 'zod';
+
+const overrideSchema = z.object({
+  contractId: z.string().uuid().nullable(),
+});
+
+// The invoice's contract, how it was matched, and the contracts scored for it, best first
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('invoices:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { invoiceId: params.id },
+      include: {
+        contractMatches: {
+          orderBy: { rank: 'asc' },
+          include: {
+            contract: {
+              select: {
+                contractNumber: true,
+                contractTitle: true,
+                effectiveDate: true,
+                expirationDate: true,
+                currency: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    // Contracts that scored high enough but too close to each other to pick one automatically
+    const [best, runnerUp] = invoice.contractMatches.map((match) => Number(match.score));
+    const tied =
+      !invoice.contractId &&
+      invoice.contractMatchMethod !== 'Manual' &&
+      runnerUp !== undefined &&
+      best >= CONTRACT_MATCH_THRESHOLD &&
+      best - runnerUp < CONTRACT_MATCH_MARGIN;
+
+    return NextResponse.json({
+      contractId: invoice.contractId,
+      contractMatchMethod: invoice.contractMatchMethod,
+      contractMatchScore:
+        invoice.contractMatchScore !== null ? Number(invoice.contractMatchScore) : null,
+      tied,
+      matches: invoice.contractMatches.map((match) => ({
+        contractId: match.contractId,
+        rank: match.rank,
+        score: Number(match.score),
+        reasons: match.reasons,
+        ...match.contract,
+      })),
+    });
+  } catch (error) {
+    console.error('Get contract match error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Assigns a contract picked by a reviewer, or clears the contract with null
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('invoices:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { contractId } = overrideSchema.parse(await request.json());
+
+    const invoice = await prisma.invoice.findUnique({ where: { invoiceId: params.id } });
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    if (contractId) {
+      const contract = await prisma.contract.findUnique({ where: { contractId } });
+      if (!contract) {
+        return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+      }
+    }
+
+    await prisma.$transaction((tx) =>
+      overrideContractMatch(params.id, contractId, user.userId, tx)
+    );
+
+    return NextResponse.json({
+      message: contractId ? 'Contract assigned' : 'Contract cleared',
+      contractId,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Override contract match error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
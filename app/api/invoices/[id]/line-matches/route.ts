@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import {
+  LineItemMatchError,
+  confirmLineItemMatch,
+  rejectLineItemMatch,
+} from '@/lib/line-item-matching';
+import { z } from 'zod';
+
+const reviewSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('confirm'),
+    lineItemId: z.string().uuid(),
+    billableItemId: z.string().uuid(),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    matchId: z.string().uuid(),
+  }),
+]);
+
+// Each line with its match and pending suggestion, and the contract's billable items to pick
+// from
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('invoices:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { invoiceId: params.id },
+      include: {
+        invoiceLineItems: {
+          orderBy: { lineNumber: 'asc' },
+          include: {
+            lineItemMatches: {
+              where: { matchStatus: { not: 'Rejected' } },
+              orderBy: { matchedDate: 'desc' },
+              include: { billableItem: { select: { itemName: true, sku: true } } },
+            },
+          },
+        },
+        contract: {
+          select: {
+            billableItems: {
+              select: { itemId: true, itemName: true, sku: true, catalogNumber: true },
+              orderBy: { itemName: 'asc' },
+            },
+          },
+        },
+      },
+    });
+
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      lines: invoice.invoiceLineItems.map((line) => {
+        const match = line.lineItemMatches[0];
+        return {
+          lineItemId: line.lineItemId,
+          lineNumber: line.lineNumber,
+          description: line.description,
+          billableItemId: line.billableItemId,
+          match: match
+            ? {
+                matchId: match.matchId,
+                billableItemId: match.billableItemId,
+                itemName: match.billableItem.itemName,
+                sku: match.billableItem.sku,
+                matchConfidence: Number(match.matchConfidence),
+                matchMethod: match.matchMethod,
+                matchStatus: match.matchStatus,
+                matchScoreBreakdown: match.matchScoreBreakdown,
+              }
+            : null,
+        };
+      }),
+      billableItems: invoice.contract?.billableItems || [],
+    });
+  } catch (error) {
+    console.error('Get line item matches error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Confirming matches the line to the item and remembers its description as an alias
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('invoices:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const review = reviewSchema.parse(await request.json());
+
+    // The line or match must belong to this invoice
+    const owned =
+      review.action === 'confirm'
+        ? await prisma.invoiceLineItem.findFirst({
+            where: { lineItemId: review.lineItemId, invoiceId: params.id },
+          })
+        : await prisma.lineItemMatch.findFirst({
+            where: { matchId: review.matchId, lineItem: { invoiceId: params.id } },
+          });
+    if (!owned) {
+      return NextResponse.json({ error: 'Line item not found' }, { status: 404 });
+    }
+
+    await prisma.$transaction((tx) =>
+      review.action === 'confirm'
+        ? confirmLineItemMatch(review.lineItemId, review.billableItemId, user.userId, tx)
+        : rejectLineItemMatch(review.matchId, user.userId, tx)
+    );
+
+    return NextResponse.json({
+      message: review.action === 'confirm' ? 'Line item matched' : 'Match rejected',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof LineItemMatchError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Review line item match error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
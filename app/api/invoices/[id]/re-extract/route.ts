@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { authenticateRequest } from '@/lib/middleware/auth';
 import { extractInvoiceData, storeExtractionResults } from '@/lib/ai-extraction';
-import { extractTextFromPDF } from '@/lib/ocr';
+import { extractTextWithCoordinates } from '@/lib/ocr';
+import { sliceOCRResult } from '@/lib/document-splitting';
 import { normalizeInvoiceData } from '@/lib/data-normalization';
+import { holdForReview, reviewHoldReason } from '@/lib/extraction-review';
+import { parseCacheMode } from '@/lib/extraction-cache';
+import { runInvoiceValidation } from '@/lib/validation-orchestration';
 import { join } from 'path';
 
 export async function POST(
@@ -21,6 +25,13 @@ export async function POST(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
+    // Stored model responses are reused unless ?cache=refresh. ?cache=replay re-runs
+    // normalization and validation from stored responses without calling the model.
+    const cacheMode = parseCacheMode(request.nextUrl.searchParams.get('cache'));
+    if (!cacheMode) {
+      return NextResponse.json({ error: 'Invalid cache mode' }, { status: 400 });
+    }
+
     // Get invoice and its source document
     const invoice = await prisma.invoice.findUnique({
       where: { invoiceId: params.id },
@@ -49,13 +60,18 @@ export async function POST(
 
     // Re-run OCR
     const filepath = join(process.cwd(), 'public', invoice.sourceDocument.documentUrl);
-    const ocrResult = await extractTextFromPDF(filepath);
+    const ocrResult = sliceOCRResult(
+      await extractTextWithCoordinates(filepath),
+      invoice.sourceDocument.pageRangeStart,
+      invoice.sourceDocument.pageRangeEnd
+    );
 
     // Re-run AI extraction
     const extractionResult = await extractInvoiceData(
       ocrResult.text,
       invoice.sourceDocument.documentId,
-      ocrResult.totalPages
+      ocrResult.totalPages,
+      { pages: ocrResult.pages, fileHash: invoice.sourceDocument.fileHash, cacheMode }
     );
 
     if (!extractionResult.success) {
@@ -72,7 +88,8 @@ export async function POST(
     await storeExtractionResults(
       invoice.sourceDocument.documentId,
       extractionResult,
-      ocrResult.totalPages
+      ocrResult.totalPages,
+      ocrResult.pages
     );
 
     // Update document status
@@ -84,20 +101,53 @@ export async function POST(
       },
     });
 
+    // Output that still doesn't match the extraction schema after repair would overwrite the
+    // invoice with incomplete values; hold it for review instead
+    if (extractionResult.schemaErrors?.length) {
+      await prisma.documentMetadata.update({
+        where: { documentId: invoice.sourceDocument.documentId },
+        data: {
+          processingStatus: 'needs_review',
+          processingError: `Extraction needs review: ${extractionResult.schemaErrors.join('; ')}`,
+        },
+      });
+
+      return NextResponse.json(
+        {
+          error: 'Extraction needs review',
+          details: extractionResult.schemaErrors,
+        },
+        { status: 422 }
+      );
+    }
+
     // Re-normalize invoice data (this will update the invoice with new extracted values)
+    let validationId: string | undefined;
     try {
-      await normalizeInvoiceData(
+      const entityId = await normalizeInvoiceData(
         extractionResult.data,
         invoice.sourceDocument.documentId,
         user.userId
       );
+
+      // A re-extraction with low-confidence fields holds the invoice for review again
+      const holdReason = await reviewHoldReason(invoice.sourceDocument.documentId, extractionResult);
+      if (holdReason) {
+        await holdForReview(invoice.sourceDocument.documentId, 'invoice', entityId, holdReason);
+      } else if (cacheMode === 'replay') {
+        validationId = await runInvoiceValidation(entityId, user.userId);
+      }
     } catch (normalizeError) {
       console.error('Normalization error (non-fatal):', normalizeError);
       // Continue even if normalization fails - extraction data is still stored
     }
 
     return NextResponse.json({
-      message: 'Invoice re-extracted successfully',
+      message:
+        cacheMode === 'replay'
+          ? 'Invoice replayed from stored extraction responses'
+          : 'Invoice re-extracted successfully',
+      validationId,
       extractionResult: {
         success: extractionResult.success,
         confidence: extractionResult.confidence,
@@ -3,6 +3,7 @@ import { prisma } from '@/lib/db';
 import { authenticateRequest } from '@/lib/middleware/auth';
 import { z } from 'zod';
 import { Decimal } from '@prisma/client/runtime/library';
+import { overrideContractMatch } from '@/lib/contract-matching';
 
 const updateInvoiceSchema = z.object({
   invoiceNumber: z.string().optional(),
@@ -11,6 +12,7 @@ const updateInvoiceSchema = z.object({
   vendorPartyId: z.string().uuid().optional(),
   customerPartyId: z.string().uuid().optional().nullable(),
   contractId: z.string().uuid().optional().nullable(),
+  serviceLocationId: z.string().uuid().optional().nullable(),
   netServiceAmount: z.number().optional(),
   taxAmount: z.number().optional().nullable(),
   shippingHandling: z.number().optional().nullable(),
@@ -134,7 +136,7 @@ export async function PATCH(
     if (data.dueDate !== undefined) updateData.dueDate = data.dueDate;
     if (data.vendorPartyId !== undefined) updateData.vendorPartyId = data.vendorPartyId;
     if (data.customerPartyId !== undefined) updateData.customerPartyId = data.customerPartyId;
-    if (data.contractId !== undefined) updateData.contractId = data.contractId;
+    if (data.serviceLocationId !== undefined) updateData.serviceLocationId = data.serviceLocationId;
     if (data.netServiceAmount !== undefined) updateData.netServiceAmount = new Decimal(data.netServiceAmount);
     if (data.taxAmount !== undefined) updateData.taxAmount = data.taxAmount !== null ? new Decimal(data.taxAmount) : null;
     if (data.shippingHandling !== undefined) updateData.shippingHandling = data.shippingHandling !== null ? new Decimal(data.shippingHandling) : null;
@@ -144,15 +146,22 @@ export async function PATCH(
     if (data.currency !== undefined) updateData.currency = data.currency;
     if (data.currentStatus !== undefined) updateData.currentStatus = data.currentStatus;
 
-    const updatedInvoice = await prisma.invoice.update({
-      where: { invoiceId: params.id },
-      data: updateData,
-      include: {
-        vendorParty: true,
-        customerParty: true,
-        contract: true,
-        invoiceLineItems: true,
-      },
+    const updatedInvoice = await prisma.$transaction(async (tx) => {
+      // A contract set here is a reviewer's choice, so it is recorded as a manual match
+      if (data.contractId !== undefined && data.contractId !== existingInvoice.contractId) {
+        await overrideContractMatch(params.id, data.contractId, user.userId, tx);
+      }
+
+      return tx.invoice.update({
+        where: { invoiceId: params.id },
+        data: updateData,
+        include: {
+          vendorParty: true,
+          customerParty: true,
+          contract: true,
+          invoiceLineItems: true,
+        },
+      });
     });
 
     return NextResponse.json(updatedInvoice);
@@ -218,6 +227,10 @@ export async function DELETE(
         where: { invoiceId: params.id },
       });
 
+      await tx.lineItemMatch.deleteMany({
+        where: { lineItem: { invoiceId: params.id } },
+      });
+
       await tx.invoiceLineItem.deleteMany({
         where: { invoiceId: params.id },
       });
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { authenticateRequest } from '@/lib/middleware/auth';
-import { validateInvoice, validateInvoiceDeterministic } from '@/lib/validation-engine';
+import { runInvoiceValidation } from '@/lib/validation-orchestration';
 
 export async function GET(
   request: NextRequest,
@@ -61,17 +61,12 @@ export async function POST(
     }
 
     const body = await request.json().catch(() => ({}));
-    const useDeterministic = body.useDeterministic || false;
 
-    let validationId: string;
-    if (useDeterministic) {
-      validationId = await validateInvoiceDeterministic(params.id);
-    } else {
-      // Try to get validation payload from request body
-      const validationPayload = body.validationPayload;
-      const validationRequest = body.validationRequest;
-      validationId = await validateInvoice(params.id, validationPayload, validationRequest);
-    }
+    // An LLM validation payload, if supplied, is merged as advisory findings
+    const validationId = await runInvoiceValidation(params.id, user.userId, {
+      advisoryPayload: body.validationPayload,
+      requestId: body.validationRequest?.request_id,
+    });
 
     return NextResponse.json({
       validationId,
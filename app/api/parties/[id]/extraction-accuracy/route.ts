@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { vendorFieldAccuracy } from '@/lib/vendor-templates';
+
+// Extraction accuracy of a vendor's invoices by field and month, with the reviewer
+// corrections learned for the vendor
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('parties:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [accuracy, hints] = await Promise.all([
+      vendorFieldAccuracy(params.id),
+      prisma.vendorExtractionHint.findMany({
+        where: { vendorPartyId: params.id },
+        orderBy: { createdDate: 'desc' },
+        take: 20,
+      }),
+    ]);
+
+    return NextResponse.json({ accuracy, hints });
+  } catch (error) {
+    console.error('Get extraction accuracy error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -13,6 +13,8 @@ const updatePartySchema = z.object({
   cageCode: z.string().optional(),
   primaryContactEmail: z.string().email().optional(),
   primaryContactPhone: z.string().optional(),
+  address: z.string().optional(),
+  remitToAddress: z.string().optional(),
   partyStatus: z.string().optional(),
 });
 
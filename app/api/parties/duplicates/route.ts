@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { MERGED_PARTY_STATUS } from '@/lib/party-matching';
+import { MERGE_ACTION, UNDO_MERGE_ACTION, findDuplicateClusters } from '@/lib/party-merge';
+
+// Clusters of parties that may be duplicates, each with the suggested survivor first, and
+// the latest merges so they can be undone
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('parties:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const parties = await prisma.party.findMany({
+      where: { partyStatus: { not: MERGED_PARTY_STATUS } },
+      include: {
+        _count: {
+          select: { invoicesAsVendor: true, invoicesAsCustomer: true, contractParties: true },
+        },
+      },
+    });
+    const byId = new Map(parties.map((party) => [party.partyId, party]));
+
+    // Active parties with the most documents make the best survivors
+    const rank = (party: (typeof parties)[number]) =>
+      (party.partyStatus === 'Active' ? 1_000_000 : 0) +
+      party._count.invoicesAsVendor +
+      party._count.invoicesAsCustomer +
+      party._count.contractParties;
+
+    const clusters = findDuplicateClusters(parties).map((cluster) => ({
+      ...cluster,
+      parties: cluster.partyIds
+        .map((partyId) => byId.get(partyId)!)
+        .sort((a, b) => rank(b) - rank(a) || a.createdDate.getTime() - b.createdDate.getTime())
+        .map(({ _count, ...party }) => ({
+          partyId: party.partyId,
+          legalName: party.legalName,
+          tradingName: party.tradingName,
+          partyType: party.partyType,
+          partyStatus: party.partyStatus,
+          taxId: party.taxId,
+          dunsNumber: party.dunsNumber,
+          npiNumber: party.npiNumber,
+          invoiceCount: _count.invoicesAsVendor + _count.invoicesAsCustomer,
+          contractCount: _count.contractParties,
+        })),
+    }));
+
+    const merges = await prisma.auditLog.findMany({
+      where: { tableName: 'parties', action: MERGE_ACTION },
+      orderBy: { changedDate: 'desc' },
+      take: 20,
+    });
+    const undos = await prisma.auditLog.findMany({
+      where: {
+        tableName: 'parties',
+        action: UNDO_MERGE_ACTION,
+        recordId: { in: merges.map((merge) => merge.recordId) },
+      },
+    });
+    const undone = new Set(undos.map((undo) => (undo.newValues as any)?.mergeAuditId));
+    const recentMerges = merges.map((merge) => ({
+      auditId: merge.auditId,
+      mergedPartyId: merge.recordId,
+      survivorPartyId: (merge.newValues as any)?.survivorPartyId,
+      changeReason: merge.changeReason,
+      changedBy: merge.changedBy,
+      changedDate: merge.changedDate,
+      undone: undone.has(merge.auditId),
+    }));
+
+    return NextResponse.json({ clusters, recentMerges });
+  } catch (error) {
+    console.error('Get possible duplicates error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
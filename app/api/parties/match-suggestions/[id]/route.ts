@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { acceptMatchSuggestion, rejectMatchSuggestion } from '@/lib/party-matching';
+import { PartyMergeError } from '@/lib/party-merge';
+import { z } from 'zod';
+
+const reviewSchema = z.object({
+  action: z.enum(['accept', 'reject']),
+});
+
+// Accepting merges the Pending party into the suggested existing party
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('parties:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { action } = reviewSchema.parse(await request.json());
+
+    const suggestion = await prisma.partyMatchSuggestion.findUnique({
+      where: { suggestionId: params.id },
+    });
+
+    if (!suggestion) {
+      return NextResponse.json({ error: 'Suggestion not found' }, { status: 404 });
+    }
+
+    if (suggestion.status !== 'Pending') {
+      return NextResponse.json({ error: 'Suggestion was already reviewed' }, { status: 409 });
+    }
+
+    if (action === 'accept') {
+      await acceptMatchSuggestion(params.id, user.userId);
+    } else {
+      await rejectMatchSuggestion(params.id, user.userId);
+    }
+
+    return NextResponse.json({
+      message: action === 'accept' ? 'Parties merged' : 'Suggestion rejected',
+      partyId: action === 'accept' ? suggestion.candidatePartyId : suggestion.partyId,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PartyMergeError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Review party match suggestion error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
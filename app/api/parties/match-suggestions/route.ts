@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+
+const partySummary = {
+  select: {
+    partyId: true,
+    legalName: true,
+    tradingName: true,
+    taxId: true,
+    dunsNumber: true,
+    npiNumber: true,
+    partyStatus: true,
+  },
+};
+
+// Pending parties created by extraction that may be existing parties, best matches first
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('parties:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const suggestions = await prisma.partyMatchSuggestion.findMany({
+      where: { status: 'Pending' },
+      orderBy: [{ score: 'desc' }, { createdDate: 'asc' }],
+      include: {
+        party: partySummary,
+        candidateParty: partySummary,
+        document: { select: { documentId: true, documentName: true } },
+      },
+    });
+
+    return NextResponse.json({
+      suggestions: suggestions.map((suggestion) => ({
+        ...suggestion,
+        score: Number(suggestion.score),
+      })),
+    });
+  } catch (error) {
+    console.error('Get party match suggestions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
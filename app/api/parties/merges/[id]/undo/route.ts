@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { PartyMergeError, undoPartyMerge } from '@/lib/party-merge';
+
+// params.id is the merge's audit log entry
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('parties:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await undoPartyMerge(params.id, user.userId);
+
+    return NextResponse.json({ message: 'Merge undone' });
+  } catch (error) {
+    if (error instanceof PartyMergeError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Undo party merge error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
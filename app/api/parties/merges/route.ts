@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { PartyMergeError, mergeParties } from '@/lib/party-merge';
+import { z } from 'zod';
+
+const mergeSchema = z.object({
+  survivorPartyId: z.string(),
+  mergedPartyIds: z.array(z.string()).min(1),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('parties:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { survivorPartyId, mergedPartyIds } = mergeSchema.parse(await request.json());
+    const auditIds = await mergeParties(survivorPartyId, mergedPartyIds, user.userId);
+
+    return NextResponse.json({ message: 'Parties merged', survivorPartyId, auditIds });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PartyMergeError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Merge parties error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -14,6 +14,8 @@ const createPartySchema = z.object({
   cageCode: z.string().optional(),
   primaryContactEmail: z.string().email().optional(),
   primaryContactPhone: z.string().optional(),
+  address: z.string().optional(),
+  remitToAddress: z.string().optional(),
   partyStatus: z.string().default('Active'),
 });
 
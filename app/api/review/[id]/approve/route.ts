@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { approveReview } from '@/lib/extraction-review';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('documents:review')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const document = await prisma.documentMetadata.findUnique({
+      where: { documentId: params.id },
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (document.processingStatus !== 'needs_review') {
+      return NextResponse.json(
+        { error: 'Document is not awaiting review' },
+        { status: 409 }
+      );
+    }
+
+    const result = await approveReview(params.id, user.userId);
+
+    // The reviewed values still don't make a complete extraction
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Reviewed data is incomplete', details: result.issues },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Review approved',
+      entityId: result.entityId,
+      validationId: result.validationId,
+    });
+  } catch (error) {
+    console.error('Approve review error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { applyCorrections } from '@/lib/extraction-review';
+import { latestExtractedFields } from '@/lib/ai-extraction';
+import { z } from 'zod';
+
+const correctionsSchema = z.object({
+  fields: z
+    .array(
+      z
+        .object({
+          extractionId: z.string().optional(),
+          fieldName: z.string().min(1).optional(),
+          value: z.string().nullable(),
+          notes: z.string().nullable().optional(),
+        })
+        .refine((field) => field.extractionId || field.fieldName, {
+          message: 'extractionId or fieldName is required',
+        })
+    )
+    .min(1),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('documents:review')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const document = await prisma.documentMetadata.findUnique({
+      where: { documentId: params.id },
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const fields = await prisma.documentExtractionData.findMany({
+      where: await latestExtractedFields(params.id),
+      orderBy: [{ sourcePageNumber: 'asc' }, { extractedDate: 'asc' }],
+    });
+
+    return NextResponse.json({
+      document: {
+        ...document,
+        fileSizeBytes: document.fileSizeBytes ? Number(document.fileSizeBytes) : null,
+      },
+      fields: fields.map((field) => ({
+        ...field,
+        confidenceScore: field.confidenceScore ? Number(field.confidenceScore) : null,
+        overallConfidence: field.overallConfidence ? Number(field.overallConfidence) : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Get review document error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('documents:review')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const data = correctionsSchema.parse(body);
+
+    const document = await prisma.documentMetadata.findUnique({
+      where: { documentId: params.id },
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const updated = await applyCorrections(params.id, data.fields, user.userId);
+
+    return NextResponse.json({ updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update review fields error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { countFieldsToReview } from '@/lib/extraction-review';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('documents:review')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Documents held for review, oldest first
+    const documents = await prisma.documentMetadata.findMany({
+      where: { processingStatus: 'needs_review' },
+      orderBy: { uploadedDate: 'asc' },
+    });
+
+    return NextResponse.json({
+      documents: await Promise.all(
+        documents.map(async ({ fileSizeBytes, ...document }) => ({
+          ...document,
+          fileSizeBytes: fileSizeBytes ? Number(fileSizeBytes) : null,
+          fieldsToReview: await countFieldsToReview(document.documentId),
+        }))
+      ),
+    });
+  } catch (error) {
+    console.error('Get review queue error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -19,7 +19,13 @@ const createServiceItemSchema = z.object({
   allowedVarianceValue: z.number().optional(),
   primaryUom: z.string(),
   allowedUoms: z.array(z.string()).optional(),
-  uomConversionRules: z.record(z.any()).optional(),
+  // Contract (primary) units in one of each listed UOM, e.g. { "CS": 12 }
+  uomConversionRules: z
+    .record(
+      z.string(),
+      z.union([z.number().positive(), z.object({ factor: z.number().positive() })])
+    )
+    .optional(),
   currency: z.string().length(3),
   billingFrequency: z.string().optional(),
   rateType: z.string().optional(),
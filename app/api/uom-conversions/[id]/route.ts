@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { findConflictingUomConversion, normalizeUom } from '@/lib/uom-conversion';
+import { z } from 'zod';
+
+// The vendor of a row is fixed; a row for another vendor is a new row
+const updateConversionSchema = z.object({
+  fromUom: z.string().trim().min(1).transform(normalizeUom).optional(),
+  toUom: z.string().trim().min(1).transform(normalizeUom).optional(),
+  factor: z.number().positive().optional(),
+  description: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('contracts:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = updateConversionSchema.parse(await request.json());
+
+    const conversion = await prisma.uomConversion.findUnique({
+      where: { conversionId: params.id },
+    });
+    if (!conversion) {
+      return NextResponse.json({ error: 'Conversion not found' }, { status: 404 });
+    }
+
+    const fromUom = data.fromUom ?? conversion.fromUom;
+    const toUom = data.toUom ?? conversion.toUom;
+    if (fromUom === toUom) {
+      return NextResponse.json(
+        { error: 'A conversion needs two different units' },
+        { status: 400 }
+      );
+    }
+    if (
+      (data.fromUom || data.toUom) &&
+      (await findConflictingUomConversion(
+        { vendorPartyId: conversion.vendorPartyId, fromUom, toUom },
+        conversion.conversionId
+      ))
+    ) {
+      return NextResponse.json(
+        { error: `A conversion between ${fromUom} and ${toUom} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const updated = await prisma.uomConversion.update({
+      where: { conversionId: params.id },
+      data,
+    });
+
+    return NextResponse.json({ ...updated, factor: Number(updated.factor) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update UOM conversion error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('contracts:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const conversion = await prisma.uomConversion.findUnique({
+      where: { conversionId: params.id },
+    });
+    if (!conversion) {
+      return NextResponse.json({ error: 'Conversion not found' }, { status: 404 });
+    }
+
+    await prisma.uomConversion.delete({ where: { conversionId: params.id } });
+
+    return NextResponse.json({ message: 'Conversion deleted' });
+  } catch (error) {
+    console.error('Delete UOM conversion error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { findConflictingUomConversion, normalizeUom } from '@/lib/uom-conversion';
+import { z } from 'zod';
+
+const createConversionSchema = z
+  .object({
+    // Omitted or null for a conversion that applies to every vendor
+    vendorPartyId: z.string().uuid().nullable().default(null),
+    fromUom: z.string().trim().min(1).transform(normalizeUom),
+    toUom: z.string().trim().min(1).transform(normalizeUom),
+    factor: z.number().positive(),
+    description: z.string().optional(),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => data.fromUom !== data.toUom, {
+    message: 'A conversion needs two different units',
+    path: ['toUom'],
+  });
+
+// Conversion table rows. ?vendorPartyId= lists a vendor's rows, ?scope=global the rows that
+// apply to every vendor
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('contracts:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const vendorPartyId = searchParams.get('vendorPartyId');
+    const where: Prisma.UomConversionWhereInput = {};
+    if (vendorPartyId) {
+      where.vendorPartyId = vendorPartyId;
+    } else if (searchParams.get('scope') === 'global') {
+      where.vendorPartyId = null;
+    }
+
+    const conversions = await prisma.uomConversion.findMany({
+      where,
+      include: { vendorParty: { select: { partyId: true, legalName: true } } },
+      orderBy: [{ vendorPartyId: { sort: 'asc', nulls: 'first' } }, { fromUom: 'asc' }],
+    });
+
+    return NextResponse.json({
+      conversions: conversions.map((conversion) => ({
+        ...conversion,
+        factor: Number(conversion.factor),
+      })),
+    });
+  } catch (error) {
+    console.error('Get UOM conversions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticateRequest(request);
+
+    if (error || !user) {
+      return error || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!user.permissions.includes('contracts:update')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = createConversionSchema.parse(await request.json());
+
+    if (data.vendorPartyId) {
+      const vendor = await prisma.party.findUnique({ where: { partyId: data.vendorPartyId } });
+      if (!vendor) {
+        return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+      }
+    }
+
+    if (await findConflictingUomConversion(data)) {
+      return NextResponse.json(
+        { error: `A conversion between ${data.fromUom} and ${data.toUom} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const conversion = await prisma.uomConversion.create({ data });
+
+    return NextResponse.json({ ...conversion, factor: Number(conversion.factor) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create UOM conversion error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -5,6 +5,7 @@ import { z } from 'zod';
 
 const triggerValidationSchema = z.object({
   invoiceId: z.string().uuid(),
+  requestId: z.string().min(1).max(255).optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -20,11 +21,13 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { invoiceId } = triggerValidationSchema.parse(body);
+    const { invoiceId, requestId } = triggerValidationSchema.parse(body);
 
-    // Import and run validation orchestration
+    // Import and run validation orchestration; a repeated requestId returns the same run
     const { runInvoiceValidation } = await import('@/lib/validation-orchestration');
-    const validationId = await runInvoiceValidation(invoiceId, user.userId);
+    const validationId = await runInvoiceValidation(invoiceId, user.userId, {
+      requestId: requestId || request.headers.get('idempotency-key') || undefined,
+    });
 
     const validation = await prisma.invoiceValidation.findUnique({
       where: { validationId },
@@ -23,6 +23,8 @@ interface Citation {
     y: number;
     width: number;
     height: number;
+    pageWidth?: number;
+    pageHeight?: number;
   };
   text?: string;
 }
@@ -1,18 +1,107 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 
 interface Citation {
   pageNumber: number;
+  // PDF points from the top left of the page, as stored in boundingBoxCoordinates
   boundingBox?: {
     x: number;
     y: number;
     width: number;
     height: number;
+    pageWidth?: number;
+    pageHeight?: number;
   };
   text?: string;
 }
 
+// Width the cited page is rendered at, in CSS pixels
+const PREVIEW_WIDTH = 560;
+
+// Renders the cited page with pdfjs and outlines the cited text
+function CitationPreview({
+  documentUrl,
+  citation,
+  highlightColor,
+}: {
+  documentUrl: string;
+  citation: Citation;
+  highlightColor: string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [scale, setScale] = useState<number | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setScale(null);
+    setFailed(false);
+
+    (async () => {
+      try {
+        const pdfjs = await import('pdfjs-dist');
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+          'pdfjs-dist/build/pdf.worker.min.mjs',
+          import.meta.url
+        ).toString();
+
+        const pdf = await pdfjs.getDocument(documentUrl).promise;
+        const page = await pdf.getPage(citation.pageNumber);
+        const pageWidth = page.getViewport({ scale: 1 }).width;
+        const viewport = page.getViewport({ scale: PREVIEW_WIDTH / pageWidth });
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        await page.render({ canvas, viewport }).promise;
+        if (!cancelled) {
+          // Boxes are stored for the page size they were measured on
+          setScale(PREVIEW_WIDTH / (citation.boundingBox?.pageWidth || pageWidth));
+        }
+      } catch (error) {
+        console.error('Failed to render cited page:', error);
+        if (!cancelled) setFailed(true);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentUrl, citation.pageNumber, citation.boundingBox?.pageWidth]);
+
+  if (failed) {
+    return null;
+  }
+
+  const box = citation.boundingBox;
+  return (
+    <div className="relative mx-auto border rounded-lg overflow-hidden" style={{ width: PREVIEW_WIDTH }}>
+      <canvas ref={canvasRef} className="block" />
+      {scale !== null && box && (
+        <div
+          className="absolute rounded-sm pointer-events-none"
+          style={{
+            left: box.x * scale - 2,
+            top: box.y * scale - 2,
+            width: box.width * scale + 4,
+            height: box.height * scale + 4,
+            backgroundColor: highlightColor,
+            opacity: 0.4,
+            outline: `2px solid ${highlightColor}`,
+          }}
+        />
+      )}
+      {scale === null && (
+        <div className="p-4 text-sm text-muted-foreground text-center">
+          Loading page {citation.pageNumber}...
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface PDFViewerClientProps {
   documentUrl: string;
   citations?: Citation[];
@@ -26,6 +115,7 @@ export default function PDFViewerClient({
 }: PDFViewerClientProps) {
   const [useIframe, setUseIframe] = useState(true);
   const [isClient, setIsClient] = useState(false);
+  const [activeCitation, setActiveCitation] = useState(0);
 
   useEffect(() => {
     setIsClient(true);
@@ -47,6 +137,8 @@ export default function PDFViewerClient({
     );
   }
 
+  const citation = citations[Math.min(activeCitation, citations.length - 1)];
+
   // Use iframe as the primary method - more reliable and doesn't require react-pdf
   return (
     <div className="space-y-4">
@@ -69,9 +161,18 @@ export default function PDFViewerClient({
         </div>
       </div>
 
+      {citation?.boundingBox && (
+        <CitationPreview
+          documentUrl={documentUrl}
+          citation={citation}
+          highlightColor={highlightColor}
+        />
+      )}
+
       <div className="bg-background rounded-lg border overflow-hidden">
         <iframe
-          src={`${documentUrl}#toolbar=1&navpanes=1&scrollbar=1`}
+          key={citation?.pageNumber}
+          src={`${documentUrl}#${citation ? `page=${citation.pageNumber}&` : ''}toolbar=1&navpanes=1&scrollbar=1`}
           className="w-full h-[600px] border-0"
           title="PDF Document"
           onError={() => {
@@ -85,9 +186,17 @@ export default function PDFViewerClient({
         <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
           <h3 className="font-semibold text-sm mb-2">Document Citations:</h3>
           <ul className="space-y-1 text-sm">
-            {citations.map((citation, idx) => (
-              <li key={idx} className="text-foreground">
-                • Page {citation.pageNumber}: {citation.text || 'Extracted field'}
+            {citations.map((item, idx) => (
+              <li key={idx}>
+                <button
+                  type="button"
+                  onClick={() => setActiveCitation(idx)}
+                  className={`text-left hover:underline ${
+                    item === citation ? 'font-medium text-foreground' : 'text-muted-foreground'
+                  }`}
+                >
+                  • Page {item.pageNumber}: {item.text || 'Extracted field'}
+                </button>
               </li>
             ))}
           </ul>
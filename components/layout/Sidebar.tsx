@@ -11,6 +11,7 @@ import {
   Users,
   FileCheck,
   AlertTriangle,
+  ClipboardCheck,
   BarChart3,
   Settings,
 } from 'lucide-react';
@@ -22,6 +23,7 @@ const navigation = [
   { name: 'Contracts', href: '/contracts', icon: FileCheck },
   { name: 'Invoices', href: '/invoices', icon: FileText },
   { name: 'Exceptions', href: '/exceptions', icon: AlertTriangle },
+  { name: 'Review', href: '/review', icon: ClipboardCheck },
   { name: 'Reports', href: '/reports', icon: BarChart3 },
   { name: 'Vendors', href: '/parties', icon: Building },
   { name: 'Settings', href: '/settings', icon: Settings },
@@ -8,7 +8,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
 import { fetchWithAuth } from '@/lib/auth-client';
-import { CheckCircle, XCircle, FileText, FileCheck } from 'lucide-react';
+import { AlertTriangle, CheckCircle, XCircle, FileText, FileCheck } from 'lucide-react';
 
 interface InvoiceUploadModalProps {
   open: boolean;
@@ -17,6 +17,14 @@ interface InvoiceUploadModalProps {
   forceDocumentType?: 'invoice' | 'contract'; // Lock document type if provided
 }
 
+// One invoice split out of a multi-invoice upload
+interface SplitStatus {
+  documentId: string;
+  pageRangeStart: number;
+  pageRangeEnd: number;
+  stage: string;
+}
+
 export function InvoiceUploadModal({ open, onOpenChange, onSuccess, forceDocumentType }: InvoiceUploadModalProps) {
   const [loading, setLoading] = useState(false);
   const [file, setFile] = useState<File | null>(null);
@@ -24,6 +32,7 @@ export function InvoiceUploadModal({ open, onOpenChange, onSuccess, forceDocumen
   const [progress, setProgress] = useState(0);
   const [processingStatus, setProcessingStatus] = useState<string | null>(null);
   const [documentId, setDocumentId] = useState<string | null>(null);
+  const [splits, setSplits] = useState<SplitStatus[]>([]);
 
   // Sync documentType with forceDocumentType prop
   useEffect(() => {
@@ -78,12 +87,19 @@ export function InvoiceUploadModal({ open, onOpenChange, onSuccess, forceDocumen
             if (typeof data.stage === 'string') {
               setProcessingStatus(data.stage);
             }
+            if (Array.isArray(data.splits)) {
+              setSplits(data.splits);
+            }
 
             if (data.status === 'completed') {
               shouldContinuePolling = false;
               setProcessingStatus('Complete');
               setProgress(100);
               onSuccess?.();
+            } else if (data.status === 'review') {
+              // Extracted, but held for review instead of being normalized
+              shouldContinuePolling = false;
+              setProcessingStatus('Needs Review');
             } else if (data.status === 'error') {
               shouldContinuePolling = false;
               const errorMsg = (data.error && typeof data.error === 'string') ? data.error : 'Processing failed';
@@ -233,13 +249,14 @@ export function InvoiceUploadModal({ open, onOpenChange, onSuccess, forceDocumen
   };
 
   const handleClose = () => {
-    if (processingStatus === 'Complete' || !processingStatus) {
+    if (processingStatus === 'Complete' || processingStatus === 'Needs Review' || !processingStatus) {
       onOpenChange(false);
       setFile(null);
       setDocumentType('invoice');
       setProgress(0);
       setProcessingStatus(null);
       setDocumentId(null);
+      setSplits([]);
       setLoading(false);
     }
   };
@@ -307,7 +324,7 @@ export function InvoiceUploadModal({ open, onOpenChange, onSuccess, forceDocumen
                   <Input
                     id="file"
                     type="file"
-                    accept=".pdf,.doc,.docx"
+                    accept=".pdf,.doc,.docx,.png,.jpg,.jpeg,.tif,.tiff"
                     onChange={handleFileChange}
                     required
                     className="cursor-pointer"
@@ -347,6 +364,20 @@ export function InvoiceUploadModal({ open, onOpenChange, onSuccess, forceDocumen
                     </div>
                   </>
                 )}
+                {splits.length > 0 && (
+                  <div className="rounded-md border p-3 space-y-1">
+                    <p className="text-xs font-medium">Split into {splits.length} invoices</p>
+                    {splits.map((split) => (
+                      <div key={split.documentId} className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>
+                          Pages {split.pageRangeStart}
+                          {split.pageRangeEnd !== split.pageRangeStart && `-${split.pageRangeEnd}`}
+                        </span>
+                        <span>{split.stage}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 {processingStatus?.startsWith('Error') && (
                   <div className="rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
                     <div className="flex items-start gap-2">
@@ -355,6 +386,14 @@ export function InvoiceUploadModal({ open, onOpenChange, onSuccess, forceDocumen
                     </div>
                   </div>
                 )}
+                {processingStatus === 'Needs Review' && (
+                  <div className="rounded-md bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 p-3">
+                    <div className="flex items-start gap-2">
+                      <AlertTriangle className="h-4 w-4 text-yellow-600 mt-0.5" />
+                      <p className="text-xs text-yellow-800 dark:text-yellow-200">The extracted data could not be verified and needs review before it is processed.</p>
+                    </div>
+                  </div>
+                )}
                 {processingStatus === 'Complete' && (
                   <div className="rounded-md bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 p-3">
                     <div className="flex items-start gap-2">
@@ -364,7 +403,9 @@ export function InvoiceUploadModal({ open, onOpenChange, onSuccess, forceDocumen
                   </div>
                 )}
               </div>
-              {(processingStatus === 'Complete' || processingStatus?.startsWith('Error')) && (
+              {(processingStatus === 'Complete' ||
+                processingStatus === 'Needs Review' ||
+                processingStatus?.startsWith('Error')) && (
                 <DialogFooter>
                   <Button onClick={handleClose}>Close</Button>
                 </DialogFooter>
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { fetchWithAuth } from '@/lib/auth-client';
+import { NotificationModal } from '@/components/ui/notification-modal';
+
+interface PriceOverride {
+  price: number;
+  tolerance_type?: 'percentage' | 'absolute';
+  tolerance_value?: number;
+  notes?: string;
+}
+
+interface LocationPricingModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+  contractId: string;
+  location: { locationId: string; locationName: string } | null;
+  locationSpecificPricing?: { items?: Record<string, PriceOverride> } | null;
+  billableItems: Array<{ itemId: string; itemName: string; contractPrice?: number; contractUom?: string }>;
+}
+
+interface OverrideRow {
+  price: string;
+  toleranceType: string;
+  toleranceValue: string;
+  notes?: string;
+}
+
+const EMPTY_ROW: OverrideRow = { price: '', toleranceType: 'none', toleranceValue: '' };
+
+export function LocationPricingModal({
+  open,
+  onOpenChange,
+  onSuccess,
+  contractId,
+  location,
+  locationSpecificPricing,
+  billableItems,
+}: LocationPricingModalProps) {
+  const [saving, setSaving] = useState(false);
+  const [notification, setNotification] = useState<{type: 'success' | 'error' | 'info' | 'warning', title: string, message: string} | null>(null);
+  const [rows, setRows] = useState<Record<string, OverrideRow>>({});
+
+  // Load the location's current overrides when opening
+  useEffect(() => {
+    if (open) {
+      const items = locationSpecificPricing?.items || {};
+      const initial: Record<string, OverrideRow> = {};
+      for (const [itemId, override] of Object.entries(items)) {
+        initial[itemId] = {
+          price: override.price.toString(),
+          toleranceType: override.tolerance_type || 'none',
+          toleranceValue: override.tolerance_value?.toString() || '',
+          notes: override.notes,
+        };
+      }
+      setRows(initial);
+    }
+  }, [open, locationSpecificPricing]);
+
+  const updateRow = (itemId: string, changes: Partial<OverrideRow>) => {
+    setRows((current) => ({
+      ...current,
+      [itemId]: {
+        ...(current[itemId] || EMPTY_ROW),
+        ...changes,
+      },
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!location) return;
+
+    const items: Record<string, PriceOverride> = {};
+    for (const [itemId, row] of Object.entries(rows)) {
+      // A blank price removes the override
+      if (row.price.trim() === '') continue;
+
+      const price = parseFloat(row.price);
+      if (isNaN(price) || price < 0) {
+        setNotification({
+          type: 'error',
+          title: 'Invalid Price',
+          message: `Enter a valid price for ${billableItems.find((i) => i.itemId === itemId)?.itemName || itemId}.`,
+        });
+        return;
+      }
+
+      const override: PriceOverride = { price };
+      if (row.toleranceType !== 'none' && row.toleranceValue.trim() !== '') {
+        override.tolerance_type = row.toleranceType as 'percentage' | 'absolute';
+        override.tolerance_value = parseFloat(row.toleranceValue);
+      }
+      if (row.notes) override.notes = row.notes;
+      items[itemId] = override;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetchWithAuth(
+        `/api/contracts/${contractId}/locations/${location.locationId}/pricing`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ items }),
+        }
+      );
+
+      if (response.ok) {
+        onOpenChange(false);
+        onSuccess?.();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setNotification({
+          type: 'error',
+          title: 'Error',
+          message: data.error || 'Failed to save location pricing. Please try again.',
+        });
+      }
+    } catch (error) {
+      console.error('Error saving location pricing:', error);
+      setNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to save location pricing. Please try again.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Location Pricing</DialogTitle>
+            <DialogDescription>
+              Prices negotiated for {location?.locationName}. Leave the price blank to use the contract price.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="rounded-md border max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Item</TableHead>
+                  <TableHead className="text-xs">Contract Price</TableHead>
+                  <TableHead className="text-xs">Location Price</TableHead>
+                  <TableHead className="text-xs">Tolerance</TableHead>
+                  <TableHead className="text-xs">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {billableItems.length > 0 ? (
+                  billableItems.map((item) => {
+                    const row = rows[item.itemId];
+                    return (
+                      <TableRow key={item.itemId}>
+                        <TableCell className="py-2 text-xs font-medium">{item.itemName}</TableCell>
+                        <TableCell className="py-2 text-xs text-muted-foreground">
+                          {item.contractPrice !== undefined && item.contractPrice !== null
+                            ? `$${Number(item.contractPrice).toFixed(2)}${item.contractUom ? ` / ${item.contractUom}` : ''}`
+                            : 'N/A'}
+                        </TableCell>
+                        <TableCell className="py-2">
+                          <Input
+                            type="number"
+                            step="0.0001"
+                            min="0"
+                            className="h-8 w-28 text-xs"
+                            value={row?.price || ''}
+                            onChange={(e) => updateRow(item.itemId, { price: e.target.value })}
+                            disabled={saving}
+                          />
+                        </TableCell>
+                        <TableCell className="py-2">
+                          <Select
+                            value={row?.toleranceType || 'none'}
+                            onValueChange={(value) => updateRow(item.itemId, { toleranceType: value })}
+                            disabled={saving}
+                          >
+                            <SelectTrigger className="h-8 w-32 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Item default</SelectItem>
+                              <SelectItem value="percentage">Percentage</SelectItem>
+                              <SelectItem value="absolute">Absolute</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="py-2">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            className="h-8 w-20 text-xs"
+                            value={row?.toleranceValue || ''}
+                            onChange={(e) => updateRow(item.itemId, { toleranceValue: e.target.value })}
+                            disabled={saving || !row || row.toleranceType === 'none'}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="px-6 py-12 text-center">
+                      <p className="text-xs text-muted-foreground">No billable items on this contract</p>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !location}>
+              {saving ? 'Saving...' : 'Save Pricing'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {notification && (
+        <NotificationModal
+          open={!!notification}
+          onOpenChange={(open) => !open && setNotification(null)}
+          type={notification.type}
+          title={notification.title}
+          message={notification.message}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchWithAuth } from '@/lib/auth-client';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+interface ContractMatchCandidate {
+  contractId: string;
+  rank: number;
+  score: number;
+  reasons: string[];
+  contractNumber: string;
+  contractTitle: string;
+  effectiveDate: string;
+  expirationDate: string;
+  currency: string;
+}
+
+interface ContractMatchData {
+  contractId: string | null;
+  contractMatchMethod: string | null;
+  contractMatchScore: number | null;
+  // Several contracts scored too close to each other to assign one automatically
+  tied: boolean;
+  matches: ContractMatchCandidate[];
+}
+
+type Notify = (notification: {
+  type: 'success' | 'error' | 'info' | 'warning';
+  title: string;
+  message: string;
+}) => void;
+
+interface ContractMatchPanelProps {
+  invoiceId: string;
+  onChange: () => void;
+  onNotify: Notify;
+}
+
+const methodLabels: Record<string, string> = {
+  Extracted: 'From document',
+  Automatic: 'Matched automatically',
+  Manual: 'Picked by reviewer',
+};
+
+export function ContractMatchPanel({ invoiceId, onChange, onNotify }: ContractMatchPanelProps) {
+  const [data, setData] = useState<ContractMatchData | null>(null);
+  const [assigning, setAssigning] = useState(false);
+
+  useEffect(() => {
+    loadMatches();
+  }, [invoiceId]);
+
+  const loadMatches = async () => {
+    try {
+      const response = await fetchWithAuth(`/api/invoices/${invoiceId}/contract-match`);
+      if (response.ok) {
+        setData(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading contract matches:', error);
+    }
+  };
+
+  const handleAssign = async (contractId: string | null) => {
+    setAssigning(true);
+    try {
+      const response = await fetchWithAuth(`/api/invoices/${invoiceId}/contract-match`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contractId }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (response.ok) {
+        onNotify({
+          type: 'success',
+          title: contractId ? 'Contract Assigned' : 'Contract Cleared',
+          message: 'Re-run validation to check the invoice against the contract.',
+        });
+        loadMatches();
+        onChange();
+      } else {
+        onNotify({
+          type: 'error',
+          title: 'Update Failed',
+          message: result.error || 'Failed to update the contract',
+        });
+      }
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  if (!data || (data.matches.length === 0 && !data.contractMatchMethod)) {
+    return null;
+  }
+
+  let summary = 'No contract scored high enough to be assigned automatically';
+  if (data.contractId) {
+    summary = methodLabels[data.contractMatchMethod || ''] || 'Assigned';
+    if (data.contractMatchScore !== null) {
+      summary += `, ${Math.round(data.contractMatchScore * 100)}% confidence`;
+    }
+  } else if (data.contractMatchMethod === 'Manual') {
+    summary = 'Contract cleared by reviewer';
+  } else if (data.tied) {
+    summary = 'Several contracts match equally well; pick the one this invoice bills against';
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-semibold">Contract Match</h2>
+            <p className="text-xs text-muted-foreground mt-0.5">{summary}</p>
+          </div>
+          {data.contractId && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleAssign(null)}
+              disabled={assigning}
+            >
+              Clear Contract
+            </Button>
+          )}
+        </div>
+        {data.matches.length > 0 && (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Contract</TableHead>
+                  <TableHead className="text-xs">Term</TableHead>
+                  <TableHead className="text-xs">Score</TableHead>
+                  <TableHead className="text-xs">Reasons</TableHead>
+                  <TableHead className="text-xs">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.matches.map((match) => (
+                  <TableRow key={match.contractId}>
+                    <TableCell className="py-2.5">
+                      <Link
+                        href={`/contracts/${match.contractId}`}
+                        className="text-xs font-medium text-primary hover:text-primary/80"
+                      >
+                        {match.contractNumber}
+                      </Link>
+                      <p className="text-xs text-muted-foreground mt-0.5">{match.contractTitle}</p>
+                    </TableCell>
+                    <TableCell className="py-2.5 text-xs text-muted-foreground">
+                      {new Date(match.effectiveDate).toLocaleDateString()} –{' '}
+                      {new Date(match.expirationDate).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="py-2.5">
+                      <Badge variant="outline" className="text-xs">
+                        {Math.round(match.score * 100)}%
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="py-2.5 text-xs text-muted-foreground">
+                      {match.reasons.join('; ')}
+                    </TableCell>
+                    <TableCell className="py-2.5">
+                      {match.contractId === data.contractId ? (
+                        <Badge className="text-xs">Assigned</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="px-2 text-xs"
+                          onClick={() => handleAssign(match.contractId)}
+                          disabled={assigning}
+                        >
+                          Use this contract
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,325 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchWithAuth } from '@/lib/auth-client';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { GitMerge, Undo2, Copy } from 'lucide-react';
+
+interface DuplicateParty {
+  partyId: string;
+  legalName: string;
+  tradingName: string | null;
+  partyType: string;
+  partyStatus: string;
+  taxId: string | null;
+  dunsNumber: string | null;
+  npiNumber: string | null;
+  invoiceCount: number;
+  contractCount: number;
+}
+
+interface DuplicateCluster {
+  partyIds: string[];
+  score: number;
+  reasons: string[];
+  // Suggested survivor first
+  parties: DuplicateParty[];
+}
+
+interface RecentMerge {
+  auditId: string;
+  mergedPartyId: string;
+  survivorPartyId: string;
+  changeReason: string | null;
+  changedBy: string;
+  changedDate: string;
+  undone: boolean;
+}
+
+type Notify = (notification: {
+  type: 'success' | 'error' | 'info' | 'warning';
+  title: string;
+  message: string;
+}) => void;
+
+interface DuplicatePartiesPanelProps {
+  onChange: () => void;
+  onNotify: Notify;
+}
+
+const clusterKey = (cluster: DuplicateCluster) => cluster.partyIds.slice().sort().join(':');
+
+export function DuplicatePartiesPanel({ onChange, onNotify }: DuplicatePartiesPanelProps) {
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  const [recentMerges, setRecentMerges] = useState<RecentMerge[]>([]);
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, []);
+
+  const loadDuplicates = async () => {
+    try {
+      const response = await fetchWithAuth('/api/parties/duplicates');
+      if (response.ok) {
+        const data = await response.json();
+        setClusters(data.clusters || []);
+        setRecentMerges(data.recentMerges || []);
+      }
+    } catch (error) {
+      console.error('Error loading possible duplicates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMerge = async (cluster: DuplicateCluster) => {
+    const key = clusterKey(cluster);
+    const survivor = cluster.parties.find(
+      (party) => party.partyId === (survivors[key] || cluster.parties[0].partyId)
+    )!;
+    const merged = cluster.parties.filter((party) => party.partyId !== survivor.partyId);
+    if (
+      !confirm(
+        `Merge ${merged.map((party) => party.legalName).join(', ')} into ${survivor.legalName}? The merge can be undone.`
+      )
+    ) {
+      return;
+    }
+
+    setWorking(key);
+    try {
+      const response = await fetchWithAuth('/api/parties/merges', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          survivorPartyId: survivor.partyId,
+          mergedPartyIds: merged.map((party) => party.partyId),
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        onNotify({
+          type: 'success',
+          title: 'Parties Merged',
+          message: `${merged.length} ${merged.length === 1 ? 'party was' : 'parties were'} merged into ${survivor.legalName}.`,
+        });
+        loadDuplicates();
+        onChange();
+      } else {
+        onNotify({
+          type: 'error',
+          title: 'Merge Failed',
+          message: data.error || 'Failed to merge parties',
+        });
+      }
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleUndo = async (merge: RecentMerge) => {
+    setWorking(merge.auditId);
+    try {
+      const response = await fetchWithAuth(`/api/parties/merges/${merge.auditId}/undo`, {
+        method: 'POST',
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        onNotify({
+          type: 'success',
+          title: 'Merge Undone',
+          message: 'The merged party was restored.',
+        });
+        loadDuplicates();
+        onChange();
+      } else {
+        onNotify({
+          type: 'error',
+          title: 'Undo Failed',
+          message: data.error || 'Failed to undo merge',
+        });
+      }
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {clusters.length === 0 && (
+        <Card>
+          <CardContent className="p-3">
+            <div className="flex flex-col items-center justify-center py-8">
+              <Copy className="h-8 w-8 text-muted-foreground mb-2" />
+              <p className="text-xs font-medium text-foreground mb-0.5">No possible duplicates</p>
+              <p className="text-xs text-muted-foreground">
+                Parties sharing identifiers or similar names will be listed here
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {clusters.map((cluster) => {
+        const key = clusterKey(cluster);
+        const survivorId = survivors[key] || cluster.parties[0].partyId;
+        return (
+          <Card key={key}>
+            <CardContent className="p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant="outline" className="text-xs shrink-0">
+                    {Math.round(cluster.score * 100)}%
+                  </Badge>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {cluster.reasons.join('; ')}
+                  </p>
+                </div>
+                <Button size="sm" onClick={() => handleMerge(cluster)} disabled={working === key}>
+                  <GitMerge className="h-3.5 w-3.5 mr-1.5" />
+                  Merge into selected
+                </Button>
+              </div>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs w-20">Survivor</TableHead>
+                      <TableHead className="text-xs">Entity Name</TableHead>
+                      <TableHead className="text-xs">Identifiers</TableHead>
+                      <TableHead className="text-xs">Documents</TableHead>
+                      <TableHead className="text-xs">Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {cluster.parties.map((party) => (
+                      <TableRow key={party.partyId}>
+                        <TableCell className="py-2">
+                          <input
+                            type="radio"
+                            name={`survivor-${key}`}
+                            checked={party.partyId === survivorId}
+                            onChange={() => setSurvivors({ ...survivors, [key]: party.partyId })}
+                          />
+                        </TableCell>
+                        <TableCell className="py-2">
+                          <Link
+                            href={`/parties/${party.partyId}`}
+                            className="text-xs font-medium text-primary hover:text-primary/80"
+                          >
+                            {party.legalName}
+                          </Link>
+                          {party.tradingName && (
+                            <p className="text-xs text-muted-foreground mt-0.5">
+                              {party.tradingName}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="py-2 text-xs text-muted-foreground">
+                          {[
+                            party.taxId && `Tax ID ${party.taxId}`,
+                            party.dunsNumber && `DUNS ${party.dunsNumber}`,
+                            party.npiNumber && `NPI ${party.npiNumber}`,
+                          ]
+                            .filter(Boolean)
+                            .join(', ') || 'N/A'}
+                        </TableCell>
+                        <TableCell className="py-2 text-xs text-muted-foreground">
+                          {party.invoiceCount} invoices, {party.contractCount} contracts
+                        </TableCell>
+                        <TableCell className="py-2">
+                          <Badge
+                            variant={party.partyStatus === 'Active' ? 'default' : 'secondary'}
+                            className="text-xs"
+                          >
+                            {party.partyStatus}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {recentMerges.length > 0 && (
+        <Card>
+          <CardContent className="p-3 space-y-2">
+            <p className="text-xs font-medium">Recent Merges</p>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Merge</TableHead>
+                    <TableHead className="text-xs">Date</TableHead>
+                    <TableHead className="text-xs">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recentMerges.map((merge) => (
+                    <TableRow key={merge.auditId}>
+                      <TableCell className="py-2 text-xs">
+                        <Link
+                          href={`/parties/${merge.mergedPartyId}`}
+                          className="text-primary hover:text-primary/80"
+                        >
+                          {merge.changeReason}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="py-2 text-xs text-muted-foreground">
+                        {new Date(merge.changedDate).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="py-2">
+                        {merge.undone ? (
+                          <Badge variant="secondary" className="text-xs">
+                            Undone
+                          </Badge>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="px-2 text-xs"
+                            onClick={() => handleUndo(merge)}
+                            disabled={working === merge.auditId}
+                          >
+                            <Undo2 className="h-3 w-3 mr-1" />
+                            Undo
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchWithAuth } from '@/lib/auth-client';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, X } from 'lucide-react';
+
+interface LineMatch {
+  matchId: string;
+  billableItemId: string;
+  itemName: string;
+  sku: string | null;
+  matchConfidence: number;
+  matchMethod: string | null;
+  matchStatus: 'Matched' | 'Pending' | 'Confirmed';
+}
+
+interface MatchLine {
+  lineItemId: string;
+  lineNumber: number;
+  description: string;
+  billableItemId: string | null;
+  match: LineMatch | null;
+}
+
+interface BillableItemOption {
+  itemId: string;
+  itemName: string;
+  sku: string | null;
+  catalogNumber: string | null;
+}
+
+type Notify = (notification: {
+  type: 'success' | 'error' | 'info' | 'warning';
+  title: string;
+  message: string;
+}) => void;
+
+interface LineItemMatchPanelProps {
+  invoiceId: string;
+  onChange: () => void;
+  onNotify: Notify;
+}
+
+const methodLabels: Record<string, string> = {
+  sku: 'SKU',
+  catalog_number: 'Catalog #',
+  alias: 'Alias',
+  description: 'Description',
+  manual: 'Manual',
+  direct_reference: 'Extracted',
+};
+
+export function LineItemMatchPanel({ invoiceId, onChange, onNotify }: LineItemMatchPanelProps) {
+  const [lines, setLines] = useState<MatchLine[]>([]);
+  const [billableItems, setBillableItems] = useState<BillableItemOption[]>([]);
+  const [picked, setPicked] = useState<Record<string, string>>({});
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMatches();
+  }, [invoiceId]);
+
+  const loadMatches = async () => {
+    try {
+      const response = await fetchWithAuth(`/api/invoices/${invoiceId}/line-matches`);
+      if (response.ok) {
+        const data = await response.json();
+        setLines(data.lines || []);
+        setBillableItems(data.billableItems || []);
+      }
+    } catch (error) {
+      console.error('Error loading line item matches:', error);
+    }
+  };
+
+  const review = async (lineItemId: string, body: Record<string, string>) => {
+    setReviewing(lineItemId);
+    try {
+      const response = await fetchWithAuth(`/api/invoices/${invoiceId}/line-matches`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (response.ok) {
+        onNotify({
+          type: 'success',
+          title: body.action === 'confirm' ? 'Line Matched' : 'Match Rejected',
+          message: 'Re-run validation to check the line against the contract.',
+        });
+        loadMatches();
+        onChange();
+      } else {
+        onNotify({
+          type: 'error',
+          title: 'Update Failed',
+          message: result.error || 'Failed to update the line item match',
+        });
+      }
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const confirmMatch = (lineItemId: string, billableItemId: string) =>
+    review(lineItemId, { action: 'confirm', lineItemId, billableItemId });
+  const rejectMatch = (line: MatchLine) =>
+    review(line.lineItemId, { action: 'reject', matchId: line.match!.matchId });
+
+  // Lines can only be matched against the items of the invoice's contract
+  if (billableItems.length === 0 || lines.length === 0) {
+    return null;
+  }
+
+  const pendingCount = lines.filter((line) => line.match?.matchStatus === 'Pending').length;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold">Item Matching</h2>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            {pendingCount > 0
+              ? `${pendingCount} suggested ${pendingCount === 1 ? 'match needs' : 'matches need'} confirmation`
+              : 'Lines matched to the contract’s billable items'}
+          </p>
+        </div>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Line #</TableHead>
+                <TableHead className="text-xs">Description</TableHead>
+                <TableHead className="text-xs">Billable Item</TableHead>
+                <TableHead className="text-xs">Confidence</TableHead>
+                <TableHead className="text-xs">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line) => (
+                <TableRow key={line.lineItemId}>
+                  <TableCell className="py-2.5 text-xs">{line.lineNumber}</TableCell>
+                  <TableCell className="py-2.5 text-xs">{line.description}</TableCell>
+                  <TableCell className="py-2.5 text-xs">
+                    {line.match ? (
+                      <div className="flex items-center gap-1.5">
+                        <span>{line.match.itemName}</span>
+                        <Badge
+                          variant={line.match.matchStatus === 'Pending' ? 'outline' : 'secondary'}
+                          className="text-xs"
+                        >
+                          {line.match.matchStatus === 'Pending'
+                            ? 'Suggested'
+                            : methodLabels[line.match.matchMethod || ''] || line.match.matchStatus}
+                        </Badge>
+                      </div>
+                    ) : (
+                      <Select
+                        value={picked[line.lineItemId] || ''}
+                        onValueChange={(value) =>
+                          setPicked({ ...picked, [line.lineItemId]: value })
+                        }
+                      >
+                        <SelectTrigger className="h-7 w-[220px] text-xs">
+                          <SelectValue placeholder="Pick a billable item" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {billableItems.map((item) => (
+                            <SelectItem key={item.itemId} value={item.itemId} className="text-xs">
+                              {item.itemName}
+                              {item.sku ? ` (${item.sku})` : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
+                  <TableCell className="py-2.5 text-xs">
+                    {line.match ? `${Math.round(line.match.matchConfidence)}%` : 'N/A'}
+                  </TableCell>
+                  <TableCell className="py-2.5">
+                    <div className="flex items-center gap-1">
+                      {line.match?.matchStatus === 'Pending' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="px-2 text-xs"
+                          onClick={() => confirmMatch(line.lineItemId, line.match!.billableItemId)}
+                          disabled={reviewing === line.lineItemId}
+                        >
+                          <Check className="h-3 w-3 mr-1" />
+                          Confirm
+                        </Button>
+                      )}
+                      {line.match && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="px-2 text-xs"
+                          onClick={() => rejectMatch(line)}
+                          disabled={reviewing === line.lineItemId}
+                        >
+                          <X className="h-3 w-3 mr-1" />
+                          Reject
+                        </Button>
+                      )}
+                      {!line.match && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="px-2 text-xs"
+                          onClick={() => confirmMatch(line.lineItemId, picked[line.lineItemId])}
+                          disabled={!picked[line.lineItemId] || reviewing === line.lineItemId}
+                        >
+                          <Check className="h-3 w-3 mr-1" />
+                          Match
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
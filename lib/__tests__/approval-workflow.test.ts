@@ -0,0 +1,76 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { applyDecisionToVolume } from '../approval-workflow';
+import { DUPLICATE_EXCEPTION_CATEGORY } from '../validation-rule-registry';
+
+describe('applyDecisionToVolume', () => {
+  const fakeDb = (exceptionCategories: string[] = []) => {
+    const calls = { cleared: [] as any[], created: [] as any[] };
+    const db = {
+      invoice: {
+        findUnique: async () => ({
+          invoiceId: 'invoice-1',
+          invoiceDate: new Date('2024-06-15'),
+          contract: {
+            contractId: 'contract-1',
+            effectiveDate: new Date('2024-01-01'),
+            expirationDate: new Date('2026-12-31'),
+          },
+          invoiceLineItems: [
+            { lineItemId: 'line-1', billableItemId: 'item-1', invoiceQuantity: new Decimal(4) },
+          ],
+          invoiceValidations: [
+            {
+              validationExceptions: exceptionCategories.map((exceptionCategory) => ({
+                exceptionCategory,
+              })),
+            },
+          ],
+        }),
+      },
+      volumeUsageEntry: {
+        deleteMany: async ({ where }: any) => {
+          calls.cleared.push(where);
+        },
+        create: async ({ data }: any) => {
+          calls.created.push(data);
+        },
+      },
+    } as any;
+    return { db, calls };
+  };
+
+  it('takes a rejected invoice off the ledger', async () => {
+    const { db, calls } = fakeDb();
+
+    await applyDecisionToVolume('invoice-1', 'Pending', 'Rejected', db);
+
+    expect(calls.cleared).toEqual([{ invoiceId: 'invoice-1' }]);
+    expect(calls.created).toEqual([]);
+  });
+
+  it('puts an invoice approved after a rejection back on the ledger', async () => {
+    const { db, calls } = fakeDb();
+
+    await applyDecisionToVolume('invoice-1', 'Rejected', 'Approved', db);
+
+    expect(calls.created).toEqual([
+      expect.objectContaining({ invoiceId: 'invoice-1', billableItemId: 'item-1' }),
+    ]);
+  });
+
+  it('leaves a duplicate off the ledger when it is approved after a rejection', async () => {
+    const { db, calls } = fakeDb([DUPLICATE_EXCEPTION_CATEGORY]);
+
+    await applyDecisionToVolume('invoice-1', 'Rejected', 'Approved', db);
+
+    expect(calls.created).toEqual([]);
+  });
+
+  it('leaves the ledger alone for other decisions', async () => {
+    const { db, calls } = fakeDb();
+
+    await applyDecisionToVolume('invoice-1', 'Pending', 'Approved', db);
+
+    expect(calls).toEqual({ cleared: [], created: [] });
+  });
+});
@@ -0,0 +1,225 @@
+import {
+  CONTRACT_MATCH_THRESHOLD,
+  ContractCandidate,
+  InvoiceForMatching,
+  lineMatchesItem,
+  overrideContractMatch,
+  rankContractMatches,
+  saveContractMatches,
+  scoreContractMatch,
+} from '../contract-matching';
+
+const contract = (overrides: Partial<ContractCandidate>): ContractCandidate => ({
+  contractId: 'contract-2024',
+  contractNumber: 'MSA-2024-017',
+  effectiveDate: new Date('2024-01-01'),
+  expirationDate: new Date('2024-12-31'),
+  currency: 'USD',
+  externalIds: { erp_contract_number: 'ERP-88231' },
+  contractParties: [{ partyId: 'party-acme', partyRole: 'Vendor' }],
+  billableItems: [
+    {
+      itemName: 'Lipid Panel',
+      itemDescription: null,
+      sku: 'LAB-80061',
+      catalogNumber: null,
+    },
+    {
+      itemName: 'Comprehensive Metabolic Panel',
+      itemDescription: null,
+      sku: null,
+      catalogNumber: 'CMP-14',
+    },
+  ],
+  ...overrides,
+});
+
+const invoice = (overrides: Partial<InvoiceForMatching> = {}): InvoiceForMatching => ({
+  vendorPartyId: 'party-acme',
+  invoiceDate: new Date('2024-06-15'),
+  currency: 'USD',
+  references: [],
+  lineDescriptions: ['Lipid panel - fasting', 'Item CMP-14 x2'],
+  ...overrides,
+});
+
+describe('lineMatchesItem', () => {
+  const [lipid, metabolic] = contract({}).billableItems;
+
+  it('matches on the item name or a SKU or catalog number in the description', () => {
+    expect(lineMatchesItem('LIPID PANEL (FASTING)', lipid)).toBe(true);
+    expect(lineMatchesItem('Lab test LAB-80061', lipid)).toBe(true);
+    expect(lineMatchesItem('Item CMP-14 x2', metabolic)).toBe(true);
+  });
+
+  it('does not match a description sharing only part of the name', () => {
+    expect(lineMatchesItem('Metabolic screening', metabolic)).toBe(false);
+  });
+});
+
+describe('scoreContractMatch', () => {
+  it('scores a referenced in-term contract with matching lines as certain', () => {
+    const match = scoreContractMatch(
+      invoice({ references: ['PO 4471', 'erp-88231'] }),
+      contract({})
+    );
+
+    expect(match.score).toBe(1);
+    expect(match.reasons).toEqual([
+      'Vendor is a party to the contract (Vendor)',
+      'Invoice date is within the contract term',
+      'Currency USD matches',
+      'Invoice references contract number "erp-88231"',
+      '2 of 2 lines match billable items',
+    ]);
+  });
+
+  it('assigns the vendor’s in-term contract without a reference', () => {
+    const match = scoreContractMatch(invoice({ lineDescriptions: [] }), contract({}));
+
+    expect(match.score).toBeGreaterThanOrEqual(CONTRACT_MATCH_THRESHOLD);
+  });
+
+  it('never assigns a contract outside its term or in another currency', () => {
+    const expired = scoreContractMatch(
+      invoice({
+        references: ['MSA-2024-017'],
+        servicePeriodStart: new Date('2024-12-01'),
+        servicePeriodEnd: new Date('2025-01-31'),
+      }),
+      contract({})
+    );
+    const euro = scoreContractMatch(invoice({ currency: 'EUR' }), contract({}));
+
+    expect(expired.score).toBeLessThan(CONTRACT_MATCH_THRESHOLD);
+    expect(expired.reasons).toContain(
+      'Service period is outside the contract term (2024-01-01 to 2024-12-31)'
+    );
+    expect(euro.score).toBeLessThan(CONTRACT_MATCH_THRESHOLD);
+    expect(euro.reasons).toContain('Currency EUR differs from contract currency USD');
+  });
+
+  it('never assigns a contract the vendor is not a party to', () => {
+    const match = scoreContractMatch(
+      invoice({ references: ['MSA-2024-017'] }),
+      contract({ contractParties: [{ partyId: 'party-other', partyRole: 'Vendor' }] })
+    );
+
+    expect(match.score).toBeLessThan(CONTRACT_MATCH_THRESHOLD);
+    expect(match.reasons).toContain('Vendor is not a party to the contract');
+  });
+});
+
+describe('rankContractMatches', () => {
+  it('assigns the best contract and keeps the others as runner-ups', () => {
+    const result = rankContractMatches(invoice({ references: ['MSA-2024-017'] }), [
+      contract({ contractId: 'contract-2023', contractNumber: 'MSA-2023-004' }),
+      contract({}),
+      contract({ contractId: 'contract-freight', contractNumber: 'FRT-1', billableItems: [] }),
+    ]);
+
+    expect(result.contractId).toBe('contract-2024');
+    expect(result.matches.map((match) => match.contractId)).toEqual([
+      'contract-2024',
+      'contract-2023',
+      'contract-freight',
+    ]);
+  });
+
+  it('assigns neither of two contracts that score the same and lists the newer first', () => {
+    const result = rankContractMatches(invoice({ lineDescriptions: [] }), [
+      contract({ contractId: 'contract-old', effectiveDate: new Date('2023-06-01') }),
+      contract({ contractId: 'contract-new', effectiveDate: new Date('2024-01-01') }),
+    ]);
+
+    expect(result.matches[0].score).toBe(CONTRACT_MATCH_THRESHOLD);
+    expect(result.contractId).toBeNull();
+    expect(result.matches.map((match) => match.contractId)).toEqual([
+      'contract-new',
+      'contract-old',
+    ]);
+  });
+
+  it('assigns the contract whose items the lines bill over another of the vendor', () => {
+    const result = rankContractMatches(invoice(), [
+      contract({ contractId: 'contract-freight', contractNumber: 'FRT-1', billableItems: [] }),
+      contract({}),
+    ]);
+
+    expect(result.contractId).toBe('contract-2024');
+  });
+
+  it('assigns nothing when no contract scores high enough', () => {
+    const result = rankContractMatches(invoice({ currency: 'EUR' }), [contract({})]);
+
+    expect(result.contractId).toBeNull();
+    expect(result.matches).toHaveLength(1);
+  });
+});
+
+describe('saveContractMatches', () => {
+  it('replaces the invoice’s matches, ranked best first', async () => {
+    const calls = { deleted: [] as any[], created: [] as any[] };
+    const db = {
+      invoiceContractMatch: {
+        deleteMany: async ({ where }: any) => {
+          calls.deleted.push(where);
+        },
+        createMany: async ({ data }: any) => {
+          calls.created.push(...data);
+        },
+      },
+    } as any;
+
+    await saveContractMatches(
+      'invoice-1',
+      [
+        { contractId: 'contract-2024', score: 0.8, reasons: ['Currency USD matches'] },
+        { contractId: 'contract-2023', score: 0.45, reasons: [] },
+      ],
+      db
+    );
+
+    expect(calls.deleted).toEqual([{ invoiceId: 'invoice-1' }]);
+    expect(calls.created).toEqual([
+      {
+        invoiceId: 'invoice-1',
+        contractId: 'contract-2024',
+        rank: 0,
+        score: 0.8,
+        reasons: ['Currency USD matches'],
+      },
+      { invoiceId: 'invoice-1', contractId: 'contract-2023', rank: 1, score: 0.45, reasons: [] },
+    ]);
+  });
+});
+
+describe('overrideContractMatch', () => {
+  it('records a cleared contract as the reviewer’s choice', async () => {
+    const calls = { updated: [] as any[], audited: [] as any[] };
+    const db = {
+      invoice: {
+        findUniqueOrThrow: async () => ({
+          contractId: 'contract-2024',
+          contractMatchMethod: 'Automatic',
+        }),
+        update: async ({ data }: any) => {
+          calls.updated.push(data);
+        },
+      },
+      auditLog: {
+        create: async ({ data }: any) => {
+          calls.audited.push(data);
+        },
+      },
+    } as any;
+
+    await overrideContractMatch('invoice-1', null, 'user-1', db);
+
+    expect(calls.updated[0]).toMatchObject({ contractId: null, contractMatchMethod: 'Manual' });
+    expect(calls.audited[0]).toMatchObject({
+      oldValues: { contractId: 'contract-2024', contractMatchMethod: 'Automatic' },
+      newValues: { contractId: null, contractMatchMethod: 'Manual' },
+    });
+  });
+});
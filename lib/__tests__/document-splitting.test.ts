@@ -0,0 +1,125 @@
+import { classifyPage, detectInvoiceBoundaries, sliceOCRResult } from '../document-splitting';
+import { PageOCRResult } from '../ocr';
+
+const pages = (...texts: string[]): PageOCRResult[] =>
+  texts.map((text, index) => ({ pageNumber: index + 1, text }));
+
+const invoicePage = (number: string, footer = '', vendor = 'Acme Medical Supply') =>
+  `${vendor}\nINVOICE\nInvoice Number: ${number}\nInvoice Date: 01/15/2025\nBill To: General Hospital\n${footer}`;
+
+describe('Document Splitting', () => {
+  describe('classifyPage', () => {
+    it('should classify invoice headers and continuation pages', () => {
+      const [first, second] = pages(
+        invoicePage('INV-1001', 'Page 1 of 2'),
+        'Nitrile Gloves 2 CS 125.00\nPage 2 of 2'
+      ).map(classifyPage);
+
+      expect(first).toMatchObject({
+        pageClass: 'invoice_start',
+        invoiceNumber: 'INV-1001',
+        pageOf: { page: 1, total: 2 },
+        headerKey: 'acmemedicalsupply',
+      });
+      expect(second).toMatchObject({ pageClass: 'continuation', invoiceNumber: null });
+    });
+
+    it('should not read a label without a number as an invoice number', () => {
+      expect(
+        classifyPage({ pageNumber: 1, text: 'Invoice Number: see below' }).invoiceNumber
+      ).toBeNull();
+    });
+  });
+
+  describe('detectInvoiceBoundaries', () => {
+    it('should keep a single multi-page invoice together', () => {
+      expect(
+        detectInvoiceBoundaries(
+          pages(invoicePage('INV-1001', 'Page 1 of 2'), invoicePage('INV-1001', 'Page 2 of 2'))
+        )
+      ).toEqual([{ startPage: 1, endPage: 2, invoiceNumber: 'INV-1001' }]);
+    });
+
+    it('should split where the invoice number changes', () => {
+      expect(
+        detectInvoiceBoundaries(
+          pages(
+            invoicePage('INV-1001'),
+            'Line items continued 125.00',
+            invoicePage('INV-1002'),
+            invoicePage('INV-01003')
+          )
+        )
+      ).toEqual([
+        { startPage: 1, endPage: 2, invoiceNumber: 'INV-1001' },
+        { startPage: 3, endPage: 3, invoiceNumber: 'INV-1002' },
+        { startPage: 4, endPage: 4, invoiceNumber: 'INV-01003' },
+      ]);
+    });
+
+    it('should not split on formatting differences in the same invoice number', () => {
+      expect(
+        detectInvoiceBoundaries(pages(invoicePage('INV-1001'), invoicePage('INV1001')))
+      ).toHaveLength(1);
+    });
+
+    it('should split where page numbering restarts', () => {
+      const segments = detectInvoiceBoundaries(
+        pages(
+          'INVOICE\nInvoice Date: 01/01/2025\nBill To: General Hospital\nPage 1 of 1',
+          'INVOICE\nInvoice Date: 02/01/2025\nBill To: General Hospital\nPage 1 of 1'
+        )
+      );
+      expect(segments.map((segment) => segment.startPage)).toEqual([1, 2]);
+    });
+
+    it('should split where a different vendor header appears with an invoice number', () => {
+      const segments = detectInvoiceBoundaries(
+        pages(
+          'Acme Medical Supply\nINVOICE\nInvoice Date: 01/01/2025\nBill To: General Hospital',
+          invoicePage('NW-2207', '', 'Northwind Surgical')
+        )
+      );
+      expect(segments).toHaveLength(2);
+    });
+
+    it('should not split on a different header alone', () => {
+      const segments = detectInvoiceBoundaries(
+        pages(
+          invoicePage('INV-1001'),
+          'PNC Lockbox Services\nINVOICE remittance\nRemit To: Acme Medical Supply\nDue Date: 02/14/2025'
+        )
+      );
+      expect(segments).toEqual([{ startPage: 1, endPage: 2, invoiceNumber: 'INV-1001' }]);
+    });
+
+    it('should attach a fax cover sheet to the first invoice', () => {
+      expect(
+        detectInvoiceBoundaries(
+          pages(
+            'FAX\nTo: Accounts Payable\n3 pages',
+            invoicePage('INV-1001'),
+            invoicePage('INV-1002')
+          )
+        )
+      ).toEqual([
+        { startPage: 1, endPage: 2, invoiceNumber: 'INV-1001' },
+        { startPage: 3, endPage: 3, invoiceNumber: 'INV-1002' },
+      ]);
+    });
+  });
+
+  describe('sliceOCRResult', () => {
+    const ocrResult = { text: 'a\n\nb\n\nc', pages: pages('a', 'b', 'c'), totalPages: 3 };
+
+    it('should keep the source page numbers of the range', () => {
+      const slice = sliceOCRResult(ocrResult, 2, 3);
+      expect(slice.pages.map((page) => page.pageNumber)).toEqual([2, 3]);
+      expect(slice).toMatchObject({ text: 'b\n\nc', totalPages: 2 });
+    });
+
+    it('should return the whole document without a range', () => {
+      expect(sliceOCRResult(ocrResult, null, null)).toBe(ocrResult);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  compareInvoiceNumbers,
+  normalizeInvoiceNumber,
+  periodsOverlap,
+} from '../duplicate-detection';
+
+describe('Duplicate Detection', () => {
+  describe('normalizeInvoiceNumber', () => {
+    it('should ignore case, punctuation and leading zeros', () => {
+      expect(normalizeInvoiceNumber('inv-00123')).toBe('INV123');
+      expect(normalizeInvoiceNumber('INV 123')).toBe('INV123');
+      expect(normalizeInvoiceNumber('000456')).toBe('456');
+    });
+  });
+
+  describe('compareInvoiceNumbers', () => {
+    it('should match equal numbers after normalization', () => {
+      expect(compareInvoiceNumbers('INV-00123', 'inv123')).toBe('exact');
+    });
+
+    it('should find OCR misreads and swapped digits similar when fuzzy', () => {
+      expect(compareInvoiceNumbers('2024-118734', '2024-11B734')).toBe('similar');
+      expect(compareInvoiceNumbers('INV-1O0234', 'INV-100234')).toBe('similar');
+      expect(compareInvoiceNumbers('2024-118734', '2024-117834')).toBe('similar');
+      expect(compareInvoiceNumbers('2024-118734', '2024-11B734', false)).toBeNull();
+    });
+
+    it('should not match a vendor’s consecutive invoice numbers', () => {
+      expect(compareInvoiceNumbers('INV-100234', 'INV-100235')).toBeNull();
+      expect(compareInvoiceNumbers('2025-0412', '2025-0413')).toBeNull();
+      expect(compareInvoiceNumbers('2024-118734', '2024-118784')).toBeNull();
+    });
+
+    it('should not fuzzy match short numbers', () => {
+      expect(compareInvoiceNumbers('1OO1', '1001')).toBeNull();
+    });
+
+    it('should not match numbers more than the allowed distance apart', () => {
+      expect(compareInvoiceNumbers('2024-118734', '2024-11BB34')).toBeNull();
+    });
+  });
+
+  describe('periodsOverlap', () => {
+    const day = (value: string) => new Date(`${value}T00:00:00Z`);
+    const overlaps = (a: string, b: string, c: string, d: string) =>
+      periodsOverlap(day(a), day(b), day(c), day(d));
+
+    it('should detect overlapping and touching periods', () => {
+      expect(overlaps('2025-01-01', '2025-01-31', '2025-01-15', '2025-02-14')).toBe(true);
+      expect(overlaps('2025-01-01', '2025-01-31', '2025-01-31', '2025-02-28')).toBe(true);
+    });
+
+    it('should not flag consecutive periods', () => {
+      expect(overlaps('2025-01-01', '2025-01-31', '2025-02-01', '2025-02-28')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  completeWithCache,
+  ExtractionCacheMissError,
+  parseCacheMode,
+  responseKey,
+} from '../extraction-cache';
+import { ExtractionRequest } from '../extraction-provider';
+
+const request: ExtractionRequest = {
+  task: 'invoice',
+  system: 'Extract the invoice.',
+  prompt: 'Invoice INV-1001',
+  documentHash: 'file-hash',
+  promptVersion: 'invoice.1',
+};
+
+const stored = {
+  responseId: 'response-1',
+  responseText: '{"stored":true}',
+  provider: 'anthropic',
+  model: 'claude-sonnet-4-5-20250929',
+};
+
+// Records upserts and hit count updates
+function fakeDb(exact: typeof stored | null, latest: typeof stored | null = null) {
+  const calls = { upserts: [] as any[], hits: 0 };
+  const db = {
+    extractionRawResponse: {
+      findUnique: async () => exact,
+      findFirst: async () => latest,
+      upsert: async (args: any) => calls.upserts.push(args),
+      update: async () => calls.hits++,
+    },
+  } as any;
+  return { db, calls };
+}
+
+describe('Extraction Cache', () => {
+  const env = process.env;
+  const fresh = { text: '{"fresh":true}', provider: 'anthropic' as const, model: 'model' };
+  const modelCall = async (): Promise<never> => {
+    throw new Error('The model should not be called');
+  };
+
+  beforeEach(() => {
+    process.env = { ...env, EXTRACTION_PROVIDER: 'anthropic' };
+    delete process.env.EXTRACTION_CACHE;
+    delete process.env.EXTRACTION_MODEL;
+    delete process.env.EXTRACTION_INVOICE_MODEL;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('responseKey', () => {
+    it('should key on the file, task, prompt version, model and prompt', () => {
+      const key = responseKey(request);
+      expect(key).toMatchObject({
+        fileHash: 'file-hash',
+        task: 'invoice',
+        chunkIndex: 0,
+        repairAttempt: 0,
+        promptVersion: 'invoice.1',
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5-20250929',
+      });
+      expect(responseKey({ ...request, prompt: 'Invoice INV-1002' }).promptHash).not.toBe(
+        key.promptHash
+      );
+    });
+  });
+
+  describe('completeWithCache', () => {
+    it('should reuse a stored response without calling the model', async () => {
+      const { db, calls } = fakeDb(stored);
+      expect(await completeWithCache(request, 'use', modelCall, db)).toEqual({
+        text: '{"stored":true}',
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5-20250929',
+      });
+      expect(calls.hits).toBe(1);
+    });
+
+    it('should call the model and store the response on a miss', async () => {
+      const { db, calls } = fakeDb(null);
+
+      expect(await completeWithCache(request, 'use', async () => fresh, db)).toBe(fresh);
+      expect(calls.upserts).toHaveLength(1);
+      expect(calls.upserts[0].create).toMatchObject({
+        fileHash: 'file-hash',
+        responseText: '{"fresh":true}',
+      });
+    });
+
+    it('should call the model again when refreshing', async () => {
+      const { db, calls } = fakeDb(stored);
+
+      expect(await completeWithCache(request, 'refresh', async () => fresh, db)).toBe(fresh);
+      expect(calls.upserts).toHaveLength(1);
+    });
+
+    it('should not cache the mock provider', async () => {
+      process.env.EXTRACTION_PROVIDER = 'mock';
+      const { db, calls } = fakeDb(stored);
+
+      expect(await completeWithCache(request, 'use', async () => fresh, db)).toBe(fresh);
+      expect(calls.upserts).toHaveLength(0);
+    });
+
+    it('should replay the latest response when the prompt has changed', async () => {
+      const { db } = fakeDb(null, stored);
+      expect((await completeWithCache(request, 'replay', modelCall, db)).text).toBe(
+        '{"stored":true}'
+      );
+    });
+
+    it('should fail a replay without a stored response', async () => {
+      const { db } = fakeDb(null);
+
+      await expect(completeWithCache(request, 'replay', async () => fresh, db)).rejects.toThrow(
+        ExtractionCacheMissError
+      );
+    });
+  });
+
+  describe('parseCacheMode', () => {
+    it('should default to using the cache and reject unknown modes', () => {
+      expect(parseCacheMode(null)).toBe('use');
+      expect(parseCacheMode('replay')).toBe('replay');
+      expect(parseCacheMode('sometimes')).toBeNull();
+    });
+  });
+});
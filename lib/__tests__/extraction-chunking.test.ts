@@ -0,0 +1,226 @@
+import {
+  chunkPages,
+  mergeContractEnvelopes,
+  mergeInvoicePayloads,
+  ExtractionChunk,
+} from '../extraction-chunking';
+
+const page = (pageNumber: number, length: number) => ({
+  pageNumber,
+  text: 'word '.repeat(length / 5).trim(),
+});
+
+const chunk = (index: number, pageStart: number, pageEnd: number): ExtractionChunk => ({
+  index,
+  pageStart,
+  pageEnd,
+  text: '',
+});
+
+describe('Extraction Chunking', () => {
+  describe('chunkPages', () => {
+    it('should keep a short document in one chunk', () => {
+      const chunks = chunkPages([page(1, 400), page(2, 400)]);
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]).toMatchObject({ pageStart: 1, pageEnd: 2 });
+      expect(chunks[0].text).toContain('--- Page 2 ---');
+    });
+
+    it('should split on page boundaries', () => {
+      const chunks = chunkPages([page(1, 600), page(2, 600), page(3, 600)], 1400);
+      expect(chunks.map((c) => [c.pageStart, c.pageEnd])).toEqual([
+        [1, 2],
+        [3, 3],
+      ]);
+    });
+
+    it('should split a page that does not fit a chunk', () => {
+      const chunks = chunkPages([page(1, 200), page(2, 2500)], 1000);
+      expect(chunks.map((c) => [c.pageStart, c.pageEnd])).toEqual([
+        [1, 1],
+        [2, 2],
+        [2, 2],
+        [2, 2],
+      ]);
+      expect(chunks.every((c) => c.text.length <= 1000)).toBe(true);
+      expect(chunks[3].text.startsWith('--- Page 2 ---')).toBe(true);
+    });
+  });
+
+  describe('mergeContractEnvelopes', () => {
+    it('should de-duplicate billable items and pricing models across chunks', () => {
+      const merged = mergeContractEnvelopes(
+        [
+          {
+            chunk: chunk(0, 1, 10),
+            confidence: 0.9,
+            data: {
+              contracts: { contract_title: 'Master Services Agreement' },
+              pricing_models: [{ model_id: 'm1', model_name: 'Tiered', model_type: 'tiered' }],
+              billable_items: [
+                {
+                  item_id: 'a',
+                  item_name: 'Nitrile Gloves',
+                  pricing_model_id: 'm1',
+                  source_page: 4,
+                },
+              ],
+            },
+          },
+          {
+            chunk: chunk(1, 11, 20),
+            confidence: 0.8,
+            data: {
+              contracts: { contract_title: 'MSA', expiration_date: '2027-01-01' },
+              pricing_models: [{ model_id: 'm2', model_name: 'tiered', model_type: 'Tiered' }],
+              billable_items: [
+                {
+                  item_id: 'b',
+                  item_name: 'Nitrile gloves',
+                  pricing_model_id: 'm2',
+                  pricing_details: { list_price: 12 },
+                  source_page: 18,
+                },
+                { item_id: 'c', item_name: 'Gowns', pricing_model_id: 'm2' },
+              ],
+            },
+          },
+        ],
+        { totalPages: 20 }
+      );
+
+      expect(merged.pricing_models).toHaveLength(1);
+      expect(merged.billable_items).toHaveLength(2);
+      expect(merged.billable_items[0]).toMatchObject({
+        item_id: 'a',
+        pricing_details: { list_price: 12 },
+        source_pages: [4, 18],
+      });
+      expect(merged.billable_items[1].pricing_model_id).toBe('m1');
+      expect(merged.billable_items[1].source_pages).toEqual(expect.arrayContaining([11, 20]));
+      expect(merged.contracts).toEqual({
+        contract_title: 'Master Services Agreement',
+        expiration_date: '2027-01-01',
+      });
+      expect(merged._validation_summary.merge_conflicts).toEqual(['contracts.contract_title']);
+    });
+
+    it('should resolve conflicting values by confidence', () => {
+      const merged = mergeContractEnvelopes(
+        [
+          {
+            chunk: chunk(0, 1, 1),
+            confidence: 0.6,
+            data: { billable_items: [{ item_name: 'Gowns', pricing_details: { list_price: 9 } }] },
+          },
+          {
+            chunk: chunk(1, 2, 2),
+            confidence: 0.95,
+            data: { billable_items: [{ item_name: 'Gowns', pricing_details: { list_price: 8 } }] },
+          },
+        ],
+        { totalPages: 2 }
+      );
+      expect(merged.billable_items[0].pricing_details.list_price).toBe(8);
+    });
+
+    it('should keep items with the same name but different SKUs apart', () => {
+      const merged = mergeContractEnvelopes(
+        [
+          {
+            chunk: chunk(0, 1, 1),
+            confidence: 0.9,
+            data: {
+              billable_items: [
+                { item_name: 'Gloves', external_ids: { vendor_sku: 'G-S' } },
+                { item_name: 'Gloves', external_ids: { vendor_sku: 'G-L' } },
+              ],
+            },
+          },
+        ],
+        { totalPages: 1 }
+      );
+      expect(merged.billable_items).toHaveLength(2);
+    });
+
+    it('should report pages of failed chunks as not processed', () => {
+      const merged = mergeContractEnvelopes(
+        [{ chunk: chunk(0, 1, 30), confidence: 0.9, data: { billable_items: [] } }],
+        { totalPages: 60, failedChunks: [chunk(1, 31, 60)] }
+      );
+      expect(merged._validation_summary.pages_not_processed).toHaveLength(30);
+      expect(merged._validation_summary.pages_not_processed[0]).toBe(31);
+    });
+  });
+
+  describe('mergeInvoicePayloads', () => {
+    it('should merge the header and concatenate line items', () => {
+      const payload = (header: any, lines: any[]) => ({
+        validation_request: { invoice_data: { invoice_header: header, line_items: lines } },
+      });
+      const merged = mergeInvoicePayloads(
+        [
+          {
+            chunk: chunk(0, 1, 1),
+            confidence: 0.9,
+            data: payload({ invoice_id: 'INV-1' }, [{ line_number: 1, description: 'Gloves' }]),
+          },
+          {
+            chunk: chunk(1, 2, 2),
+            confidence: 0.9,
+            data: payload({ total_amount: 250 }, [
+              { line_number: 1, description: 'Gloves' },
+              { line_number: 2, description: 'Gowns' },
+            ]),
+          },
+        ],
+        { totalPages: 2 }
+      );
+
+      const invoiceData = merged.validation_request.invoice_data;
+      expect(invoiceData.invoice_header).toEqual({ invoice_id: 'INV-1', total_amount: 250 });
+      expect(invoiceData.line_items).toHaveLength(2);
+      expect(merged._validation_summary.pages_not_processed).toEqual([]);
+    });
+
+    it('should number line items across chunks that each start at 1', () => {
+      const payload = (lines: any[]) => ({
+        validation_request: { invoice_data: { invoice_header: {}, line_items: lines } },
+      });
+      const merged = mergeInvoicePayloads(
+        [
+          {
+            chunk: chunk(0, 1, 1),
+            confidence: 0.9,
+            data: payload([
+              { line_number: 1, description: 'Widget', quantity: 2, extended_amount: 20 },
+              { line_number: 2, description: 'Gadget', quantity: 1, extended_amount: 15 },
+            ]),
+          },
+          {
+            chunk: chunk(1, 2, 2),
+            confidence: 0.9,
+            data: payload([
+              { line_number: 1, description: 'Gadget', quantity: 1, extended_amount: 15 },
+              { line_number: 2, description: 'Bolt', quantity: 10, extended_amount: 5 },
+              { line_number: 3, description: 'Bolt', quantity: 10, extended_amount: 5 },
+            ]),
+          },
+        ],
+        { totalPages: 2 }
+      );
+
+      expect(
+        merged.validation_request.invoice_data.line_items.map((item: any) => [
+          item.line_number,
+          item.description,
+        ])
+      ).toEqual([
+        [1, 'Widget'],
+        [2, 'Gadget'],
+        [3, 'Bolt'],
+        [4, 'Bolt'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  alignLineItems,
+  findRegressions,
+  scoreExtraction,
+  summarizeEvaluation,
+  valuesMatch,
+} from '../extraction-evaluation';
+
+const invoice = (header: Record<string, unknown>, lineItems: Record<string, unknown>[]) => ({
+  validation_request: { invoice_data: { invoice_header: header, line_items: lineItems } },
+});
+
+const gloves = { description: 'Nitrile Exam Gloves', quantity: 10, extended_amount: 425 };
+const gauze = { description: 'Sterile Gauze Pads', quantity: 25, extended_amount: 205 };
+
+describe('Extraction Evaluation', () => {
+  describe('valuesMatch', () => {
+    it('should compare amounts to the cent, dates across formats and text loosely', () => {
+      expect(valuesMatch(819, '$819.00')).toBe(true);
+      expect(valuesMatch(15.75, 15.57)).toBe(false);
+      expect(valuesMatch('2025-03-15', '03/15/2025')).toBe(true);
+      expect(valuesMatch('2025-03-15', '2025-03-16')).toBe(false);
+      expect(valuesMatch('Acme Medical Supply Inc.', 'ACME  medical supply inc')).toBe(true);
+    });
+  });
+
+  describe('alignLineItems', () => {
+    it('should align reordered items and leave unmatched ones out', () => {
+      const { pairs, alignment } = alignLineItems(
+        [gloves, gauze],
+        [gauze, { description: 'Freight', extended_amount: 25 }, gloves]
+      );
+
+      expect(pairs).toEqual([
+        [0, 2, 1],
+        [1, 0, 1],
+      ]);
+      expect(alignment).toEqual({ expected: 2, extracted: 3, matched: 2, score: 0.667 });
+    });
+
+    it('should score two empty lists as aligned', () => {
+      expect(alignLineItems([], []).alignment.score).toBe(1);
+    });
+  });
+
+  describe('scoreExtraction', () => {
+    it('should score header fields by path and line items by alignment', () => {
+      const expected = invoice(
+        { invoice_id: 'INV-1', invoice_date: '2025-03-15', total_amount: 630, po_number: 'PO-1' },
+        [gloves, gauze]
+      );
+      const extracted = {
+        ...invoice(
+          { invoice_id: 'INV-1', invoice_date: '03/15/2025', total_amount: 603, currency: 'USD' },
+          [gauze, { ...gloves, quantity: 1 }]
+        ),
+        validation_result: { confidence_score: 0.9 },
+      };
+
+      const score = scoreExtraction('invoice', expected, extracted);
+
+      // 10 expected and 10 extracted fields; total_amount, po_number, currency and one
+      // quantity are wrong
+      expect(score).toMatchObject({
+        expectedFields: 10,
+        extractedFields: 10,
+        correctFields: 7,
+        precision: 0.7,
+        recall: 0.7,
+        amounts: { total: 3, matched: 2 },
+        dates: { total: 1, matched: 1, rate: 1 },
+        lineItems: { expected: 2, extracted: 2, matched: 2 },
+      });
+      expect(score.mismatches.map((mismatch) => mismatch.path)).toEqual([
+        'validation_request.invoice_data.invoice_header.total_amount',
+        'validation_request.invoice_data.invoice_header.po_number',
+        'validation_request.invoice_data.invoice_header.currency',
+        'validation_request.invoice_data.line_items.0.quantity',
+      ]);
+    });
+
+    it('should count everything as missed for a failed extraction', () => {
+      const score = scoreExtraction('contract', { contracts: { contract_id: 'C-1' } }, {});
+      expect(score).toMatchObject({ expectedFields: 1, correctFields: 0, recall: 0, f1: 0 });
+    });
+  });
+
+  describe('findRegressions', () => {
+    it('should report metrics that dropped beyond the tolerance', () => {
+      const baseline = summarizeEvaluation([]);
+      const summary = {
+        ...baseline,
+        precision: 0.9,
+        recall: 0.8,
+        f1: 0.85,
+        amountMatchRate: 0.95,
+        dateMatchRate: null,
+      };
+
+      expect(
+        findRegressions(summary, { ...summary, precision: 0.905, recall: 0.9, f1: 0.9 }, 0.01)
+      ).toEqual(['recall: 0.9 -> 0.8', 'f1: 0.9 -> 0.85']);
+    });
+  });
+});
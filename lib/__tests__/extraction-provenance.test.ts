@@ -0,0 +1,77 @@
+import { indexPages, locateValue, valueKeys } from '../extraction-provenance';
+import { PageOCRResult } from '../ocr';
+
+// Lays words out left to right on one line per entry, 10pt per character
+const page = (pageNumber: number, lines: string[]): PageOCRResult => ({
+  pageNumber,
+  text: lines.join('\n'),
+  width: 612,
+  height: 792,
+  boundingBoxes: lines.flatMap((line, row) => {
+    let x = 72;
+    return line.split(' ').map((text) => {
+      const box = { x, y: 100 + row * 20, width: text.length * 10, height: 12, text };
+      x += box.width + 10;
+      return box;
+    });
+  }),
+});
+
+describe('Extraction Provenance', () => {
+  describe('valueKeys', () => {
+    it('should include printed forms of amounts and dates', () => {
+      expect(valueKeys(1250.5)).toEqual(['125050', '12505']);
+      expect(valueKeys('2025-01-15')).toEqual(
+        expect.arrayContaining(['01152025', '1152025', 'january152025', 'jan152025'])
+      );
+    });
+
+    it('should skip values too short to locate', () => {
+      expect(valueKeys(2)).toEqual([]);
+      expect(valueKeys('EA')).toEqual([]);
+      expect(valueKeys(true)).toEqual([]);
+    });
+  });
+
+  describe('locateValue', () => {
+    const index = indexPages([
+      page(1, ['Invoice Number: INV-2024-001', 'Invoice Date: 01/15/2025']),
+      page(2, ['Nitrile Gloves, Large 2 CS $1,250.50', 'Total Due: $1,250.50']),
+    ]);
+
+    it('should box the words a value was read from', () => {
+      const location = locateValue(index, 'INV-2024-001');
+      expect(location).toMatchObject({
+        pageNumber: 1,
+        boundingBox: { x: 232, y: 100, width: 120, height: 12, pageWidth: 612 },
+      });
+      expect(location?.textSnippet).toContain('Invoice Number: INV-2024-001');
+    });
+
+    it('should match values spanning several words', () => {
+      const location = locateValue(index, 'Nitrile gloves large');
+      expect(location?.pageNumber).toBe(2);
+      expect(location?.boundingBox).toMatchObject({ x: 72, width: 210 });
+    });
+
+    it('should match amounts and dates however they are printed', () => {
+      expect(locateValue(index, 1250.5)?.pageNumber).toBe(2);
+      expect(locateValue(index, '2025-01-15')?.boundingBox.y).toBe(120);
+    });
+
+    it('should prefer the page the record was found on', () => {
+      const repeated = indexPages([page(1, ['Gowns 25.00']), page(3, ['Gowns 25.00'])]);
+      expect(locateValue(repeated, 'Gowns', 3)?.pageNumber).toBe(3);
+      expect(locateValue(repeated, 'Gowns')?.pageNumber).toBe(1);
+    });
+
+    it('should not match part of a word', () => {
+      expect(locateValue(index, 'Glove')).toBeNull();
+      expect(locateValue(index, 'Purchase Order')).toBeNull();
+    });
+
+    it('should return null without word boxes', () => {
+      expect(locateValue(indexPages([{ pageNumber: 1, text: 'INV-1' }]), 'INV-1')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  documentKey,
+  extractionMethod,
+  getTaskConfig,
+  MockExtractionProvider,
+} from '../extraction-provider';
+
+describe('Extraction Provider', () => {
+  describe('getTaskConfig', () => {
+    const env = process.env;
+
+    beforeEach(() => {
+      process.env = { ...env };
+      delete process.env.EXTRACTION_MODEL;
+      delete process.env.EXTRACTION_CONTRACT_MODEL;
+      delete process.env.EXTRACTION_CONTRACT_TEMPERATURE;
+      delete process.env.EXTRACTION_CONTRACT_MAX_TOKENS;
+    });
+
+    afterAll(() => {
+      process.env = env;
+    });
+
+    it('should use the task defaults for the provider', () => {
+      expect(getTaskConfig('simple_invoice', 'openai')).toEqual({
+        model: 'gpt-4o',
+        temperature: 0,
+        maxTokens: 1000,
+      });
+    });
+
+    it('should apply task overrides over the global model', () => {
+      process.env.EXTRACTION_MODEL = 'global-model';
+      process.env.EXTRACTION_CONTRACT_MODEL = 'contract-model';
+      process.env.EXTRACTION_CONTRACT_MAX_TOKENS = '16000';
+      process.env.EXTRACTION_CONTRACT_TEMPERATURE = 'warm';
+
+      expect(getTaskConfig('contract', 'anthropic')).toEqual({
+        model: 'contract-model',
+        temperature: 0.1,
+        maxTokens: 16000,
+      });
+      expect(getTaskConfig('invoice', 'anthropic').model).toBe('global-model');
+    });
+  });
+
+  describe('MockExtractionProvider', () => {
+    const config = { model: 'mock', temperature: 0, maxTokens: 1000 };
+    let fixturesDir: string;
+    let provider: MockExtractionProvider;
+
+    beforeAll(() => {
+      fixturesDir = mkdtempSync(join(tmpdir(), 'extraction-fixtures-'));
+      mkdirSync(join(fixturesDir, 'abc123'));
+      writeFileSync(join(fixturesDir, 'abc123', 'invoice.json'), '{"whole":true}');
+      writeFileSync(join(fixturesDir, 'abc123', 'invoice.1.json'), '{"chunk":1}');
+      provider = new MockExtractionProvider(fixturesDir);
+    });
+
+    afterAll(() => {
+      rmSync(fixturesDir, { recursive: true, force: true });
+    });
+
+    const request = (overrides: any = {}) => ({
+      task: 'invoice' as const,
+      system: '',
+      prompt: 'Extract the invoice',
+      documentHash: 'abc123',
+      ...overrides,
+    });
+
+    it('should prefer a per-chunk fixture', async () => {
+      const response = await provider.complete(request({ chunkIndex: 1 }), config);
+      expect(response.text).toBe('{"chunk":1}');
+      expect(extractionMethod(response)).toBe('mock-mock');
+    });
+
+    it('should fall back to the document fixture', async () => {
+      const response = await provider.complete(request({ chunkIndex: 0 }), config);
+      expect(response.text).toBe('{"whole":true}');
+    });
+
+    it('should answer unrecorded documents with an empty response', async () => {
+      const response = await provider.complete(
+        request({ task: 'type_detection', documentHash: 'unknown', documentText: 'INVOICE' }),
+        config
+      );
+      expect(JSON.parse(response.text).type).toBe('invoice');
+    });
+  });
+
+  describe('documentKey', () => {
+    it('should hash the document text when no file hash is known', () => {
+      const key = documentKey({ task: 'contract', system: '', prompt: '', documentText: 'abc' });
+      expect(key).toHaveLength(64);
+      expect(documentKey({ task: 'contract', system: '', prompt: '', documentHash: 'h' })).toBe(
+        'h'
+      );
+    });
+  });
+});
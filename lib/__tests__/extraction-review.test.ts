@@ -0,0 +1,113 @@
+import { rebuildExtractionData, reviewHoldReason } from '../extraction-review';
+
+const field = (
+  fieldName: string,
+  extractedValue: string | null,
+  normalizedValue: string | null = null
+) => ({
+  fieldName,
+  extractedValue,
+  normalizedValue,
+});
+
+describe('Extraction Review', () => {
+  describe('rebuildExtractionData', () => {
+    it('should rebuild nested objects and arrays from field paths', () => {
+      expect(
+        rebuildExtractionData([
+          field('invoice_header.invoice_number', 'INV-1001'),
+          field('invoice_header.total_amount', '1250.50'),
+          field('line_items.0.description', 'Nitrile Gloves'),
+          field('line_items.0.quantity', '2'),
+          field('line_items.1.description', 'Gauze Pads'),
+        ])
+      ).toEqual({
+        invoice_header: { invoice_number: 'INV-1001', total_amount: 1250.5 },
+        line_items: [{ description: 'Nitrile Gloves', quantity: 2 }, { description: 'Gauze Pads' }],
+      });
+    });
+
+    it('should prefer the reviewed value over the extracted one', () => {
+      expect(
+        rebuildExtractionData([field('invoice_header.invoice_number', 'INV-1O01', 'INV-1001')])
+      ).toEqual({ invoice_header: { invoice_number: 'INV-1001' } });
+    });
+
+    it('should keep identifiers with leading zeros as strings and parse booleans', () => {
+      expect(
+        rebuildExtractionData([
+          field('vendor.zip', '02139'),
+          field('vendor.tax_id', '001234567'),
+          field('contract.auto_renewal', 'true'),
+        ])
+      ).toEqual({
+        vendor: { zip: '02139', tax_id: '001234567' },
+        contract: { auto_renewal: true },
+      });
+    });
+
+    it('should skip empty values and compact the arrays they leave', () => {
+      expect(
+        rebuildExtractionData([
+          field('line_items.0.description', ''),
+          field('line_items.1.description', 'Gauze Pads'),
+          field('invoice_header.po_number', null, ''),
+        ])
+      ).toEqual({ line_items: [{ description: 'Gauze Pads' }] });
+    });
+  });
+
+  describe('reviewHoldReason', () => {
+    const db = (flagged: number) =>
+      ({
+        documentExtractionData: {
+          findFirst: async () => null,
+          count: async () => flagged,
+        },
+      }) as any;
+
+    it('should hold documents with low-confidence fields', async () => {
+      expect(await reviewHoldReason('doc-1', { confidence: 0.9 } as any, db(2))).toBe(
+        '2 fields extracted below 70% confidence'
+      );
+    });
+
+    it('should hold extractions that failed consistency checks', async () => {
+      const result = {
+        confidence: 0.9,
+        extractionMetadata: {
+          requiresHumanReview: true,
+          validationErrors: ['Totals do not match'],
+        },
+      } as any;
+      expect(await reviewHoldReason('doc-1', result, db(0))).toBe(
+        'Extraction failed consistency checks: Totals do not match'
+      );
+    });
+
+    it('should only count fields of the latest extraction', async () => {
+      const extractedDate = new Date('2024-06-01T10:00:00Z');
+      const counted: any[] = [];
+      const latestDb = {
+        documentExtractionData: {
+          findFirst: async () => ({ extractedDate }),
+          count: async ({ where }: any) => {
+            counted.push(where);
+            return 0;
+          },
+        },
+      } as any;
+
+      expect(await reviewHoldReason('doc-1', { confidence: 0.95 } as any, latestDb)).toBeNull();
+      expect(counted[0]).toMatchObject({
+        documentId: 'doc-1',
+        entityType: 'extracted_field',
+        extractedDate: { gte: extractedDate },
+      });
+    });
+
+    it('should not hold confident extractions', async () => {
+      expect(await reviewHoldReason('doc-1', { confidence: 0.95 } as any, db(0))).toBeNull();
+    });
+  });
+});
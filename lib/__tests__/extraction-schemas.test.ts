@@ -0,0 +1,148 @@
+import {
+  checkExtraction,
+  completeWithRepair,
+  contractEnvelopeSchema,
+  documentTypeSchema,
+  invoicePayloadSchema,
+  partialContractEnvelopeSchema,
+} from '../extraction-schemas';
+import { ExtractionRequest } from '../extraction-provider';
+
+const contract = (overrides: any = {}) => ({
+  parties: [{ party_id: 'p1', party_type: 'vendor', legal_name: 'Acme Medical' }],
+  contracts: {
+    contract_id: 'C-1',
+    contract_title: 'Supply Agreement',
+    contract_type: 'Supply',
+    effective_date: '2025-01-01',
+    expiration_date: '2026-01-01',
+  },
+  billable_items: [{ item_id: 'i1', item_name: 'Gloves', pricing_details: { list_price: 10 } }],
+  ...overrides,
+});
+
+const responder = (texts: string[]) => {
+  const requests: ExtractionRequest[] = [];
+  const complete = async (request: ExtractionRequest) => {
+    requests.push(request);
+    return { text: texts[requests.length - 1], provider: 'mock' as const, model: 'mock' };
+  };
+  return { requests, complete };
+};
+
+const request: ExtractionRequest = { task: 'contract', system: '', prompt: 'Extract the contract' };
+
+describe('Extraction Schemas', () => {
+  describe('checkExtraction', () => {
+    it('should accept a complete envelope and keep fields outside the schema', () => {
+      const check = checkExtraction(
+        contractEnvelopeSchema,
+        contract({ _extraction_metadata: { overall_confidence: 0.9, model_notes: 'n/a' } })
+      );
+      expect(check.success).toBe(true);
+      expect(check.data._extraction_metadata.model_notes).toBe('n/a');
+    });
+
+    it('should coerce quoted amounts and numeric identifiers', () => {
+      const check = checkExtraction(
+        contractEnvelopeSchema,
+        contract({
+          billable_items: [
+            { item_id: 42, item_name: 'Gowns', pricing_details: { list_price: '$1,250.50' } },
+          ],
+        })
+      );
+      expect(check.success).toBe(true);
+      expect(check.data.billable_items[0]).toMatchObject({
+        item_id: '42',
+        pricing_details: { list_price: 1250.5 },
+      });
+    });
+
+    it('should report the paths of missing and mistyped fields', () => {
+      const check = checkExtraction(
+        contractEnvelopeSchema,
+        contract({
+          contracts: { contract_title: 'Supply Agreement' },
+          billable_items: [
+            { item_id: 'i1', item_name: 'Gloves', pricing_details: { list_price: 'ten' } },
+          ],
+        })
+      );
+      expect(check.success).toBe(false);
+      expect(check.paths).toEqual(
+        expect.arrayContaining([
+          'contracts.contract_id',
+          'billable_items.0.pricing_details.list_price',
+        ])
+      );
+    });
+
+    it('should not require document-level fields of a chunk', () => {
+      const chunk = { contracts: { contract_title: 'Supply Agreement' }, billable_items: [] };
+      expect(checkExtraction(partialContractEnvelopeSchema, chunk).success).toBe(true);
+      expect(
+        checkExtraction(partialContractEnvelopeSchema, { billable_items: [{ item_id: 'i1' }] })
+          .paths
+      ).toEqual(['billable_items.0.item_name']);
+    });
+
+    it('should require the invoice header', () => {
+      const check = checkExtraction(invoicePayloadSchema, {
+        validation_request: { invoice_data: { invoice_header: { invoice_id: 'INV-1' } } },
+        validation_result: {},
+      });
+      expect(check.paths).toContain('validation_request.invoice_data.invoice_header.total_amount');
+    });
+
+    it('should fail a response that could not be parsed', () => {
+      expect(checkExtraction(documentTypeSchema, null).paths).toEqual(['$']);
+    });
+  });
+
+  describe('completeWithRepair', () => {
+    it('should send the errors back and record the repaired fields', async () => {
+      const invalid = contract({ contracts: { ...contract().contracts, effective_date: null } });
+      const { requests, complete } = responder([
+        '```json\n' + JSON.stringify(invalid) + '\n```',
+        JSON.stringify(contract()),
+      ]);
+
+      const result = await completeWithRepair(
+        request,
+        contractEnvelopeSchema,
+        'Contract',
+        complete
+      );
+
+      expect(requests).toHaveLength(2);
+      expect(requests[1].prompt).toContain('contracts.effective_date:');
+      expect(requests[1].prompt).toContain('Extract the contract');
+      expect(result.schemaErrors).toEqual([]);
+      expect(result.repairedFields).toEqual(['contracts.effective_date']);
+      expect(result.data.contracts.effective_date).toBe('2025-01-01');
+    });
+
+    it('should stop after the repair limit and return the remaining errors', async () => {
+      const { requests, complete } = responder(['not json', '{"type": "memo"}', '{}']);
+
+      const result = await completeWithRepair(
+        { ...request, task: 'type_detection' },
+        documentTypeSchema,
+        'Document type',
+        complete,
+        2
+      );
+
+      expect(requests).toHaveLength(3);
+      expect(result.data).toEqual({});
+      expect(result.schemaErrors).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/^type:/),
+          expect.stringMatching(/^confidence:/),
+        ])
+      );
+      expect(result.repairedFields).toEqual(['$']);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  AUTO_MATCH_CONFIDENCE,
+  MatchableItem,
+  MatchableLine,
+  SUGGESTION_CONFIDENCE,
+  confirmLineItemMatch,
+  matchInvoiceLineItems,
+  rankLineMatches,
+  scoreLineMatch,
+} from '../line-item-matching';
+
+const item = (overrides: Partial<MatchableItem>): MatchableItem => ({
+  itemId: 'item-gloves',
+  itemName: 'Nitrile Exam Gloves Medium',
+  itemDescription: null,
+  sku: 'NG-2040M',
+  catalogNumber: null,
+  primaryUom: 'BX',
+  uomConversionRules: { CS: 10 },
+  contractPrice: 12.5,
+  listPrice: 15,
+  serviceCategoryId: 3,
+  aliases: [],
+  ...overrides,
+});
+
+const line = (overrides: Partial<MatchableLine>): MatchableLine => ({
+  description: 'Nitrile exam gloves, medium',
+  invoiceUom: 'BX',
+  invoiceUnitPrice: 12.5,
+  serviceCategoryId: null,
+  ...overrides,
+});
+
+describe('scoreLineMatch', () => {
+  it('identifies the item by a SKU printed in the description', () => {
+    const match = scoreLineMatch(line({ description: 'Gloves NG-2040M' }), item({}));
+
+    expect(match).toMatchObject({ confidence: 100, method: 'sku' });
+    expect(match.breakdown.identifier).toBe('sku');
+  });
+
+  it('identifies the item by a confirmed alias', () => {
+    const match = scoreLineMatch(
+      line({ description: 'GLV NITR MED' }),
+      item({ aliases: ['glv nitr med'] })
+    );
+
+    expect(match).toMatchObject({ confidence: 100, method: 'alias' });
+  });
+
+  it('matches a similar description with a compatible UOM and the contract price', () => {
+    const match = scoreLineMatch(line({}), item({}));
+
+    expect(match.method).toBe('description');
+    expect(match.confidence).toBeGreaterThanOrEqual(AUTO_MATCH_CONFIDENCE);
+    expect(match.breakdown.description.token).toBe(1);
+    expect(match.breakdown.uom).toMatchObject({ score: 1, conversion: 'identity' });
+    expect(match.breakdown.price.score).toBe(1);
+  });
+
+  it('compares the price in contract units', () => {
+    const match = scoreLineMatch(line({ invoiceUom: 'CS', invoiceUnitPrice: 125 }), item({}));
+
+    expect(match.breakdown.uom).toMatchObject({ score: 1, conversion: 'item_rule' });
+    expect(match.breakdown.price).toMatchObject({ score: 1, invoicedPrice: 12.5 });
+  });
+
+  it('tolerates abbreviations through character similarity', () => {
+    const match = scoreLineMatch(line({ description: 'Nitrile Exam Glove Med' }), item({}));
+
+    expect(match.breakdown.description.fuzzy).toBeGreaterThan(match.breakdown.description.token);
+  });
+
+  it('lowers confidence for an incompatible UOM, a distant price and another category', () => {
+    const good = scoreLineMatch(line({ serviceCategoryId: 3 }), item({}));
+    const poor = scoreLineMatch(
+      line({ invoiceUom: 'HR', invoiceUnitPrice: 40, serviceCategoryId: 7 }),
+      item({})
+    );
+
+    expect(poor.breakdown.uom.score).toBe(0);
+    expect(poor.breakdown.price.score).toBe(0);
+    expect(poor.breakdown.serviceCategory.score).toBe(0);
+    expect(poor.confidence).toBeLessThan(AUTO_MATCH_CONFIDENCE);
+    expect(good.confidence).toBeGreaterThan(poor.confidence);
+  });
+});
+
+describe('rankLineMatches', () => {
+  it('orders items by confidence', () => {
+    const matches = rankLineMatches(line({}), [
+      item({ itemId: 'item-syringe', itemName: 'Syringe 10ml Luer Lock', sku: null }),
+      item({}),
+    ]);
+
+    expect(matches.map((match) => match.itemId)).toEqual(['item-gloves', 'item-syringe']);
+    expect(matches[1].confidence).toBeLessThan(SUGGESTION_CONFIDENCE);
+  });
+});
+
+describe('matchInvoiceLineItems', () => {
+  const fakeDb = (lines: any[]) => {
+    const calls = { created: [] as any[], lineUpdates: [] as any[], deleted: [] as any[] };
+    const db = {
+      invoice: {
+        findUnique: async () => ({
+          invoiceId: 'invoice-1',
+          contractId: 'contract-1',
+          vendorPartyId: 'party-acme',
+          invoiceLineItems: lines,
+        }),
+      },
+      billableItem: {
+        findMany: async () => [
+          { ...item({}), aliases: [] },
+          { ...item({ itemId: 'item-syringe', itemName: 'Syringe 10ml', sku: null }), aliases: [] },
+        ],
+      },
+      uomConversion: { findMany: async () => [] },
+      lineItemMatch: {
+        deleteMany: async ({ where }: any) => {
+          calls.deleted.push(where);
+        },
+        create: async ({ data }: any) => {
+          calls.created.push(data);
+        },
+      },
+      invoiceLineItem: {
+        update: async (args: any) => {
+          calls.lineUpdates.push(args);
+        },
+      },
+    } as any;
+    return { db, calls };
+  };
+  const invoiceLine = (overrides: any) => ({
+    ...line({}),
+    lineItemId: 'line-1',
+    billableItemId: null,
+    billableItem: null,
+    lineItemMatches: [],
+    ...overrides,
+  });
+
+  it('applies confident matches and keeps weaker ones for confirmation', async () => {
+    const { db, calls } = fakeDb([
+      invoiceLine({}),
+      invoiceLine({
+        lineItemId: 'line-2',
+        description: 'Syringes',
+        invoiceUom: null,
+        invoiceUnitPrice: null,
+      }),
+      invoiceLine({ lineItemId: 'line-3', description: 'Freight charge' }),
+    ]);
+
+    expect(await matchInvoiceLineItems('invoice-1', 'user-1', db)).toEqual({
+      matched: 1,
+      pending: 1,
+    });
+    expect(calls.created).toEqual([
+      expect.objectContaining({
+        lineItemId: 'line-1',
+        billableItemId: 'item-gloves',
+        matchMethod: 'description',
+        matchStatus: 'Matched',
+      }),
+      expect.objectContaining({
+        lineItemId: 'line-2',
+        billableItemId: 'item-syringe',
+        matchStatus: 'Pending',
+      }),
+    ]);
+    expect(calls.created[0].matchScoreBreakdown.description.score).toBe(1);
+    expect(calls.lineUpdates).toEqual([
+      { where: { lineItemId: 'line-1' }, data: { billableItemId: 'item-gloves' } },
+    ]);
+  });
+
+  it('keeps lines matched to an item of the contract and skips rejected items', async () => {
+    const { db, calls } = fakeDb([
+      invoiceLine({
+        billableItemId: 'item-gloves',
+        billableItem: { contractId: 'contract-1' },
+      }),
+      invoiceLine({
+        lineItemId: 'line-2',
+        lineItemMatches: [{ billableItemId: 'item-gloves', matchStatus: 'Rejected' }],
+      }),
+    ]);
+
+    await matchInvoiceLineItems('invoice-1', 'user-1', db);
+
+    expect(calls.deleted).toEqual([{ lineItemId: 'line-2', matchStatus: { not: 'Rejected' } }]);
+    expect(calls.created.map((match) => match.billableItemId)).not.toContain('item-gloves');
+  });
+});
+
+describe('confirmLineItemMatch', () => {
+  it('confirms the suggestion and remembers the description as an alias', async () => {
+    const calls = { updated: [] as any[], aliases: [] as any[] };
+    const db = {
+      invoiceLineItem: {
+        findUnique: async () => ({
+          ...line({ description: 'GLV NITR MED' }),
+          lineItemId: 'line-1',
+          invoice: { contractId: 'contract-1', vendorPartyId: 'party-acme' },
+        }),
+        update: async () => undefined,
+      },
+      billableItem: { findMany: async () => [{ ...item({}), aliases: [] }] },
+      uomConversion: { findMany: async () => [] },
+      lineItemMatch: {
+        findFirst: async () => ({ matchId: 'match-1' }),
+        deleteMany: async () => undefined,
+        update: async (args: any) => {
+          calls.updated.push(args);
+        },
+      },
+      billableItemAlias: {
+        upsert: async ({ create }: any) => {
+          calls.aliases.push(create);
+        },
+      },
+    } as any;
+
+    await confirmLineItemMatch('line-1', 'item-gloves', 'user-1', db);
+
+    expect(calls.updated[0]).toMatchObject({
+      where: { matchId: 'match-1' },
+      data: { matchStatus: 'Confirmed', matchedBy: 'user-1' },
+    });
+    expect(calls.aliases).toEqual([
+      {
+        billableItemId: 'item-gloves',
+        aliasText: 'GLV NITR MED',
+        normalizedText: 'glv nitr med',
+        createdBy: 'user-1',
+      },
+    ]);
+  });
+});
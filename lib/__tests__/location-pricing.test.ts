@@ -0,0 +1,71 @@
+import { getLocationPrice, parseLocationSpecificPricing } from '../location-pricing';
+import { calculateExpectedPrice } from '../pricing-engine';
+import { validatePrice, ValidationContext } from '../validation-rules';
+import { Decimal } from '@prisma/client/runtime/library';
+
+const contractLocations = [
+  {
+    locationId: 'cah-1',
+    locationSpecificPricing: {
+      items: { 'item-1': { price: 8.5, tolerance_type: 'percentage', tolerance_value: 2 } },
+    },
+  },
+  { locationId: 'main', locationSpecificPricing: null },
+];
+
+describe('Location Pricing', () => {
+  describe('getLocationPrice', () => {
+    it('should return the override for the item at the location', () => {
+      const override = getLocationPrice(contractLocations, 'cah-1', 'item-1');
+      expect(override?.price.toString()).toBe('8.5');
+      expect(override?.toleranceType).toBe('percentage');
+      expect(override?.toleranceValue?.toString()).toBe('2');
+    });
+
+    it('should return null without an override', () => {
+      expect(getLocationPrice(contractLocations, 'main', 'item-1')).toBeNull();
+      expect(getLocationPrice(contractLocations, 'cah-1', 'item-2')).toBeNull();
+      expect(getLocationPrice(contractLocations, null, 'item-1')).toBeNull();
+    });
+
+    it('should ignore pricing that does not match the schema', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(parseLocationSpecificPricing({ items: { 'item-1': { price: 'cheap' } } })).toEqual({
+        items: {},
+      });
+    });
+  });
+
+  it('should price a line at the location price instead of the pricing model', () => {
+    const result = calculateExpectedPrice(
+      new Decimal(10),
+      {
+        contractPrice: new Decimal(10),
+        pricingModel: { modelType: 'Flat', baseRate: new Decimal(500) },
+      },
+      { locationPrice: { locationId: 'cah-1', price: new Decimal(8.5) } }
+    );
+    expect(result.method).toBe('location_price');
+    expect(result.unitPrice.toString()).toBe('8.5');
+    expect(result.extendedAmount.toString()).toBe('85');
+    expect(result.locationId).toBe('cah-1');
+  });
+
+  it('should apply the location tolerance in price validation', async () => {
+    const context: ValidationContext = {
+      invoice: {} as any,
+      contract: {} as any,
+      lineItem: { invoiceUnitPrice: new Decimal(8.6), invoiceQuantity: new Decimal(1) } as any,
+      billableItem: {
+        contractPrice: new Decimal(10),
+        allowedVarianceValue: new Decimal(0),
+        allowedVarianceType: 'absolute',
+      },
+      locationPrice: getLocationPrice(contractLocations, 'cah-1', 'item-1'),
+    };
+
+    const result = await validatePrice(context);
+    expect(result.passed).toBe(true);
+    expect(result.expectedValue).toBe('8.5');
+  });
+});
@@ -0,0 +1,89 @@
+import { formatLocationText, matchLocation } from '../location-resolution';
+import { validateLocation, ValidationContext } from '../validation-rules';
+
+const locations = [
+  {
+    locationId: 'loc-1',
+    locationCode: 'SMH-01',
+    locationName: 'St. Mary Hospital',
+    address: '100 Main Street',
+    postalCode: '30301',
+  },
+  {
+    locationId: 'loc-2',
+    locationCode: 'SMC-02',
+    locationName: 'St. Mary Clinic North',
+    address: '100 Main Street',
+    postalCode: '30350',
+  },
+];
+
+describe('Location Resolution', () => {
+  describe('matchLocation', () => {
+    it('should match by facility code ignoring case and punctuation', () => {
+      const match = matchLocation({ code: 'smh 01' }, locations);
+      expect(match?.location.locationId).toBe('loc-1');
+      expect(match?.matchedOn).toBe('code');
+    });
+
+    it('should match by exact name', () => {
+      const match = matchLocation({ name: 'ST MARY HOSPITAL' }, locations);
+      expect(match?.location.locationId).toBe('loc-1');
+      expect(match?.matchedOn).toBe('name');
+    });
+
+    it('should match by address and postal code', () => {
+      const match = matchLocation({ address: '100 Main St, Atlanta, GA 30350' }, locations);
+      expect(match?.location.locationId).toBe('loc-2');
+      expect(match?.matchedOn).toBe('address');
+    });
+
+    it('should not guess between ambiguous names', () => {
+      expect(matchLocation({ name: 'St Mary' }, locations)).toBeNull();
+    });
+  });
+
+  it('should format extracted locations on one line', () => {
+    expect(formatLocationText({ code: 'SMH-01', name: 'St. Mary Hospital' })).toBe(
+      'SMH-01, St. Mary Hospital'
+    );
+    expect(formatLocationText({})).toBeNull();
+  });
+
+  describe('validateLocation', () => {
+    const contract = {
+      contractId: 'c-1',
+      contractLocations: [{ locationId: 'loc-1', location: { locationName: 'St. Mary Hospital' } }],
+    } as any;
+
+    it('should pass when the service location is covered', async () => {
+      const context: ValidationContext = {
+        invoice: { serviceLocationId: 'loc-1', invoiceLineItems: [] } as any,
+        contract,
+        lineItem: null as any,
+      };
+      expect((await validateLocation(context)).passed).toBe(true);
+    });
+
+    it('should flag uncovered and unresolved line locations', async () => {
+      const context: ValidationContext = {
+        invoice: {
+          serviceLocationId: 'loc-1',
+          invoiceLineItems: [
+            { lineNumber: 1, serviceLocationId: 'loc-2', serviceLocationText: 'SMC-02' },
+            { lineNumber: 2, serviceLocationId: null, serviceLocationText: 'Westside Lab' },
+          ],
+        } as any,
+        contract,
+        lineItem: null as any,
+      };
+
+      const result = await validateLocation(context);
+      expect(result.passed).toBe(false);
+      expect(result.details?.violations.map((v: any) => v.reason)).toEqual([
+        'not_covered',
+        'unresolved',
+      ]);
+    });
+  });
+});
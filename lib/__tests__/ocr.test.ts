@@ -0,0 +1,71 @@
+import { isImageFile, needsOcr, ocrPageResult } from '../ocr';
+
+const word = (text: string, x0: number, y0: number, x1: number, y1: number) =>
+  ({ text, bbox: { x0, y0, x1, y1 } }) as any;
+
+describe('OCR', () => {
+  describe('needsOcr', () => {
+    it('should flag pages without a usable text layer', () => {
+      expect(needsOcr({ pageNumber: 1, text: '' })).toBe(true);
+      expect(needsOcr({ pageNumber: 1, text: ' Page 1 of 3 \n' })).toBe(true);
+      expect(needsOcr({ pageNumber: 1, text: 'Invoice Number: INV-2024-001' })).toBe(false);
+    });
+  });
+
+  describe('isImageFile', () => {
+    it('should recognize scan formats by extension', () => {
+      expect(isImageFile('/uploads/fax.TIF')).toBe(true);
+      expect(isImageFile('/uploads/photo.jpeg')).toBe(true);
+      expect(isImageFile('/uploads/invoice.pdf')).toBe(false);
+    });
+  });
+
+  describe('ocrPageResult', () => {
+    const result = {
+      text: 'INVOICE  INV-2024-001\n',
+      confidence: 91.6,
+      blocks: [
+        {
+          paragraphs: [
+            {
+              lines: [
+                {
+                  words: [
+                    word('INVOICE', 300, 400, 600, 450),
+                    word(' ', 600, 400, 620, 450),
+                    word('INV-2024-001', 625, 400, 1100, 450),
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    } as any;
+
+    it('should report word boxes in PDF points for rasterized pages', () => {
+      const page = ocrPageResult(result, 2, 300 / 72, { width: 612, height: 792 });
+      expect(page).toMatchObject({
+        pageNumber: 2,
+        text: 'INVOICE INV-2024-001',
+        width: 612,
+        source: 'ocr',
+        confidence: 0.92,
+      });
+      expect(page.boundingBoxes).toHaveLength(2);
+      expect(page.boundingBoxes?.[0]).toEqual({
+        x: 72,
+        y: 96,
+        width: 72,
+        height: 12,
+        text: 'INVOICE',
+      });
+    });
+
+    it('should keep pixel coordinates for images', () => {
+      const page = ocrPageResult({ ...result, blocks: null }, 1);
+      expect(page.boundingBoxes).toEqual([]);
+      expect(ocrPageResult(result, 1).boundingBoxes?.[1]).toMatchObject({ x: 625, width: 475 });
+    });
+  });
+});
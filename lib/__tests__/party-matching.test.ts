@@ -0,0 +1,196 @@
+import {
+  AUTO_LINK_THRESHOLD,
+  PartyCandidate,
+  SUGGESTION_THRESHOLD,
+  candidateFilter,
+  normalizePartyName,
+  rankPartyMatches,
+  resolveParty,
+  scorePartyMatch,
+} from '../party-matching';
+
+const candidate = (overrides: Partial<PartyCandidate>): PartyCandidate => ({
+  partyId: 'party-acme',
+  legalName: 'Acme Medical Supply, Inc.',
+  tradingName: null,
+  alternateNames: [],
+  taxId: null,
+  dunsNumber: null,
+  npiNumber: null,
+  address: null,
+  remitToAddress: null,
+  ...overrides,
+});
+
+describe('normalizePartyName', () => {
+  it('ignores case, punctuation, a leading "the" and corporate suffixes', () => {
+    expect(normalizePartyName('The Acme Medical Co., Inc.')).toBe('acme medical');
+    expect(normalizePartyName('ACME MEDICAL')).toBe('acme medical');
+    expect(normalizePartyName('Smith & Nephew LLC')).toBe('smith and nephew');
+  });
+
+  it('keeps a name that is only a suffix', () => {
+    expect(normalizePartyName('Company')).toBe('company');
+  });
+});
+
+describe('scorePartyMatch', () => {
+  it('links on an exact tax ID whatever the name', () => {
+    const match = scorePartyMatch(
+      { name: 'PNC Lockbox 7731', taxId: '12-3456789' },
+      candidate({ taxId: '123456789' })
+    );
+
+    expect(match.score).toBe(1);
+    expect(match.reasons).toContain('Tax ID matches');
+  });
+
+  it('links on a name that matches once suffixes are stripped', () => {
+    const match = scorePartyMatch({ name: 'ACME MEDICAL SUPPLY LLC' }, candidate({}));
+
+    expect(match.score).toBeGreaterThanOrEqual(AUTO_LINK_THRESHOLD);
+  });
+
+  it('matches alternate names', () => {
+    const match = scorePartyMatch(
+      { name: 'Acme Surgical' },
+      candidate({ alternateNames: ['Acme Surgical Inc'] })
+    );
+
+    expect(match.score).toBeGreaterThanOrEqual(AUTO_LINK_THRESHOLD);
+    expect(match.reasons).toContain('Name matches alternate name "Acme Surgical Inc"');
+  });
+
+  it('puts similar names in the gray zone, raised by matching addresses', () => {
+    const identity = { name: 'Acme Medical', remitToAddress: 'PO Box 7731, Pittsburgh PA 15250' };
+    const nameOnly = scorePartyMatch(identity, candidate({}));
+    const withAddress = scorePartyMatch(
+      identity,
+      candidate({ remitToAddress: 'P.O. Box 7731 Pittsburgh, PA 15250' })
+    );
+
+    expect(nameOnly.score).toBeGreaterThanOrEqual(SUGGESTION_THRESHOLD);
+    expect(nameOnly.score).toBeLessThan(AUTO_LINK_THRESHOLD);
+    expect(withAddress.score).toBeGreaterThan(nameOnly.score);
+    expect(withAddress.reasons).toContain('Remit-to address matches');
+  });
+
+  it('never links automatically when identifiers disagree', () => {
+    const match = scorePartyMatch(
+      { name: 'Acme Medical Supply', taxId: '98-7654321' },
+      candidate({ taxId: '12-3456789' })
+    );
+
+    expect(match.score).toBeLessThan(AUTO_LINK_THRESHOLD);
+    expect(match.reasons).toContain('Tax ID differs');
+  });
+});
+
+describe('rankPartyMatches', () => {
+  it('orders candidates by score and leaves out unrelated parties', () => {
+    const matches = rankPartyMatches({ name: 'Acme Medical Supply' }, [
+      candidate({ partyId: 'party-other', legalName: 'Globex Corporation' }),
+      candidate({ partyId: 'party-partial', legalName: 'Acme Labs' }),
+      candidate({ partyId: 'party-acme' }),
+    ]);
+
+    expect(matches.map((match) => match.partyId)).toEqual(['party-acme', 'party-partial']);
+  });
+});
+
+describe('candidateFilter', () => {
+  it('looks parties up by identifier in its usual formats, name words and alternate name', () => {
+    expect(candidateFilter({ name: 'The Acme Co. of Ohio, Inc.', taxId: '123456789' })).toEqual({
+      OR: [
+        {
+          taxId: {
+            in: ['123456789', '12-3456789', '12-345-6789'],
+            mode: 'insensitive',
+          },
+        },
+        { legalName: { contains: 'acme', mode: 'insensitive' } },
+        { tradingName: { contains: 'acme', mode: 'insensitive' } },
+        { legalName: { contains: 'ohio', mode: 'insensitive' } },
+        { tradingName: { contains: 'ohio', mode: 'insensitive' } },
+        { alternateNames: { array_contains: ['The Acme Co. of Ohio, Inc.'] } },
+      ],
+    });
+  });
+
+  it('has nothing to look up without a name or identifiers', () => {
+    expect(candidateFilter({ name: ' ', taxId: '--' })).toBeNull();
+  });
+});
+
+describe('resolveParty', () => {
+  const fakeDb = (parties: PartyCandidate[]) => {
+    const calls = { created: [] as any[], updated: [] as any[], suggestions: [] as any[] };
+    const db = {
+      party: {
+        findMany: async () => parties,
+        findUnique: async ({ where }: any) =>
+          parties.find((party) => party.partyId === where.partyId) || null,
+        create: async ({ data }: any) => {
+          calls.created.push(data);
+          return { partyId: 'party-new', ...data };
+        },
+        update: async ({ data }: any) => {
+          calls.updated.push(data);
+        },
+      },
+      partyMatchSuggestion: {
+        create: async ({ data }: any) => {
+          calls.suggestions.push(data);
+        },
+      },
+    } as any;
+    return { db, calls };
+  };
+  const context = { partyType: 'Vendor', documentId: 'doc-1', userId: 'user-1' };
+
+  it('links to a confident match and keeps the new name and identifiers', async () => {
+    const { db, calls } = fakeDb([candidate({ taxId: '12-3456789' })]);
+
+    const resolution = await resolveParty(
+      { name: 'Acme Med Supply', taxId: '123456789', npiNumber: '1234567893' },
+      context,
+      db
+    );
+
+    expect(resolution).toMatchObject({ outcome: 'matched', partyId: 'party-acme' });
+    expect(calls.created).toHaveLength(0);
+    expect(calls.updated[0]).toMatchObject({
+      npiNumber: '1234567893',
+      alternateNames: ['Acme Med Supply'],
+    });
+  });
+
+  it('creates a Pending party and queues a suggestion for a possible match', async () => {
+    const { db, calls } = fakeDb([candidate({})]);
+
+    const resolution = await resolveParty({ name: 'Acme Medical' }, context, db);
+
+    expect(resolution.outcome).toBe('created');
+    expect(calls.created[0]).toMatchObject({
+      legalName: 'Acme Medical',
+      partyStatus: 'Pending',
+      sourceDocumentId: 'doc-1',
+    });
+    expect(calls.suggestions).toEqual([
+      expect.objectContaining({
+        partyId: 'party-new',
+        candidatePartyId: 'party-acme',
+        documentId: 'doc-1',
+      }),
+    ]);
+  });
+
+  it('creates a Pending party without suggestions when nothing is close', async () => {
+    const { db, calls } = fakeDb([candidate({ legalName: 'Globex Corporation' })]);
+
+    const resolution = await resolveParty({ name: 'Initech' }, context, db);
+
+    expect(resolution).toEqual({ outcome: 'created', partyId: 'party-new', suggestions: [] });
+    expect(calls.suggestions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,308 @@
+import {
+  DuplicateCandidate,
+  PartyMergeError,
+  findDuplicateClusters,
+  mergeParty,
+  revertPartyMerge,
+} from '../party-merge';
+
+const party = (overrides: Partial<DuplicateCandidate>): DuplicateCandidate => ({
+  partyId: 'party-acme',
+  partyType: 'Vendor',
+  legalName: 'Acme Medical Supply, Inc.',
+  tradingName: null,
+  alternateNames: [],
+  taxId: null,
+  dunsNumber: null,
+  npiNumber: null,
+  address: null,
+  remitToAddress: null,
+  ...overrides,
+});
+
+describe('findDuplicateClusters', () => {
+  it('groups parties sharing a tax ID or a name and leaves out unrelated parties', () => {
+    const clusters = findDuplicateClusters([
+      party({ partyId: 'party-acme', taxId: '12-3456789' }),
+      party({ partyId: 'party-lockbox', legalName: 'PNC Lockbox 7731', taxId: '123456789' }),
+      party({ partyId: 'party-acme-llc', legalName: 'ACME MEDICAL SUPPLY LLC' }),
+      party({ partyId: 'party-globex', legalName: 'Globex Corporation' }),
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].partyIds.sort()).toEqual(['party-acme', 'party-acme-llc', 'party-lockbox']);
+    expect(clusters[0].score).toBe(1);
+    expect(clusters[0].reasons).toContain('Tax ID matches');
+  });
+
+  it('only compares parties of the same type', () => {
+    const clusters = findDuplicateClusters([
+      party({ partyId: 'party-vendor' }),
+      party({ partyId: 'party-customer', partyType: 'Customer' }),
+    ]);
+
+    expect(clusters).toEqual([]);
+  });
+});
+
+describe('mergeParty', () => {
+  const fakeDb = (parties: any[]) => {
+    const calls = {
+      updates: [] as any[],
+      invoiceMoves: [] as any[],
+      suggestions: [] as any[],
+      audits: [] as any[],
+    };
+    const none = async () => [];
+    const db = {
+      party: {
+        findUnique: async ({ where }: any) =>
+          parties.find((p) => p.partyId === where.partyId) || null,
+        update: async (args: any) => {
+          calls.updates.push(args);
+        },
+      },
+      invoice: {
+        findMany: async ({ where }: any) =>
+          where.vendorPartyId ? [{ invoiceId: 'inv-1' }, { invoiceId: 'inv-2' }] : [],
+        updateMany: async ({ data }: any) => {
+          calls.invoiceMoves.push(data);
+        },
+      },
+      contractParty: { findMany: none },
+      coDevPartnership: { findUnique: async () => null },
+      uomConversion: { findMany: none },
+      vendorExtractionHint: { findMany: none, updateMany: async () => undefined },
+      partyMatchSuggestion: {
+        findMany: async () => [
+          { suggestionId: 'sugg-1', partyId: 'party-dup', candidatePartyId: 'party-acme' },
+          { suggestionId: 'sugg-2', partyId: 'party-dup', candidatePartyId: 'party-other' },
+        ],
+        updateMany: async (args: any) => {
+          calls.suggestions.push(args);
+        },
+      },
+      auditLog: {
+        create: async ({ data }: any) => {
+          calls.audits.push(data);
+          return { auditId: 'audit-1' };
+        },
+      },
+    } as any;
+    return { db, calls };
+  };
+
+  const survivor = {
+    ...party({ partyId: 'party-acme', alternateNames: ['Acme Surgical'] }),
+    partyStatus: 'Active',
+    externalIds: { erp: 'V-100' },
+  };
+  const duplicate = {
+    ...party({
+      partyId: 'party-dup',
+      legalName: 'Acme Medical Supply LLC',
+      tradingName: 'Acme Med',
+      taxId: '12-3456789',
+    }),
+    partyStatus: 'Pending',
+    externalIds: { erp: 'V-200', ap: 'A-7' },
+  };
+
+  it('moves invoices to the survivor and records what changed', async () => {
+    const { db, calls } = fakeDb([survivor, duplicate]);
+
+    expect(await mergeParty('party-acme', 'party-dup', 'user-1', db)).toBe('audit-1');
+
+    expect(calls.invoiceMoves).toContainEqual({ vendorPartyId: 'party-acme' });
+    expect(calls.updates[0]).toMatchObject({
+      where: { partyId: 'party-acme' },
+      data: {
+        tradingName: 'Acme Med',
+        taxId: '12-3456789',
+        alternateNames: ['Acme Surgical', 'Acme Med'],
+        externalIds: { erp: 'V-100', ap: 'A-7' },
+      },
+    });
+    expect(calls.updates[1]).toMatchObject({
+      where: { partyId: 'party-dup' },
+      data: { partyStatus: 'Merged' },
+    });
+    expect(calls.audits[0]).toMatchObject({
+      recordId: 'party-dup',
+      action: 'MERGE',
+      newValues: {
+        survivorPartyId: 'party-acme',
+        previousStatus: 'Pending',
+        vendorInvoiceIds: ['inv-1', 'inv-2'],
+        filledFields: ['tradingName', 'taxId'],
+        addedAlternateNames: ['Acme Med'],
+        addedExternalIdKeys: ['ap'],
+        acceptedSuggestionIds: ['sugg-1'],
+        rejectedSuggestionIds: ['sugg-2'],
+      },
+    });
+  });
+
+  it('accepts the suggestion to merge into the survivor and rejects the others', async () => {
+    const { db, calls } = fakeDb([survivor, duplicate]);
+
+    await mergeParty('party-acme', 'party-dup', 'user-1', db);
+
+    expect(calls.suggestions).toEqual([
+      expect.objectContaining({
+        where: { suggestionId: { in: ['sugg-1'] } },
+        data: expect.objectContaining({ status: 'Accepted' }),
+      }),
+      expect.objectContaining({
+        where: { suggestionId: { in: ['sugg-2'] } },
+        data: expect.objectContaining({ status: 'Rejected' }),
+      }),
+    ]);
+  });
+
+  it('adds names the survivor was not known by as alternate names', async () => {
+    const renamed = { ...duplicate, legalName: 'Acme Surgical Partners', tradingName: null };
+    const { db, calls } = fakeDb([survivor, renamed]);
+
+    await mergeParty('party-acme', 'party-dup', 'user-1', db);
+
+    expect(calls.updates[0].data.alternateNames).toEqual([
+      'Acme Surgical',
+      'Acme Surgical Partners',
+    ]);
+  });
+
+  it('refuses to merge a party that was already merged', async () => {
+    const { db } = fakeDb([survivor, { ...duplicate, partyStatus: 'Merged' }]);
+
+    await expect(mergeParty('party-acme', 'party-dup', 'user-1', db)).rejects.toThrow(
+      PartyMergeError
+    );
+  });
+
+  it('refuses to merge parties of different types', async () => {
+    const { db } = fakeDb([survivor, { ...duplicate, partyType: 'Customer' }]);
+
+    await expect(mergeParty('party-acme', 'party-dup', 'user-1', db)).rejects.toThrow(
+      'A Customer cannot be merged into a Vendor'
+    );
+  });
+});
+
+describe('revertPartyMerge', () => {
+  const record = {
+    survivorPartyId: 'party-acme',
+    mergedPartyId: 'party-dup',
+    previousStatus: 'Pending',
+    vendorInvoiceIds: ['inv-1'],
+    customerInvoiceIds: [],
+    movedContractParties: [],
+    droppedContractParties: [],
+    coDevPartnershipMoved: false,
+    uomConversionIds: [],
+    extractionHintIds: [],
+    filledFields: ['taxId'],
+    addedAlternateNames: ['Acme Med'],
+    addedExternalIdKeys: ['ap'],
+    acceptedSuggestionIds: ['sugg-1'],
+    rejectedSuggestionIds: ['sugg-2'],
+  };
+  const fakeDb = (options: { survivorStatus?: string; undone?: boolean } = {}) => {
+    const calls = {
+      updates: [] as any[],
+      invoiceMoves: [] as any[],
+      suggestions: [] as any[],
+      audits: [] as any[],
+    };
+    const parties: Record<string, any> = {
+      'party-acme': {
+        partyId: 'party-acme',
+        legalName: 'Acme Medical Supply, Inc.',
+        partyStatus: options.survivorStatus || 'Active',
+        taxId: '12-3456789',
+        alternateNames: ['Acme Surgical', 'Acme Med'],
+        externalIds: { erp: 'V-100', ap: 'A-7' },
+      },
+      'party-dup': { partyId: 'party-dup', partyStatus: 'Merged', taxId: '12-3456789' },
+    };
+    const db = {
+      auditLog: {
+        findUnique: async () => ({
+          auditId: 'audit-1',
+          tableName: 'parties',
+          recordId: 'party-dup',
+          action: 'MERGE',
+          newValues: record,
+        }),
+        findFirst: async () => (options.undone ? { auditId: 'audit-2' } : null),
+        create: async ({ data }: any) => {
+          calls.audits.push(data);
+        },
+      },
+      party: {
+        findUniqueOrThrow: async ({ where }: any) => parties[where.partyId],
+        update: async (args: any) => {
+          calls.updates.push(args);
+        },
+      },
+      invoice: {
+        updateMany: async (args: any) => {
+          calls.invoiceMoves.push(args);
+        },
+      },
+      uomConversion: { updateMany: async () => undefined },
+      vendorExtractionHint: { updateMany: async () => undefined },
+      partyMatchSuggestion: {
+        updateMany: async (args: any) => {
+          calls.suggestions.push(args);
+        },
+      },
+    } as any;
+    return { db, calls };
+  };
+
+  it('moves records back, removes what the survivor gained and reopens the suggestions', async () => {
+    const { db, calls } = fakeDb();
+
+    await revertPartyMerge('audit-1', 'user-1', db);
+
+    expect(calls.invoiceMoves[0]).toEqual({
+      where: { invoiceId: { in: ['inv-1'] }, vendorPartyId: 'party-acme' },
+      data: { vendorPartyId: 'party-dup' },
+    });
+    expect(calls.updates[0]).toMatchObject({
+      where: { partyId: 'party-acme' },
+      data: { taxId: null, alternateNames: ['Acme Surgical'], externalIds: { erp: 'V-100' } },
+    });
+    expect(calls.updates[1]).toMatchObject({
+      where: { partyId: 'party-dup' },
+      data: { partyStatus: 'Pending' },
+    });
+    expect(calls.suggestions).toEqual([
+      {
+        where: { suggestionId: { in: ['sugg-1', 'sugg-2'] } },
+        data: { status: 'Pending', reviewedBy: null, reviewedDate: null },
+      },
+    ]);
+    expect(calls.audits[0]).toMatchObject({
+      recordId: 'party-dup',
+      action: 'UNMERGE',
+      newValues: { mergeAuditId: 'audit-1', survivorPartyId: 'party-acme' },
+    });
+  });
+
+  it('refuses to undo a merge twice', async () => {
+    const { db } = fakeDb({ undone: true });
+
+    await expect(revertPartyMerge('audit-1', 'user-1', db)).rejects.toThrow(
+      'Merge was already undone'
+    );
+  });
+
+  it('refuses to undo a merge into a survivor that was merged since', async () => {
+    const { db, calls } = fakeDb({ survivorStatus: 'Merged' });
+
+    await expect(revertPartyMerge('audit-1', 'user-1', db)).rejects.toThrow(PartyMergeError);
+    expect(calls.invoiceMoves).toEqual([]);
+  });
+});
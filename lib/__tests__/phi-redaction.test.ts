@@ -0,0 +1,148 @@
+import { RedactionVault, redactPages, saveRedactions } from '../phi-redaction';
+
+const statement = `ACME LABORATORY SERVICES  Phone: (555) 201-7788
+Patient Name: Smith, John A.
+MRN: 00482913   DOB: 03/14/1962
+Patient Account #: PA-77120
+SSN 123-45-6789
+Invoice Number: INV-2024-0042
+1 Lipid panel for patient Mary Jones   $45.00`;
+
+describe('RedactionVault', () => {
+  it('replaces labelled PHI with tokens and keeps the labels', () => {
+    const vault = new RedactionVault();
+    const redacted = vault.redact(statement);
+
+    expect(redacted).toContain('Patient Name: [[PHI_PATIENT_1]]\n');
+    expect(redacted).toContain('MRN: [[PHI_MRN_1]]');
+    expect(redacted).toContain('DOB: [[PHI_DOB_1]]');
+    expect(redacted).toContain('Patient Account #: [[PHI_ACCOUNT_1]]');
+    expect(redacted).toContain('SSN [[PHI_SSN_1]]');
+    expect(redacted).toContain('Phone: [[PHI_PHONE_1]]');
+    expect(redacted).toContain('for patient [[PHI_PATIENT_2]]');
+    for (const value of [
+      'Smith, John A.',
+      '00482913',
+      '03/14/1962',
+      'PA-77120',
+      '123-45-6789',
+      'Mary Jones',
+    ]) {
+      expect(redacted).not.toContain(value);
+    }
+    // Invoice fields are not PHI
+    expect(redacted).toContain('Invoice Number: INV-2024-0042');
+    expect(redacted).toContain('$45.00');
+  });
+
+  it('gives a value the same token every time it appears', () => {
+    const vault = new RedactionVault();
+    const first = vault.redact('MRN: 00482913', 1);
+    const second = vault.redact('Medical Record Number: 00482913', 2);
+
+    expect(first).toBe('MRN: [[PHI_MRN_1]]');
+    expect(second).toBe('Medical Record Number: [[PHI_MRN_1]]');
+    expect(vault.redactions).toEqual([
+      { token: '[[PHI_MRN_1]]', phiType: 'MRN', value: '00482913', pageNumber: 1, occurrences: 2 },
+    ]);
+    expect(vault.summary()).toEqual({ MRN: 2 });
+  });
+
+  it('restores tokens in extracted values', () => {
+    const vault = new RedactionVault();
+    vault.redact(statement);
+    const extracted = {
+      invoice_header: { invoice_id: 'INV-2024-0042', total_amount: 45 },
+      line_items: [
+        { description: 'Lipid panel for patient [[PHI_PATIENT_2]]', line_total: 45 },
+        { description: 'Unknown [[PHI_MRN_9]]', line_total: null },
+      ],
+    };
+
+    expect(vault.rehydrate(extracted)).toEqual({
+      invoice_header: { invoice_id: 'INV-2024-0042', total_amount: 45 },
+      line_items: [
+        { description: 'Lipid panel for patient Mary Jones', line_total: 45 },
+        { description: 'Unknown [[PHI_MRN_9]]', line_total: null },
+      ],
+    });
+    // The model's answer is left as it was
+    expect(extracted.line_items[0].description).toContain('[[PHI_PATIENT_2]]');
+  });
+
+  it('does nothing when redaction is turned off', () => {
+    process.env.PHI_REDACTION = 'off';
+    try {
+      expect(new RedactionVault().redact(statement)).toBe(statement);
+    } finally {
+      delete process.env.PHI_REDACTION;
+    }
+  });
+});
+
+describe('redactPages', () => {
+  it('redacts page text and keeps the word boxes', () => {
+    const boxes = [{ text: '00482913', x: 10, y: 20, width: 40, height: 8 }];
+    const pages = [{ pageNumber: 2, text: 'MRN: 00482913', boundingBoxes: boxes }];
+    const vault = new RedactionVault();
+
+    const redacted = redactPages(pages as any, vault);
+
+    expect(redacted[0].text).toBe('MRN: [[PHI_MRN_1]]');
+    expect(redacted[0].boundingBoxes).toBe(boxes);
+    expect(pages[0].text).toBe('MRN: 00482913');
+    expect(vault.redactions[0].pageNumber).toBe(2);
+  });
+});
+
+describe('saveRedactions', () => {
+  const fakeDb = (existing: number) => {
+    const calls = { deleted: 0, created: [] as any[], audits: [] as any[] };
+    const db = {
+      documentRedaction: {
+        count: async () => existing,
+        deleteMany: async () => {
+          calls.deleted++;
+        },
+        createMany: async ({ data }: any) => {
+          calls.created.push(...data);
+        },
+      },
+      auditLog: {
+        create: async ({ data }: any) => {
+          calls.audits.push(data);
+        },
+      },
+    } as any;
+    return { db, calls };
+  };
+
+  it('stores the token map and logs counts without the values', async () => {
+    const vault = new RedactionVault();
+    vault.redact('DOB: 03/14/1962  DOB: 03/14/1962', 1);
+    const { db, calls } = fakeDb(0);
+
+    expect(await saveRedactions('doc-1', vault, db)).toBe(1);
+    expect(calls.created).toEqual([
+      {
+        documentId: 'doc-1',
+        token: '[[PHI_DOB_1]]',
+        phiType: 'DOB',
+        originalValue: '03/14/1962',
+        pageNumber: 1,
+        occurrences: 2,
+      },
+    ]);
+    expect(calls.audits).toHaveLength(1);
+    expect(calls.audits[0].newValues.redacted).toEqual({ DOB: 2 });
+    expect(JSON.stringify(calls.audits[0])).not.toContain('1962');
+  });
+
+  it('skips documents without PHI', async () => {
+    const { db, calls } = fakeDb(0);
+
+    expect(await saveRedactions('doc-1', new RedactionVault(), db)).toBe(0);
+    expect(calls.deleted).toBe(0);
+    expect(calls.audits).toHaveLength(0);
+  });
+});
@@ -0,0 +1,182 @@
+import { calculateExpectedPrice } from '../pricing-engine';
+import { validatePrice, ValidationContext } from '../validation-rules';
+import { getContractPeriod } from '../volume-ledger';
+import { Decimal } from '@prisma/client/runtime/library';
+
+const tiers = [
+  { tierId: 't1', tierSequence: 1, minValue: new Decimal(0), maxValue: new Decimal(100), rate: new Decimal(10) },
+  { tierId: 't2', tierSequence: 2, minValue: new Decimal(101), maxValue: new Decimal(500), rate: new Decimal(8) },
+  { tierId: 't3', tierSequence: 3, minValue: new Decimal(501), maxValue: null, rate: new Decimal(6) },
+];
+
+function itemWithModel(model: any) {
+  return {
+    contractPrice: new Decimal(10),
+    listPrice: new Decimal(12),
+    pricingModel: { modelId: 'm1', isActive: true, ...model },
+  } as any;
+}
+
+describe('Pricing Engine', () => {
+  describe('calculateExpectedPrice', () => {
+    it('should fall back to contract price when there is no pricing model', () => {
+      const result = calculateExpectedPrice(new Decimal(5), {
+        contractPrice: new Decimal(20),
+        listPrice: new Decimal(25),
+      });
+      expect(result.method).toBe('contract_price');
+      expect(result.unitPrice.toString()).toBe('20');
+      expect(result.extendedAmount.toString()).toBe('100');
+    });
+
+    it('should price Tiered models graduated across bands', () => {
+      const result = calculateExpectedPrice(
+        new Decimal(150),
+        itemWithModel({ modelType: 'Tiered', pricingTiers: tiers })
+      );
+      expect(result.method).toBe('graduated');
+      // 100 @ 10 + 50 @ 8
+      expect(result.extendedAmount.toString()).toBe('1400');
+      expect(result.appliedTier?.tierId).toBe('t2');
+      expect(result.tierBreakdown).toHaveLength(2);
+    });
+
+    it('should price Volume models with all units at the reached tier', () => {
+      const result = calculateExpectedPrice(
+        new Decimal(150),
+        itemWithModel({ modelType: 'Volume', pricingTiers: tiers })
+      );
+      expect(result.method).toBe('all_units');
+      expect(result.unitPrice.toString()).toBe('8');
+      expect(result.extendedAmount.toString()).toBe('1200');
+    });
+
+    it('should let calculationMethod override the model type', () => {
+      const result = calculateExpectedPrice(
+        new Decimal(600),
+        itemWithModel({ modelType: 'Tiered', calculationMethod: 'all_units', pricingTiers: tiers })
+      );
+      expect(result.unitPrice.toString()).toBe('6');
+      expect(result.appliedTier?.tierId).toBe('t3');
+    });
+
+    it('should only price the overage for overage-only tiers', () => {
+      const result = calculateExpectedPrice(
+        new Decimal(120),
+        itemWithModel({
+          modelType: 'Volume',
+          pricingTiers: [
+            { tierId: 'base', minValue: new Decimal(0), maxValue: new Decimal(100), rate: new Decimal(10) },
+            {
+              tierId: 'over',
+              minValue: new Decimal(100),
+              maxValue: null,
+              rate: new Decimal(15),
+              appliesToOverageOnly: true,
+            },
+          ],
+        })
+      );
+      // 100 @ 10 + 20 @ 15
+      expect(result.extendedAmount.toString()).toBe('1300');
+      expect(result.appliedTier?.overageOnly).toBe(true);
+    });
+
+    it('should charge Flat models once regardless of quantity', () => {
+      const result = calculateExpectedPrice(
+        new Decimal(4),
+        itemWithModel({ modelType: 'Flat', baseRate: new Decimal(500) })
+      );
+      expect(result.method).toBe('flat');
+      expect(result.extendedAmount.toString()).toBe('500');
+      expect(result.unitPrice.toString()).toBe('125');
+    });
+
+    it('should price Percentage models against list price', () => {
+      const result = calculateExpectedPrice(
+        new Decimal(2),
+        itemWithModel({ modelType: 'Percentage', calculationFormula: { percentage: 75 } })
+      );
+      expect(result.method).toBe('percentage');
+      expect(result.unitPrice.toString()).toBe('9');
+    });
+  });
+
+  describe('cumulative volume', () => {
+    it('should price a line on year-to-date volume', () => {
+      const result = calculateExpectedPrice(
+        new Decimal(50),
+        itemWithModel({ modelType: 'Volume', pricingTiers: tiers }),
+        { priorQuantity: new Decimal(200) }
+      );
+      expect(result.unitPrice.toString()).toBe('8');
+      expect(result.priorQuantity.toString()).toBe('200');
+      expect(result.method).toBe('graduated');
+    });
+
+    it('should split a boundary-crossing line across two tiers', () => {
+      const result = calculateExpectedPrice(
+        new Decimal(40),
+        itemWithModel({ modelType: 'Volume', pricingTiers: tiers }),
+        { priorQuantity: new Decimal(80) }
+      );
+      // 20 @ 10 + 20 @ 8
+      expect(result.extendedAmount.toString()).toBe('360');
+      expect(result.tierBreakdown.map((tier) => tier.tierId)).toEqual(['t1', 't2']);
+    });
+
+    it('should ignore prior volume when the model prices per line', () => {
+      const result = calculateExpectedPrice(
+        new Decimal(50),
+        itemWithModel({
+          modelType: 'Volume',
+          calculationFormula: { volume_basis: 'line' },
+          pricingTiers: tiers,
+        }),
+        { priorQuantity: new Decimal(200) }
+      );
+      expect(result.unitPrice.toString()).toBe('10');
+    });
+  });
+
+  describe('getContractPeriod', () => {
+    const contract = {
+      effectiveDate: new Date('2024-03-01T00:00:00Z'),
+      expirationDate: new Date('2026-12-31T00:00:00Z'),
+    };
+
+    it('should return the contract year containing the date', () => {
+      const period = getContractPeriod(contract, new Date('2025-02-15T00:00:00Z'));
+      expect(period.start.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+      expect(period.end.toISOString()).toBe('2025-02-28T00:00:00.000Z');
+    });
+
+    it('should cut the last contract year off at expiration', () => {
+      const period = getContractPeriod(contract, new Date('2026-06-01T00:00:00Z'));
+      expect(period.start.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+      expect(period.end.toISOString()).toBe('2026-12-31T00:00:00.000Z');
+    });
+  });
+
+  describe('validatePrice with a pricing model', () => {
+    it('should pass when the invoice matches the tier price', async () => {
+      const context: ValidationContext = {
+        invoice: {} as any,
+        contract: {} as any,
+        lineItem: {
+          invoiceUnitPrice: new Decimal(8),
+          invoiceQuantity: new Decimal(200),
+        } as any,
+        billableItem: {
+          ...itemWithModel({ modelType: 'Volume', pricingTiers: tiers }),
+          allowedVarianceValue: new Decimal(0),
+          allowedVarianceType: 'absolute',
+        },
+      };
+
+      const result = await validatePrice(context);
+      expect(result.passed).toBe(true);
+      expect(result.pricing?.appliedTier?.tierId).toBe('t2');
+    });
+  });
+});
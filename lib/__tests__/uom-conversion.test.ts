@@ -0,0 +1,206 @@
+import {
+  findConflictingUomConversion,
+  normalizeLineQuantities,
+  normalizeUom,
+  parsePackUom,
+  resolveUomConversion,
+} from '../uom-conversion';
+import { validatePrice, validateUOM, ValidationContext } from '../validation-rules';
+import { Decimal } from '@prisma/client/runtime/library';
+
+describe('UOM Conversion', () => {
+  describe('normalizeUom', () => {
+    it('should map common spellings to a canonical code', () => {
+      expect(normalizeUom('Each')).toBe('EA');
+      expect(normalizeUom('cases')).toBe('CS');
+      expect(normalizeUom('Hrs.')).toBe('HR');
+      expect(normalizeUom('Monthly')).toBe('MO');
+      expect(normalizeUom('vial')).toBe('VIAL');
+    });
+  });
+
+  describe('parsePackUom', () => {
+    it('should read pack sizes printed in the UOM', () => {
+      expect(parsePackUom('CS/12')?.size.toString()).toBe('12');
+      expect(parsePackUom('Case of 24')?.unit).toBe('CS');
+      expect(parsePackUom('BX (100)')?.size.toString()).toBe('100');
+      expect(parsePackUom('12/CS')?.unit).toBe('CS');
+    });
+
+    it('should ignore units that are not packs', () => {
+      expect(parsePackUom('HR')).toBeNull();
+      expect(parsePackUom('DAY 2')).toBeNull();
+    });
+  });
+
+  describe('resolveUomConversion', () => {
+    const each = { primaryUom: 'EA', uomConversionRules: {} };
+
+    it('should treat spellings of the same unit as identical', () => {
+      expect(resolveUomConversion('each', each)?.source).toBe('identity');
+    });
+
+    it('should prefer the billable item rule', () => {
+      const conversion = resolveUomConversion(
+        'CS',
+        { primaryUom: 'EA', uomConversionRules: { cs: 10 } },
+        [{ vendorPartyId: null, fromUom: 'CS', toUom: 'EA', factor: 12 }]
+      );
+      expect(conversion?.factor.toString()).toBe('10');
+      expect(conversion?.source).toBe('item_rule');
+    });
+
+    it('should use the pack size printed on the invoice', () => {
+      const conversion = resolveUomConversion('CS/12', each);
+      expect(conversion?.factor.toString()).toBe('12');
+      expect(conversion?.source).toBe('pack_size');
+    });
+
+    it('should prefer vendor pack sizes over global ones', () => {
+      const conversions = [
+        { vendorPartyId: null, fromUom: 'BX', toUom: 'EA', factor: 50 },
+        { vendorPartyId: 'vendor-1', fromUom: 'BX', toUom: 'EA', factor: 100 },
+      ];
+      expect(resolveUomConversion('BX', each, conversions, 'vendor-1')?.factor.toString()).toBe(
+        '100'
+      );
+      expect(resolveUomConversion('BX', each, conversions, 'vendor-2')?.factor.toString()).toBe(
+        '50'
+      );
+    });
+
+    it('should convert in either direction and through intermediate units', () => {
+      const conversions = [
+        { vendorPartyId: null, fromUom: 'CS', toUom: 'BX', factor: 4 },
+        { vendorPartyId: null, fromUom: 'BX', toUom: 'EA', factor: 25 },
+      ];
+      expect(resolveUomConversion('CS', each, conversions)?.factor.toString()).toBe('100');
+      expect(
+        resolveUomConversion('EA', { primaryUom: 'BX' }, conversions)?.factor.toString()
+      ).toBe('0.04');
+    });
+
+    it('should apply standard time conversions', () => {
+      const conversion = resolveUomConversion('Day', { primaryUom: 'HR' });
+      expect(conversion?.factor.toString()).toBe('24');
+      expect(conversion?.source).toBe('standard');
+    });
+
+    it('should return null without a conversion', () => {
+      expect(resolveUomConversion('BX', each)).toBeNull();
+      expect(resolveUomConversion('MO', { primaryUom: 'DAY' })).toBeNull();
+    });
+  });
+
+  describe('findConflictingUomConversion', () => {
+    it('should look for global rows between the same units in either direction', async () => {
+      const queries: any[] = [];
+      const db = {
+        uomConversion: {
+          findFirst: async (args: any) => {
+            queries.push(args.where);
+            return null;
+          },
+        },
+      } as any;
+
+      await findConflictingUomConversion(
+        { vendorPartyId: null, fromUom: 'cases', toUom: 'Each' },
+        'conversion-1',
+        db
+      );
+
+      expect(queries).toEqual([
+        {
+          vendorPartyId: null,
+          OR: [
+            { fromUom: 'CS', toUom: 'EA' },
+            { fromUom: 'EA', toUom: 'CS' },
+          ],
+          conversionId: { not: 'conversion-1' },
+        },
+      ]);
+    });
+  });
+
+  describe('normalizeLineQuantities', () => {
+    it('should convert quantity and unit price into contract units', () => {
+      const conversion = resolveUomConversion('CS', {
+        primaryUom: 'EA',
+        uomConversionRules: { CS: 12 },
+      });
+      const normalized = normalizeLineQuantities(
+        { invoiceQuantity: new Decimal(2), invoiceUnitPrice: new Decimal(120) },
+        { primaryUom: 'EA' },
+        conversion
+      );
+      expect(normalized.contractUom).toBe('EA');
+      expect(normalized.uomConversionFactor?.toString()).toBe('12');
+      expect(normalized.normalizedQuantity?.toString()).toBe('24');
+      expect(normalized.normalizedUnitPrice?.toString()).toBe('10');
+    });
+
+    it('should clear normalized values without a conversion', () => {
+      const normalized = normalizeLineQuantities(
+        { invoiceQuantity: new Decimal(2), invoiceUnitPrice: new Decimal(120) },
+        { primaryUom: 'EA' },
+        null
+      );
+      expect(normalized).toEqual({
+        contractUom: 'EA',
+        uomConversionFactor: null,
+        normalizedQuantity: null,
+        normalizedUnitPrice: null,
+      });
+    });
+  });
+
+  it('should price a case billed at the case price without a variance', async () => {
+    const billableItem = {
+      itemId: 'item-1',
+      contractPrice: new Decimal(10),
+      allowedVarianceType: 'percentage',
+      allowedVarianceValue: new Decimal(2),
+      primaryUom: 'EA',
+      allowedUoms: [],
+      uomConversionRules: {},
+    };
+    const lineItem: any = {
+      invoiceQuantity: new Decimal(1),
+      invoiceUnitPrice: new Decimal(120),
+      invoiceUom: 'CS/12',
+    };
+    const uomConversion = resolveUomConversion(lineItem.invoiceUom, billableItem);
+    Object.assign(lineItem, normalizeLineQuantities(lineItem, billableItem, uomConversion));
+    const context: ValidationContext = {
+      invoice: {} as any,
+      contract: {} as any,
+      lineItem,
+      billableItem: billableItem as any,
+      uomConversion,
+    };
+
+    const price = await validatePrice(context);
+    expect(price.passed).toBe(true);
+    expect(price.actualValue).toBe('10');
+
+    const uom = await validateUOM(context);
+    expect(uom.passed).toBe(true);
+    expect(uom.details?.source).toBe('pack_size');
+  });
+
+  it('should reject a convertible UOM the contract does not allow', async () => {
+    const result = await validateUOM({
+      invoice: {} as any,
+      contract: {} as any,
+      lineItem: { invoiceUom: 'CS' } as any,
+      billableItem: {
+        primaryUom: 'EA',
+        allowedUoms: ['EA', 'BX'],
+        uomConversionRules: { CS: 12 },
+      } as any,
+    });
+    expect(result.passed).toBe(false);
+    expect(result.message).toContain('not allowed');
+  });
+});
@@ -0,0 +1,54 @@
+import { extractAdvisoryFindings } from '../validation-engine';
+import { determineValidationStatus } from '../validation-orchestration';
+
+describe('Validation Engine', () => {
+  describe('determineValidationStatus', () => {
+    it('should pass when there are no exceptions', () => {
+      expect(determineValidationStatus([])).toBe('Passed');
+    });
+
+    it('should not fail on advisory findings alone', () => {
+      expect(determineValidationStatus([{ advisory: true }])).toBe('Passed');
+    });
+
+    it('should fail on any rule exception', () => {
+      expect(determineValidationStatus([{ advisory: true }, { advisory: false }])).toBe('Failed');
+      expect(determineValidationStatus([{}])).toBe('Failed');
+    });
+  });
+
+  describe('extractAdvisoryFindings', () => {
+    it('should convert LLM exceptions to advisory drafts', async () => {
+      const findings = await extractAdvisoryFindings(
+        { invoiceId: 'inv-1', contractId: null },
+        {
+          validation_result: {
+            exceptions: [
+              {
+                exception_type: 'Price Variance',
+                severity: 'high',
+                financial_impact_amount: 125.5,
+                message: 'Unit price exceeds contract rate',
+              },
+              { exception_type: 'Missing Message' },
+            ],
+          },
+        }
+      );
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({
+        exceptionType: 'Price Variance',
+        exceptionCategory: 'LLM Review',
+        severity: 'High',
+        source: 'llm',
+        advisory: true,
+      });
+      expect(findings[0].varianceAmount?.toString()).toBe('125.5');
+    });
+
+    it('should return nothing without a payload', async () => {
+      expect(await extractAdvisoryFindings({ invoiceId: 'inv-1', contractId: null })).toEqual([]);
+    });
+  });
+});
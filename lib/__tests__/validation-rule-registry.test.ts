@@ -0,0 +1,140 @@
+import {
+  evaluateRule,
+  resolveRuleSet,
+  serializeRuleSet,
+} from '../validation-rule-registry';
+import { ValidationContext } from '../validation-rules';
+import { Decimal } from '@prisma/client/runtime/library';
+
+describe('Validation Rule Registry', () => {
+  describe('resolveRuleSet', () => {
+    it('should enable every registered rule by default', () => {
+      const rules = resolveRuleSet(null);
+      expect(rules.length).toBeGreaterThan(0);
+      expect(rules.every((rule) => rule.enabled)).toBe(true);
+    });
+
+    it('should apply contract overrides for enablement, severity and parameters', () => {
+      const rules = resolveRuleSet({
+        rules: {
+          location: { enabled: false },
+          quantity: { severity: 'High' },
+          price: { parameters: { toleranceType: 'percentage', toleranceValue: 2 } },
+        },
+      });
+      const byId = Object.fromEntries(rules.map((rule) => [rule.definition.id, rule]));
+
+      expect(byId.location.enabled).toBe(false);
+      expect(byId.quantity.severity).toBe('High');
+      expect(byId.price.parameters.toleranceValue).toBe(2);
+      expect(byId.price.parameters.highSeverityVariance).toBe(1000);
+    });
+
+    it('should fall back to defaults for an invalid config', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const rules = resolveRuleSet({ rules: { price: { severity: 'Critical' } } });
+      expect(rules.find((rule) => rule.definition.id === 'price')?.severity).toBeUndefined();
+      warn.mockRestore();
+    });
+  });
+
+  describe('serializeRuleSet', () => {
+    it('should record each rule with its effective severity and parameters', () => {
+      const snapshot = serializeRuleSet(resolveRuleSet({ rules: { uom: { severity: 'Low' } } }));
+      const uom = snapshot.rules.find((rule) => rule.id === 'uom');
+      expect(uom).toMatchObject({ scope: 'line', enabled: true, severity: 'Low', severity_overridden: true });
+    });
+  });
+
+  describe('evaluateRule', () => {
+    const context: ValidationContext = {
+      invoice: {} as any,
+      contract: {} as any,
+      lineItem: {
+        lineNumber: 1,
+        invoiceUnitPrice: new Decimal(103),
+        invoiceQuantity: new Decimal(1),
+      } as any,
+      billableItem: {
+        contractPrice: new Decimal(100),
+        listPrice: new Decimal(100),
+      } as any,
+    };
+
+    it('should use the contract tolerance for items without their own', async () => {
+      const [price] = resolveRuleSet({
+        rules: { price: { parameters: { toleranceType: 'percentage', toleranceValue: 5 } } },
+      }).filter((rule) => rule.definition.id === 'price');
+
+      const outcome = await evaluateRule(price, context);
+      expect(outcome?.result.passed).toBe(true);
+      expect(outcome?.exceptions).toHaveLength(0);
+    });
+
+    it('should apply the configured severity to exceptions', async () => {
+      const [price] = resolveRuleSet({ rules: { price: { severity: 'Low' } } }).filter(
+        (rule) => rule.definition.id === 'price'
+      );
+
+      const outcome = await evaluateRule(price, context);
+      expect(outcome?.exceptions[0].exceptionType).toBe('Price Variance');
+      expect(outcome?.exceptions[0].severity).toBe('Low');
+    });
+
+    it('should report the tolerance variance over the line quantity', async () => {
+      const [price] = resolveRuleSet(null).filter((rule) => rule.definition.id === 'price');
+
+      const outcome = await evaluateRule(price, {
+        ...context,
+        lineItem: { ...context.lineItem, invoiceQuantity: new Decimal(10) },
+      });
+      // (103 - 100) x 10 units, as for a ceiling breach
+      expect(outcome?.exceptions[0].varianceAmount?.toString()).toBe('30');
+    });
+
+    it('should skip disabled rules', async () => {
+      const [price] = resolveRuleSet({ rules: { price: { enabled: false } } }).filter(
+        (rule) => rule.definition.id === 'price'
+      );
+
+      expect(await evaluateRule(price, context)).toBeNull();
+    });
+
+    it('should report a ceiling breach ahead of the tolerance check', async () => {
+      const [price] = resolveRuleSet({
+        rules: { price: { parameters: { toleranceType: 'percentage', toleranceValue: 5 } } },
+      }).filter((rule) => rule.definition.id === 'price');
+
+      const outcome = await evaluateRule(price, {
+        ...context,
+        lineItem: { ...context.lineItem, invoiceQuantity: new Decimal(10) },
+        billableItem: { ...context.billableItem, priceCeiling: new Decimal(101) },
+      });
+      expect(outcome?.exceptions[0].exceptionType).toBe('Above Contract Ceiling');
+      expect(outcome?.exceptions[0].expectedValue).toBe('101');
+      // (103 - 101) x 10 units
+      expect(outcome?.exceptions[0].varianceAmount?.toString()).toBe('20');
+    });
+
+    it('should report billing below the floor', async () => {
+      const [price] = resolveRuleSet(null).filter((rule) => rule.definition.id === 'price');
+
+      const outcome = await evaluateRule(price, {
+        ...context,
+        billableItem: { ...context.billableItem, priceFloor: new Decimal(105) },
+      });
+      expect(outcome?.exceptions[0].exceptionType).toBe('Below Contract Floor');
+      expect(outcome?.exceptions[0].severity).toBe('Low');
+    });
+
+    it('should pass a not-to-exceed item within its bounds', async () => {
+      const [price] = resolveRuleSet(null).filter((rule) => rule.definition.id === 'price');
+
+      const outcome = await evaluateRule(price, {
+        ...context,
+        billableItem: { listPrice: new Decimal(90), priceCeiling: new Decimal(110) } as any,
+      });
+      expect(outcome?.result.passed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  applyKnownCorrections,
+  hintFieldName,
+  identifyVendor,
+  summarizeFieldAccuracy,
+  vendorPromptGuidance,
+  VendorTemplate,
+} from '../vendor-templates';
+import { RedactionVault } from '../phi-redaction';
+
+const template: VendorTemplate = {
+  vendorPartyId: 'party-acme',
+  vendorName: 'Acme Medical Supply',
+  hints: [
+    {
+      fieldName: 'invoice_header.vendor_party_id',
+      extractedValue: 'PNC Lockbox 7731',
+      correctedValue: 'Acme Medical Supply Inc',
+      sourcePageNumber: 2,
+    },
+    {
+      fieldName: 'invoice_header.vendor_party_id',
+      extractedValue: 'PNC Lockbox 7731',
+      correctedValue: 'Acme Medical Supply Inc',
+      sourcePageNumber: 2,
+    },
+    {
+      fieldName: 'line_items.*.quantity',
+      extractedValue: '12',
+      correctedValue: '1',
+      sourcePageNumber: 1,
+    },
+    {
+      fieldName: 'invoice_header.po_number',
+      extractedValue: null,
+      correctedValue: 'PO-5521',
+      sourcePageNumber: null,
+    },
+  ],
+};
+
+describe('Vendor Templates', () => {
+  describe('hintFieldName', () => {
+    it('should strip the payload prefix and line indexes', () => {
+      expect(hintFieldName('validation_request.invoice_data.line_items.3.quantity')).toBe(
+        'line_items.*.quantity'
+      );
+      expect(hintFieldName('validation_request.invoice_data.invoice_header.invoice_id')).toBe(
+        'invoice_header.invoice_id'
+      );
+    });
+
+    it('should ignore fields outside the invoice data', () => {
+      expect(hintFieldName('validation_result.confidence_score')).toBeNull();
+    });
+  });
+
+  describe('identifyVendor', () => {
+    const candidates = [
+      { partyId: 'party-acme', names: ['Acme'] },
+      { partyId: 'party-acme-medical', names: ['ACME Medical Supply, Inc.'] },
+      { partyId: 'party-northwind', names: ['Northwind Surgical LLC'] },
+    ];
+
+    it('should prefer the longest name found in the document', () => {
+      expect(
+        identifyVendor('Acme Medical Supply Inc\nINVOICE\nRemit To: PNC Lockbox 7731', candidates)
+      ).toBe('party-acme-medical');
+    });
+
+    it('should only match whole words', () => {
+      expect(identifyVendor('Northwindows Surgical\nINVOICE', candidates)).toBeNull();
+    });
+  });
+
+  describe('vendorPromptGuidance', () => {
+    it('should list corrected fields with deduplicated examples', () => {
+      const guidance = vendorPromptGuidance(template);
+
+      expect(guidance).toContain('This invoice appears to be from Acme Medical Supply.');
+      expect(guidance).toContain(
+        '- invoice_header.vendor_party_id (corrected 2 times): extracted "PNC Lockbox 7731" on page 2, correct value "Acme Medical Supply Inc"\n'
+      );
+      expect(guidance).toContain(
+        '- invoice_header.po_number (corrected once): missed, correct value "PO-5521"'
+      );
+    });
+
+    it('should keep patient details in corrections out of the prompt', () => {
+      const guidance = vendorPromptGuidance(
+        {
+          ...template,
+          hints: [
+            {
+              fieldName: 'invoice_header.customer_party_id',
+              extractedValue: 'Patient: Jane Doe MRN: A448213',
+              correctedValue: 'Riverside Clinic',
+              sourcePageNumber: 1,
+            },
+            {
+              fieldName: 'line_items.*.description',
+              extractedValue: 'Lab panel',
+              correctedValue: 'Lab panel MRN 7781234',
+              sourcePageNumber: 1,
+            },
+          ],
+        },
+        new RedactionVault()
+      );
+
+      expect(guidance).not.toContain('A448213');
+      expect(guidance).not.toContain('Jane Doe');
+      expect(guidance).toContain('[[PHI_MRN_1]]');
+      expect(guidance).not.toContain('7781234');
+      expect(guidance).not.toContain('line_items.*.description');
+    });
+
+    it('should be empty without a template', () => {
+      expect(vendorPromptGuidance(null)).toBe('');
+    });
+  });
+
+  describe('applyKnownCorrections', () => {
+    it('should replace header values reviewers have replaced before', () => {
+      const header = { vendor_party_id: 'PNC Lockbox 7731', invoice_id: 'INV-1001' };
+
+      expect(applyKnownCorrections(header, template)).toEqual(['invoice_header.vendor_party_id']);
+      expect(header).toEqual({
+        vendor_party_id: 'Acme Medical Supply Inc',
+        invoice_id: 'INV-1001',
+      });
+    });
+
+    it('should leave values with conflicting corrections alone', () => {
+      const conflicting: VendorTemplate = {
+        ...template,
+        hints: [
+          ...template.hints,
+          {
+            fieldName: 'invoice_header.vendor_party_id',
+            extractedValue: 'PNC Lockbox 7731',
+            correctedValue: 'Acme Surgical',
+            sourcePageNumber: 2,
+          },
+        ],
+      };
+      const header = { vendor_party_id: 'PNC Lockbox 7731' };
+
+      expect(applyKnownCorrections(header, conflicting)).toEqual([]);
+      expect(header.vendor_party_id).toBe('PNC Lockbox 7731');
+    });
+  });
+
+  describe('summarizeFieldAccuracy', () => {
+    it('should compute accuracy per field and month', () => {
+      const field = (
+        fieldName: string,
+        extractedValue: string | null,
+        normalizedValue: string,
+        month: string,
+        extractionMethod = 'mock'
+      ) => ({
+        fieldName: `validation_request.invoice_data.${fieldName}`,
+        extractedValue,
+        normalizedValue,
+        extractionMethod,
+        extractedDate: new Date(`${month}-15T12:00:00Z`),
+      });
+
+      expect(
+        summarizeFieldAccuracy([
+          field('invoice_header.vendor_party_id', 'PNC Lockbox', 'Acme Medical Supply', '2025-01'),
+          field(
+            'invoice_header.vendor_party_id',
+            'Acme Medical Supply',
+            'Acme Medical Supply',
+            '2025-02'
+          ),
+          field('line_items.0.quantity', '2', '2', '2025-02'),
+          field('line_items.1.quantity', '12', '1', '2025-02'),
+          field('invoice_header.po_number', null, 'PO-5521', '2025-02', 'manual_review'),
+        ])
+      ).toEqual([
+        {
+          fieldName: 'invoice_header.po_number',
+          month: '2025-02',
+          reviewed: 1,
+          corrected: 1,
+          accuracy: 0,
+        },
+        {
+          fieldName: 'invoice_header.vendor_party_id',
+          month: '2025-02',
+          reviewed: 1,
+          corrected: 0,
+          accuracy: 1,
+        },
+        {
+          fieldName: 'line_items.*.quantity',
+          month: '2025-02',
+          reviewed: 2,
+          corrected: 1,
+          accuracy: 0.5,
+        },
+        {
+          fieldName: 'invoice_header.vendor_party_id',
+          month: '2025-01',
+          reviewed: 1,
+          corrected: 1,
+          accuracy: 0,
+        },
+      ]);
+    });
+  });
+});
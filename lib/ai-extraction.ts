@@ -1,9 +1,32 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { prisma } from './db';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || '',
-});
+import { prisma, DbClient } from './db';
+import { PageOCRResult } from './ocr';
+import {
+  ChunkExtraction,
+  ExtractionChunk,
+  chunkPageNumbers,
+  chunkPages,
+  documentPages,
+  mergeContractEnvelopes,
+  mergeInvoicePayloads,
+} from './extraction-chunking';
+import {
+  ExtractionResponse,
+  ExtractionTask,
+  completeExtraction,
+  extractionMethod,
+} from './extraction-provider';
+import { ExtractionCacheMode, completeWithCache } from './extraction-cache';
+import {
+  completeWithRepair,
+  contractEnvelopeSchema,
+  documentTypeSchema,
+  invoicePayloadSchema,
+  partialContractEnvelopeSchema,
+  partialInvoicePayloadSchema,
+  simpleInvoiceSchema,
+} from './extraction-schemas';
+import { indexPages, locateValue } from './extraction-provenance';
+import { PhiType, RedactionVault, redactPages, saveRedactions } from './phi-redaction';
 
 /**
  * Preprocess OCR text to improve extraction accuracy
@@ -33,422 +56,65 @@ function preprocessOCRText(text: string): string {
   return processed;
 }
 
+// Extracted fields below this confidence are flagged for human review
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Bump a task's version with any change to its prompt. Stored responses are only reused for
+// the same version, and the version is recorded in the extraction metadata so results can
+// be compared across prompt changes.
+export const PROMPT_VERSIONS: Record<ExtractionTask, string> = {
+  type_detection: 'type_detection.1',
+  contract: 'contract.1',
+  invoice: 'invoice.3',
+  simple_invoice: 'simple_invoice.1',
+};
+
 export interface ExtractionResult {
   success: boolean;
   data: any;
   confidence: number;
   errors?: string[];
+  warnings?: string[];
+  // Provider and model that produced the data, e.g. "anthropic-claude-sonnet-4-5-20250929"
+  extractionMethod?: string;
+  // Schema problems left after repair. The data must be reviewed before normalization.
+  schemaErrors?: string[];
   extractionMetadata?: {
     extractionVersion: string;
     processingTimestamp: string;
     overallConfidence: number;
     documentTypeDetected: string;
     totalPages: number;
+    requiresHumanReview?: boolean;
+    validationErrors?: string[];
+    validationWarnings?: string[];
+    // Fields the model corrected after being shown schema errors
+    repairedFields?: string[];
+    schemaErrors?: string[];
+    promptVersion?: string;
+    // Vendor whose reviewer corrections were used, and the header fields they corrected
+    vendorTemplatePartyId?: string;
+    templateCorrections?: string[];
+    // PHI occurrences replaced with tokens before the text was sent to the model, per type
+    redactions?: Partial<Record<PhiType, number>>;
   };
 }
 
-// ContractSphere v2.3.1 Schema for Contract Extraction
-const contractSphereSchema = {
-  type: 'object',
-  properties: {
-    _extraction_metadata: {
-      type: 'object',
-      properties: {
-        extraction_version: { type: 'string' },
-        processing_timestamp: { type: 'string' },
-        overall_confidence: { type: 'number' },
-        document_type_detected: { type: 'string' },
-        total_pages: { type: 'number' },
-      },
-    },
-    parties: {
-      type: 'array',
-      items: {
-        type: 'object',
-        properties: {
-          party_id: { type: 'string' },
-          party_type: { type: 'string' },
-          legal_name: { type: 'string' },
-          trading_name: { type: 'string' },
-          tax_id: { type: 'string' },
-          duns_number: { type: 'string' },
-          npi_number: { type: 'string' },
-          cage_code: { type: 'string' },
-          external_ids: {
-            type: 'object',
-            properties: {
-              erp_vendor_id: { type: 'string' },
-              supplier_code: { type: 'string' },
-              erp_customer_id: { type: 'string' },
-              health_system_code: { type: 'string' },
-            },
-          },
-          primary_contact_email: { type: 'string' },
-          primary_contact_phone: { type: 'string' },
-        },
-        required: ['party_id', 'party_type', 'legal_name'],
-      },
-    },
-    contracts: {
-      type: 'object',
-      properties: {
-        contract_id: { type: 'string' },
-        contract_title: { type: 'string' },
-        contract_type: { type: 'string' },
-        version: { type: 'string' },
-        external_ids: {
-          type: 'object',
-          properties: {
-            erp_contract_number: { type: 'string' },
-          },
-        },
-        effective_date: { type: 'string' },
-        expiration_date: { type: 'string' },
-        governing_law: { type: 'string' },
-        termination_clause: { type: 'string' },
-        termination_rights: { type: 'string' },
-        auto_renewal: {
-          type: 'object',
-          properties: {
-            enabled: { type: 'boolean' },
-            renewal_period: { type: 'string' },
-            notice_period: { type: 'string' },
-          },
-        },
-        locations: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              location_id: { type: 'string' },
-              location_name: { type: 'string' },
-              location_type: { type: 'string' },
-              address: { type: 'string' },
-            },
-          },
-        },
-        contract_status: { type: 'string' },
-        processing_status: { type: 'string' },
-      },
-      required: ['contract_id', 'contract_title', 'contract_type', 'effective_date', 'expiration_date'],
-    },
-    billable_items: {
-      type: 'array',
-      items: {
-        type: 'object',
-        properties: {
-          item_id: { type: 'string' },
-          item_name: { type: 'string' },
-          external_ids: {
-            type: 'object',
-            properties: {
-              vendor_sku: { type: 'string' },
-              item_code: { type: 'string' },
-            },
-          },
-          pricing_model_id: { type: 'string' },
-          pricing_details: {
-            type: 'object',
-            properties: {
-              list_price: { type: 'number' },
-              unit_cost: { type: 'number' },
-              contractual_price_floor: { type: 'number' },
-              price_ceiling: { type: 'number' },
-              rate_type: { type: 'string' },
-              allowed_variance: {
-                type: 'object',
-                properties: {
-                  type: { type: 'string' },
-                  value: { type: 'number' },
-                },
-              },
-              line_item_code: { type: 'string' },
-              currency: { type: 'string' },
-              unit_of_measure: { type: 'string' },
-            },
-          },
-        },
-        required: ['item_id', 'item_name'],
-      },
-    },
-    pricing_models: {
-      type: 'array',
-      items: {
-        type: 'object',
-        properties: {
-          model_id: { type: 'string' },
-          model_name: { type: 'string' },
-          model_type: { type: 'string' },
-          version: { type: 'string' },
-        },
-        required: ['model_id', 'model_name', 'model_type'],
-      },
-    },
-    payment_terms: {
-      type: 'object',
-      properties: {
-        payment_schedule: { type: 'string' },
-        payment_method: { type: 'string' },
-        net_days: { type: 'number' },
-        currency: { type: 'string' },
-      },
-    },
-    _validation_summary: {
-      type: 'object',
-      properties: {
-        high_confidence_items: { type: 'number' },
-        items_requiring_review: { type: 'number' },
-        estimated_annual_value: { type: 'number' },
-        critical_missing_fields: { type: 'array', items: { type: 'string' } },
-        date_consistency_check: { type: 'boolean' },
-        currency_consistency_check: { type: 'boolean' },
-      },
-    },
-  },
-  required: ['parties', 'contracts', 'billable_items'],
-};
-
-// SR Validation v1.1 Schema for Invoice Extraction
-const validationSchema = {
-  type: 'object',
-  properties: {
-    validation_request: {
-      type: 'object',
-      properties: {
-        request_id: { type: 'string' },
-        invoice_data: {
-          type: 'object',
-          properties: {
-            invoice_header: {
-              type: 'object',
-              properties: {
-                invoice_id: { type: 'string' },
-                vendor_party_id: { type: 'string' },
-                customer_party_id: { type: 'string' },
-                invoice_date: { type: 'string' },
-                total_amount: { type: 'number' },
-                currency: { type: 'string' },
-                service_period: {
-                  type: 'object',
-                  properties: {
-                    start_date: { type: 'string' },
-                    end_date: { type: 'string' },
-                  },
-                },
-                billing_aggregation_level: { type: 'string' },
-                aggregation_reference: { type: 'string' },
-                external_ids: {
-                  type: 'object',
-                  properties: {
-                    erp_invoice_id: { type: 'string' },
-                    po_number: { type: 'string' },
-                    external_voucher_id: { type: 'string' },
-                    ap_unit: { type: 'string' },
-                  },
-                },
-              },
-              required: ['invoice_id', 'vendor_party_id', 'invoice_date', 'total_amount', 'currency'],
-            },
-            line_items: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  line_number: { type: 'number' },
-                  description: { type: 'string' },
-                  quantity: { type: 'number' },
-                  uom: { type: 'string' },
-                  unit_price: { type: 'number' },
-                  extended_amount: { type: 'number' },
-                  aggregation_type: { type: 'string' },
-                  aggregation_method: { type: 'string' },
-                  aggregated_items: {
-                    type: 'array',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        billable_item_id: { type: 'string' },
-                        item_name: { type: 'string' },
-                        quantity: { type: 'number' },
-                        allocated_amount: { type: 'number' },
-                      },
-                    },
-                  },
-                },
-                required: ['line_number', 'description', 'extended_amount'],
-              },
-            },
-          },
-        },
-        contract_context: {
-          type: 'object',
-          properties: {
-            primary_contract_id: { type: 'string' },
-          },
-        },
-        validation_criteria: {
-          type: 'object',
-          properties: {
-            rate_tolerance: {
-              type: 'object',
-              properties: {
-                type: { type: 'string' },
-                value: { type: 'number' },
-              },
-            },
-            auto_approve_threshold: { type: 'number' },
-            manual_review_threshold: { type: 'number' },
-          },
-        },
-      },
-    },
-    validation_result: {
-      type: 'object',
-      properties: {
-        overall_status: { type: 'string' },
-        confidence_score: { type: 'number' },
-        processing_time_ms: { type: 'number' },
-        timestamp: { type: 'string' },
-        contract_compliance: {
-          type: 'object',
-          properties: {
-            contract_match: {
-              type: 'object',
-              properties: {
-                contract_id: { type: 'string' },
-                vendor_validated: { type: 'boolean' },
-                customer_validated: { type: 'boolean' },
-                date_range_valid: { type: 'boolean' },
-                currency_match: { type: 'boolean' },
-              },
-            },
-            line_item_validation: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  line_number: { type: 'number' },
-                  validation_approach: { type: 'string' },
-                  billable_item_match: {
-                    type: 'object',
-                    properties: {
-                      item_id: { type: 'string' },
-                      item_name: { type: 'string' },
-                      match_confidence: { type: 'number' },
-                      match_method: { type: 'string' },
-                    },
-                  },
-                  pricing_validation: {
-                    type: 'object',
-                    properties: {
-                      pricing_model_id: { type: 'string' },
-                      pricing_model_type: { type: 'string' },
-                      contract_price: { type: 'number' },
-                      invoiced_price: { type: 'number' },
-                      variance_amount: { type: 'number' },
-                      variance_percentage: { type: 'number' },
-                      price_within_tolerance: { type: 'boolean' },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
-        exceptions: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              exception_type: { type: 'string' },
-              category: { type: 'string' },
-              severity: { type: 'string' },
-              field_name: { type: 'string' },
-              expected_value: { type: 'string' },
-              actual_value: { type: 'string' },
-              financial_impact_amount: { type: 'number' },
-              root_cause: { type: 'string' },
-              message: { type: 'string' },
-              recommendation: { type: 'string' },
-            },
-          },
-        },
-        financial_summary: {
-          type: 'object',
-          properties: {
-            expected_net_amount: { type: 'number' },
-            actual_net_amount: { type: 'number' },
-            variance_amount: { type: 'number' },
-            potential_savings: { type: 'number' },
-            recommended_payment_amount: { type: 'number' },
-          },
-        },
-        next_actions: {
-          type: 'object',
-          properties: {
-            primary_action: { type: 'string' },
-            required_approvers: { type: 'array', items: { type: 'string' } },
-            deadline: { type: 'string' },
-            notes: { type: 'string' },
-          },
-        },
-      },
-    },
-    extraction_intelligence: {
-      type: 'object',
-      properties: {
-        processing_statistics: {
-          type: 'object',
-          properties: {
-            total_items_detected: { type: 'number' },
-            items_extracted: { type: 'number' },
-            high_confidence_items: { type: 'number' },
-            items_requiring_review: { type: 'number' },
-            average_confidence: { type: 'number' },
-          },
-        },
-        pattern_recognition_results: {
-          type: 'object',
-          properties: {
-            identifiers_found: {
-              type: 'object',
-              properties: {
-                ein: { type: 'number' },
-                duns: { type: 'number' },
-                vendor_ids: { type: 'number' },
-                npi: { type: 'number' },
-              },
-            },
-          },
-        },
-        quality_flags: {
-          type: 'object',
-          properties: {
-            currency_inconsistency: { type: 'boolean' },
-            date_logic_errors: { type: 'boolean' },
-            missing_critical_pricing: { type: 'number' },
-            unusual_terms_detected: { type: 'number' },
-          },
-        },
-      },
-    },
-  },
-  required: ['validation_request', 'validation_result'],
-};
-
 /**
  * Detects the document type from extracted text using AI
  * @param text - The OCR-extracted text from the document
+ * @param fileHash - Hash of the source file, when known (keys mock provider fixtures)
  * @returns Object with detected type ('contract' | 'invoice' | 'other') and confidence score (0-1)
  */
 export async function detectDocumentType(
-  text: string
+  text: string,
+  fileHash?: string | null
 ): Promise<{ type: 'contract' | 'invoice' | 'other'; confidence: number }> {
   const { retryWithBackoff } = await import('./error-handling');
 
   try {
     // Use a sample of the text for faster detection (first 10000 characters should be enough)
-    const sampleText = text.substring(0, 10000);
+    const sampleText = new RedactionVault().redact(text.substring(0, 10000));
     
     const prompt = `Analyze the following document text and determine if it is:
 1. A CONTRACT - Contains terms, agreements, parties, effective dates, expiration dates, legal language, billable items, pricing terms
@@ -468,32 +134,30 @@ Look for key indicators:
 - Invoices: "invoice", "invoice number", "invoice date", "bill to", "ship to", "line items", "total amount", "payment due"
 - Other: If it doesn't clearly fit either category, classify as "other"`;
 
-    const response = await retryWithBackoff(
-      async () => {
-        return await anthropic.messages.create({
-          model: 'claude-sonnet-4-5-20250929',
-          max_tokens: 500,
-          temperature: 0.1,
-          system: 'You are an expert at classifying business documents. Analyze the text and determine if it is a contract, invoice, or neither. Return only valid JSON with type, confidence, and reasoning fields.',
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-        });
+    const { data: result, schemaErrors } = await completeWithRepair(
+      {
+        task: 'type_detection',
+        system: 'You are an expert at classifying business documents. Analyze the text and determine if it is a contract, invoice, or neither. Return only valid JSON with type, confidence, and reasoning fields.',
+        prompt,
+        documentHash: fileHash,
+        documentText: sampleText,
+        promptVersion: PROMPT_VERSIONS.type_detection,
       },
-      { maxRetries: 3, retryDelay: 1000, backoffMultiplier: 2 },
-      'document_type_detection'
+      documentTypeSchema,
+      'Document type',
+      (request) =>
+        completeWithCache(request, 'use', (uncached) =>
+          retryWithBackoff(
+            () => completeExtraction(uncached),
+            { maxRetries: 3, retryDelay: 1000, backoffMultiplier: 2 },
+            'document_type_detection'
+          )
+        )
     );
 
-    const content = response.content[0];
-    let jsonText = content.type === 'text' ? content.text : '{}';
-    
-    // Clean up the response in case Claude includes markdown code blocks
-    jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-    
-    const result = JSON.parse(jsonText);
+    if (schemaErrors.length > 0) {
+      throw new Error(`Invalid document type response: ${schemaErrors.join('; ')}`);
+    }
     
     // Validate and normalize the result
     const detectedType = result.type?.toLowerCase();
@@ -524,24 +188,105 @@ Look for key indicators:
   }
 }
 
-export async function extractContractData(
+/**
+ * Prompt preamble telling the model which part of a chunked document it is reading.
+ * entities names the records that should carry the page they were found on.
+ */
+function chunkInstructions(
+  chunk: ExtractionChunk,
+  chunkCount: number,
+  entities?: string
+): string {
+  if (chunkCount === 1) {
+    return '';
+  }
+  const pageAttribution = entities
+    ? ` Put the page number each ${entities} was found on in its source_page field.`
+    : '';
+  return `This is part ${chunk.index + 1} of ${chunkCount} of the document, covering pages ${chunk.pageStart}-${chunk.pageEnd}. Page boundaries are marked "--- Page N ---". Extract only what appears in this part and leave everything else empty: the other parts are extracted separately and merged. Do not infer or generate values for fields that are not in this part, even where the instructions below ask for a fallback.${pageAttribution}
+
+`;
+}
+
+export interface ExtractionSource {
+  // OCR pages; without them the text is extracted as a single page
+  pages?: PageOCRResult[];
+  // DocumentMetadata.fileHash of the source file
+  fileHash?: string | null;
+  // Whether stored model responses are reused, bypassed or replayed; defaults to 'use'
+  cacheMode?: ExtractionCacheMode;
+  // Evaluation runs have no document record: vendor hints aren't used, so results only
+  // depend on the prompt and model, and partial extractions aren't logged
+  evaluation?: boolean;
+}
+
+/**
+ * The document's pages with PHI replaced by tokens, for the prompts, and the vault to restore
+ * it in the extracted data. The token map is stored with the document.
+ */
+async function redactDocument(
   text: string,
   documentId: string,
-  totalPages: number = 1
-): Promise<ExtractionResult> {
-  const { retryWithBackoff, handlePartialExtraction, ExtractionError } = await import('./error-handling');
+  source: ExtractionSource
+): Promise<{ pages: PageOCRResult[]; vault: RedactionVault }> {
+  const vault = new RedactionVault();
+  const pages = redactPages(documentPages(text, source.pages), vault);
+  if (!source.evaluation) {
+    await saveRedactions(documentId, vault).catch((redactionError) => {
+      console.warn('Failed to store PHI redactions:', redactionError);
+    });
+  }
+  return { pages, vault };
+}
 
-  try {
-    const prompt = `Extract contract information from the following document text. Return a JSON object matching the ContractSphere v2.3.1 schema.
+interface ChunkResponse {
+  // Parsed JSON, or null when the response could not be parsed
+  data: any | null;
+  response: ExtractionResponse;
+  repairedFields: string[];
+  // Schema problems left after repair
+  schemaErrors: string[];
+}
 
-Document Text:
-${text.substring(0, 15000)}
+/**
+ * Repaired fields and schema errors of a chunk, labelled with its pages when the document
+ * was extracted in several chunks.
+ */
+function chunkSchemaReport(
+  chunk: ExtractionChunk,
+  chunkCount: number,
+  result: Pick<ChunkResponse, 'repairedFields' | 'schemaErrors'>
+): { repairedFields: string[]; schemaErrors: string[] } {
+  const label = (entry: string) =>
+    chunkCount === 1 ? entry : `pages ${chunk.pageStart}-${chunk.pageEnd}: ${entry}`;
+  return {
+    repairedFields: result.repairedFields.map(label),
+    schemaErrors: result.schemaErrors.map(label),
+  };
+}
 
-CRITICAL: You MUST extract these required fields:
+async function extractContractChunk(
+  chunk: ExtractionChunk,
+  chunkCount: number,
+  source: ExtractionSource,
+  retryWithBackoff: typeof import('./error-handling').retryWithBackoff
+): Promise<ChunkResponse> {
+  // Placeholder values generated in one part would override real values from another
+  const requiredFieldRules =
+    chunkCount === 1
+      ? `CRITICAL: You MUST extract these required fields:
 1. contract_id: Extract contract number or ID from the document. If not found, generate a UUID
 2. contract_title: Extract contract title or name. If not found, use "Contract" + contract number or date
 3. effective_date: Extract effective/start date (format: YYYY-MM-DD). If not found, use today's date
-4. expiration_date: Extract expiration/end date (format: YYYY-MM-DD). If not found, use effective_date + 1 year
+4. expiration_date: Extract expiration/end date (format: YYYY-MM-DD). If not found, use effective_date + 1 year`
+      : `Extract contract_id, contract_title, effective_date and expiration_date (format: YYYY-MM-DD) only if they appear in this part. Do not generate or infer placeholder values; missing fields are filled in after all parts are merged.`;
+
+  const prompt = `Extract contract information from the following document text. Return a JSON object matching the ContractSphere v2.3.1 schema.
+
+${chunkInstructions(chunk, chunkCount, 'party, billable item and pricing model')}Document Text:
+${chunk.text}
+
+${requiredFieldRules}
 
 Extract all contract details including:
 - Parties (vendor, customer) with external IDs
@@ -554,95 +299,102 @@ Extract all contract details including:
 
 For each extracted field, note the page number where it was found. Generate UUIDs for party_id, contract_id, item_id, and model_id fields.
 
-IMPORTANT: Always populate contract_id, contract_title, effective_date, and expiration_date even if you need to infer or generate them.
+${
+  chunkCount === 1
+    ? 'IMPORTANT: Always populate contract_id, contract_title, effective_date, and expiration_date even if you need to infer or generate them.'
+    : 'IMPORTANT: Report a confidence score (0-1) for this part in _extraction_metadata.overall_confidence.'
+}
 
 Return the full ContractSphere envelope structure.`;
 
-    const response = await retryWithBackoff(
-      async () => {
-        return await anthropic.messages.create({
-          model: 'claude-sonnet-4-5-20250929',
-          max_tokens: 8000,
-          temperature: 0.1,
-          system: 'You are an expert at extracting structured data from contract documents. Return valid JSON matching the ContractSphere v2.3.1 schema. Include _extraction_metadata with confidence scores and page numbers for each field. Your response must be only valid JSON, no other text. IMPORTANT: Ensure all strings are properly escaped and all JSON syntax is valid. Do not include unterminated strings or unescaped quotes.',
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-        });
-      },
-      { maxRetries: 3, retryDelay: 1000, backoffMultiplier: 2 },
-      'contract_extraction'
-    );
+  const { data, response, repairedFields, schemaErrors } = await completeWithRepair(
+    {
+      task: 'contract',
+      system: 'You are an expert at extracting structured data from contract documents. Return valid JSON matching the ContractSphere v2.3.1 schema. Include _extraction_metadata with confidence scores and page numbers for each field. Your response must be only valid JSON, no other text. IMPORTANT: Ensure all strings are properly escaped and all JSON syntax is valid. Do not include unterminated strings or unescaped quotes.',
+      prompt,
+      documentHash: source.fileHash,
+      documentText: chunk.text,
+      chunkIndex: chunk.index,
+      promptVersion: PROMPT_VERSIONS.contract,
+    },
+    chunkCount === 1 ? contractEnvelopeSchema : partialContractEnvelopeSchema,
+    'Contract',
+    (request) =>
+      completeWithCache(request, source.cacheMode, (uncached) =>
+        retryWithBackoff(
+          () => completeExtraction(uncached),
+          { maxRetries: 3, retryDelay: 1000, backoffMultiplier: 2 },
+          'contract_extraction'
+        )
+      )
+  );
+
+  return { data, response, repairedFields, schemaErrors };
+}
 
-    const content = response.content[0];
-    let jsonText = content.type === 'text' ? content.text : '{}';
-    
-    // Clean up the response in case Claude includes markdown code blocks
-    jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-    
-    // Try to find JSON object boundaries if response contains extra text
-    const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      jsonText = jsonMatch[0];
-    }
-    
-    // Attempt to parse JSON with error recovery
-    let extractedData;
-    try {
-      extractedData = JSON.parse(jsonText);
-    } catch (parseError) {
-      // Try to fix unterminated strings and other common issues
-      console.warn('Contract JSON parse failed, attempting to fix:', parseError);
-      
-      // Try to fix unterminated strings by finding and closing them
-      let fixedJson = jsonText;
-      
-      // Count quotes to find unbalanced strings
-      const quoteMatches = fixedJson.match(/"/g);
-      if (quoteMatches && quoteMatches.length % 2 !== 0) {
-        // Odd number of quotes - likely an unterminated string
-        const lastQuoteIndex = fixedJson.lastIndexOf('"');
-        if (lastQuoteIndex > 0) {
-          // Check if it's escaped
-          let escapeCount = 0;
-          for (let i = lastQuoteIndex - 1; i >= 0 && fixedJson[i] === '\\'; i--) {
-            escapeCount++;
-          }
-          // If not escaped (or escaped an even number of times), it's an opening quote
-          if (escapeCount % 2 === 0) {
-            // Try to find where the string should end
-            const nextComma = fixedJson.indexOf(',', lastQuoteIndex);
-            const nextBrace = fixedJson.indexOf('}', lastQuoteIndex);
-            const nextBracket = fixedJson.indexOf(']', lastQuoteIndex);
-            
-            let insertPos = fixedJson.length;
-            if (nextComma > 0) insertPos = Math.min(insertPos, nextComma);
-            if (nextBrace > 0) insertPos = Math.min(insertPos, nextBrace);
-            if (nextBracket > 0) insertPos = Math.min(insertPos, nextBracket);
-            
-            fixedJson = fixedJson.substring(0, insertPos) + '"' + fixedJson.substring(insertPos);
-          }
-        }
-      }
-      
-      // Try parsing again
+export async function extractContractData(
+  text: string,
+  documentId: string,
+  totalPages: number = 1,
+  source: ExtractionSource = {}
+): Promise<ExtractionResult> {
+  const { retryWithBackoff, handlePartialExtraction, ExtractionError } = await import('./error-handling');
+
+  try {
+    // Extract page-aware chunks separately so nothing past the prompt limit is dropped
+    const redacted = await redactDocument(text, documentId, source);
+    const chunks = chunkPages(redacted.pages);
+    const partials: ChunkExtraction[] = [];
+    const failedChunks: ExtractionChunk[] = [];
+    let lastError: unknown = null;
+    let method: string | undefined;
+    const repairedFields: string[] = [];
+    const schemaErrors: string[] = [];
+
+    for (const chunk of chunks) {
       try {
-        extractedData = JSON.parse(fixedJson);
-      } catch (secondError) {
-        console.error('Contract JSON parsing failed after fix attempt:', secondError);
-        // Create a minimal valid structure as fallback
-        extractedData = {
-          contracts: {},
-          parties: [],
-          billable_items: [],
-          pricing_models: []
-        };
+        const result = await extractContractChunk(chunk, chunks.length, source, retryWithBackoff);
+        const { data, response } = result;
+        method = extractionMethod(response);
+        const report = chunkSchemaReport(chunk, chunks.length, result);
+        repairedFields.push(...report.repairedFields);
+        schemaErrors.push(...report.schemaErrors);
+        if (data) {
+          const confidence = Number(data._extraction_metadata?.overall_confidence);
+          partials.push({ chunk, data, confidence: Number.isFinite(confidence) ? confidence : 0.9 });
+        } else {
+          failedChunks.push(chunk);
+        }
+      } catch (chunkError) {
+        console.error(
+          `Contract extraction failed for pages ${chunk.pageStart}-${chunk.pageEnd}:`,
+          chunkError
+        );
+        failedChunks.push(chunk);
+        lastError = chunkError;
       }
     }
 
+    // Every request failed: report the error rather than an empty contract
+    if (partials.length === 0 && lastError) {
+      throw lastError;
+    }
+
+    const extractedData =
+      partials.length > 0
+        ? redacted.vault.rehydrate(mergeContractEnvelopes(partials, { totalPages, failedChunks }))
+        : {
+            // Create a minimal valid structure as fallback
+            contracts: {},
+            parties: [],
+            billable_items: [],
+            pricing_models: [],
+            _validation_summary: {
+              pages_processed: [],
+              pages_not_processed: chunkPageNumbers(failedChunks),
+            },
+          };
+
     // Ensure contracts structure exists
     if (!extractedData.contracts) {
       extractedData.contracts = {};
@@ -719,10 +471,24 @@ Return the full ContractSphere envelope structure.`;
       warnings.push('contract_type: Used default value');
     }
 
+    // Pages whose chunk failed are missing from the envelope
+    const notProcessed: number[] = extractedData._validation_summary?.pages_not_processed || [];
+    if (notProcessed.length > 0) {
+      needsFallback = true;
+      warnings.push(`pages_not_processed: ${notProcessed.join(', ')}`);
+    }
+
+    // Responses that still don't match the schema are held for review
+    if (schemaErrors.length > 0) {
+      warnings.push(...schemaErrors.map((error) => `schema: ${error}`));
+    }
+
     // Log warnings if fallbacks were used
     if (warnings.length > 0) {
       console.warn('Contract extraction used fallbacks:', warnings);
-      await handlePartialExtraction(documentId, extractedData, warnings);
+      if (!source.evaluation) {
+        await handlePartialExtraction(documentId, extractedData, warnings);
+      }
     }
 
     return {
@@ -730,13 +496,24 @@ Return the full ContractSphere envelope structure.`;
       data: extractedData,
       confidence: needsFallback ? (metadata.overall_confidence || 0.7) : (metadata.overall_confidence || 0.9),
       errors: warnings.length > 0 ? warnings : undefined,
-      extractionMetadata: metadata,
+      extractionMethod: method,
+      schemaErrors: schemaErrors.length > 0 ? schemaErrors : undefined,
+      extractionMetadata: {
+        ...metadata,
+        requiresHumanReview: schemaErrors.length > 0 || metadata.requiresHumanReview,
+        repairedFields,
+        schemaErrors,
+        promptVersion: PROMPT_VERSIONS.contract,
+        redactions: redacted.vault.summary(),
+      },
     };
   } catch (error) {
     console.error('Contract extraction error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
-    await handlePartialExtraction(documentId, {}, [errorMessage]);
+    if (!source.evaluation) {
+      await handlePartialExtraction(documentId, {}, [errorMessage]);
+    }
 
     return {
       success: false,
@@ -754,21 +531,17 @@ Return the full ContractSphere envelope structure.`;
   }
 }
 
-export async function extractInvoiceData(
-  text: string,
-  documentId: string,
-  totalPages: number = 1
-): Promise<ExtractionResult> {
-  const { retryWithBackoff, handlePartialExtraction } = await import('./error-handling');
+async function extractInvoiceChunk(
+  chunk: ExtractionChunk,
+  chunkCount: number,
+  source: ExtractionSource,
+  retryWithBackoff: typeof import('./error-handling').retryWithBackoff,
+  vendorGuidance: string = ''
+): Promise<ChunkResponse> {
+  const prompt = `Extract invoice information from the following document text. Return a JSON object matching the SR Validation v1.1 schema.
 
-  try {
-    // Preprocess text to improve OCR quality
-    const preprocessedText = preprocessOCRText(text);
-    
-    const prompt = `Extract invoice information from the following document text. Return a JSON object matching the SR Validation v1.1 schema.
-
-Document Text:
-${preprocessedText.substring(0, 15000)}
+${chunkInstructions(chunk, chunkCount, 'line item')}Document Text:
+${preprocessOCRText(chunk.text)}
 
 CRITICAL EXTRACTION RULES:
 
@@ -817,9 +590,14 @@ CRITICAL: You MUST extract these required fields:
 
 Extract all invoice details including:
 - Invoice header (number, date, vendor, customer, amounts) - REQUIRED FIELDS ABOVE
+- Vendor identifiers in invoice_header.vendor_details: tax_id (EIN/TIN), duns_number, npi_number,
+  the vendor's address and the remit-to address (remit_to), exactly as printed
 - Line items (description, quantity, unit price, extended amount)
 - External IDs (PO number, voucher ID, AP unit)
+- A contract or agreement number printed on the invoice in contract_context.contract_number
 - Service period dates
+- Service / ship-to location (facility code, name and address) in invoice_header.service_location,
+  and per line in line_items[].service_location when lines are delivered to different facilities
 - Aggregation details
 
 For each extracted field, note the page number where it was found and your confidence level (0-1).
@@ -830,15 +608,12 @@ IMPORTANT:
 - For vendor names: Extract complete company names, be careful with OCR character errors
 - Include extraction_intelligence with confidence scores for each field
 
-Return the full validation payload structure with validation_request and validation_result.`;
+${vendorGuidance}Return the full validation payload structure with validation_request and validation_result.`;
 
-    const response = await retryWithBackoff(
-      async () => {
-        return await anthropic.messages.create({
-          model: 'claude-sonnet-4-5-20250929',
-          max_tokens: 8000,
-          temperature: 0.1,
-          system: `You are an expert at extracting structured data from invoice documents with poor OCR quality. 
+  const checked = await completeWithRepair(
+    {
+      task: 'invoice',
+      system: `You are an expert at extracting structured data from invoice documents with poor OCR quality.
 
 CRITICAL INSTRUCTIONS:
 1. AMOUNTS: Be extremely careful with OCR errors. Common mistakes: "O" should be "0", "I" should be "1", "S" should be "5". Always verify amounts are numeric.
@@ -847,105 +622,130 @@ CRITICAL INSTRUCTIONS:
 4. VALIDATION: Verify extracted amounts make logical sense (total >= line items, positive numbers, reasonable currency values).
 
 Return valid JSON matching the SR Validation v1.1 schema. Include extraction_intelligence with confidence scores and page numbers for each field. Your response must be only valid JSON, no other text. IMPORTANT: Ensure all strings are properly escaped and all JSON syntax is valid. Do not include unterminated strings or unescaped quotes.`,
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-        });
+      prompt,
+      documentHash: source.fileHash,
+      documentText: chunk.text,
+      chunkIndex: chunk.index,
+      promptVersion: PROMPT_VERSIONS.invoice,
+    },
+    chunkCount === 1 ? invoicePayloadSchema : partialInvoicePayloadSchema,
+    'Invoice',
+    (request) =>
+      completeWithCache(request, source.cacheMode, (uncached) =>
+        retryWithBackoff(
+          () => completeExtraction(uncached),
+          { maxRetries: 3, retryDelay: 1000, backoffMultiplier: 2 },
+          'invoice_extraction'
+        )
+      )
+  );
+
+  const { response, jsonText, repairedFields, schemaErrors } = checked;
+  if (checked.data) {
+    return { data: checked.data, response, repairedFields, schemaErrors };
+  }
+
+  // Create a minimal valid structure as fallback
+  const fallback: any = {
+    validation_request: {
+      invoice_data: {
+        invoice_header: {},
+        line_items: [],
       },
-      { maxRetries: 3, retryDelay: 1000, backoffMultiplier: 2 },
-      'invoice_extraction'
-    );
+    },
+    validation_result: {},
+    extraction_intelligence: {},
+  };
 
-    const content = response.content[0];
-    let jsonText = content.type === 'text' ? content.text : '{}';
-    
-    // Clean up the response in case Claude includes markdown code blocks
-    jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-    
-    // Try to find JSON object boundaries if response contains extra text
-    const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      jsonText = jsonMatch[0];
-    }
-    
-    // Attempt to fix common JSON issues
-    let extractedData;
-    try {
-      extractedData = JSON.parse(jsonText);
-    } catch (parseError) {
-      // Try to fix unterminated strings and other common issues
-      console.warn('Initial JSON parse failed, attempting to fix:', parseError);
-      
-      // Try to fix unterminated strings by finding and closing them
-      let fixedJson = jsonText;
-      
-      // Count quotes to find unbalanced strings
-      const quoteMatches = fixedJson.match(/"/g);
-      if (quoteMatches && quoteMatches.length % 2 !== 0) {
-        // Odd number of quotes - likely an unterminated string
-        // Try to find the last unescaped quote and close the string
-        const lastQuoteIndex = fixedJson.lastIndexOf('"');
-        if (lastQuoteIndex > 0) {
-          // Check if it's escaped
-          let escapeCount = 0;
-          for (let i = lastQuoteIndex - 1; i >= 0 && fixedJson[i] === '\\'; i--) {
-            escapeCount++;
-          }
-          // If not escaped (or escaped an even number of times), it's an opening quote
-          if (escapeCount % 2 === 0) {
-            // Try to find where the string should end (before next comma, }, or end of text)
-            const nextComma = fixedJson.indexOf(',', lastQuoteIndex);
-            const nextBrace = fixedJson.indexOf('}', lastQuoteIndex);
-            const nextBracket = fixedJson.indexOf(']', lastQuoteIndex);
-            
-            let insertPos = fixedJson.length;
-            if (nextComma > 0) insertPos = Math.min(insertPos, nextComma);
-            if (nextBrace > 0) insertPos = Math.min(insertPos, nextBrace);
-            if (nextBracket > 0) insertPos = Math.min(insertPos, nextBracket);
-            
-            fixedJson = fixedJson.substring(0, insertPos) + '"' + fixedJson.substring(insertPos);
-          }
-        }
-      }
-      
-      // Try parsing again
+  // Try to extract what we can using regex
+  const header = fallback.validation_request.invoice_data.invoice_header;
+  const invoiceIdMatch = jsonText.match(/"invoice_id"\s*:\s*"([^"]*)"/);
+  const invoiceDateMatch = jsonText.match(/"invoice_date"\s*:\s*"([^"]*)"/);
+  const vendorMatch = jsonText.match(/"vendor_party_id"\s*:\s*"([^"]*)"/);
+  const totalAmountMatch = jsonText.match(/"total_amount"\s*:\s*([0-9.]+)/);
+
+  if (invoiceIdMatch) header.invoice_id = invoiceIdMatch[1];
+  if (invoiceDateMatch) header.invoice_date = invoiceDateMatch[1];
+  if (vendorMatch) header.vendor_party_id = vendorMatch[1];
+  if (totalAmountMatch) header.total_amount = parseFloat(totalAmountMatch[1]);
+
+  return { data: fallback, response, repairedFields, schemaErrors };
+}
+
+export async function extractInvoiceData(
+  text: string,
+  documentId: string,
+  totalPages: number = 1,
+  source: ExtractionSource = {}
+): Promise<ExtractionResult> {
+  const { retryWithBackoff, handlePartialExtraction } = await import('./error-handling');
+  const { loadVendorTemplate, vendorPromptGuidance, applyKnownCorrections } = await import(
+    './vendor-templates'
+  );
+
+  try {
+    // Corrections reviewers made to this vendor's earlier invoices
+    const template = source.evaluation
+      ? null
+      : await loadVendorTemplate(text).catch((templateError) => {
+          console.warn('Vendor template lookup failed:', templateError);
+          return null;
+        });
+    const redacted = await redactDocument(text, documentId, source);
+    // Redacted with the document's vault; hint tokens are restored in this run's answer but
+    // aren't stored with the document's own
+    const vendorGuidance = vendorPromptGuidance(template, redacted.vault);
+
+    // Long invoices are extracted page range by page range and merged
+    const chunks = chunkPages(redacted.pages);
+    const partials: ChunkExtraction[] = [];
+    const failedChunks: ExtractionChunk[] = [];
+    let lastError: unknown = null;
+    let method: string | undefined;
+    const repairedFields: string[] = [];
+    const schemaErrors: string[] = [];
+
+    for (const chunk of chunks) {
       try {
-        extractedData = JSON.parse(fixedJson);
-      } catch (secondError) {
-        // If still failing, try to extract just the structure we need
-        console.error('JSON parsing failed after fix attempt:', secondError);
-        console.error('JSON text length:', jsonText.length);
-        console.error('JSON text preview:', jsonText.substring(0, 500));
-        console.error('JSON text near error position:', jsonText.substring(Math.max(0, 20700), Math.min(jsonText.length, 20900)));
-        
-        // Create a minimal valid structure as fallback
-        extractedData = {
-          validation_request: {
-            invoice_data: {
-              invoice_header: {},
-              line_items: []
-            }
-          },
-          validation_result: {},
-          extraction_intelligence: {}
-        };
-        
-        // Try to extract what we can using regex
-        const invoiceIdMatch = jsonText.match(/"invoice_id"\s*:\s*"([^"]*)"/);
-        const invoiceDateMatch = jsonText.match(/"invoice_date"\s*:\s*"([^"]*)"/);
-        const vendorMatch = jsonText.match(/"vendor_party_id"\s*:\s*"([^"]*)"/);
-        const totalAmountMatch = jsonText.match(/"total_amount"\s*:\s*([0-9.]+)/);
-        
-        if (invoiceIdMatch) extractedData.validation_request.invoice_data.invoice_header.invoice_id = invoiceIdMatch[1];
-        if (invoiceDateMatch) extractedData.validation_request.invoice_data.invoice_header.invoice_date = invoiceDateMatch[1];
-        if (vendorMatch) extractedData.validation_request.invoice_data.invoice_header.vendor_party_id = vendorMatch[1];
-        if (totalAmountMatch) extractedData.validation_request.invoice_data.invoice_header.total_amount = parseFloat(totalAmountMatch[1]);
+        const result = await extractInvoiceChunk(
+          chunk,
+          chunks.length,
+          source,
+          retryWithBackoff,
+          vendorGuidance
+        );
+        const { data, response } = result;
+        method = extractionMethod(response);
+        const report = chunkSchemaReport(chunk, chunks.length, result);
+        repairedFields.push(...report.repairedFields);
+        schemaErrors.push(...report.schemaErrors);
+        const confidence = Number(
+          data.validation_result?.confidence_score ??
+            data.extraction_intelligence?.processing_statistics?.average_confidence
+        );
+        partials.push({ chunk, data, confidence: Number.isFinite(confidence) ? confidence : 0.9 });
+      } catch (chunkError) {
+        console.error(
+          `Invoice extraction failed for pages ${chunk.pageStart}-${chunk.pageEnd}:`,
+          chunkError
+        );
+        failedChunks.push(chunk);
+        lastError = chunkError;
       }
     }
 
+    if (partials.length === 0) {
+      throw lastError;
+    }
+
+    // A single chunk is used as extracted; several are merged. PHI tokens in the model's
+    // answer are replaced with the original values
+    const extractedData = redacted.vault.rehydrate(
+      partials.length === 1 && failedChunks.length === 0
+        ? partials[0].data
+        : mergeInvoicePayloads(partials, { totalPages, failedChunks })
+    );
+
     // Ensure validation_request structure exists
     if (!extractedData.validation_request) {
       extractedData.validation_request = {};
@@ -968,6 +768,19 @@ Return valid JSON matching the SR Validation v1.1 schema. Include extraction_int
     const errors: string[] = [];
     let needsFallback = false;
 
+    // Pages whose chunk failed are missing from the payload
+    const notProcessed: number[] = extractedData._validation_summary?.pages_not_processed || [];
+    if (notProcessed.length > 0) {
+      needsFallback = true;
+      errors.push(`pages_not_processed: ${notProcessed.join(', ')}`);
+    }
+
+    // Responses that still don't match the schema are held for review
+    if (schemaErrors.length > 0) {
+      needsFallback = true;
+      errors.push(...schemaErrors.map((error) => `schema: ${error}`));
+    }
+
     // Fallback for invoice_id
     if (!header.invoice_id || header.invoice_id.trim() === '') {
       // Try to use invoice_number if available
@@ -991,6 +804,10 @@ Return valid JSON matching the SR Validation v1.1 schema. Include extraction_int
       errors.push('invoice_date: Used today\'s date as fallback');
     }
 
+    // Values reviewers replaced on this vendor's earlier invoices, e.g. the remit-to lockbox
+    // read as the vendor name
+    const templateCorrections = applyKnownCorrections(header, template);
+
     // Fallback for vendor_party_id
     // First check if existing vendor_party_id is valid
     const vendorValidation = validateVendorName(header.vendor_party_id);
@@ -1164,7 +981,10 @@ Return valid JSON matching the SR Validation v1.1 schema. Include extraction_int
       overall_confidence: finalConfidence,
       document_type_detected: 'invoice',
       total_pages: totalPages,
-      requiresHumanReview: !finalValidation.isValid || finalValidation.confidencePenalty > 0.5,
+      requiresHumanReview:
+        !finalValidation.isValid ||
+        finalValidation.confidencePenalty > 0.5 ||
+        schemaErrors.length > 0,
       validationErrors: finalValidation.errors,
       validationWarnings: finalValidation.warnings,
     };
@@ -1185,7 +1005,9 @@ Return valid JSON matching the SR Validation v1.1 schema. Include extraction_int
     // Log fallback usage if needed
     if (needsFallback) {
       console.warn(`Used fallbacks for missing fields in document ${documentId}:`, errors);
-      await handlePartialExtraction(documentId, extractedData, errors);
+      if (!source.evaluation) {
+        await handlePartialExtraction(documentId, extractedData, errors);
+      }
     }
 
     // Return success, but mark for human review if validation failed
@@ -1195,6 +1017,8 @@ Return valid JSON matching the SR Validation v1.1 schema. Include extraction_int
       confidence: finalConfidence,
       errors: errors.length > 0 ? errors : undefined,
       warnings: needsFallback ? errors : undefined,
+      extractionMethod: method,
+      schemaErrors: schemaErrors.length > 0 ? schemaErrors : undefined,
       extractionMetadata: {
         extractionVersion: metadata.extraction_version,
         processingTimestamp: metadata.processing_timestamp,
@@ -1204,13 +1028,21 @@ Return valid JSON matching the SR Validation v1.1 schema. Include extraction_int
         requiresHumanReview: metadata.requiresHumanReview,
         validationErrors: metadata.validationErrors,
         validationWarnings: metadata.validationWarnings,
+        repairedFields,
+        schemaErrors,
+        promptVersion: PROMPT_VERSIONS.invoice,
+        vendorTemplatePartyId: template?.vendorPartyId,
+        templateCorrections,
+        redactions: redacted.vault.summary(),
       },
     };
   } catch (error) {
     console.error('Invoice extraction error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
-    await handlePartialExtraction(documentId, {}, [errorMessage]);
+    if (!source.evaluation) {
+      await handlePartialExtraction(documentId, {}, [errorMessage]);
+    }
 
     return {
       success: false,
@@ -1242,14 +1074,28 @@ export interface SimpleInvoiceData {
 export async function extractSimpleInvoiceData(
   text: string,
   documentId: string,
-  totalPages: number = 1
+  totalPages: number = 1,
+  source: ExtractionSource = {}
 ): Promise<SimpleInvoiceData> {
   try {
-    // Preprocess text to improve OCR quality
-    const preprocessedText = preprocessOCRText(text);
-    
-    // Use Claude AI with a simplified prompt for invoice field extraction
-    const prompt = `You are an expert at extracting key information from invoices with poor OCR quality.
+    const { retryWithBackoff } = await import('./error-handling');
+    const fields = [
+      'invoice_number',
+      'invoice_date',
+      'vendor_name',
+      'gross_amount',
+      'net_amount',
+      'tax_amount',
+    ];
+    const extracted: Record<string, any> = {};
+
+    // Header fields are usually on the first page and totals on the last, so read chunks
+    // in order until every field has been found
+    const redacted = await redactDocument(text, documentId, source);
+    const chunks = chunkPages(redacted.pages);
+    for (const chunk of chunks) {
+      // Use Claude AI with a simplified prompt for invoice field extraction
+      const prompt = `You are an expert at extracting key information from invoices with poor OCR quality.
 
 CRITICAL: The document text may contain OCR errors. Be careful with:
 - Amounts: "O" might be "0", "I" might be "1", "S" might be "5"
@@ -1265,8 +1111,8 @@ Extract the following fields from this document text (return null if not found):
 - tax_amount: The tax amount (as NUMBER)
 - currency: The currency code (default to USD if not found)
 
-Document Text:
-${preprocessedText.substring(0, 15000)}
+${chunkInstructions(chunk, chunks.length)}Document Text:
+${preprocessOCRText(chunk.text)}
 
 Return ONLY a valid JSON object with these exact keys (use snake_case as shown):
 {
@@ -1279,15 +1125,10 @@ Return ONLY a valid JSON object with these exact keys (use snake_case as shown):
   "currency": "USD"
 }`;
 
-    const { retryWithBackoff } = await import('./error-handling');
-
-    const response = await retryWithBackoff(
-      async () => {
-        return await anthropic.messages.create({
-          model: 'claude-sonnet-4-5-20250929',
-          max_tokens: 1000,
-          temperature: 0,
-          system: `You are a data extraction expert working with poor-quality OCR text. 
+      const { data, schemaErrors } = await completeWithRepair(
+        {
+          task: 'simple_invoice',
+          system: `You are a data extraction expert working with poor-quality OCR text.
 
 CRITICAL INSTRUCTIONS:
 1. AMOUNTS: Fix OCR errors - "O"→"0", "I"→"1", "S"→"5" in numeric contexts. Always return numbers, not strings.
@@ -1295,25 +1136,36 @@ CRITICAL INSTRUCTIONS:
 3. VALIDATION: Verify amounts are positive numbers and make logical sense.
 
 Extract invoice information and return ONLY valid JSON. Do not include any explanatory text, markdown formatting, or code blocks. Return only the raw JSON object.`,
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-        });
-      },
-      { maxRetries: 3, retryDelay: 1000, backoffMultiplier: 2 },
-      'simple_invoice_extraction'
-    );
-
-    const content = response.content[0];
-    let jsonText = content.type === 'text' ? content.text : '{}';
-
-    // Clean up the response in case Claude includes markdown code blocks
-    jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+          prompt,
+          documentHash: source.fileHash,
+          documentText: chunk.text,
+          chunkIndex: chunk.index,
+          promptVersion: PROMPT_VERSIONS.simple_invoice,
+        },
+        simpleInvoiceSchema,
+        'Simple invoice',
+        (request) =>
+          completeWithCache(request, source.cacheMode, (uncached) =>
+            retryWithBackoff(
+              () => completeExtraction(uncached),
+              { maxRetries: 3, retryDelay: 1000, backoffMultiplier: 2 },
+              'simple_invoice_extraction'
+            )
+          )
+      );
+
+      // A response that still has the wrong shape is ignored; the user fills in the fields
+      const partial = schemaErrors.length > 0 ? {} : redacted.vault.rehydrate(data || {});
+      for (const [field, value] of Object.entries(partial)) {
+        if (extracted[field] === undefined || extracted[field] === null) {
+          extracted[field] = value;
+        }
+      }
 
-    const extracted = JSON.parse(jsonText);
+      if (fields.every((field) => extracted[field] !== undefined && extracted[field] !== null)) {
+        break;
+      }
+    }
 
     // Transform to expected format
     return {
@@ -1344,7 +1196,8 @@ Extract invoice information and return ONLY valid JSON. Do not include any expla
 export async function storeExtractionResults(
   documentId: string,
   extractionResult: ExtractionResult,
-  pageNumber?: number
+  pageNumber?: number,
+  pages?: PageOCRResult[]
 ): Promise<void> {
   if (!extractionResult.success || !extractionResult.data) {
     return;
@@ -1359,6 +1212,8 @@ export async function storeExtractionResults(
     totalPages: 1,
   };
 
+  const method = extractionResult.extractionMethod || 'anthropic-claude-sonnet-4.5';
+
   // Store extraction metadata
   await prisma.documentExtractionData.create({
     data: {
@@ -1369,13 +1224,18 @@ export async function storeExtractionResults(
       normalizedValue: JSON.stringify(metadata),
       confidenceScore: metadata.overallConfidence,
       overallConfidence: metadata.overallConfidence,
-      extractionMethod: 'anthropic-claude-sonnet-4.5',
+      extractionMethod: method,
       sourcePageNumber: pageNumber || 1,
       extractionEngineVersion: metadata.extractionVersion,
-      requiresHumanReview: metadata.overallConfidence < 0.7 || metadata.requiresHumanReview === true,
+      requiresHumanReview:
+        metadata.overallConfidence < REVIEW_CONFIDENCE_THRESHOLD ||
+        metadata.requiresHumanReview === true,
     },
   });
 
+  // Word positions for locating each value in the document
+  const wordIndex = indexPages(pages);
+
   // Helper function to recursively store nested objects
   const storeField = async (
     fieldName: string,
@@ -1388,9 +1248,13 @@ export async function storeExtractionResults(
     const fullPath = parentPath ? `${parentPath}.${fieldName}` : fieldName;
 
     if (typeof value === 'object' && !Array.isArray(value) && value !== null) {
+      // Records from chunked extraction carry the page they were found on
+      const recordPage = Number(value.source_page ?? value.source_pages?.[0]);
+      const fieldPage = Number.isInteger(recordPage) && recordPage > 0 ? recordPage : pageNum;
+
       // For objects, store each property
       for (const [key, val] of Object.entries(value)) {
-        await storeField(key, val, fullPath, pageNum);
+        await storeField(key, val, fullPath, fieldPage);
       }
     } else if (Array.isArray(value)) {
       // For arrays, store each item with index
@@ -1401,11 +1265,12 @@ export async function storeExtractionResults(
       // Store primitive value
       const stringValue = typeof value === 'string' ? value : JSON.stringify(value);
       
-      // Try to extract page number from field if it's in a structured format
-      let sourcePage = pageNum || pageNumber || 1;
-      if (typeof value === 'object' && value !== null && 'page' in value) {
-        sourcePage = (value as any).page || sourcePage;
-      }
+      // Match the value back to the words it was read from
+      const location = locateValue(wordIndex, value, pageNum);
+      const sourcePage = location?.pageNumber || pageNum || pageNumber || 1;
+      // Values read from OCR'd pages are only as reliable as the OCR
+      const pageConfidence = pages?.find((page) => page.pageNumber === sourcePage)?.confidence;
+      const confidence = Math.min(extractionResult.confidence, pageConfidence ?? 1);
 
       await prisma.documentExtractionData.create({
         data: {
@@ -1414,15 +1279,16 @@ export async function storeExtractionResults(
           fieldName: fullPath,
           extractedValue: stringValue,
           normalizedValue: stringValue,
-          confidenceScore: extractionResult.confidence,
+          confidenceScore: confidence,
           overallConfidence: metadata.overallConfidence,
-          extractionMethod: 'anthropic-claude-sonnet-4.5',
+          extractionMethod: method,
           sourcePageNumber: sourcePage,
           extractionEngineVersion: metadata.extractionVersion,
-          requiresHumanReview: extractionResult.confidence < 0.7,
-          // Store bounding box if available (would need OCR integration for this)
-          boundingBoxCoordinates: null,
-          textSnippet: stringValue.length > 500 ? stringValue.substring(0, 500) : stringValue,
+          requiresHumanReview: confidence < REVIEW_CONFIDENCE_THRESHOLD,
+          boundingBoxCoordinates: location ? { ...location.boundingBox } : undefined,
+          textSnippet:
+            location?.textSnippet ??
+            (stringValue.length > 500 ? stringValue.substring(0, 500) : stringValue),
         },
       });
     }
@@ -1436,3 +1302,21 @@ export async function storeExtractionResults(
     await storeField(fieldName, value, '', pageNumber);
   }
 }
+
+/**
+ * Filter for the extracted fields of a document's latest extraction. Re-extracting a document
+ * stores a new set of fields after its metadata row and keeps the earlier ones, which past
+ * validation exceptions still point at.
+ */
+export async function latestExtractedFields(documentId: string, db: DbClient = prisma) {
+  const latest = await db.documentExtractionData.findFirst({
+    where: { documentId, entityType: 'extraction_metadata' },
+    orderBy: { extractedDate: 'desc' },
+    select: { extractedDate: true },
+  });
+  return {
+    documentId,
+    entityType: 'extracted_field',
+    ...(latest ? { extractedDate: { gte: latest.extractedDate } } : {}),
+  };
+}
@@ -1,19 +1,27 @@
-import { prisma } from './db';
+import { prisma, DbClient } from './db';
 import { Decimal } from '@prisma/client/runtime/library';
+import { DUPLICATE_EXCEPTION_CATEGORY } from './validation-rule-registry';
+import { clearInvoiceVolume, recordInvoiceVolume } from './volume-ledger';
+
+const OPEN_APPROVAL_STATUSES = ['Pending', 'Escalated'];
+export const REJECTED_APPROVAL_STATUS = 'Rejected';
 
 export async function createApprovalRequest(
   invoiceId: string,
   validationId: string,
-  userId: string
+  userId: string,
+  db: DbClient = prisma
 ): Promise<string> {
   // Get invoice and validation
-  const invoice = await prisma.invoice.findUnique({
+  const invoice = await db.invoice.findUnique({
     where: { invoiceId },
     include: {
       invoiceValidations: {
         where: { validationId },
         include: {
-          validationExceptions: true,
+          validationExceptions: {
+            where: { advisory: false },
+          },
         },
       },
     },
@@ -35,7 +43,7 @@ export async function createApprovalRequest(
   );
 
   // Determine approval level based on amount
-  const approvalLevel = await prisma.approvalLevel.findFirst({
+  const approvalLevel = await db.approvalLevel.findFirst({
     where: {
       isActive: true,
       minAmount: { lte: totalExceptionAmount },
@@ -56,7 +64,7 @@ export async function createApprovalRequest(
   requiredByDate.setDate(requiredByDate.getDate() + approvalLevel.escalationDays);
 
   // Create approval request
-  const approvalRequest = await prisma.invoiceApprovalRequest.create({
+  const approvalRequest = await db.invoiceApprovalRequest.create({
     data: {
       invoiceId,
       validationId,
@@ -69,7 +77,7 @@ export async function createApprovalRequest(
   });
 
   // Create initial history entry
-  await prisma.invoiceApprovalHistory.create({
+  await db.invoiceApprovalHistory.create({
     data: {
       approvalId: approvalRequest.approvalId,
       statusFrom: null,
@@ -82,17 +90,24 @@ export async function createApprovalRequest(
   return approvalRequest.approvalId;
 }
 
+/**
+ * Approval hand-off for a completed validation: one request when it has unresolved,
+ * non-advisory High or Medium exceptions. An invoice keeps a single open request across
+ * re-runs; it moves to the latest validation, or is withdrawn once nothing needs approval.
+ */
 export async function autoCreateApprovalRequests(
   validationId: string,
-  userId: string
+  userId: string,
+  db: DbClient = prisma
 ): Promise<void> {
-  const validation = await prisma.invoiceValidation.findUnique({
+  const validation = await db.invoiceValidation.findUnique({
     where: { validationId },
     include: {
       invoice: true,
       validationExceptions: {
         where: {
           resolved: false,
+          advisory: false,
           severity: { in: ['High', 'Medium'] },
         },
       },
@@ -103,9 +118,95 @@ export async function autoCreateApprovalRequests(
     return;
   }
 
+  const openRequest = await db.invoiceApprovalRequest.findFirst({
+    where: {
+      invoiceId: validation.invoiceId,
+      currentStatus: { in: OPEN_APPROVAL_STATUSES },
+    },
+    orderBy: { createdDate: 'desc' },
+  });
+  const needsApproval = validation.validationExceptions.length > 0;
+
+  if (openRequest && openRequest.validationId !== validationId) {
+    await db.invoiceApprovalRequest.update({
+      where: { approvalId: openRequest.approvalId },
+      data: needsApproval ? { validationId } : { validationId, currentStatus: 'Withdrawn' },
+    });
+
+    await db.invoiceApprovalHistory.create({
+      data: {
+        approvalId: openRequest.approvalId,
+        statusFrom: openRequest.currentStatus,
+        statusTo: needsApproval ? openRequest.currentStatus : 'Withdrawn',
+        changedBy: userId,
+        comment: needsApproval
+          ? `Moved to re-run validation ${validationId}`
+          : `Withdrawn: re-run validation ${validationId} has no exceptions requiring approval`,
+      },
+    });
+    return;
+  }
+
   // Only create approval request if there are unresolved exceptions
-  if (validation.validationExceptions.length > 0) {
-    await createApprovalRequest(validation.invoiceId, validationId, userId);
+  if (needsApproval && !openRequest) {
+    await createApprovalRequest(validation.invoiceId, validationId, userId, db);
+  }
+}
+
+/**
+ * Whether the invoice's latest approval request was rejected.
+ */
+export async function isInvoiceRejected(
+  invoiceId: string,
+  db: DbClient = prisma
+): Promise<boolean> {
+  const latest = await db.invoiceApprovalRequest.findFirst({
+    where: { invoiceId },
+    orderBy: { createdDate: 'desc' },
+  });
+  return latest?.currentStatus === REJECTED_APPROVAL_STATUS;
+}
+
+/**
+ * Applies an approval decision to contract-year volume: a rejected invoice comes off the
+ * ledger, and one decided otherwise after a rejection goes back on unless its latest run
+ * found it to be a duplicate.
+ */
+export async function applyDecisionToVolume(
+  invoiceId: string,
+  statusFrom: string,
+  statusTo: string,
+  db: DbClient = prisma
+): Promise<void> {
+  if (statusTo === REJECTED_APPROVAL_STATUS) {
+    await clearInvoiceVolume(invoiceId, db);
+    return;
+  }
+  if (statusFrom !== REJECTED_APPROVAL_STATUS) {
+    return;
+  }
+
+  const invoice = await db.invoice.findUnique({
+    where: { invoiceId },
+    include: {
+      contract: true,
+      invoiceLineItems: true,
+      invoiceValidations: {
+        orderBy: { validationDate: 'desc' },
+        take: 1,
+        include: { validationExceptions: { select: { exceptionCategory: true } } },
+      },
+    },
+  });
+  const latest = invoice?.invoiceValidations[0];
+  if (!invoice || !latest) {
+    return;
+  }
+  const isDuplicate = latest.validationExceptions.some(
+    (exception) => exception.exceptionCategory === DUPLICATE_EXCEPTION_CATEGORY
+  );
+  if (!isDuplicate) {
+    await recordInvoiceVolume(invoice, db);
   }
 }
 
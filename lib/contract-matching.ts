@@ -0,0 +1,311 @@
+import { prisma, DbClient } from './db';
+
+// Contract matching. An invoice whose extraction names no known contract is matched to one of
+// the active contracts it may bill against: contracts its vendor is a party to, and contracts
+// whose number is printed on the invoice. Each is scored on the vendor, the contract term,
+// the currency, the PO or contract number referenced and how many invoice lines are billable
+// items of the contract. The best contract is assigned when it scores at least the threshold
+// and clearly beats the runner-up; it and the runner-ups are kept so a reviewer can pick
+// another one, or pick between contracts that scored too close to call.
+
+export const CONTRACT_MATCH_THRESHOLD = 0.5;
+// Lead over the runner-up the best contract needs to be assigned. Vendor, term and currency
+// alone reach the threshold, so two contracts of the vendor tie unless a reference or the
+// lines tell them apart.
+export const CONTRACT_MATCH_MARGIN = 0.05;
+const MAX_RUNNER_UPS = 3;
+
+const VENDOR_WEIGHT = 0.2;
+const TERM_WEIGHT = 0.2;
+const CURRENCY_WEIGHT = 0.1;
+const REFERENCE_WEIGHT = 0.3;
+const LINE_WEIGHT = 0.2;
+// Contracts without the vendor, outside their term or in another currency are never
+// assigned automatically
+const CONFLICT_CAP = 0.45;
+// Share of a billable item's name that must appear in a line description
+const MIN_ITEM_NAME_COVERAGE = 0.75;
+
+export const ACTIVE_CONTRACT_STATUS = 'Active';
+
+export interface InvoiceForMatching {
+  vendorPartyId: string;
+  invoiceDate: Date;
+  servicePeriodStart?: Date | null;
+  servicePeriodEnd?: Date | null;
+  currency: string;
+  // PO and contract numbers printed on the invoice
+  references: Array<string | null | undefined>;
+  lineDescriptions: string[];
+}
+
+export interface ContractCandidate {
+  contractId: string;
+  contractNumber: string;
+  effectiveDate: Date;
+  expirationDate: Date;
+  currency: string;
+  externalIds: unknown;
+  contractParties: Array<{ partyId: string; partyRole: string }>;
+  billableItems: Array<{
+    itemName: string;
+    itemDescription: string | null;
+    sku: string | null;
+    catalogNumber: string | null;
+  }>;
+}
+
+export interface ContractMatch {
+  contractId: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface ContractMatchResult {
+  // Assigned contract, when the best match scores at least the threshold and the margin
+  // over the runner-up
+  contractId: string | null;
+  // Best first
+  matches: ContractMatch[];
+}
+
+const candidateSelect = {
+  contractId: true,
+  contractNumber: true,
+  effectiveDate: true,
+  expirationDate: true,
+  currency: true,
+  externalIds: true,
+  contractParties: { select: { partyId: true, partyRole: true } },
+  billableItems: {
+    select: { itemName: true, itemDescription: true, sku: true, catalogNumber: true },
+  },
+} as const;
+
+function normalizeReference(value: string | null | undefined): string {
+  return (value || '').replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Contract number and ERP/external numbers of the contract
+function contractReferences(contract: ContractCandidate): string[] {
+  const externalIds =
+    contract.externalIds && typeof contract.externalIds === 'object'
+      ? Object.values(contract.externalIds as Record<string, unknown>)
+      : [];
+  return [contract.contractNumber, ...externalIds]
+    .filter((value): value is string => typeof value === 'string')
+    .map(normalizeReference)
+    .filter(Boolean);
+}
+
+/**
+ * Whether a line description names the billable item: its SKU or catalog number appears in
+ * the description, or most words of its name do.
+ */
+export function lineMatchesItem(
+  description: string,
+  item: ContractCandidate['billableItems'][number]
+): boolean {
+  // Codes are compared whole, so "CMP-14" is one token
+  const lineCodes = new Set(description.split(/\s+/).map(normalizeReference));
+  const codes = [item.sku, item.catalogNumber].map(normalizeReference).filter(Boolean);
+  if (codes.some((code) => lineCodes.has(code))) {
+    return true;
+  }
+  const lineWords = new Set(words(description));
+  return [item.itemName, item.itemDescription].some((name) => {
+    const nameWords = Array.from(new Set(words(name || '')));
+    if (nameWords.length === 0) return false;
+    const covered = nameWords.filter((word) => lineWords.has(word)).length;
+    return covered / nameWords.length >= MIN_ITEM_NAME_COVERAGE;
+  });
+}
+
+/**
+ * Scores how likely the invoice bills against the contract, 0-1, with the reasons.
+ */
+export function scoreContractMatch(
+  invoice: InvoiceForMatching,
+  contract: ContractCandidate
+): ContractMatch {
+  const reasons: string[] = [];
+  let score = 0;
+  let conflict = false;
+
+  const vendorRole = contract.contractParties.find(
+    (party) => party.partyId === invoice.vendorPartyId
+  );
+  if (vendorRole) {
+    score += VENDOR_WEIGHT;
+    reasons.push(`Vendor is a party to the contract (${vendorRole.partyRole})`);
+  } else {
+    conflict = true;
+    reasons.push('Vendor is not a party to the contract');
+  }
+
+  // The service period when the invoice has one, otherwise the invoice date
+  const start = invoice.servicePeriodStart || invoice.invoiceDate;
+  const end = invoice.servicePeriodEnd || start;
+  const label = invoice.servicePeriodStart ? 'Service period' : 'Invoice date';
+  const term = `${formatDate(contract.effectiveDate)} to ${formatDate(contract.expirationDate)}`;
+  if (start >= contract.effectiveDate && end <= contract.expirationDate) {
+    score += TERM_WEIGHT;
+    reasons.push(`${label} is within the contract term`);
+  } else {
+    conflict = true;
+    reasons.push(`${label} is outside the contract term (${term})`);
+  }
+
+  if (invoice.currency.toUpperCase() === contract.currency.toUpperCase()) {
+    score += CURRENCY_WEIGHT;
+    reasons.push(`Currency ${contract.currency} matches`);
+  } else {
+    conflict = true;
+    reasons.push(
+      `Currency ${invoice.currency} differs from contract currency ${contract.currency}`
+    );
+  }
+
+  const known = contractReferences(contract);
+  const referenced = invoice.references.find((reference) =>
+    known.includes(normalizeReference(reference))
+  );
+  if (referenced) {
+    score += REFERENCE_WEIGHT;
+    reasons.push(`Invoice references contract number "${referenced}"`);
+  }
+
+  const lines = invoice.lineDescriptions.filter((description) => description.trim() !== '');
+  if (lines.length > 0 && contract.billableItems.length > 0) {
+    const matched = lines.filter((description) =>
+      contract.billableItems.some((item) => lineMatchesItem(description, item))
+    ).length;
+    score += LINE_WEIGHT * (matched / lines.length);
+    reasons.push(`${matched} of ${lines.length} lines match billable items`);
+  }
+
+  if (conflict) {
+    score = Math.min(score, CONFLICT_CAP);
+  }
+  return { contractId: contract.contractId, score: Math.round(score * 1000) / 1000, reasons };
+}
+
+/**
+ * Contracts ordered by score, best first, newest contract first on ties, with the contract
+ * to assign. Nothing is assigned when the runner-up scores within the margin of the best.
+ */
+export function rankContractMatches(
+  invoice: InvoiceForMatching,
+  contracts: ContractCandidate[]
+): ContractMatchResult {
+  const effective = new Map(contracts.map((c) => [c.contractId, c.effectiveDate.getTime()]));
+  const matches = contracts
+    .map((contract) => scoreContractMatch(invoice, contract))
+    .sort(
+      (a, b) => b.score - a.score || effective.get(b.contractId)! - effective.get(a.contractId)!
+    )
+    .slice(0, MAX_RUNNER_UPS + 1);
+  const [best, runnerUp] = matches;
+  const assign =
+    best &&
+    best.score >= CONTRACT_MATCH_THRESHOLD &&
+    best.score - (runnerUp?.score ?? 0) >= CONTRACT_MATCH_MARGIN;
+  return { contractId: assign ? best.contractId : null, matches };
+}
+
+/**
+ * Scores the active contracts the invoice may bill against: those its vendor is a party to
+ * and those whose number the invoice references.
+ */
+export async function findContractMatches(
+  invoice: InvoiceForMatching,
+  db: DbClient = prisma
+): Promise<ContractMatchResult> {
+  const references = invoice.references
+    .filter((reference): reference is string => !!reference && reference.trim() !== '')
+    .map((reference) => reference.trim());
+  const contracts = await db.contract.findMany({
+    where: {
+      contractStatus: ACTIVE_CONTRACT_STATUS,
+      OR: [
+        { contractParties: { some: { partyId: invoice.vendorPartyId } } },
+        ...(references.length > 0
+          ? [{ contractNumber: { in: references, mode: 'insensitive' as const } }]
+          : []),
+      ],
+    },
+    select: candidateSelect,
+  });
+  return rankContractMatches(invoice, contracts);
+}
+
+/**
+ * Replaces the invoice's scored contracts, best first.
+ */
+export async function saveContractMatches(
+  invoiceId: string,
+  matches: ContractMatch[],
+  db: DbClient = prisma
+): Promise<void> {
+  await db.invoiceContractMatch.deleteMany({ where: { invoiceId } });
+  if (matches.length > 0) {
+    await db.invoiceContractMatch.createMany({
+      data: matches.map((match, rank) => ({
+        invoiceId,
+        contractId: match.contractId,
+        rank,
+        score: match.score,
+        reasons: match.reasons,
+      })),
+    });
+  }
+}
+
+/**
+ * Assigns a contract chosen by a reviewer in place of the automatic match, or clears it.
+ * Either way the choice is recorded as 'Manual' so re-extraction leaves it alone.
+ */
+export async function overrideContractMatch(
+  invoiceId: string,
+  contractId: string | null,
+  userId: string,
+  db: DbClient = prisma
+): Promise<void> {
+  const invoice = await db.invoice.findUniqueOrThrow({ where: { invoiceId } });
+  await db.invoice.update({
+    where: { invoiceId },
+    data: {
+      contractId,
+      contractMatchMethod: 'Manual',
+      contractMatchScore: null,
+      updatedBy: userId,
+      updatedDate: new Date(),
+    },
+  });
+  await db.auditLog.create({
+    data: {
+      tableName: 'invoices',
+      recordId: invoiceId,
+      action: 'UPDATE',
+      changedFields: ['contractId'],
+      oldValues: {
+        contractId: invoice.contractId,
+        contractMatchMethod: invoice.contractMatchMethod,
+      },
+      newValues: { contractId, contractMatchMethod: 'Manual' },
+      changedBy: userId,
+      changeReason: 'Contract match overridden',
+    },
+  });
+}
@@ -1,5 +1,12 @@
 import { prisma } from './db';
 import { Decimal } from '@prisma/client/runtime/library';
+import {
+  ExtractedLocation,
+  createLocationResolver,
+  formatLocationText,
+} from './location-resolution';
+import { resolveParty } from './party-matching';
+import { findContractMatches, saveContractMatches } from './contract-matching';
 
 // ContractSphere v2.3.1 structure
 interface ContractSphereData {
@@ -116,6 +123,13 @@ interface ValidationPayload {
         invoice_id: string;
         invoice_number?: string;
         vendor_party_id: string;
+        vendor_details?: {
+          tax_id?: string;
+          duns_number?: string;
+          npi_number?: string;
+          address?: string;
+          remit_to?: string;
+        };
         customer_party_id: string;
         invoice_date: string;
         total_amount: number;
@@ -124,6 +138,7 @@ interface ValidationPayload {
           start_date?: string;
           end_date?: string;
         };
+        service_location?: ExtractedLocation;
         billing_aggregation_level?: string;
         aggregation_reference?: string;
         external_ids?: {
@@ -140,6 +155,7 @@ interface ValidationPayload {
         uom?: string;
         unit_price?: number;
         extended_amount: number;
+        service_location?: ExtractedLocation;
         aggregation_type?: string;
         aggregation_method?: string;
         aggregated_items?: Array<{
@@ -152,6 +168,7 @@ interface ValidationPayload {
     };
     contract_context?: {
       primary_contract_id?: string;
+      contract_number?: string;
     };
     validation_criteria?: {
       rate_tolerance?: {
@@ -249,58 +266,46 @@ export async function normalizeContractData(
   // Upsert parties
   if (extractedData.parties) {
     for (const partyData of extractedData.parties) {
-      // Try to find existing party by ID, name, or external IDs
-      let party = await prisma.party.findFirst({
-        where: {
-          OR: [
-            { partyId: partyData.party_id },
-            { legalName: { contains: partyData.legal_name, mode: 'insensitive' } },
-            { tradingName: { contains: partyData.legal_name, mode: 'insensitive' } },
-            ...(partyData.tax_id ? [{ taxId: partyData.tax_id }] : []),
-            ...(partyData.duns_number ? [{ dunsNumber: partyData.duns_number }] : []),
-          ],
-        },
-      });
+      // An extracted party id is only used when it is one of ours; otherwise the party is
+      // matched on identifiers and names, or created as Pending
+      let party = partyData.party_id
+        ? await prisma.party.findUnique({ where: { partyId: partyData.party_id } }).catch(() => null)
+        : null;
 
       if (!party) {
-        // Create new party
-        party = await prisma.party.create({
-          data: {
-            partyId: partyData.party_id,
-            partyType: partyData.party_type === 'vendor' ? 'Vendor' : partyData.party_type === 'customer' ? 'Customer' : 'Vendor',
-            legalName: partyData.legal_name,
-            tradingName: partyData.trading_name,
+        const resolved = await resolveParty(
+          {
+            name: partyData.legal_name,
             taxId: partyData.tax_id,
             dunsNumber: partyData.duns_number,
             npiNumber: partyData.npi_number,
-            cageCode: partyData.cage_code,
-            externalIds: partyData.external_ids || {},
-            primaryContactEmail: partyData.primary_contact_email,
-            primaryContactPhone: partyData.primary_contact_phone,
-            partyStatus: 'Active',
-            createdBy: userId,
-          },
-        });
-      } else {
-        // Update existing party with new data
-        party = await prisma.party.update({
-          where: { partyId: party.partyId },
-          data: {
-            legalName: partyData.legal_name,
-            tradingName: partyData.trading_name || party.tradingName,
-            taxId: partyData.tax_id || party.taxId,
-            dunsNumber: partyData.duns_number || party.dunsNumber,
-            npiNumber: partyData.npi_number || party.npiNumber,
-            cageCode: partyData.cage_code || party.cageCode,
-            externalIds: partyData.external_ids || party.externalIds,
-            primaryContactEmail: partyData.primary_contact_email || party.primaryContactEmail,
-            primaryContactPhone: partyData.primary_contact_phone || party.primaryContactPhone,
-            updatedBy: userId,
-            updatedDate: new Date(),
           },
-        });
+          {
+            partyType: partyData.party_type === 'customer' ? 'Customer' : 'Vendor',
+            documentId,
+            userId,
+          }
+        );
+        party = await prisma.party.findUniqueOrThrow({ where: { partyId: resolved.partyId } });
       }
 
+      // Update the party with the contract's details
+      party = await prisma.party.update({
+        where: { partyId: party.partyId },
+        data: {
+          tradingName: partyData.trading_name || party.tradingName,
+          taxId: partyData.tax_id || party.taxId,
+          dunsNumber: partyData.duns_number || party.dunsNumber,
+          npiNumber: partyData.npi_number || party.npiNumber,
+          cageCode: partyData.cage_code || party.cageCode,
+          externalIds: partyData.external_ids || party.externalIds,
+          primaryContactEmail: partyData.primary_contact_email || party.primaryContactEmail,
+          primaryContactPhone: partyData.primary_contact_phone || party.primaryContactPhone,
+          updatedBy: userId,
+          updatedDate: new Date(),
+        },
+      });
+
       partyIds[partyData.party_type] = party.partyId;
     }
   }
@@ -600,58 +605,38 @@ export async function normalizeInvoiceData(
     }
   }
 
-  // If not found by ID, try by name
-  if (!vendorParty) {
-    // Clean and truncate vendor_party_id if it's too long (might be document text)
-    let vendorSearchTerm = header.vendor_party_id || '';
-    // If it's longer than 200 characters, it's likely document text - extract first line or first 100 chars
-    if (vendorSearchTerm.length > 200) {
-      const firstLine = vendorSearchTerm.split('\n')[0].trim();
-      vendorSearchTerm = firstLine.length > 100 ? firstLine.substring(0, 100) : firstLine;
-    }
-    
-    // Try to find by name if party_id doesn't exist (vendor_party_id might be a name)
-    if (vendorSearchTerm && vendorSearchTerm.length > 0 && vendorSearchTerm.length <= 200) {
-      vendorParty = await prisma.party.findFirst({
-        where: {
-          partyType: 'Vendor',
-          OR: [
-            { legalName: { contains: vendorSearchTerm, mode: 'insensitive' } },
-            { tradingName: { contains: vendorSearchTerm, mode: 'insensitive' } },
-            { legalName: { equals: vendorSearchTerm, mode: 'insensitive' } },
-          ],
-        },
-      });
-    }
-  }
-
-  // If still not found, create a new vendor party
+  // If not found by ID, match on the vendor's identifiers and name, or create it as Pending
   if (!vendorParty) {
-    const { randomUUID } = await import('crypto');
-    let vendorName = header.vendor_party_id || 'Unknown Vendor';
-    
-    // Clean up vendor name - if it's too long, use first line or truncate
+    let vendorName = (header.vendor_party_id || '').trim();
+    // If it's longer than 200 characters, it's likely document text - use the first line
     if (vendorName.length > 200) {
       const firstLine = vendorName.split('\n')[0].trim();
       vendorName = firstLine.length > 200 ? firstLine.substring(0, 200) : firstLine;
     }
-    
-    // Ensure vendor name is reasonable length
     if (vendorName.length === 0) {
       vendorName = 'Unknown Vendor';
     }
-    
-    vendorParty = await prisma.party.create({
-      data: {
-        partyId: randomUUID(),
-        partyType: 'Vendor',
-        legalName: vendorName,
-        tradingName: vendorName.length > 200 ? vendorName.substring(0, 200) : vendorName,
-        partyStatus: 'Active',
-        createdBy: userId,
+
+    const details = header.vendor_details || {};
+    const resolved = await resolveParty(
+      {
+        name: vendorName,
+        taxId: details.tax_id,
+        dunsNumber: details.duns_number,
+        npiNumber: details.npi_number,
+        address: details.address,
+        remitToAddress: details.remit_to,
       },
-    });
-    console.log(`Created new vendor party: ${vendorName.substring(0, 100)} (${vendorParty.partyId})`);
+      { partyType: 'Vendor', documentId, userId }
+    );
+    vendorParty = await prisma.party.findUniqueOrThrow({ where: { partyId: resolved.partyId } });
+    if (resolved.outcome === 'created') {
+      console.log(
+        `Created pending vendor party: ${vendorName.substring(0, 100)} (${vendorParty.partyId}), ${
+          resolved.suggestions.length
+        } match suggestion(s)`
+      );
+    }
   }
 
   // Find customer party
@@ -705,9 +690,10 @@ export async function normalizeInvoiceData(
 
   // Find contract if provided
   let contractId: string | null = null;
-  if (contractContext?.primary_contract_id) {
+  const primaryContractId = contractContext?.primary_contract_id?.trim();
+  if (primaryContractId && primaryContractId.length === 36 && primaryContractId.includes('-')) {
     const contract = await prisma.contract.findUnique({
-      where: { contractId: contractContext.primary_contract_id },
+      where: { contractId: primaryContractId },
     });
     if (contract) {
       contractId = contract.contractId;
@@ -733,6 +719,42 @@ export async function normalizeInvoiceData(
 
   const servicePeriod = header.service_period;
 
+  // Without a contract named by the extraction, match the invoice to one of the vendor's
+  // contracts and keep the runner-ups for review
+  const contractMatch = contractId
+    ? null
+    : await findContractMatches({
+        vendorPartyId: vendorParty.partyId,
+        invoiceDate: new Date(header.invoice_date),
+        servicePeriodStart: servicePeriod?.start_date ? new Date(servicePeriod.start_date) : null,
+        servicePeriodEnd: servicePeriod?.end_date ? new Date(servicePeriod.end_date) : null,
+        currency: header.currency || 'USD',
+        references: [
+          externalIds.po_number,
+          contractContext?.contract_number,
+          contractContext?.primary_contract_id,
+        ],
+        lineDescriptions: lineItems.map((line) => line.description || ''),
+      });
+  const contractMatchFields = {
+    contractId,
+    contractMatchMethod: (contractId ? 'Extracted' : null) as string | null,
+    contractMatchScore: null as Decimal | null,
+  };
+  if (contractMatch?.contractId) {
+    contractMatchFields.contractId = contractMatch.contractId;
+    contractMatchFields.contractMatchMethod = 'Automatic';
+    contractMatchFields.contractMatchScore = new Decimal(contractMatch.matches[0].score);
+  }
+
+  // Resolve ship-to / service locations against the Location table
+  const resolveLocation = await createLocationResolver();
+  const headerLocation = resolveLocation(header.service_location);
+  const serviceLocation = {
+    serviceLocationText: formatLocationText(header.service_location),
+    serviceLocationId: headerLocation?.location.locationId || null,
+  };
+
   if (!invoice) {
     invoice = await prisma.invoice.create({
       data: {
@@ -740,7 +762,7 @@ export async function normalizeInvoiceData(
         invoiceNumber: invoiceNumber,
         vendorPartyId: vendorParty.partyId,
         customerPartyId: customerParty.partyId,
-        contractId,
+        ...contractMatchFields,
         sourceDocumentId: documentId,
         poNumber: externalIds.po_number,
         externalVoucherId: externalIds.external_voucher_id,
@@ -752,6 +774,7 @@ export async function normalizeInvoiceData(
         servicePeriodEnd: servicePeriod?.end_date
           ? new Date(servicePeriod.end_date)
           : null,
+        ...serviceLocation,
         netServiceAmount: new Decimal(header.total_amount || 0),
         grossAmount: new Decimal(header.total_amount || 0),
         currency: header.currency || 'USD',
@@ -762,6 +785,13 @@ export async function normalizeInvoiceData(
       },
     });
   } else {
+    // Only a contract the matcher assigned is re-matched; one picked or cleared by a
+    // reviewer, or set before matching existed, is kept
+    const replaceContract =
+      invoice.contractMatchMethod === 'Automatic' ||
+      invoice.contractMatchMethod === 'Extracted' ||
+      (invoice.contractId === null && invoice.contractMatchMethod !== 'Manual');
+
     // Update existing invoice - ensure sourceDocumentId is set if not already set
     invoice = await prisma.invoice.update({
       where: { invoiceId: invoice.invoiceId },
@@ -771,6 +801,8 @@ export async function normalizeInvoiceData(
         grossAmount: new Decimal(header.total_amount),
         currency: header.currency || invoice.currency,
         externalIds: externalIds || invoice.externalIds,
+        ...(serviceLocation.serviceLocationText ? serviceLocation : {}),
+        ...(replaceContract ? contractMatchFields : {}),
         // Set sourceDocumentId if not already set
         sourceDocumentId: invoice.sourceDocumentId || documentId,
         updatedBy: userId,
@@ -779,6 +811,10 @@ export async function normalizeInvoiceData(
     });
   }
 
+  if (contractMatch) {
+    await saveContractMatches(invoice.invoiceId, contractMatch.matches);
+  }
+
   // Create line items
   for (const lineItemData of lineItems) {
     const aggregationDetails = {
@@ -786,6 +822,11 @@ export async function normalizeInvoiceData(
       aggregation_method: lineItemData.aggregation_method,
       aggregated_items: lineItemData.aggregated_items || [],
     };
+    const lineLocation = resolveLocation(lineItemData.service_location);
+    const lineServiceLocation = {
+      serviceLocationText: formatLocationText(lineItemData.service_location),
+      serviceLocationId: lineLocation?.location.locationId || null,
+    };
 
     // Check if line item already exists
     const existingLine = await prisma.invoiceLineItem.findFirst({
@@ -808,6 +849,7 @@ export async function normalizeInvoiceData(
             ? new Decimal(lineItemData.unit_price)
             : null,
           extendedAmount: new Decimal(lineItemData.extended_amount),
+          ...lineServiceLocation,
           aggregationDetails,
           sourceLineText: lineItemData.description,
         },
@@ -826,6 +868,7 @@ export async function normalizeInvoiceData(
             ? new Decimal(lineItemData.unit_price)
             : null,
           extendedAmount: new Decimal(lineItemData.extended_amount),
+          ...lineServiceLocation,
           aggregationDetails,
           sourceLineText: lineItemData.description,
           validationStatus: 'Pending',
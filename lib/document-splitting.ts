@@ -0,0 +1,184 @@
+import { DocumentMetadata } from '@prisma/client';
+import { prisma, DbClient } from './db';
+import { normalizeInvoiceNumber } from './duplicate-detection';
+import { OCRResult, PageOCRResult } from './ocr';
+import { generateFileHash } from './storage';
+
+// Splitting of multi-invoice batches. Vendors often send a month of invoices as one PDF;
+// each page is classified as the start of an invoice or a continuation, and a new invoice
+// starts where the page numbering restarts, the invoice number changes or a different
+// vendor header appears on a page with its own invoice number.
+
+export type PageClass = 'invoice_start' | 'continuation';
+
+export interface PageClassification {
+  pageNumber: number;
+  pageClass: PageClass;
+  invoiceNumber: string | null;
+  // "Page 2 of 3" footer, when printed
+  pageOf: { page: number; total: number } | null;
+  // Normalized first line of the page, usually the vendor's letterhead
+  headerKey: string | null;
+}
+
+export interface InvoiceSegment {
+  startPage: number;
+  endPage: number;
+  invoiceNumber: string | null;
+}
+
+const INVOICE_NUMBER_PATTERN =
+  /\binvoice\s*(?:number|num|no\.?|#)\s*[:#.]?\s*([A-Z0-9][A-Z0-9\-\/]*)/i;
+const PAGE_OF_PATTERN = /\bpage\s+(\d{1,3})\s*(?:of|\/)\s*(\d{1,3})\b/i;
+const INVOICE_TITLE_PATTERN = /\b(?:tax\s+)?invoice\b/i;
+const INVOICE_HEADER_FIELDS = /\b(?:invoice\s+date|bill(?:ed)?\s+to|remit\s+to|due\s+date)\b/i;
+const HEADER_KEY_LENGTH = 40;
+
+function headerKey(text: string): string | null {
+  for (const line of text.split('\n')) {
+    const key = line.toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (key.length >= 3) return key.slice(0, HEADER_KEY_LENGTH);
+  }
+  return null;
+}
+
+export function classifyPage(page: PageOCRResult): PageClassification {
+  const numberMatch = page.text.match(INVOICE_NUMBER_PATTERN);
+  // Invoice numbers contain a digit; this skips "Invoice Number: see below"
+  const invoiceNumber = numberMatch && /\d/.test(numberMatch[1]) ? numberMatch[1] : null;
+  const pageOfMatch = page.text.match(PAGE_OF_PATTERN);
+  const pageOf = pageOfMatch
+    ? { page: Number(pageOfMatch[1]), total: Number(pageOfMatch[2]) }
+    : null;
+
+  const hasHeader =
+    invoiceNumber !== null ||
+    (INVOICE_TITLE_PATTERN.test(page.text) && INVOICE_HEADER_FIELDS.test(page.text));
+
+  return {
+    pageNumber: page.pageNumber,
+    pageClass: hasHeader && (!pageOf || pageOf.page === 1) ? 'invoice_start' : 'continuation',
+    invoiceNumber,
+    pageOf,
+    headerKey: headerKey(page.text),
+  };
+}
+
+/**
+ * Page ranges of the invoices in a document, in page order. Pages before the first invoice
+ * header (fax cover sheets) belong to the first invoice, and pages without one belong to
+ * the invoice before them. A single-invoice document returns one segment.
+ */
+export function detectInvoiceBoundaries(pages: PageOCRResult[]): InvoiceSegment[] {
+  const segments: InvoiceSegment[] = [];
+  let current: (InvoiceSegment & { headerKey: string | null }) | null = null;
+
+  for (const classification of pages.map(classifyPage)) {
+    const { pageNumber, pageClass, invoiceNumber, pageOf } = classification;
+
+    const startsInvoice =
+      current !== null &&
+      (pageOf?.page === 1 ||
+        (invoiceNumber !== null &&
+          current.invoiceNumber !== null &&
+          normalizeInvoiceNumber(invoiceNumber) !==
+            normalizeInvoiceNumber(current.invoiceNumber)) ||
+        // A header alone also appears on remittance slips and letterhead continuation pages
+        (pageClass === 'invoice_start' &&
+          invoiceNumber !== null &&
+          classification.headerKey !== null &&
+          current.headerKey !== null &&
+          classification.headerKey !== current.headerKey));
+
+    if (current === null || startsInvoice) {
+      current = { startPage: pageNumber, endPage: pageNumber, invoiceNumber, headerKey: null };
+      segments.push(current);
+    }
+
+    current.endPage = pageNumber;
+    current.invoiceNumber = current.invoiceNumber ?? invoiceNumber;
+    if (pageClass === 'invoice_start') {
+      current.headerKey = current.headerKey ?? classification.headerKey;
+    }
+  }
+
+  return segments.map(({ startPage, endPage, invoiceNumber }) => ({
+    startPage,
+    endPage,
+    invoiceNumber,
+  }));
+}
+
+/**
+ * The OCR result for a page range. Page numbers stay those of the source file, so
+ * provenance on split invoices points into the uploaded PDF.
+ */
+export function sliceOCRResult(
+  ocrResult: OCRResult,
+  startPage?: number | null,
+  endPage?: number | null
+): OCRResult {
+  if (!startPage && !endPage) {
+    return ocrResult;
+  }
+
+  const pages = ocrResult.pages.filter(
+    (page) =>
+      page.pageNumber >= (startPage || 1) && page.pageNumber <= (endPage || ocrResult.totalPages)
+  );
+  return {
+    text: pages.map((page) => page.text).join('\n\n'),
+    pages,
+    totalPages: pages.length,
+  };
+}
+
+/**
+ * Creates a child document for each invoice in a split upload and marks the parent as
+ * split. Children share the parent's file; their hash covers the parent hash and page
+ * range so re-uploading the same batch is still caught as a duplicate.
+ */
+export async function createSplitDocuments(
+  parent: DocumentMetadata,
+  segments: InvoiceSegment[],
+  db: DbClient = prisma
+): Promise<DocumentMetadata[]> {
+  const children: DocumentMetadata[] = [];
+
+  for (const segment of segments) {
+    const range =
+      segment.startPage === segment.endPage
+        ? `page ${segment.startPage}`
+        : `pages ${segment.startPage}-${segment.endPage}`;
+
+    children.push(
+      await db.documentMetadata.create({
+        data: {
+          documentType: 'invoice',
+          documentName: `${parent.documentName} (${range})`,
+          documentUrl: parent.documentUrl,
+          fileHash: parent.fileHash
+            ? generateFileHash(
+                Buffer.from(`${parent.fileHash}:${segment.startPage}-${segment.endPage}`)
+              )
+            : null,
+          mimeType: parent.mimeType,
+          uploadedBy: parent.uploadedBy,
+          parentDocumentId: parent.documentId,
+          pageRangeStart: segment.startPage,
+          pageRangeEnd: segment.endPage,
+          totalPages: segment.endPage - segment.startPage + 1,
+          ocrCompleted: true,
+          processingStatus: 'extraction',
+        },
+      })
+    );
+  }
+
+  await db.documentMetadata.update({
+    where: { documentId: parent.documentId },
+    data: { processingStatus: 'split' },
+  });
+
+  return children;
+}
@@ -0,0 +1,248 @@
+import { prisma } from './db';
+import { Decimal } from '@prisma/client/runtime/library';
+
+// Duplicate invoice and double-billing detection. Compares an invoice against invoices
+// created before it: same vendor and invoice number, same source file, same vendor, amount and
+// date, and line items billing the same item for an overlapping service period. An invoice
+// number that differs only by an OCR misread or swapped digits is a weaker, similar match.
+
+export type DuplicateKind =
+  'invoice_number' | 'similar_invoice_number' | 'file_hash' | 'amount_date' | 'service_overlap';
+
+export interface DuplicateParameters {
+  fuzzyInvoiceNumber: boolean;
+  maxInvoiceNumberDistance: number;
+  amountDateWindowDays: number;
+  checkServiceOverlap: boolean;
+}
+
+export interface DuplicateFinding {
+  kinds: DuplicateKind[];
+  priorInvoiceId: string;
+  priorInvoiceNumber: string | null;
+  lineNumber: number | null;
+  priorLineNumber?: number;
+  amount: Decimal;
+  message: string;
+}
+
+export const DEFAULT_DUPLICATE_PARAMETERS: DuplicateParameters = {
+  fuzzyInvoiceNumber: true,
+  maxInvoiceNumberDistance: 1,
+  amountDateWindowDays: 7,
+  checkServiceOverlap: true,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KIND_LABELS: Record<DuplicateKind, string> = {
+  invoice_number: 'same invoice number',
+  similar_invoice_number: 'similar invoice number',
+  file_hash: 'same source file',
+  amount_date: 'same amount and date',
+  service_overlap: 'overlapping service period',
+};
+
+/**
+ * Canonical form of an invoice number: uppercase alphanumerics without leading zeros,
+ * so "INV-00123", "inv 123" and "INV123" compare equal.
+ */
+export function normalizeInvoiceNumber(invoiceNumber: string): string {
+  const compact = invoiceNumber.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return compact.replace(/^([A-Z]*)0+(?=\d)/, '$1');
+}
+
+// Characters OCR reads for one another, by the character each group compares as
+const OCR_CONFUSABLE: Record<string, string> = {
+  O: '0',
+  I: '1',
+  L: '1',
+  S: '5',
+  B: '8',
+};
+
+function ocrCanonical(char: string): string {
+  return OCR_CONFUSABLE[char] || char;
+}
+
+/**
+ * How two invoice numbers compare: 'exact' once normalized, or, with fuzzy matching,
+ * 'similar' when numbers of six or more characters differ only by up to maxDistance
+ * OCR-confusable characters (0/O, 1/I/l, 5/S, 8/B) or by two swapped neighbours.
+ * Any other difference, like a vendor's next number in sequence, is no match.
+ */
+export function compareInvoiceNumbers(
+  a: string,
+  b: string,
+  fuzzy: boolean = true,
+  maxDistance: number = 1
+): 'exact' | 'similar' | null {
+  const left = normalizeInvoiceNumber(a);
+  const right = normalizeInvoiceNumber(b);
+  if (!left || !right) {
+    return null;
+  }
+  if (left === right) {
+    return 'exact';
+  }
+  if (!fuzzy || left.length !== right.length || left.length < 6) {
+    return null;
+  }
+
+  const differences: number[] = [];
+  for (let i = 0; i < left.length; i++) {
+    if (left[i] !== right[i]) differences.push(i);
+  }
+  const [first, second] = differences;
+  const swapped =
+    differences.length === 2 &&
+    second === first + 1 &&
+    left[first] === right[second] &&
+    left[second] === right[first];
+  const misread =
+    differences.length <= maxDistance &&
+    differences.every((i) => ocrCanonical(left[i]) === ocrCanonical(right[i]));
+  return swapped || misread ? 'similar' : null;
+}
+
+export function periodsOverlap(
+  startA: Date,
+  endA: Date,
+  startB: Date,
+  endB: Date
+): boolean {
+  return startA <= endB && startB <= endA;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function servicePeriod(invoice: any, lineItem: any): { start: Date; end: Date } | null {
+  const start = lineItem.servicePeriodStart || invoice.servicePeriodStart;
+  const end = lineItem.servicePeriodEnd || invoice.servicePeriodEnd || start;
+  if (!start || !end) {
+    return null;
+  }
+  return { start: new Date(start), end: new Date(end) };
+}
+
+/**
+ * Find earlier invoices this invoice duplicates, fully or line by line.
+ * Whole-invoice findings are grouped per prior invoice; line overlaps are reported per line.
+ */
+export async function findDuplicateInvoices(
+  invoice: any,
+  parameters: DuplicateParameters = DEFAULT_DUPLICATE_PARAMETERS
+): Promise<DuplicateFinding[]> {
+  const earlierThan = {
+    invoiceId: { not: invoice.invoiceId },
+    createdDate: { lt: invoice.createdDate },
+  };
+  const matches = new Map<string, { prior: any; kinds: DuplicateKind[] }>();
+  const addMatch = (prior: any, kind: DuplicateKind) => {
+    const entry = matches.get(prior.invoiceId) || { prior, kinds: [] };
+    if (!entry.kinds.includes(kind)) entry.kinds.push(kind);
+    matches.set(prior.invoiceId, entry);
+  };
+
+  // Same vendor, same or similar invoice number
+  if (invoice.invoiceNumber) {
+    const vendorInvoices = await prisma.invoice.findMany({
+      where: {
+        ...earlierThan,
+        vendorPartyId: invoice.vendorPartyId,
+        invoiceNumber: { not: null },
+      },
+      orderBy: { createdDate: 'desc' },
+      take: 500,
+    });
+    for (const prior of vendorInvoices) {
+      const match = compareInvoiceNumbers(
+        invoice.invoiceNumber,
+        prior.invoiceNumber!,
+        parameters.fuzzyInvoiceNumber,
+        parameters.maxInvoiceNumberDistance
+      );
+      if (match) {
+        addMatch(prior, match === 'exact' ? 'invoice_number' : 'similar_invoice_number');
+      }
+    }
+  }
+
+  // Same source file
+  const fileHash = invoice.sourceDocument?.fileHash;
+  if (fileHash) {
+    const sameFile = await prisma.invoice.findMany({
+      where: { ...earlierThan, sourceDocument: { fileHash } },
+    });
+    sameFile.forEach((prior) => addMatch(prior, 'file_hash'));
+  }
+
+  // Same amount billed by the same vendor to the same customer within the date window
+  const windowMs = parameters.amountDateWindowDays * DAY_MS;
+  const invoiceDate = new Date(invoice.invoiceDate);
+  const sameAmount = await prisma.invoice.findMany({
+    where: {
+      ...earlierThan,
+      vendorPartyId: invoice.vendorPartyId,
+      customerPartyId: invoice.customerPartyId,
+      netServiceAmount: invoice.netServiceAmount,
+      invoiceDate: {
+        gte: new Date(invoiceDate.getTime() - windowMs),
+        lte: new Date(invoiceDate.getTime() + windowMs),
+      },
+    },
+  });
+  sameAmount.forEach((prior) => addMatch(prior, 'amount_date'));
+
+  const findings: DuplicateFinding[] = Array.from(matches.values()).map(({ prior, kinds }) => ({
+    kinds,
+    priorInvoiceId: prior.invoiceId,
+    priorInvoiceNumber: prior.invoiceNumber,
+    lineNumber: null,
+    amount: new Decimal(invoice.netServiceAmount.toString()),
+    message: `Possible duplicate of invoice ${prior.invoiceNumber || prior.invoiceId}: ${kinds
+      .map((kind) => KIND_LABELS[kind])
+      .join(', ')}`,
+  }));
+
+  // Lines billing the same item for a service period an earlier invoice already covered.
+  // Invoices already flagged as whole duplicates are not repeated line by line.
+  if (parameters.checkServiceOverlap) {
+    for (const lineItem of invoice.invoiceLineItems || []) {
+      const period = servicePeriod(invoice, lineItem);
+      if (!lineItem.billableItemId || !period) continue;
+
+      const candidates = await prisma.invoiceLineItem.findMany({
+        where: { billableItemId: lineItem.billableItemId, invoice: earlierThan },
+        include: { invoice: true },
+        take: 200,
+      });
+
+      for (const candidate of candidates) {
+        if (matches.has(candidate.invoiceId)) continue;
+        const prior = servicePeriod(candidate.invoice, candidate);
+        if (!prior || !periodsOverlap(period.start, period.end, prior.start, prior.end)) {
+          continue;
+        }
+
+        findings.push({
+          kinds: ['service_overlap'],
+          priorInvoiceId: candidate.invoiceId,
+          priorInvoiceNumber: candidate.invoice.invoiceNumber,
+          lineNumber: lineItem.lineNumber,
+          priorLineNumber: candidate.lineNumber,
+          amount: new Decimal(lineItem.extendedAmount.toString()),
+          message: `Line ${lineItem.lineNumber} bills "${lineItem.description}" for ${formatDay(
+            period.start
+          )} to ${formatDay(period.end)}, which overlaps line ${candidate.lineNumber} of invoice ${
+            candidate.invoice.invoiceNumber || candidate.invoiceId
+          }`,
+        });
+        break;
+      }
+    }
+  }
+
+  return findings;
+}
@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import { prisma, DbClient } from './db';
+import {
+  ExtractionRequest,
+  ExtractionResponse,
+  ExtractionProviderName,
+  completeExtraction,
+  documentKey,
+  getProviderName,
+  getTaskConfig,
+} from './extraction-provider';
+
+// Raw model responses are stored per (file hash, task, prompt version, model) and reused
+// while the prompt is unchanged, so re-extracting a document or uploading it again doesn't
+// pay for another model call. Replay answers only from stored responses, to re-run the
+// steps after the model (parsing, normalization, validation) without calling it.
+//
+// The mock provider is never cached so fixture changes take effect; EXTRACTION_CACHE=off
+// disables the cache for every provider.
+
+// use: stored response if there is one, else call the model and store its response
+// refresh: always call the model and store its response
+// replay: stored responses only; a request without one fails
+export type ExtractionCacheMode = 'use' | 'refresh' | 'replay';
+
+export const DEFAULT_PROMPT_VERSION = 'unversioned';
+
+export class ExtractionCacheMissError extends Error {
+  constructor(
+    public task: string,
+    public fileHash: string
+  ) {
+    super(`No stored ${task} response to replay for document ${fileHash.slice(0, 12)}`);
+    this.name = 'ExtractionCacheMissError';
+  }
+}
+
+export function promptHash(request: Pick<ExtractionRequest, 'system' | 'prompt'>): string {
+  return createHash('sha256').update(`${request.system}\n\n${request.prompt}`).digest('hex');
+}
+
+/**
+ * Cache key of a request for the configured provider and model.
+ */
+export function responseKey(
+  request: ExtractionRequest,
+  provider: ExtractionProviderName = getProviderName()
+) {
+  return {
+    fileHash: documentKey(request),
+    task: request.task,
+    chunkIndex: request.chunkIndex ?? 0,
+    repairAttempt: request.repairAttempt ?? 0,
+    promptVersion: request.promptVersion ?? DEFAULT_PROMPT_VERSION,
+    provider,
+    model: getTaskConfig(request.task, provider).model,
+    promptHash: promptHash(request),
+  };
+}
+
+function cacheEnabled(provider: ExtractionProviderName): boolean {
+  return provider !== 'mock' && process.env.EXTRACTION_CACHE?.toLowerCase() !== 'off';
+}
+
+/**
+ * Completes a request from the stored response when there is one, else with complete,
+ * storing its response. Cache failures are logged and fall through to the model.
+ */
+export async function completeWithCache(
+  request: ExtractionRequest,
+  mode: ExtractionCacheMode = 'use',
+  complete: (request: ExtractionRequest) => Promise<ExtractionResponse> = completeExtraction,
+  db: DbClient = prisma
+): Promise<ExtractionResponse> {
+  const provider = getProviderName();
+  const key = responseKey(request, provider);
+
+  if (mode === 'replay') {
+    // The prompt may have changed since (vendor hints, prompt versions); replay the latest
+    // response to the same request position when there is no exact match
+    const stored =
+      (await db.extractionRawResponse.findUnique({ where: { responseKey: key } })) ??
+      (await db.extractionRawResponse.findFirst({
+        where: {
+          fileHash: key.fileHash,
+          task: key.task,
+          chunkIndex: key.chunkIndex,
+          repairAttempt: key.repairAttempt,
+        },
+        orderBy: { createdDate: 'desc' },
+      }));
+    if (!stored) {
+      throw new ExtractionCacheMissError(request.task, key.fileHash);
+    }
+    return storedResponse(stored, db);
+  }
+
+  if (!cacheEnabled(provider)) {
+    return complete(request);
+  }
+
+  if (mode === 'use') {
+    try {
+      const stored = await db.extractionRawResponse.findUnique({ where: { responseKey: key } });
+      if (stored) {
+        return await storedResponse(stored, db);
+      }
+    } catch (error) {
+      console.warn('Extraction cache lookup failed:', error);
+    }
+  }
+
+  const response = await complete(request);
+  try {
+    await db.extractionRawResponse.upsert({
+      where: { responseKey: key },
+      create: { ...key, responseText: response.text },
+      update: { responseText: response.text, createdDate: new Date() },
+    });
+  } catch (error) {
+    console.warn('Failed to store extraction response:', error);
+  }
+  return response;
+}
+
+async function storedResponse(
+  stored: { responseId: string; responseText: string; provider: string; model: string },
+  db: DbClient
+): Promise<ExtractionResponse> {
+  await db.extractionRawResponse.update({
+    where: { responseId: stored.responseId },
+    data: { hitCount: { increment: 1 }, lastUsedDate: new Date() },
+  });
+  return {
+    text: stored.responseText,
+    provider: stored.provider as ExtractionProviderName,
+    model: stored.model,
+  };
+}
+
+/**
+ * Cache mode from a request parameter; null when it isn't one.
+ */
+export function parseCacheMode(value: string | null | undefined): ExtractionCacheMode | null {
+  if (!value) {
+    return 'use';
+  }
+  return value === 'use' || value === 'refresh' || value === 'replay' ? value : null;
+}
@@ -0,0 +1,536 @@
+import { PageOCRResult } from './ocr';
+
+// Page-aware chunking for LLM extraction. Long documents are split on page boundaries
+// into chunks that fit a single prompt, each chunk is extracted on its own, and the
+// partial envelopes are merged back into one.
+
+export const MAX_CHUNK_CHARACTERS = 15000;
+
+export interface ExtractionChunk {
+  index: number;
+  pageStart: number;
+  pageEnd: number;
+  // Page text with "--- Page N ---" markers so the model can attribute fields to pages
+  text: string;
+}
+
+export interface ChunkExtraction {
+  chunk: ExtractionChunk;
+  data: any;
+  confidence: number;
+}
+
+export interface MergeOptions {
+  totalPages: number;
+  // Chunks whose extraction failed; their pages are reported as not processed
+  failedChunks?: ExtractionChunk[];
+}
+
+function pageMarker(pageNumber: number): string {
+  return `--- Page ${pageNumber} ---`;
+}
+
+/**
+ * Split text longer than the limit at whitespace, for pages that don't fit a chunk alone.
+ */
+function splitText(text: string, maxCharacters: number): string[] {
+  const parts: string[] = [];
+  let remaining = text;
+  while (remaining.length > maxCharacters) {
+    const breakAt = remaining.lastIndexOf(' ', maxCharacters);
+    const end = breakAt > maxCharacters / 2 ? breakAt : maxCharacters;
+    parts.push(remaining.substring(0, end).trim());
+    remaining = remaining.substring(end).trim();
+  }
+  if (remaining.length > 0) {
+    parts.push(remaining);
+  }
+  return parts;
+}
+
+/**
+ * Group consecutive pages into chunks of at most maxCharacters. A page longer than the
+ * limit is split across several chunks that all carry its page number.
+ */
+export function chunkPages(
+  pages: PageOCRResult[],
+  maxCharacters: number = MAX_CHUNK_CHARACTERS
+): ExtractionChunk[] {
+  const chunks: ExtractionChunk[] = [];
+  let current: { pageStart: number; pageEnd: number; parts: string[]; length: number } | null =
+    null;
+
+  const flush = () => {
+    if (current) {
+      chunks.push({
+        index: chunks.length,
+        pageStart: current.pageStart,
+        pageEnd: current.pageEnd,
+        text: current.parts.join('\n\n'),
+      });
+      current = null;
+    }
+  };
+
+  for (const page of pages) {
+    const marker = pageMarker(page.pageNumber);
+    const body = page.text.trim();
+    const section = `${marker}\n${body}`;
+
+    if (section.length > maxCharacters) {
+      flush();
+      for (const part of splitText(body, maxCharacters - marker.length - 1)) {
+        chunks.push({
+          index: chunks.length,
+          pageStart: page.pageNumber,
+          pageEnd: page.pageNumber,
+          text: `${marker}\n${part}`,
+        });
+      }
+      continue;
+    }
+
+    if (current && current.length + section.length + 2 > maxCharacters) {
+      flush();
+    }
+    if (!current) {
+      current = { pageStart: page.pageNumber, pageEnd: page.pageNumber, parts: [], length: 0 };
+    }
+    current.parts.push(section);
+    current.pageEnd = page.pageNumber;
+    current.length += section.length + 2;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Pages to chunk: the OCR pages when there are any, else the whole text as page 1.
+ */
+export function documentPages(text: string, pages?: PageOCRResult[]): PageOCRResult[] {
+  return pages && pages.length > 0 ? pages : [{ pageNumber: 1, text }];
+}
+
+/**
+ * Page numbers covered by the given chunks.
+ */
+export function chunkPageNumbers(chunks: ExtractionChunk[]): number[] {
+  const pages = new Set<number>();
+  for (const chunk of chunks) {
+    for (let page = chunk.pageStart; page <= chunk.pageEnd; page++) {
+      pages.add(page);
+    }
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+}
+
+/**
+ * Pages in chunks whose extraction failed and that no successful chunk covered.
+ */
+export function unprocessedPages(
+  partials: ChunkExtraction[],
+  failedChunks: ExtractionChunk[] = []
+): number[] {
+  const processed = new Set(chunkPageNumbers(partials.map((partial) => partial.chunk)));
+  return chunkPageNumbers(failedChunks).filter((page) => !processed.has(page));
+}
+
+function normalizeKey(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const normalized = String(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+  return normalized.length > 0 ? normalized : null;
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function recordConfidence(record: any, fallback: number): number {
+  const value = record?.confidence ?? record?.confidence_score ?? record?.extraction_confidence;
+  return typeof value === 'number' ? value : fallback;
+}
+
+/**
+ * Merge source into target field by field. Missing values are filled in; when both sides
+ * have a different value the one extracted with higher confidence wins and the field path
+ * is reported as a conflict. Nested objects merge recursively and arrays are unioned.
+ */
+export function mergeRecords(
+  target: Record<string, any>,
+  source: Record<string, any>,
+  targetConfidence: number,
+  sourceConfidence: number,
+  path: string,
+  conflicts: string[]
+): Record<string, any> {
+  const merged: Record<string, any> = { ...target };
+
+  for (const [key, value] of Object.entries(source)) {
+    if (isEmpty(value)) continue;
+    const current = merged[key];
+    const fieldPath = path ? `${path}.${key}` : key;
+
+    if (isEmpty(current)) {
+      merged[key] = value;
+    } else if (isPlainObject(current) && isPlainObject(value)) {
+      merged[key] = mergeRecords(
+        current,
+        value,
+        targetConfidence,
+        sourceConfidence,
+        fieldPath,
+        conflicts
+      );
+    } else if (Array.isArray(current) && Array.isArray(value)) {
+      const seen = new Set(current.map((entry) => JSON.stringify(entry)));
+      merged[key] = [...current, ...value.filter((entry) => !seen.has(JSON.stringify(entry)))];
+    } else if (JSON.stringify(current) !== JSON.stringify(value)) {
+      conflicts.push(fieldPath);
+      if (sourceConfidence > targetConfidence) {
+        merged[key] = value;
+      }
+    }
+  }
+
+  return merged;
+}
+
+const PAGE_FIELDS = ['source_page', 'page_number'];
+
+interface MergedEntity {
+  record: Record<string, any>;
+  confidence: number;
+  keys: Set<string>;
+  pages: Set<number>;
+}
+
+/**
+ * Identity keys are "kind:value". Records are the same entity when they share a key and
+ * no identifier other than the name differs: two items named "Gloves" with different SKUs
+ * stay separate, while the same SKU under a reworded name merges.
+ */
+function isSameEntity(existingKeys: Set<string>, keys: string[]): boolean {
+  if (!keys.some((key) => existingKeys.has(key))) {
+    return false;
+  }
+  const kind = (key: string) => key.substring(0, key.indexOf(':'));
+  const existingKinds = new Set(Array.from(existingKeys).map(kind));
+  return keys.every(
+    (key) => existingKeys.has(key) || kind(key) === 'name' || !existingKinds.has(kind(key))
+  );
+}
+
+/**
+ * De-duplicate entities extracted from several chunks, merging duplicates by confidence.
+ */
+function mergeEntities(
+  partials: ChunkExtraction[],
+  select: (data: any) => any[] | undefined,
+  identityKeys: (record: any) => string[],
+  // Ids and names of a duplicate are variants of the kept record's, not conflicts
+  identityFields: string[],
+  label: string,
+  conflicts: string[],
+  onMerge?: (kept: Record<string, any>, duplicate: Record<string, any>) => void
+): Record<string, any>[] {
+  const entities: MergedEntity[] = [];
+
+  for (const partial of partials) {
+    const records = select(partial.data);
+    if (!Array.isArray(records)) continue;
+
+    for (const record of records) {
+      if (!isPlainObject(record)) continue;
+      const confidence = recordConfidence(record, partial.confidence);
+      const keys = identityKeys(record);
+      const page = Number(record.source_page ?? record.page_number);
+      const pages = Number.isFinite(page) && page > 0 ? [page] : chunkPageNumbers([partial.chunk]);
+      const existing = entities.find((entity) => isSameEntity(entity.keys, keys));
+
+      if (!existing) {
+        entities.push({ record, confidence, keys: new Set(keys), pages: new Set(pages) });
+        continue;
+      }
+
+      onMerge?.(existing.record, record);
+      const index = entities.indexOf(existing);
+      const incoming = Object.fromEntries(
+        Object.entries(record).filter(
+          ([field]) => !identityFields.includes(field) && !PAGE_FIELDS.includes(field)
+        )
+      );
+      existing.record = mergeRecords(
+        existing.record,
+        incoming,
+        existing.confidence,
+        confidence,
+        `${label}[${index}]`,
+        conflicts
+      );
+      existing.confidence = Math.max(existing.confidence, confidence);
+      keys.forEach((key) => existing.keys.add(key));
+      pages.forEach((p) => existing.pages.add(p));
+    }
+  }
+
+  return entities.map((entity) => {
+    const { source_page, page_number, ...record } = entity.record;
+    return { ...record, source_pages: Array.from(entity.pages).sort((a, b) => a - b) };
+  });
+}
+
+function keysFor(entries: Array<[string, unknown]>): string[] {
+  return entries
+    .map(([prefix, value]) => {
+      const key = normalizeKey(value);
+      return key ? `${prefix}:${key}` : null;
+    })
+    .filter((key): key is string => key !== null);
+}
+
+function mergeObjects(
+  partials: ChunkExtraction[],
+  select: (data: any) => any,
+  label: string,
+  conflicts: string[]
+): Record<string, any> {
+  let merged: Record<string, any> = {};
+  let mergedConfidence = 0;
+  for (const partial of partials) {
+    const value = select(partial.data);
+    if (!isPlainObject(value)) continue;
+    merged = mergeRecords(merged, value, mergedConfidence, partial.confidence, label, conflicts);
+    mergedConfidence = Math.max(mergedConfidence, partial.confidence);
+  }
+  return merged;
+}
+
+function averageConfidence(partials: ChunkExtraction[]): number {
+  return partials.reduce((sum, partial) => sum + partial.confidence, 0) / partials.length;
+}
+
+/**
+ * Merge per-chunk ContractSphere envelopes into one. Parties, billable items and pricing
+ * models are de-duplicated, the contract and payment terms are merged field by field, and
+ * _validation_summary reports the pages that were not processed.
+ */
+export function mergeContractEnvelopes(partials: ChunkExtraction[], options: MergeOptions): any {
+  const conflicts: string[] = [];
+
+  const parties = mergeEntities(
+    partials,
+    (data) => data?.parties,
+    (party) =>
+      keysFor([
+        ['tax', party.tax_id],
+        ['duns', party.duns_number],
+        ['npi', party.npi_number],
+        ['name', party.legal_name],
+      ]),
+    ['party_id', 'legal_name'],
+    'parties',
+    conflicts
+  );
+
+  // Items reference pricing models by id; ids of merged duplicates point at the kept model
+  const modelIds = new Map<string, string>();
+  const pricingModels = mergeEntities(
+    partials,
+    (data) => data?.pricing_models,
+    (model) => keysFor([['name', [model.model_name, model.model_type].join(' ')]]),
+    ['model_id', 'model_name', 'model_type'],
+    'pricing_models',
+    conflicts,
+    (kept, duplicate) => {
+      if (duplicate.model_id && kept.model_id) {
+        modelIds.set(duplicate.model_id, kept.model_id);
+      }
+    }
+  );
+
+  const billableItems = mergeEntities(
+    partials,
+    (data) => data?.billable_items,
+    (item) =>
+      keysFor([
+        ['sku', item.external_ids?.vendor_sku],
+        ['code', item.external_ids?.item_code || item.pricing_details?.line_item_code],
+        ['name', item.item_name],
+      ]),
+    ['item_id', 'item_name', 'pricing_model_id'],
+    'billable_items',
+    conflicts
+  ).map((item) =>
+    item.pricing_model_id && modelIds.has(item.pricing_model_id)
+      ? { ...item, pricing_model_id: modelIds.get(item.pricing_model_id) }
+      : item
+  );
+
+  const contracts = mergeObjects(partials, (data) => data?.contracts, 'contracts', conflicts);
+  if (Array.isArray(contracts.locations)) {
+    contracts.locations = dedupeBy(contracts.locations, (location) =>
+      normalizeKey(location?.location_name || location?.address)
+    );
+  }
+  const paymentTerms = mergeObjects(
+    partials,
+    (data) => data?.payment_terms,
+    'payment_terms',
+    conflicts
+  );
+
+  const notProcessed = unprocessedPages(partials, options.failedChunks);
+  const summaries = partials.map((partial) => partial.data?._validation_summary || {});
+  const sum = (field: string) =>
+    summaries.reduce((total, summary) => total + (Number(summary[field]) || 0), 0);
+  const firstMetadata = partials[0]?.data?._extraction_metadata || {};
+
+  return {
+    _extraction_metadata: {
+      ...firstMetadata,
+      processing_timestamp: new Date().toISOString(),
+      overall_confidence: averageConfidence(partials),
+      document_type_detected: 'contract',
+      total_pages: options.totalPages,
+      chunks_processed: partials.length,
+    },
+    parties,
+    contracts,
+    billable_items: billableItems,
+    pricing_models: pricingModels,
+    payment_terms: paymentTerms,
+    _validation_summary: {
+      high_confidence_items: sum('high_confidence_items'),
+      items_requiring_review: sum('items_requiring_review'),
+      estimated_annual_value: sum('estimated_annual_value') || undefined,
+      critical_missing_fields: Array.from(
+        new Set(summaries.flatMap((summary) => summary.critical_missing_fields || []))
+      ),
+      date_consistency_check: summaries.every((s) => s.date_consistency_check !== false),
+      currency_consistency_check: summaries.every((s) => s.currency_consistency_check !== false),
+      pages_processed: chunkPageNumbers(partials.map((partial) => partial.chunk)),
+      pages_not_processed: notProcessed,
+      merge_conflicts: Array.from(new Set(conflicts)),
+    },
+  };
+}
+
+function dedupeBy<T>(values: T[], key: (value: T) => string | null): T[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const k = key(value);
+    if (!k) return true;
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Line items of all chunks in page order. A line a chunk repeats from an earlier chunk (a
+ * page split across chunks, a repeated page) is dropped; identical lines within one chunk
+ * are kept. Lines are compared without the line number, which each chunk starts again at 1.
+ */
+function mergeLineItems(partials: ChunkExtraction[]): any[] {
+  const earlierCounts = new Map<string, number>();
+  const merged: any[] = [];
+  for (const partial of partials) {
+    const items = partial.data?.validation_request?.invoice_data?.line_items;
+    const chunkCounts = new Map<string, number>();
+    for (const item of Array.isArray(items) ? items.filter(isPlainObject) : []) {
+      const key = normalizeKey(
+        [item.description, item.quantity, item.unit_price, item.extended_amount].join(' ')
+      );
+      if (key) {
+        const occurrence = (chunkCounts.get(key) || 0) + 1;
+        chunkCounts.set(key, occurrence);
+        if (occurrence <= (earlierCounts.get(key) || 0)) continue;
+      }
+      merged.push(item);
+    }
+    chunkCounts.forEach((count, key) =>
+      earlierCounts.set(key, Math.max(count, earlierCounts.get(key) || 0))
+    );
+  }
+  return merged;
+}
+
+/**
+ * Merge per-chunk SR Validation payloads. The invoice header is merged field by field
+ * (the number and date are usually on the first page, totals on the last), line items
+ * are concatenated in page order, de-duplicated and numbered from 1 across the invoice.
+ */
+export function mergeInvoicePayloads(partials: ChunkExtraction[], options: MergeOptions): any {
+  const conflicts: string[] = [];
+  const invoiceData = (data: any) => data?.validation_request?.invoice_data;
+
+  const header = mergeObjects(
+    partials,
+    (data) => invoiceData(data)?.invoice_header,
+    'invoice_header',
+    conflicts
+  );
+  // Normalization finds lines by number, so the chunks' own numbering would overwrite lines
+  const lineItems = mergeLineItems(partials).map((item, index) => ({
+    ...item,
+    line_number: index + 1,
+  }));
+
+  const otherInvoiceData = mergeObjects(
+    partials,
+    (data) => {
+      const { invoice_header, line_items, ...rest } = invoiceData(data) || {};
+      return rest;
+    },
+    'invoice_data',
+    conflicts
+  );
+  const validationRequest = mergeObjects(
+    partials,
+    (data) => {
+      const { invoice_data, ...rest } = data?.validation_request || {};
+      return rest;
+    },
+    'validation_request',
+    conflicts
+  );
+  const validationResult = mergeObjects(
+    partials,
+    (data) => data?.validation_result,
+    'validation_result',
+    conflicts
+  );
+  const intelligence = mergeObjects(
+    partials,
+    (data) => data?.extraction_intelligence,
+    'extraction_intelligence',
+    conflicts
+  );
+
+  return {
+    validation_request: {
+      ...validationRequest,
+      invoice_data: { ...otherInvoiceData, invoice_header: header, line_items: lineItems },
+    },
+    validation_result: { ...validationResult, confidence_score: averageConfidence(partials) },
+    extraction_intelligence: intelligence,
+    _validation_summary: {
+      pages_processed: chunkPageNumbers(partials.map((partial) => partial.chunk)),
+      pages_not_processed: unprocessedPages(partials, options.failedChunks),
+      merge_conflicts: Array.from(new Set(conflicts)),
+    },
+  };
+}
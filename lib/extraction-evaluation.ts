@@ -0,0 +1,531 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { extname, join } from 'path';
+import { PROMPT_VERSIONS, extractContractData, extractInvoiceData } from './ai-extraction';
+import { ExtractionCacheMode } from './extraction-cache';
+import { getProviderName } from './extraction-provider';
+import { IMAGE_EXTENSIONS, extractTextWithCoordinates } from './ocr';
+import { generateFileHash } from './storage';
+
+// Extraction accuracy evaluation against golden documents. Each case is a directory with
+// the source document and the extraction a reviewer expects from it:
+//
+//   <dir>/<case>/document.pdf              (or a PNG/JPEG/TIFF image)
+//   <dir>/<case>/expected.invoice.json     SR Validation payload, or
+//   <dir>/<case>/expected.contract.json    ContractSphere envelope
+//
+// Documents are OCR'd and extracted through the configured provider as uploads are. With
+// EXTRACTION_PROVIDER=mock, or cache mode replay, the evaluation runs offline.
+
+export type EvaluationDocumentType = 'invoice' | 'contract';
+
+export interface MatchRate {
+  total: number;
+  matched: number;
+  // null when the expected data has no such fields
+  rate: number | null;
+}
+
+export interface LineItemAlignment {
+  expected: number;
+  extracted: number;
+  matched: number;
+  // Mean field agreement of aligned items over max(expected, extracted); 1 when both are empty
+  score: number;
+}
+
+export interface FieldMismatch {
+  path: string;
+  expected: unknown;
+  extracted: unknown;
+}
+
+export interface ExtractionScore {
+  // Non-empty leaf fields in the expected and extracted data, and extracted fields that match
+  expectedFields: number;
+  extractedFields: number;
+  correctFields: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  amounts: MatchRate;
+  dates: MatchRate;
+  lineItems: LineItemAlignment;
+  mismatches: FieldMismatch[];
+}
+
+export interface CaseResult extends ExtractionScore {
+  name: string;
+  documentType: EvaluationDocumentType;
+  confidence: number;
+  error?: string;
+}
+
+export interface EvaluationSummary {
+  cases: number;
+  failedCases: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  amountMatchRate: number | null;
+  dateMatchRate: number | null;
+  lineItemScore: number;
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  provider: string;
+  cacheMode: ExtractionCacheMode;
+  promptVersions: Record<string, string>;
+  summary: EvaluationSummary;
+  cases: CaseResult[];
+}
+
+// Model bookkeeping, not extracted document data
+const IGNORED_SECTIONS = [
+  'validation_result',
+  'extraction_intelligence',
+  '_extraction_metadata',
+  '_validation_summary',
+];
+const IGNORED_KEYS = new Set(['source_page', 'source_pages', 'request_id']);
+
+const LINE_ITEM_PATHS: Record<EvaluationDocumentType, string> = {
+  invoice: 'validation_request.invoice_data.line_items',
+  contract: 'billable_items',
+};
+
+// Aligned items must agree on at least this share of the expected item's fields
+const MIN_ALIGNMENT_SIMILARITY = 0.5;
+const AMOUNT_KEY = /amount|price|total|cost|fee/i;
+const MAX_REPORTED_MISMATCHES = 25;
+
+type Fields = Map<string, unknown>;
+
+function flattenFields(value: unknown, path: string, fields: Fields = new Map()): Fields {
+  if (value === null || value === undefined || value === '') {
+    return fields;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenFields(item, `${path}.${index}`, fields));
+  } else if (typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      if (IGNORED_KEYS.has(key) || (!path && IGNORED_SECTIONS.includes(key))) continue;
+      flattenFields(item, path ? `${path}.${key}` : key, fields);
+    }
+  } else {
+    fields.set(path, value);
+  }
+  return fields;
+}
+
+function getPath(data: any, path: string): any {
+  return path.split('.').reduce((node, key) => (node == null ? undefined : node[key]), data);
+}
+
+function withoutPath(data: any, path: string): any {
+  const copy = JSON.parse(JSON.stringify(data ?? {}));
+  const keys = path.split('.');
+  const parent = keys.length === 1 ? copy : getPath(copy, keys.slice(0, -1).join('.'));
+  if (parent && typeof parent === 'object') {
+    delete parent[keys[keys.length - 1]];
+  }
+  return copy;
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.replace(/[$,\s]/g, '');
+  return /^-?\d+(\.\d+)?$/.test(cleaned) ? Number(cleaned) : null;
+}
+
+/**
+ * ISO date (YYYY-MM-DD) of a YYYY-MM-DD or MM/DD/YYYY value, else null.
+ */
+export function asDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  return null;
+}
+
+function normalizeText(value: unknown): string {
+  return String(value)
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[.,;:]+$/, '')
+    .trim();
+}
+
+/**
+ * Whether an extracted value matches the expected one: numbers to the cent, dates in any
+ * supported format, text ignoring case, spacing and trailing punctuation.
+ */
+export function valuesMatch(expected: unknown, extracted: unknown): boolean {
+  const expectedNumber = asNumber(expected);
+  const extractedNumber = asNumber(extracted);
+  if (expectedNumber !== null && extractedNumber !== null) {
+    return Math.round(expectedNumber * 100) === Math.round(extractedNumber * 100);
+  }
+  const expectedDate = asDate(expected);
+  if (expectedDate !== null) {
+    return expectedDate === asDate(extracted);
+  }
+  return normalizeText(expected) === normalizeText(extracted);
+}
+
+function fieldAgreement(expected: Fields, extracted: Fields): number {
+  if (expected.size === 0) return 0;
+  let matched = 0;
+  expected.forEach((value, path) => {
+    if (extracted.has(path) && valuesMatch(value, extracted.get(path))) matched++;
+  });
+  return matched / expected.size;
+}
+
+/**
+ * Pairs expected and extracted line items, most similar first. Items are compared field by
+ * field, so reordered or missing lines don't shift every line after them.
+ */
+export function alignLineItems(
+  expected: unknown[],
+  extracted: unknown[]
+): { pairs: Array<[number, number, number]>; alignment: LineItemAlignment } {
+  const expectedFields = expected.map((item) => flattenFields(item, ''));
+  const extractedFields = extracted.map((item) => flattenFields(item, ''));
+
+  const candidates: Array<[number, number, number]> = [];
+  expectedFields.forEach((fields, i) => {
+    extractedFields.forEach((other, j) => {
+      const similarity = fieldAgreement(fields, other);
+      if (similarity >= MIN_ALIGNMENT_SIMILARITY) candidates.push([i, j, similarity]);
+    });
+  });
+  candidates.sort((a, b) => b[2] - a[2] || a[0] - b[0] || a[1] - b[1]);
+
+  const usedExpected = new Set<number>();
+  const usedExtracted = new Set<number>();
+  const pairs: Array<[number, number, number]> = [];
+  for (const [i, j, similarity] of candidates) {
+    if (usedExpected.has(i) || usedExtracted.has(j)) continue;
+    usedExpected.add(i);
+    usedExtracted.add(j);
+    pairs.push([i, j, similarity]);
+  }
+
+  const size = Math.max(expected.length, extracted.length);
+  return {
+    pairs,
+    alignment: {
+      expected: expected.length,
+      extracted: extracted.length,
+      matched: pairs.length,
+      score:
+        size === 0
+          ? 1
+          : Math.round(
+              (pairs.reduce((sum, [, , similarity]) => sum + similarity, 0) / size) * 1000
+            ) / 1000,
+    },
+  };
+}
+
+const rate = (matched: number, total: number): MatchRate => ({
+  total,
+  matched,
+  rate: total === 0 ? null : Math.round((matched / total) * 1000) / 1000,
+});
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator === 0 ? 0 : Math.round((numerator / denominator) * 1000) / 1000;
+
+/**
+ * Scores extracted data against the expected data. Line items are aligned first and their
+ * fields compared with the aligned item; every other field is compared by path.
+ */
+export function scoreExtraction(
+  documentType: EvaluationDocumentType,
+  expected: any,
+  extracted: any
+): ExtractionScore {
+  const linePath = LINE_ITEM_PATHS[documentType];
+  const expectedItems: unknown[] = getPath(expected, linePath) || [];
+  const extractedItems: unknown[] = getPath(extracted, linePath) || [];
+  const { pairs, alignment } = alignLineItems(expectedItems, extractedItems);
+
+  // [expected, extracted] field sets to compare, with paths relative to the document
+  const comparisons: Array<[Fields, Fields]> = [
+    [
+      flattenFields(withoutPath(expected, linePath), ''),
+      flattenFields(withoutPath(extracted, linePath), ''),
+    ],
+  ];
+  const alignedTo = new Map(pairs.map(([i, j]) => [i, j]));
+  const alignedExtracted = new Set(pairs.map(([, j]) => j));
+  expectedItems.forEach((item, i) => {
+    const j = alignedTo.get(i);
+    comparisons.push([
+      flattenFields(item, `${linePath}.${i}`),
+      j === undefined ? new Map() : flattenFields(extractedItems[j], `${linePath}.${i}`),
+    ]);
+  });
+  extractedItems.forEach((item, j) => {
+    if (!alignedExtracted.has(j)) {
+      comparisons.push([new Map(), flattenFields(item, `${linePath}.unaligned_${j}`)]);
+    }
+  });
+
+  let expectedFields = 0;
+  let extractedFields = 0;
+  let correctFields = 0;
+  let amounts = 0;
+  let amountsMatched = 0;
+  let dates = 0;
+  let datesMatched = 0;
+  const mismatches: FieldMismatch[] = [];
+
+  for (const [expectedSet, extractedSet] of comparisons) {
+    expectedFields += expectedSet.size;
+    extractedFields += extractedSet.size;
+
+    expectedSet.forEach((value, path) => {
+      const extractedValue = extractedSet.get(path);
+      const correct = extractedSet.has(path) && valuesMatch(value, extractedValue);
+      if (correct) {
+        correctFields++;
+      } else {
+        mismatches.push({ path, expected: value, extracted: extractedValue ?? null });
+      }
+
+      const key = path.split('.').pop() || '';
+      if (AMOUNT_KEY.test(key) && asNumber(value) !== null) {
+        amounts++;
+        if (correct) amountsMatched++;
+      } else if (asDate(value) !== null) {
+        dates++;
+        if (correct) datesMatched++;
+      }
+    });
+    extractedSet.forEach((value, path) => {
+      if (!expectedSet.has(path)) mismatches.push({ path, expected: null, extracted: value });
+    });
+  }
+
+  const precision = ratio(correctFields, extractedFields);
+  const recall = ratio(correctFields, expectedFields);
+  return {
+    expectedFields,
+    extractedFields,
+    correctFields,
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    amounts: rate(amountsMatched, amounts),
+    dates: rate(datesMatched, dates),
+    lineItems: alignment,
+    mismatches,
+  };
+}
+
+/**
+ * Micro-averaged totals over all cases; line item scores are averaged per case.
+ */
+export function summarizeEvaluation(cases: CaseResult[]): EvaluationSummary {
+  const sum = (pick: (result: CaseResult) => number) =>
+    cases.reduce((total, result) => total + pick(result), 0);
+
+  const precision = ratio(
+    sum((c) => c.correctFields),
+    sum((c) => c.extractedFields)
+  );
+  const recall = ratio(
+    sum((c) => c.correctFields),
+    sum((c) => c.expectedFields)
+  );
+  return {
+    cases: cases.length,
+    failedCases: cases.filter((c) => c.error).length,
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    amountMatchRate: rate(
+      sum((c) => c.amounts.matched),
+      sum((c) => c.amounts.total)
+    ).rate,
+    dateMatchRate: rate(
+      sum((c) => c.dates.matched),
+      sum((c) => c.dates.total)
+    ).rate,
+    lineItemScore: ratio(
+      sum((c) => c.lineItems.score),
+      cases.length
+    ),
+  };
+}
+
+/**
+ * Summary metrics that dropped by more than tolerance from a baseline report.
+ */
+export function findRegressions(
+  summary: EvaluationSummary,
+  baseline: EvaluationSummary,
+  tolerance: number = 0
+): string[] {
+  const metrics = [
+    'precision',
+    'recall',
+    'f1',
+    'amountMatchRate',
+    'dateMatchRate',
+    'lineItemScore',
+  ] as const;
+
+  return metrics
+    .filter((metric) => {
+      const current = summary[metric];
+      const previous = baseline[metric];
+      return current !== null && previous !== null && current < previous - tolerance;
+    })
+    .map((metric) => `${metric}: ${baseline[metric]} -> ${summary[metric]}`);
+}
+
+function findCaseFiles(caseDir: string) {
+  const files = readdirSync(caseDir);
+  const document = files.find(
+    (file) =>
+      file.startsWith('document.') &&
+      (extname(file).toLowerCase() === '.pdf' ||
+        IMAGE_EXTENSIONS.includes(extname(file).toLowerCase()))
+  );
+  const expected = files.find((file) => /^expected\.(invoice|contract)\.json$/.test(file));
+  return { document, expected };
+}
+
+/**
+ * Extracts one golden document and scores it. Extraction errors are reported on the case,
+ * which then scores as having extracted nothing.
+ */
+export async function evaluateCase(
+  caseDir: string,
+  name: string,
+  cacheMode: ExtractionCacheMode = 'use'
+): Promise<CaseResult> {
+  const { document, expected } = findCaseFiles(caseDir);
+  if (!document || !expected) {
+    throw new Error(`${name}: needs document.<pdf|image> and expected.<invoice|contract>.json`);
+  }
+
+  const documentType = expected.split('.')[1] as EvaluationDocumentType;
+  const expectedData = JSON.parse(readFileSync(join(caseDir, expected), 'utf8'));
+  const documentPath = join(caseDir, document);
+  const ocrResult = await extractTextWithCoordinates(documentPath);
+  const source = {
+    pages: ocrResult.pages,
+    fileHash: generateFileHash(readFileSync(documentPath)),
+    cacheMode,
+    evaluation: true,
+  };
+
+  const extract = documentType === 'contract' ? extractContractData : extractInvoiceData;
+  const result = await extract(ocrResult.text, `evaluation:${name}`, ocrResult.totalPages, source);
+  const score = scoreExtraction(documentType, expectedData, result.success ? result.data : {});
+
+  return {
+    name,
+    documentType,
+    confidence: result.confidence,
+    ...score,
+    mismatches: score.mismatches.slice(0, MAX_REPORTED_MISMATCHES),
+    error: result.success ? undefined : result.errors?.join('; ') || 'Extraction failed',
+  };
+}
+
+/**
+ * Evaluates every case directory under dir, in name order.
+ */
+export async function runEvaluation(
+  dir: string,
+  cacheMode: ExtractionCacheMode = 'use'
+): Promise<EvaluationReport> {
+  const names = readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+
+  const cases: CaseResult[] = [];
+  for (const name of names) {
+    cases.push(await evaluateCase(join(dir, name), name, cacheMode));
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    provider: getProviderName(),
+    cacheMode,
+    promptVersions: { ...PROMPT_VERSIONS },
+    summary: summarizeEvaluation(cases),
+    cases,
+  };
+}
+
+const percent = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+export function formatReport(report: EvaluationReport): string {
+  const { summary } = report;
+  const lines = [
+    '# Extraction Evaluation',
+    '',
+    `Generated ${report.generatedAt} with provider \`${report.provider}\` (cache: ${report.cacheMode}).`,
+    `Prompt versions: ${Object.values(report.promptVersions).join(', ')}.`,
+    '',
+    '| Cases | Failed | Precision | Recall | F1 | Amounts | Dates | Line items |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- |',
+    `| ${summary.cases} | ${summary.failedCases} | ${percent(summary.precision)} | ${percent(
+      summary.recall
+    )} | ${percent(summary.f1)} | ${percent(summary.amountMatchRate)} | ${percent(
+      summary.dateMatchRate
+    )} | ${percent(summary.lineItemScore)} |`,
+    '',
+    '## Cases',
+    '',
+    '| Case | Type | Precision | Recall | F1 | Amounts | Dates | Line items |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- |',
+    ...report.cases.map(
+      (c) =>
+        `| ${c.name}${c.error ? ' (failed)' : ''} | ${c.documentType} | ${percent(c.precision)} | ${percent(
+          c.recall
+        )} | ${percent(c.f1)} | ${percent(c.amounts.rate)} | ${percent(c.dates.rate)} | ${c.lineItems.matched}/${
+          c.lineItems.expected
+        } (${percent(c.lineItems.score)}) |`
+    ),
+  ];
+
+  for (const c of report.cases.filter((c) => c.error || c.mismatches.length > 0)) {
+    lines.push('', `### ${c.name}`, '');
+    if (c.error) lines.push(`Extraction failed: ${c.error}`, '');
+    for (const mismatch of c.mismatches) {
+      lines.push(
+        `- \`${mismatch.path}\`: expected ${JSON.stringify(mismatch.expected)}, extracted ${JSON.stringify(
+          mismatch.extracted
+        )}`
+      );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Writes the report as evaluation-report.json and evaluation-report.md under outDir.
+ */
+export function writeReport(report: EvaluationReport, outDir: string): string[] {
+  if (!existsSync(outDir)) {
+    mkdirSync(outDir, { recursive: true });
+  }
+  const jsonPath = join(outDir, 'evaluation-report.json');
+  const markdownPath = join(outDir, 'evaluation-report.md');
+  writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+  writeFileSync(markdownPath, formatReport(report));
+  return [jsonPath, markdownPath];
+}
@@ -0,0 +1,203 @@
+import { BoundingBox, PageOCRResult } from './ocr';
+
+// Provenance for extracted values: each value is matched back to the words it was read
+// from, so a stored field can point at its page, the box around it and the surrounding
+// text. Matching compares letters and digits only, which makes "$1,250.50" match 1250.5
+// and "INV 2024-001" match "INV-2024-001" however the OCR split the words.
+
+export interface SourceBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Size of the page the box is on, so viewers can scale it
+  pageWidth?: number;
+  pageHeight?: number;
+}
+
+export interface ValueLocation {
+  pageNumber: number;
+  boundingBox: SourceBoundingBox;
+  // The matched words with some context on either side
+  textSnippet: string;
+}
+
+interface IndexedWord {
+  key: string;
+  box: BoundingBox;
+}
+
+interface IndexedPage {
+  page: PageOCRResult;
+  words: IndexedWord[];
+}
+
+export type WordIndex = IndexedPage[];
+
+// Shorter keys ("1", "EA") match too many places to be useful
+const MIN_KEY_LENGTH = 3;
+
+// Long values (clauses, descriptions) are located by their opening words
+const MAX_KEY_LENGTH = 80;
+
+// Words of context kept on either side of a match
+const SNIPPET_CONTEXT_WORDS = 8;
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+function matchKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Index OCR pages for value lookup. Pages without word boxes are skipped.
+ */
+export function indexPages(pages: PageOCRResult[] = []): WordIndex {
+  return pages
+    .filter((page) => page.boundingBoxes && page.boundingBoxes.length > 0)
+    .map((page) => ({
+      page,
+      words: page
+        .boundingBoxes!.map((box) => ({ key: matchKey(box.text), box }))
+        .filter((word) => word.key.length > 0),
+    }));
+}
+
+/**
+ * The ways a value may be printed, as match keys: numbers with and without cents, ISO
+ * dates in the common US and written forms.
+ */
+export function valueKeys(value: unknown): string[] {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return [];
+    const keys = [matchKey(String(Math.abs(value)))];
+    if (!Number.isInteger(value) || Math.abs(value) >= 100) {
+      keys.unshift(matchKey(Math.abs(value).toFixed(2)));
+    }
+    return Array.from(new Set(keys)).filter((key) => key.length >= MIN_KEY_LENGTH);
+  }
+
+  if (typeof value !== 'string') {
+    return [];
+  }
+
+  const date = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (date) {
+    const [, year, month, day] = date;
+    const m = String(Number(month));
+    const d = String(Number(day));
+    const monthName = MONTHS[Number(month) - 1];
+    if (!monthName) return [matchKey(value)];
+    return Array.from(
+      new Set([
+        `${month}${day}${year}`,
+        `${m}${d}${year}`,
+        `${month}${day}${year.slice(2)}`,
+        `${m}${d}${year.slice(2)}`,
+        `${year}${month}${day}`,
+        `${monthName}${d}${year}`,
+        `${monthName.slice(0, 3)}${d}${year}`,
+        `${d}${monthName}${year}`,
+        `${d}${monthName.slice(0, 3)}${year}`,
+      ])
+    );
+  }
+
+  const key = matchKey(value);
+  return key.length >= MIN_KEY_LENGTH ? [key.slice(0, MAX_KEY_LENGTH)] : [];
+}
+
+/**
+ * Index of the word after a run of words starting at start whose keys spell out key, or
+ * -1. The run must start and end on word boundaries.
+ */
+function matchRun(words: IndexedWord[], start: number, key: string): number {
+  let offset = 0;
+  let i = start;
+  while (offset < key.length && i < words.length) {
+    const word = words[i].key;
+    const remaining = key.length - offset;
+    if (word.length > remaining) {
+      // A truncated long value may end inside a word
+      return key.length === MAX_KEY_LENGTH && word.startsWith(key.slice(offset)) ? i + 1 : -1;
+    }
+    if (!key.startsWith(word, offset)) return -1;
+    offset += word.length;
+    i++;
+  }
+  return offset === key.length ? i : -1;
+}
+
+function unionBox(boxes: BoundingBox[], page: PageOCRResult): SourceBoundingBox {
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return {
+    x: round(left),
+    y: round(top),
+    width: round(right - left),
+    height: round(bottom - top),
+    ...(page.width && page.height ? { pageWidth: page.width, pageHeight: page.height } : {}),
+  };
+}
+
+/**
+ * Where a value appears in the document: the first match on pageHint if there is one,
+ * else the first match in page order. null when the value isn't found or is too short to
+ * locate reliably.
+ */
+export function locateValue(
+  index: WordIndex,
+  value: unknown,
+  pageHint?: number | null
+): ValueLocation | null {
+  const keys = valueKeys(value);
+  if (keys.length === 0 || index.length === 0) {
+    return null;
+  }
+
+  const pages = pageHint
+    ? [
+        ...index.filter((entry) => entry.page.pageNumber === pageHint),
+        ...index.filter((entry) => entry.page.pageNumber !== pageHint),
+      ]
+    : index;
+
+  for (const { page, words } of pages) {
+    for (let start = 0; start < words.length; start++) {
+      for (const key of keys) {
+        if (!key.startsWith(words[start].key.slice(0, 1))) continue;
+        const end = matchRun(words, start, key);
+        if (end < 0) continue;
+
+        const matched = words.slice(start, end).map((word) => word.box);
+        const snippet = words
+          .slice(Math.max(0, start - SNIPPET_CONTEXT_WORDS), end + SNIPPET_CONTEXT_WORDS)
+          .map((word) => word.box.text)
+          .join(' ');
+        return {
+          pageNumber: page.pageNumber,
+          boundingBox: unionBox(matched, page),
+          textSnippet: snippet,
+        };
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,330 @@
+import { prisma, DbClient } from './db';
+import {
+  ExtractionResult,
+  REVIEW_CONFIDENCE_THRESHOLD,
+  latestExtractedFields,
+} from './ai-extraction';
+import {
+  checkExtraction,
+  contractEnvelopeSchema,
+  invoicePayloadSchema,
+} from './extraction-schemas';
+import { learnFromReview } from './vendor-templates';
+
+// Human review of low-confidence extractions. Documents with flagged fields are normalized
+// as usual, but the invoice or contract is held as Pending Review and skips validation.
+// A reviewer corrects the fields side by side with the source and approves, which rebuilds
+// the extraction from the reviewed values and re-runs normalization and validation.
+// Corrections to invoices are kept as hints for the vendor's next invoices.
+
+export const PENDING_REVIEW_STATUS = 'Pending Review';
+
+export interface FieldCorrection {
+  // Existing field to correct; omitted when adding a field the extraction missed
+  extractionId?: string;
+  // Dotted path for a new field, e.g. "validation_request.invoice_data.invoice_header.currency"
+  fieldName?: string;
+  value: string | null;
+  notes?: string | null;
+}
+
+export type ReviewApproval =
+  | { success: true; entityId: string; validationId?: string }
+  | { success: false; issues: string[] };
+
+/**
+ * Number of fields of the document's latest extraction still waiting for a reviewer.
+ */
+export async function countFieldsToReview(
+  documentId: string,
+  db: DbClient = prisma
+): Promise<number> {
+  return db.documentExtractionData.count({
+    where: {
+      ...(await latestExtractedFields(documentId, db)),
+      requiresHumanReview: true,
+      isValidated: { not: true },
+    },
+  });
+}
+
+/**
+ * Why an extraction should be held for review, or null when it can be processed.
+ */
+export async function reviewHoldReason(
+  documentId: string,
+  extractionResult: ExtractionResult,
+  db: DbClient = prisma
+): Promise<string | null> {
+  const flagged = await countFieldsToReview(documentId, db);
+  if (flagged > 0) {
+    return `${flagged} field${flagged === 1 ? '' : 's'} extracted below ${Math.round(
+      REVIEW_CONFIDENCE_THRESHOLD * 100
+    )}% confidence`;
+  }
+
+  const metadata = extractionResult.extractionMetadata;
+  if (metadata?.requiresHumanReview) {
+    const errors = metadata.validationErrors?.slice(0, 3).join('; ');
+    return errors
+      ? `Extraction failed consistency checks: ${errors}`
+      : 'Extraction flagged for review';
+  }
+  return null;
+}
+
+/**
+ * Holds the entity created from an extraction until the document is reviewed.
+ */
+export async function holdForReview(
+  documentId: string,
+  documentType: string,
+  entityId: string,
+  reason: string,
+  db: DbClient = prisma
+): Promise<void> {
+  if (documentType === 'invoice') {
+    await db.invoice.update({
+      where: { invoiceId: entityId },
+      data: { currentStatus: PENDING_REVIEW_STATUS },
+    });
+  } else if (documentType === 'contract') {
+    await db.contract.update({
+      where: { contractId: entityId },
+      data: { contractStatus: PENDING_REVIEW_STATUS },
+    });
+  }
+
+  await db.documentMetadata.update({
+    where: { documentId },
+    data: {
+      processingStatus: 'needs_review',
+      processingError: `Held for review: ${reason}`,
+    },
+  });
+}
+
+// Stored values are strings; numbers and booleans were stored as JSON. Identifiers with
+// leading zeros or too many digits to be numbers stay strings.
+function parseFieldValue(text: string): string | number | boolean {
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (/^-?(0|[1-9]\d{0,14})(\.\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+/**
+ * Rebuilds the extraction payload from stored fields ("a.b.0.c" paths), preferring the
+ * reviewed value over the extracted one. Numeric path segments become array indexes.
+ */
+export function rebuildExtractionData(
+  fields: Array<{
+    fieldName: string;
+    extractedValue: string | null;
+    normalizedValue: string | null;
+  }>
+): Record<string, any> {
+  const data: Record<string, any> = {};
+
+  for (const field of fields) {
+    const text = field.normalizedValue ?? field.extractedValue;
+    if (text === null || text === '') continue;
+
+    const path = field.fieldName.split('.');
+    let node: any = data;
+    path.forEach((segment, i) => {
+      if (i === path.length - 1) {
+        node[segment] = parseFieldValue(text);
+        return;
+      }
+      if (node[segment] === undefined) {
+        node[segment] = /^\d+$/.test(path[i + 1]) ? [] : {};
+      }
+      node = node[segment];
+    });
+  }
+
+  // Sparse arrays are left where fields of a record were all empty
+  const compact = (value: any): any =>
+    Array.isArray(value)
+      ? value.filter((item) => item !== undefined).map(compact)
+      : value && typeof value === 'object'
+      ? Object.fromEntries(Object.entries(value).map(([key, item]) => [key, compact(item)]))
+      : value;
+  return compact(data);
+}
+
+/**
+ * Saves reviewer corrections. Each corrected field is marked validated and the change is
+ * written to the audit log.
+ */
+export async function applyCorrections(
+  documentId: string,
+  corrections: FieldCorrection[],
+  userId: string,
+  db: DbClient = prisma
+): Promise<number> {
+  let applied = 0;
+
+  for (const correction of corrections) {
+    if (correction.extractionId) {
+      const field = await db.documentExtractionData.findFirst({
+        where: { extractionId: correction.extractionId, documentId },
+      });
+      if (!field) continue;
+
+      await db.documentExtractionData.update({
+        where: { extractionId: field.extractionId },
+        data: {
+          normalizedValue: correction.value,
+          isValidated: true,
+          validationNotes: correction.notes ?? field.validationNotes,
+        },
+      });
+      await db.auditLog.create({
+        data: {
+          tableName: 'document_extraction_data',
+          recordId: field.extractionId,
+          action: 'UPDATE',
+          changedFields: ['normalizedValue', 'isValidated', 'validationNotes'],
+          oldValues: { normalizedValue: field.normalizedValue, isValidated: field.isValidated },
+          newValues: { normalizedValue: correction.value, isValidated: true },
+          changedBy: userId,
+          changeReason: correction.notes || 'Extraction review',
+        },
+      });
+    } else if (correction.fieldName) {
+      const field = await db.documentExtractionData.create({
+        data: {
+          documentId,
+          entityType: 'extracted_field',
+          fieldName: correction.fieldName,
+          normalizedValue: correction.value,
+          extractionMethod: 'manual_review',
+          isValidated: true,
+          validationNotes: correction.notes,
+        },
+      });
+      await db.auditLog.create({
+        data: {
+          tableName: 'document_extraction_data',
+          recordId: field.extractionId,
+          action: 'CREATE',
+          newValues: { fieldName: correction.fieldName, normalizedValue: correction.value },
+          changedBy: userId,
+          changeReason: correction.notes || 'Extraction review',
+        },
+      });
+    } else {
+      continue;
+    }
+    applied++;
+  }
+
+  return applied;
+}
+
+/**
+ * Approves a reviewed document: rebuilds the extraction from the reviewed fields, checks
+ * it against the extraction schema, re-runs normalization into the held entity, releases
+ * the hold and, for invoices, re-runs validation.
+ */
+export async function approveReview(documentId: string, userId: string): Promise<ReviewApproval> {
+  const document = await prisma.documentMetadata.findUnique({ where: { documentId } });
+  if (!document) {
+    return { success: false, issues: ['Document not found'] };
+  }
+
+  // Earlier extractions of the document are left out, so their fields can't resurface
+  const currentFields = await latestExtractedFields(documentId);
+  const fields = await prisma.documentExtractionData.findMany({
+    where: currentFields,
+    orderBy: { extractedDate: 'asc' },
+  });
+  const schema =
+    document.documentType === 'contract' ? contractEnvelopeSchema : invoicePayloadSchema;
+  const check = checkExtraction(schema, rebuildExtractionData(fields));
+  if (!check.success) {
+    return { success: false, issues: check.issues };
+  }
+  const data = check.data;
+
+  // Normalization matches on these ids, so it updates the held entity instead of creating one
+  const linked = await prisma.documentExtractionData.findFirst({
+    where: { documentId, OR: [{ invoiceId: { not: null } }, { contractId: { not: null } }] },
+  });
+
+  const { normalizeContractData, normalizeInvoiceData } = await import('./data-normalization');
+  let entityId: string;
+  let validationId: string | undefined;
+
+  if (document.documentType === 'contract') {
+    if (linked?.contractId) data.contracts.contract_id = linked.contractId;
+    entityId = await normalizeContractData(data, documentId, userId);
+
+    const contract = await prisma.contract.findUnique({ where: { contractId: entityId } });
+    if (contract?.contractStatus === PENDING_REVIEW_STATUS) {
+      await prisma.contract.update({
+        where: { contractId: entityId },
+        data: { contractStatus: data.contracts.contract_status || 'Active' },
+      });
+    }
+    await prisma.documentExtractionData.updateMany({
+      where: { documentId },
+      data: { contractId: entityId },
+    });
+  } else {
+    const heldInvoice =
+      linked?.invoiceId ??
+      (await prisma.invoice.findFirst({ where: { sourceDocumentId: documentId } }))?.invoiceId;
+    if (heldInvoice) {
+      data.validation_request.invoice_data.invoice_header.invoice_id = heldInvoice;
+    }
+    entityId = await normalizeInvoiceData(data, documentId, userId);
+
+    await prisma.invoice.updateMany({
+      where: { invoiceId: entityId, currentStatus: PENDING_REVIEW_STATUS },
+      data: { currentStatus: 'Pending' },
+    });
+    await prisma.documentExtractionData.updateMany({
+      where: { documentId },
+      data: { invoiceId: entityId },
+    });
+
+    const { runInvoiceValidation } = await import('./validation-orchestration');
+    validationId = await runInvoiceValidation(entityId, userId);
+  }
+
+  // Approval signs off on every field, corrected or not
+  await prisma.documentExtractionData.updateMany({
+    where: { ...currentFields, isValidated: { not: true } },
+    data: { isValidated: true },
+  });
+  if (document.documentType === 'invoice') {
+    const invoice = await prisma.invoice.findUnique({ where: { invoiceId: entityId } });
+    if (invoice?.vendorPartyId) {
+      await learnFromReview(documentId, invoice.vendorPartyId, userId);
+    }
+  }
+  await prisma.documentMetadata.update({
+    where: { documentId },
+    data: {
+      processingStatus: 'completed',
+      processingError: null,
+      validationCompleted: true,
+    },
+  });
+  await prisma.auditLog.create({
+    data: {
+      tableName: 'document_metadata',
+      recordId: documentId,
+      action: 'UPDATE',
+      changedFields: ['processingStatus'],
+      oldValues: { processingStatus: document.processingStatus },
+      newValues: { processingStatus: 'completed', reviewedEntityId: entityId },
+      changedBy: userId,
+      changeReason: 'Extraction review approved',
+    },
+  });
+
+  return { success: true, entityId, validationId };
+}
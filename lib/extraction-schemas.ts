@@ -0,0 +1,697 @@
+import { z } from 'zod';
+import { ExtractionRequest, ExtractionResponse, completeExtraction } from './extraction-provider';
+
+// Output schemas for LLM extraction. The ContractSphere and SR Validation shapes below are
+// the contract with the model: prompts describe them, and every response is checked
+// against a zod schema derived from them before it reaches normalization. Responses that
+// do not match are sent back to the model with the validation errors (a bounded repair
+// loop); documents that still fail go to review.
+
+// ContractSphere v2.3.1 Schema for Contract Extraction
+export const contractSphereSchema = {
+  type: 'object',
+  properties: {
+    _extraction_metadata: {
+      type: 'object',
+      properties: {
+        extraction_version: { type: 'string' },
+        processing_timestamp: { type: 'string' },
+        overall_confidence: { type: 'number' },
+        document_type_detected: { type: 'string' },
+        total_pages: { type: 'number' },
+      },
+    },
+    parties: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          party_id: { type: 'string' },
+          party_type: { type: 'string' },
+          legal_name: { type: 'string' },
+          trading_name: { type: 'string' },
+          tax_id: { type: 'string' },
+          duns_number: { type: 'string' },
+          npi_number: { type: 'string' },
+          cage_code: { type: 'string' },
+          external_ids: {
+            type: 'object',
+            properties: {
+              erp_vendor_id: { type: 'string' },
+              supplier_code: { type: 'string' },
+              erp_customer_id: { type: 'string' },
+              health_system_code: { type: 'string' },
+            },
+          },
+          primary_contact_email: { type: 'string' },
+          primary_contact_phone: { type: 'string' },
+        },
+        required: ['party_id', 'party_type', 'legal_name'],
+      },
+    },
+    contracts: {
+      type: 'object',
+      properties: {
+        contract_id: { type: 'string' },
+        contract_title: { type: 'string' },
+        contract_type: { type: 'string' },
+        version: { type: 'string' },
+        external_ids: {
+          type: 'object',
+          properties: {
+            erp_contract_number: { type: 'string' },
+          },
+        },
+        effective_date: { type: 'string' },
+        expiration_date: { type: 'string' },
+        governing_law: { type: 'string' },
+        termination_clause: { type: 'string' },
+        termination_rights: { type: 'string' },
+        auto_renewal: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            renewal_period: { type: 'string' },
+            notice_period: { type: 'string' },
+          },
+        },
+        locations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              location_id: { type: 'string' },
+              location_name: { type: 'string' },
+              location_type: { type: 'string' },
+              address: { type: 'string' },
+            },
+          },
+        },
+        contract_status: { type: 'string' },
+        processing_status: { type: 'string' },
+      },
+      required: ['contract_id', 'contract_title', 'contract_type', 'effective_date', 'expiration_date'],
+    },
+    billable_items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          item_id: { type: 'string' },
+          item_name: { type: 'string' },
+          external_ids: {
+            type: 'object',
+            properties: {
+              vendor_sku: { type: 'string' },
+              item_code: { type: 'string' },
+            },
+          },
+          pricing_model_id: { type: 'string' },
+          pricing_details: {
+            type: 'object',
+            properties: {
+              list_price: { type: 'number' },
+              unit_cost: { type: 'number' },
+              contractual_price_floor: { type: 'number' },
+              price_ceiling: { type: 'number' },
+              rate_type: { type: 'string' },
+              allowed_variance: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string' },
+                  value: { type: 'number' },
+                },
+              },
+              line_item_code: { type: 'string' },
+              currency: { type: 'string' },
+              unit_of_measure: { type: 'string' },
+            },
+          },
+        },
+        required: ['item_id', 'item_name'],
+      },
+    },
+    pricing_models: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          model_id: { type: 'string' },
+          model_name: { type: 'string' },
+          model_type: { type: 'string' },
+          version: { type: 'string' },
+        },
+        required: ['model_id', 'model_name', 'model_type'],
+      },
+    },
+    payment_terms: {
+      type: 'object',
+      properties: {
+        payment_schedule: { type: 'string' },
+        payment_method: { type: 'string' },
+        net_days: { type: 'number' },
+        currency: { type: 'string' },
+      },
+    },
+    _validation_summary: {
+      type: 'object',
+      properties: {
+        high_confidence_items: { type: 'number' },
+        items_requiring_review: { type: 'number' },
+        estimated_annual_value: { type: 'number' },
+        critical_missing_fields: { type: 'array', items: { type: 'string' } },
+        date_consistency_check: { type: 'boolean' },
+        currency_consistency_check: { type: 'boolean' },
+      },
+    },
+  },
+  required: ['parties', 'contracts', 'billable_items'],
+};
+
+// SR Validation v1.1 Schema for Invoice Extraction
+export const validationSchema = {
+  type: 'object',
+  properties: {
+    validation_request: {
+      type: 'object',
+      properties: {
+        request_id: { type: 'string' },
+        invoice_data: {
+          type: 'object',
+          properties: {
+            invoice_header: {
+              type: 'object',
+              properties: {
+                invoice_id: { type: 'string' },
+                vendor_party_id: { type: 'string' },
+                vendor_details: {
+                  type: 'object',
+                  properties: {
+                    tax_id: { type: 'string' },
+                    duns_number: { type: 'string' },
+                    npi_number: { type: 'string' },
+                    address: { type: 'string' },
+                    remit_to: { type: 'string' },
+                  },
+                },
+                customer_party_id: { type: 'string' },
+                invoice_date: { type: 'string' },
+                total_amount: { type: 'number' },
+                currency: { type: 'string' },
+                service_period: {
+                  type: 'object',
+                  properties: {
+                    start_date: { type: 'string' },
+                    end_date: { type: 'string' },
+                  },
+                },
+                service_location: {
+                  type: 'object',
+                  properties: {
+                    code: { type: 'string' },
+                    name: { type: 'string' },
+                    address: { type: 'string' },
+                  },
+                },
+                billing_aggregation_level: { type: 'string' },
+                aggregation_reference: { type: 'string' },
+                external_ids: {
+                  type: 'object',
+                  properties: {
+                    erp_invoice_id: { type: 'string' },
+                    po_number: { type: 'string' },
+                    external_voucher_id: { type: 'string' },
+                    ap_unit: { type: 'string' },
+                  },
+                },
+              },
+              required: ['invoice_id', 'vendor_party_id', 'invoice_date', 'total_amount', 'currency'],
+            },
+            line_items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  line_number: { type: 'number' },
+                  description: { type: 'string' },
+                  quantity: { type: 'number' },
+                  uom: { type: 'string' },
+                  unit_price: { type: 'number' },
+                  extended_amount: { type: 'number' },
+                  service_location: {
+                    type: 'object',
+                    properties: {
+                      code: { type: 'string' },
+                      name: { type: 'string' },
+                      address: { type: 'string' },
+                    },
+                  },
+                  aggregation_type: { type: 'string' },
+                  aggregation_method: { type: 'string' },
+                  aggregated_items: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        billable_item_id: { type: 'string' },
+                        item_name: { type: 'string' },
+                        quantity: { type: 'number' },
+                        allocated_amount: { type: 'number' },
+                      },
+                    },
+                  },
+                },
+                required: ['line_number', 'description', 'extended_amount'],
+              },
+            },
+          },
+        },
+        contract_context: {
+          type: 'object',
+          properties: {
+            primary_contract_id: { type: 'string' },
+            contract_number: { type: 'string' },
+          },
+        },
+        validation_criteria: {
+          type: 'object',
+          properties: {
+            rate_tolerance: {
+              type: 'object',
+              properties: {
+                type: { type: 'string' },
+                value: { type: 'number' },
+              },
+            },
+            auto_approve_threshold: { type: 'number' },
+            manual_review_threshold: { type: 'number' },
+          },
+        },
+      },
+    },
+    validation_result: {
+      type: 'object',
+      properties: {
+        overall_status: { type: 'string' },
+        confidence_score: { type: 'number' },
+        processing_time_ms: { type: 'number' },
+        timestamp: { type: 'string' },
+        contract_compliance: {
+          type: 'object',
+          properties: {
+            contract_match: {
+              type: 'object',
+              properties: {
+                contract_id: { type: 'string' },
+                vendor_validated: { type: 'boolean' },
+                customer_validated: { type: 'boolean' },
+                date_range_valid: { type: 'boolean' },
+                currency_match: { type: 'boolean' },
+              },
+            },
+            line_item_validation: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  line_number: { type: 'number' },
+                  validation_approach: { type: 'string' },
+                  billable_item_match: {
+                    type: 'object',
+                    properties: {
+                      item_id: { type: 'string' },
+                      item_name: { type: 'string' },
+                      match_confidence: { type: 'number' },
+                      match_method: { type: 'string' },
+                    },
+                  },
+                  pricing_validation: {
+                    type: 'object',
+                    properties: {
+                      pricing_model_id: { type: 'string' },
+                      pricing_model_type: { type: 'string' },
+                      contract_price: { type: 'number' },
+                      invoiced_price: { type: 'number' },
+                      variance_amount: { type: 'number' },
+                      variance_percentage: { type: 'number' },
+                      price_within_tolerance: { type: 'boolean' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        exceptions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              exception_type: { type: 'string' },
+              category: { type: 'string' },
+              severity: { type: 'string' },
+              field_name: { type: 'string' },
+              expected_value: { type: 'string' },
+              actual_value: { type: 'string' },
+              financial_impact_amount: { type: 'number' },
+              root_cause: { type: 'string' },
+              message: { type: 'string' },
+              recommendation: { type: 'string' },
+            },
+          },
+        },
+        financial_summary: {
+          type: 'object',
+          properties: {
+            expected_net_amount: { type: 'number' },
+            actual_net_amount: { type: 'number' },
+            variance_amount: { type: 'number' },
+            potential_savings: { type: 'number' },
+            recommended_payment_amount: { type: 'number' },
+          },
+        },
+        next_actions: {
+          type: 'object',
+          properties: {
+            primary_action: { type: 'string' },
+            required_approvers: { type: 'array', items: { type: 'string' } },
+            deadline: { type: 'string' },
+            notes: { type: 'string' },
+          },
+        },
+      },
+    },
+    extraction_intelligence: {
+      type: 'object',
+      properties: {
+        processing_statistics: {
+          type: 'object',
+          properties: {
+            total_items_detected: { type: 'number' },
+            items_extracted: { type: 'number' },
+            high_confidence_items: { type: 'number' },
+            items_requiring_review: { type: 'number' },
+            average_confidence: { type: 'number' },
+          },
+        },
+        pattern_recognition_results: {
+          type: 'object',
+          properties: {
+            identifiers_found: {
+              type: 'object',
+              properties: {
+                ein: { type: 'number' },
+                duns: { type: 'number' },
+                vendor_ids: { type: 'number' },
+                npi: { type: 'number' },
+              },
+            },
+          },
+        },
+        quality_flags: {
+          type: 'object',
+          properties: {
+            currency_inconsistency: { type: 'boolean' },
+            date_logic_errors: { type: 'boolean' },
+            missing_critical_pricing: { type: 'number' },
+            unusual_terms_detected: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  required: ['validation_request', 'validation_result'],
+};
+
+/**
+ * Parse a JSON model response, closing an unterminated string if the first parse fails.
+ * Returns null when the response still isn't valid JSON.
+ */
+export function parseJsonResponse(jsonText: string, label: string): any | null {
+  try {
+    return JSON.parse(jsonText);
+  } catch (parseError) {
+    // Try to fix unterminated strings and other common issues
+    console.warn(`${label} JSON parse failed, attempting to fix:`, parseError);
+
+    // Try to fix unterminated strings by finding and closing them
+    let fixedJson = jsonText;
+
+    // Count quotes to find unbalanced strings
+    const quoteMatches = fixedJson.match(/"/g);
+    if (quoteMatches && quoteMatches.length % 2 !== 0) {
+      // Odd number of quotes - likely an unterminated string
+      const lastQuoteIndex = fixedJson.lastIndexOf('"');
+      if (lastQuoteIndex > 0) {
+        // Check if it's escaped
+        let escapeCount = 0;
+        for (let i = lastQuoteIndex - 1; i >= 0 && fixedJson[i] === '\\'; i--) {
+          escapeCount++;
+        }
+        // If not escaped (or escaped an even number of times), it's an opening quote
+        if (escapeCount % 2 === 0) {
+          // Try to find where the string should end (before next comma, }, or end of text)
+          const nextComma = fixedJson.indexOf(',', lastQuoteIndex);
+          const nextBrace = fixedJson.indexOf('}', lastQuoteIndex);
+          const nextBracket = fixedJson.indexOf(']', lastQuoteIndex);
+
+          let insertPos = fixedJson.length;
+          if (nextComma > 0) insertPos = Math.min(insertPos, nextComma);
+          if (nextBrace > 0) insertPos = Math.min(insertPos, nextBrace);
+          if (nextBracket > 0) insertPos = Math.min(insertPos, nextBracket);
+
+          fixedJson = fixedJson.substring(0, insertPos) + '"' + fixedJson.substring(insertPos);
+        }
+      }
+    }
+
+    // Try parsing again
+    try {
+      return JSON.parse(fixedJson);
+    } catch (secondError) {
+      console.error(`${label} JSON parsing failed after fix attempt:`, secondError);
+      return null;
+    }
+  }
+}
+
+/**
+ * Strip markdown fences and any text around the JSON object in a model response.
+ */
+export function responseJsonText(text: string): string {
+  // Clean up the response in case the model includes markdown code blocks
+  let jsonText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+
+  // Try to find JSON object boundaries if response contains extra text
+  const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
+  return jsonMatch ? jsonMatch[0] : jsonText;
+}
+
+interface JsonSchema {
+  type: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: readonly string[];
+}
+
+export interface SchemaOptions {
+  // Chunk responses cover part of a document, so fields required of the whole document
+  // (contract dates, the invoice header) may be missing. Records in arrays must still be
+  // complete.
+  partial?: boolean;
+}
+
+// Models often quote numbers or print them with currency symbols and separators
+const numberValue = z.preprocess((value) => {
+  if (typeof value !== 'string') return value;
+  const cleaned = value.replace(/[$€£,\s]/g, '');
+  return cleaned !== '' && Number.isFinite(Number(cleaned)) ? Number(cleaned) : value;
+}, z.number());
+
+// Identifiers such as invoice numbers are sometimes returned as numbers
+const stringValue = (required: boolean) =>
+  z.preprocess(
+    (value) => (typeof value === 'number' ? String(value) : value),
+    required ? z.string().trim().min(1) : z.string()
+  );
+
+function toZod(
+  schema: JsonSchema,
+  options: SchemaOptions,
+  required: boolean,
+  arrayItem: boolean = false
+): z.ZodType {
+  switch (schema.type) {
+    case 'object': {
+      const requiredKeys = new Set(options.partial && !arrayItem ? [] : schema.required || []);
+      const shape: Record<string, z.ZodType> = {};
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        const type = toZod(property, options, requiredKeys.has(key));
+        shape[key] = requiredKeys.has(key) ? type : type.nullable().optional();
+      }
+      // Fields outside the schema (confidence scores, source pages) are kept
+      return z.looseObject(shape);
+    }
+    case 'array':
+      return z.array(schema.items ? toZod(schema.items, options, false, true) : z.unknown());
+    case 'string':
+      return stringValue(required);
+    case 'number':
+      return numberValue;
+    case 'boolean':
+      return z.boolean();
+    default:
+      return z.unknown();
+  }
+}
+
+/**
+ * zod schema for one of the JSON schemas above.
+ */
+export function jsonSchemaToZod(schema: JsonSchema, options: SchemaOptions = {}): z.ZodType {
+  return toZod(schema, options, true);
+}
+
+export const contractEnvelopeSchema = jsonSchemaToZod(contractSphereSchema);
+export const partialContractEnvelopeSchema = jsonSchemaToZod(contractSphereSchema, {
+  partial: true,
+});
+export const invoicePayloadSchema = jsonSchemaToZod(validationSchema);
+export const partialInvoicePayloadSchema = jsonSchemaToZod(validationSchema, { partial: true });
+
+export const simpleInvoiceSchema = z.looseObject({
+  invoice_number: stringValue(false).nullable().optional(),
+  invoice_date: z.string().nullable().optional(),
+  vendor_name: z.string().nullable().optional(),
+  gross_amount: numberValue.nullable().optional(),
+  net_amount: numberValue.nullable().optional(),
+  tax_amount: numberValue.nullable().optional(),
+  currency: z.string().nullable().optional(),
+});
+
+export const documentTypeSchema = z.looseObject({
+  type: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+    z.enum(['contract', 'invoice', 'other'])
+  ),
+  confidence: numberValue.pipe(z.number().min(0).max(1)),
+  reasoning: z.string().nullable().optional(),
+});
+
+export interface SchemaCheck {
+  success: boolean;
+  // Parsed values when valid (numbers and identifiers coerced), else the input
+  data: any;
+  // "path: message" for each problem
+  issues: string[];
+  // Paths of the fields with problems; "$" is the whole response
+  paths: string[];
+}
+
+function issuePath(path: readonly PropertyKey[]): string {
+  return path.length > 0 ? path.map(String).join('.') : '$';
+}
+
+/**
+ * Check parsed model output against an extraction schema. null (a response that could
+ * not be parsed) fails as a whole.
+ */
+export function checkExtraction(schema: z.ZodType, data: unknown): SchemaCheck {
+  if (data === null || data === undefined) {
+    return { success: false, data: null, issues: ['$: response is not valid JSON'], paths: ['$'] };
+  }
+
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data, issues: [], paths: [] };
+  }
+
+  const paths = result.error.issues.map((issue) => issuePath(issue.path));
+  return {
+    success: false,
+    data,
+    issues: result.error.issues.map((issue, i) => `${paths[i]}: ${issue.message}`),
+    paths: Array.from(new Set(paths)),
+  };
+}
+
+// Repair requests sent after the first response; each one is a full model call
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// Errors listed in a repair request; the rest usually share a cause with these
+const MAX_ISSUES_IN_PROMPT = 40;
+
+function repairPrompt(prompt: string, jsonText: string, issues: string[]): string {
+  const listed = issues.slice(0, MAX_ISSUES_IN_PROMPT).map((issue) => `- ${issue}`);
+  if (issues.length > listed.length) {
+    listed.push(`- ...and ${issues.length - listed.length} more`);
+  }
+
+  return `Your previous response did not match the required schema.
+
+Validation errors (path: problem):
+${listed.join('\n')}
+
+Previous response:
+${jsonText}
+
+Return the complete corrected JSON object. Keep every value that was already valid and fix only the fields listed above. Take values from the document; use null for optional fields that are not in it.
+
+The original request follows.
+
+${prompt}`;
+}
+
+export interface CheckedResponse {
+  // Schema-checked data, or the last parsed response when it never validated; null when
+  // no response could be parsed
+  data: any | null;
+  // JSON text of the last response, for salvaging fields from unparseable output
+  jsonText: string;
+  response: ExtractionResponse;
+  // Fields that failed validation and were corrected by a repair request
+  repairedFields: string[];
+  // Problems left after the last repair attempt; empty when the response is valid
+  schemaErrors: string[];
+}
+
+/**
+ * Run an extraction request and check the response against schema, sending the
+ * validation errors back to the model up to maxAttempts times until it conforms.
+ */
+export async function completeWithRepair(
+  request: ExtractionRequest,
+  schema: z.ZodType,
+  label: string,
+  complete: (request: ExtractionRequest) => Promise<ExtractionResponse> = completeExtraction,
+  maxAttempts: number = MAX_REPAIR_ATTEMPTS
+): Promise<CheckedResponse> {
+  let response = await complete(request);
+  let jsonText = responseJsonText(response.text);
+  let check = checkExtraction(schema, parseJsonResponse(jsonText, label));
+  const failedPaths = new Set(check.paths);
+
+  for (let attempt = 1; attempt <= maxAttempts && !check.success; attempt++) {
+    console.warn(
+      `${label} response failed schema validation (repair ${attempt}/${maxAttempts}):`,
+      check.issues
+    );
+    response = await complete({
+      ...request,
+      prompt: repairPrompt(request.prompt, jsonText, check.issues),
+      repairAttempt: attempt,
+    });
+    jsonText = responseJsonText(response.text);
+    check = checkExtraction(schema, parseJsonResponse(jsonText, label));
+    check.paths.forEach((path) => failedPaths.add(path));
+  }
+
+  const remaining = new Set(check.paths);
+  return {
+    data: check.data,
+    jsonText,
+    response,
+    repairedFields: Array.from(failedPaths).filter((path) => !remaining.has(path)),
+    schemaErrors: check.issues,
+  };
+}
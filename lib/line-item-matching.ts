@@ -0,0 +1,410 @@
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma, DbClient } from './db';
+import { UomConversionRow, loadUomConversions, resolveUomConversion } from './uom-conversion';
+
+// Line item matching. Invoice lines are matched to the billable items of the invoice's
+// contract before validation. A SKU or catalog number printed in the description, or a
+// description a reviewer confirmed earlier (an alias), identifies the item outright. Otherwise
+// items are scored on description similarity (shared words and shared character trigrams, so
+// abbreviations and OCR slips still score), UOM compatibility, how close the invoiced price is
+// to the contract price and the service category. Confident matches are applied; weaker ones
+// are kept as Pending suggestions until a reviewer confirms or rejects them, and a
+// confirmation is remembered as an alias of the item.
+
+// Confidence is 0-100, as stored in LineItemMatch.matchConfidence
+export const AUTO_MATCH_CONFIDENCE = 80;
+export const SUGGESTION_CONFIDENCE = 50;
+
+const DESCRIPTION_WEIGHT = 0.6;
+const UOM_WEIGHT = 0.15;
+const PRICE_WEIGHT = 0.15;
+const CATEGORY_WEIGHT = 0.1;
+// Score of a signal the line or the item has no data for
+const UNKNOWN_SIGNAL = 0.5;
+// Relative price difference at which price proximity reaches zero
+const MAX_PRICE_DIFFERENCE = 0.5;
+
+export type LineMatchMethod = 'sku' | 'catalog_number' | 'alias' | 'description' | 'manual';
+export type LineMatchStatus = 'Matched' | 'Pending' | 'Confirmed' | 'Rejected';
+
+export class LineItemMatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LineItemMatchError';
+  }
+}
+
+export interface MatchableLine {
+  description: string;
+  invoiceUom: string | null;
+  invoiceUnitPrice: Decimal | number | null;
+  serviceCategoryId: number | null;
+}
+
+export interface MatchableItem {
+  itemId: string;
+  itemName: string;
+  itemDescription: string | null;
+  sku: string | null;
+  catalogNumber: string | null;
+  primaryUom: string;
+  uomConversionRules: unknown;
+  contractPrice: Decimal | number | null;
+  listPrice: Decimal | number;
+  serviceCategoryId: number | null;
+  // Normalized descriptions confirmed as this item
+  aliases: string[];
+}
+
+export interface LineMatchBreakdown {
+  identifier: 'sku' | 'catalog_number' | 'alias' | null;
+  description: { token: number; fuzzy: number; score: number };
+  uom: { score: number; invoiceUom: string | null; contractUom: string; conversion: string | null };
+  price: { score: number; invoicedPrice: number | null; contractPrice: number };
+  serviceCategory: { score: number };
+}
+
+export interface LineMatch {
+  itemId: string;
+  confidence: number;
+  method: LineMatchMethod;
+  breakdown: LineMatchBreakdown;
+}
+
+const round = (value: number, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Lowercased description words without punctuation; the form aliases are stored in.
+ */
+export function normalizeDescription(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function normalizeCode(value: string | null | undefined): string {
+  return (value || '').replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+}
+
+function dice<T>(left: Set<T>, right: Set<T>): number {
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+  const shared = Array.from(left).filter((value) => right.has(value)).length;
+  return (2 * shared) / (left.size + right.size);
+}
+
+// Shared words
+function tokenSimilarity(a: string, b: string): number {
+  return dice(new Set(a.split(' ').filter(Boolean)), new Set(b.split(' ').filter(Boolean)));
+}
+
+// Shared character trigrams, which tolerate abbreviations and misspellings
+function fuzzySimilarity(a: string, b: string): number {
+  const trigrams = (text: string) => {
+    const padded = `  ${text} `;
+    const grams = new Set<string>();
+    for (let i = 0; i < padded.length - 2; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+    return grams;
+  };
+  return a && b ? dice(trigrams(a), trigrams(b)) : 0;
+}
+
+/**
+ * Scores how likely the line bills the item, with the method and the score of each signal.
+ */
+export function scoreLineMatch(
+  line: MatchableLine,
+  item: MatchableItem,
+  conversions: UomConversionRow[] = [],
+  vendorPartyId?: string | null
+): LineMatch {
+  const description = normalizeDescription(line.description);
+
+  // Codes are compared whole, so "CMP-14" is one token
+  const lineCodes = new Set(line.description.split(/\s+/).map(normalizeCode));
+  let identifier: LineMatchBreakdown['identifier'] = null;
+  if (item.sku && lineCodes.has(normalizeCode(item.sku))) {
+    identifier = 'sku';
+  } else if (item.catalogNumber && lineCodes.has(normalizeCode(item.catalogNumber))) {
+    identifier = 'catalog_number';
+  } else if (description && item.aliases.includes(description)) {
+    identifier = 'alias';
+  }
+
+  let token = 0;
+  let fuzzy = 0;
+  for (const name of [item.itemName, item.itemDescription]) {
+    if (!name) continue;
+    const normalized = normalizeDescription(name);
+    token = Math.max(token, tokenSimilarity(description, normalized));
+    fuzzy = Math.max(fuzzy, fuzzySimilarity(description, normalized));
+  }
+  const descriptionScore = Math.max(token, fuzzy);
+
+  const conversion = line.invoiceUom
+    ? resolveUomConversion(line.invoiceUom, item, conversions, vendorPartyId)
+    : null;
+  let uomScore = UNKNOWN_SIGNAL;
+  if (line.invoiceUom) {
+    uomScore = conversion ? 1 : 0;
+  }
+
+  // The invoiced price in contract units against the contract price
+  const contractPrice = Number(item.contractPrice ?? item.listPrice);
+  let invoicedPrice: number | null = null;
+  let priceScore = UNKNOWN_SIGNAL;
+  if (line.invoiceUnitPrice !== null && contractPrice > 0) {
+    invoicedPrice = Number(line.invoiceUnitPrice) / (conversion ? Number(conversion.factor) : 1);
+    const difference = Math.abs(invoicedPrice - contractPrice) / contractPrice;
+    priceScore = Math.max(0, 1 - difference / MAX_PRICE_DIFFERENCE);
+  }
+
+  let categoryScore = UNKNOWN_SIGNAL;
+  if (line.serviceCategoryId !== null && item.serviceCategoryId !== null) {
+    categoryScore = line.serviceCategoryId === item.serviceCategoryId ? 1 : 0;
+  }
+
+  const breakdown: LineMatchBreakdown = {
+    identifier,
+    description: { token: round(token), fuzzy: round(fuzzy), score: round(descriptionScore) },
+    uom: {
+      score: uomScore,
+      invoiceUom: line.invoiceUom,
+      contractUom: item.primaryUom,
+      conversion: conversion?.source || null,
+    },
+    price: {
+      score: round(priceScore),
+      invoicedPrice: invoicedPrice !== null ? round(invoicedPrice, 4) : null,
+      contractPrice,
+    },
+    serviceCategory: { score: categoryScore },
+  };
+
+  if (identifier) {
+    return { itemId: item.itemId, confidence: 100, method: identifier, breakdown };
+  }
+  const score =
+    DESCRIPTION_WEIGHT * descriptionScore +
+    UOM_WEIGHT * uomScore +
+    PRICE_WEIGHT * priceScore +
+    CATEGORY_WEIGHT * categoryScore;
+  return {
+    itemId: item.itemId,
+    confidence: round(score * 100, 2),
+    method: 'description',
+    breakdown,
+  };
+}
+
+/**
+ * Items ordered by confidence, best first.
+ */
+export function rankLineMatches(
+  line: MatchableLine,
+  items: MatchableItem[],
+  conversions: UomConversionRow[] = [],
+  vendorPartyId?: string | null
+): LineMatch[] {
+  return items
+    .map((item) => scoreLineMatch(line, item, conversions, vendorPartyId))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+async function loadMatchableItems(contractId: string, db: DbClient): Promise<MatchableItem[]> {
+  const items = await db.billableItem.findMany({
+    where: { contractId },
+    include: { aliases: { select: { normalizedText: true } } },
+  });
+  return items.map((item) => ({
+    ...item,
+    aliases: item.aliases.map((alias) => alias.normalizedText),
+  }));
+}
+
+/**
+ * Matches the invoice's lines to the billable items of its contract. Lines already matched
+ * to an item of the contract are kept; the others are matched again, skipping items a
+ * reviewer rejected for the line. Returns how many lines were matched and how many wait for
+ * confirmation.
+ */
+export async function matchInvoiceLineItems(
+  invoiceId: string,
+  userId: string,
+  db: DbClient = prisma
+): Promise<{ matched: number; pending: number }> {
+  const invoice = await db.invoice.findUnique({
+    where: { invoiceId },
+    include: {
+      invoiceLineItems: {
+        include: {
+          billableItem: { select: { contractId: true } },
+          lineItemMatches: { where: { matchStatus: 'Rejected' } },
+        },
+      },
+    },
+  });
+  const result = { matched: 0, pending: 0 };
+  if (!invoice?.contractId) {
+    return result;
+  }
+
+  const items = await loadMatchableItems(invoice.contractId, db);
+  const conversions = await loadUomConversions(invoice.vendorPartyId, db);
+
+  for (const line of invoice.invoiceLineItems) {
+    if (line.billableItem?.contractId === invoice.contractId) {
+      continue;
+    }
+
+    // Suggestions from an earlier run, or for another contract, are replaced
+    await db.lineItemMatch.deleteMany({
+      where: { lineItemId: line.lineItemId, matchStatus: { not: 'Rejected' } },
+    });
+    const rejected = new Set(line.lineItemMatches.map((match) => match.billableItemId));
+    const best = rankLineMatches(
+      line,
+      items.filter((item) => !rejected.has(item.itemId)),
+      conversions,
+      invoice.vendorPartyId
+    )[0];
+
+    const confident = !!best && best.confidence >= AUTO_MATCH_CONFIDENCE;
+    if (best && best.confidence >= SUGGESTION_CONFIDENCE) {
+      await db.lineItemMatch.create({
+        data: {
+          lineItemId: line.lineItemId,
+          billableItemId: best.itemId,
+          matchConfidence: new Decimal(best.confidence),
+          matchMethod: best.method,
+          matchScoreBreakdown: best.breakdown as unknown as Prisma.InputJsonObject,
+          matchStatus: confident ? 'Matched' : 'Pending',
+          uomValid: line.invoiceUom ? best.breakdown.uom.score === 1 : null,
+          matchedBy: userId,
+        },
+      });
+      result[confident ? 'matched' : 'pending']++;
+    }
+    if (confident || line.billableItemId) {
+      await db.invoiceLineItem.update({
+        where: { lineItemId: line.lineItemId },
+        data: { billableItemId: confident ? best!.itemId : null },
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Matches a line to an item chosen or confirmed by a reviewer, and remembers the line's
+ * description as an alias of the item for later invoices.
+ */
+export async function confirmLineItemMatch(
+  lineItemId: string,
+  billableItemId: string,
+  userId: string,
+  db: DbClient = prisma
+): Promise<void> {
+  const line = await db.invoiceLineItem.findUnique({
+    where: { lineItemId },
+    include: { invoice: { select: { contractId: true, vendorPartyId: true } } },
+  });
+  if (!line) {
+    throw new LineItemMatchError('Line item not found');
+  }
+  if (!line.invoice.contractId) {
+    throw new LineItemMatchError('The invoice has no contract');
+  }
+  const item = (await loadMatchableItems(line.invoice.contractId, db)).find(
+    (candidate) => candidate.itemId === billableItemId
+  );
+  if (!item) {
+    throw new LineItemMatchError("Billable item is not on the invoice's contract");
+  }
+
+  const conversions = await loadUomConversions(line.invoice.vendorPartyId, db);
+  const scored = scoreLineMatch(line, item, conversions, line.invoice.vendorPartyId);
+  const suggestion = await db.lineItemMatch.findFirst({
+    where: { lineItemId, billableItemId, matchStatus: { in: ['Matched', 'Pending'] } },
+  });
+  await db.lineItemMatch.deleteMany({
+    where: {
+      lineItemId,
+      matchStatus: { in: ['Matched', 'Pending', 'Confirmed'] },
+      ...(suggestion ? { NOT: { matchId: suggestion.matchId } } : {}),
+    },
+  });
+  const confirmation = {
+    matchStatus: 'Confirmed',
+    matchScoreBreakdown: scored.breakdown as unknown as Prisma.InputJsonObject,
+    uomValid: line.invoiceUom ? scored.breakdown.uom.score === 1 : null,
+    matchedBy: userId,
+    matchedDate: new Date(),
+  };
+  if (suggestion) {
+    await db.lineItemMatch.update({ where: { matchId: suggestion.matchId }, data: confirmation });
+  } else {
+    await db.lineItemMatch.create({
+      data: {
+        ...confirmation,
+        lineItemId,
+        billableItemId,
+        matchConfidence: new Decimal(100),
+        matchMethod: 'manual',
+      },
+    });
+  }
+  await db.invoiceLineItem.update({ where: { lineItemId }, data: { billableItemId } });
+
+  const normalizedText = normalizeDescription(line.description);
+  const known = [item.itemName, item.itemDescription].map((name) =>
+    normalizeDescription(name || '')
+  );
+  if (normalizedText && !known.includes(normalizedText)) {
+    await db.billableItemAlias.upsert({
+      where: { billableItemId_normalizedText: { billableItemId, normalizedText } },
+      update: {},
+      create: { billableItemId, aliasText: line.description, normalizedText, createdBy: userId },
+    });
+  }
+}
+
+/**
+ * Rejects a suggested or applied match. The item is not suggested for the line again, and
+ * an alias that produced the match is forgotten.
+ */
+export async function rejectLineItemMatch(
+  matchId: string,
+  userId: string,
+  db: DbClient = prisma
+): Promise<void> {
+  const match = await db.lineItemMatch.findUnique({
+    where: { matchId },
+    include: { lineItem: true },
+  });
+  if (!match) {
+    throw new LineItemMatchError('Match not found');
+  }
+
+  await db.lineItemMatch.update({
+    where: { matchId },
+    data: { matchStatus: 'Rejected', matchedBy: userId, matchedDate: new Date() },
+  });
+  if (match.lineItem.billableItemId === match.billableItemId) {
+    await db.invoiceLineItem.update({
+      where: { lineItemId: match.lineItemId },
+      data: { billableItemId: null },
+    });
+  }
+  await db.billableItemAlias.deleteMany({
+    where: {
+      billableItemId: match.billableItemId,
+      normalizedText: normalizeDescription(match.lineItem.description),
+    },
+  });
+}
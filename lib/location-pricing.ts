@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { Decimal } from '@prisma/client/runtime/library';
+
+// Per-location price overrides stored in ContractLocation.locationSpecificPricing.
+// A facility on a master agreement can have its own negotiated price, and optionally its
+// own tolerance, for any billable item on the contract:
+//
+//   { "items": { "<billableItemId>": { "price": 42.5, "tolerance_type": "percentage",
+//                                      "tolerance_value": 2, "notes": "CAH rate" } } }
+
+export const locationPriceOverrideSchema = z.object({
+  price: z.number().nonnegative(),
+  tolerance_type: z.enum(['percentage', 'absolute']).optional(),
+  tolerance_value: z.number().nonnegative().optional(),
+  notes: z.string().max(500).optional(),
+});
+
+export const locationSpecificPricingSchema = z.object({
+  items: z.record(z.string(), locationPriceOverrideSchema),
+});
+
+export type LocationPriceOverride = z.infer<typeof locationPriceOverrideSchema>;
+export type LocationSpecificPricing = z.infer<typeof locationSpecificPricingSchema>;
+
+export interface ResolvedLocationPrice {
+  locationId: string;
+  price: Decimal;
+  toleranceType?: 'percentage' | 'absolute';
+  toleranceValue?: Decimal;
+}
+
+/**
+ * Parse stored locationSpecificPricing. Anything that doesn't match the schema is ignored
+ * (with a warning) rather than failing validation.
+ */
+export function parseLocationSpecificPricing(value: unknown): LocationSpecificPricing {
+  if (value === null || value === undefined) {
+    return { items: {} };
+  }
+
+  const parsed = locationSpecificPricingSchema.safeParse(value);
+  if (!parsed.success) {
+    console.warn('Ignoring invalid locationSpecificPricing:', parsed.error.message);
+    return { items: {} };
+  }
+  return parsed.data;
+}
+
+/**
+ * The override for a billable item at a location, from the contract's ContractLocation rows.
+ */
+export function getLocationPrice(
+  contractLocations: Array<{ locationId: string; locationSpecificPricing?: unknown }> | undefined,
+  locationId: string | null | undefined,
+  billableItemId: string
+): ResolvedLocationPrice | null {
+  if (!locationId || !contractLocations) {
+    return null;
+  }
+
+  const contractLocation = contractLocations.find((cl) => cl.locationId === locationId);
+  if (!contractLocation) {
+    return null;
+  }
+
+  const override = parseLocationSpecificPricing(contractLocation.locationSpecificPricing).items[
+    billableItemId
+  ];
+  if (!override) {
+    return null;
+  }
+
+  return {
+    locationId,
+    price: new Decimal(override.price),
+    toleranceType: override.tolerance_type,
+    toleranceValue:
+      override.tolerance_value !== undefined ? new Decimal(override.tolerance_value) : undefined,
+  };
+}
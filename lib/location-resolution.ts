@@ -0,0 +1,151 @@
+import { prisma } from './db';
+
+// Resolve a service / ship-to location printed on an invoice to a Location record,
+// by facility code first, then by name, then by street address.
+
+export interface ExtractedLocation {
+  code?: string;
+  name?: string;
+  address?: string;
+}
+
+export interface LocationCandidate {
+  locationId: string;
+  locationCode: string;
+  locationName: string;
+  address?: string | null;
+  city?: string | null;
+  postalCode?: string | null;
+}
+
+export type LocationMatchMethod = 'code' | 'name' | 'address';
+
+export interface LocationMatch<T extends LocationCandidate = LocationCandidate> {
+  location: T;
+  matchedOn: LocationMatchMethod;
+}
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  drive: 'dr',
+  boulevard: 'blvd',
+  suite: 'ste',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+};
+
+export function normalizeLocationText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map((word) => ADDRESS_ABBREVIATIONS[word] || word)
+    .join(' ');
+}
+
+/**
+ * Single-line form of an extracted location, as stored in serviceLocationText.
+ */
+export function formatLocationText(extracted?: ExtractedLocation | null): string | null {
+  if (!extracted) {
+    return null;
+  }
+  const parts = [extracted.code, extracted.name, extracted.address]
+    .map((part) => part?.trim())
+    .filter((part): part is string => !!part);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function unique<T>(matches: T[]): T | null {
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Match an extracted location against known locations. Name and address matches must be
+ * unambiguous; a code match is exact.
+ */
+export function matchLocation<T extends LocationCandidate>(
+  extracted: ExtractedLocation | null | undefined,
+  locations: T[]
+): LocationMatch<T> | null {
+  if (!extracted) {
+    return null;
+  }
+
+  // Facility code, also accepted when the vendor printed only a code in the name field
+  for (const value of [extracted.code, extracted.name]) {
+    if (!value) continue;
+    const code = normalizeLocationText(value);
+    const byCode = locations.find(
+      (location) => normalizeLocationText(location.locationCode) === code
+    );
+    if (byCode) {
+      return { location: byCode, matchedOn: 'code' };
+    }
+  }
+
+  if (extracted.name) {
+    const name = normalizeLocationText(extracted.name);
+    const exact = unique(
+      locations.filter((location) => normalizeLocationText(location.locationName) === name)
+    );
+    if (exact) {
+      return { location: exact, matchedOn: 'name' };
+    }
+
+    const partial = unique(
+      locations.filter((location) => {
+        const candidate = normalizeLocationText(location.locationName);
+        return candidate.length >= 4 && (name.includes(candidate) || candidate.includes(name));
+      })
+    );
+    if (partial) {
+      return { location: partial, matchedOn: 'name' };
+    }
+  }
+
+  if (extracted.address) {
+    const address = normalizeLocationText(extracted.address);
+    const byAddress = unique(
+      locations.filter((location) => {
+        if (!location.address) return false;
+        if (!address.includes(normalizeLocationText(location.address))) return false;
+        // Same street address in another city is a different facility
+        return (
+          !location.postalCode || address.includes(normalizeLocationText(location.postalCode))
+        );
+      })
+    );
+    if (byAddress) {
+      return { location: byAddress, matchedOn: 'address' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolves extracted locations against the active Location table, loaded once per resolver.
+ */
+export async function createLocationResolver(): Promise<
+  (extracted?: ExtractedLocation | null) => LocationMatch | null
+> {
+  const locations = await prisma.location.findMany({
+    where: { isActive: true },
+    select: {
+      locationId: true,
+      locationCode: true,
+      locationName: true,
+      address: true,
+      city: true,
+      postalCode: true,
+    },
+  });
+
+  return (extracted) => matchLocation(extracted, locations);
+}
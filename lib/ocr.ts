@@ -1,5 +1,7 @@
 import { readFileSync } from 'fs';
-import { join } from 'path';
+import { extname, join } from 'path';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { Page as TesseractPage, Worker as TesseractWorker } from 'tesseract.js';
 
 export interface OCRResult {
   text: string;
@@ -10,9 +12,18 @@ export interface OCRResult {
 export interface PageOCRResult {
   pageNumber: number;
   text: string;
+  // Page size in PDF points, when known
+  width?: number;
+  height?: number;
+  // One box per word
   boundingBoxes?: BoundingBox[];
+  // 'text_layer' when read from the PDF text, 'ocr' when recognized from the page image
+  source?: 'text_layer' | 'ocr';
+  // 0-1; text layer pages are 1, OCR pages carry the engine's mean word confidence
+  confidence?: number;
 }
 
+// PDF points at scale 1, origin at the top left of the page
 export interface BoundingBox {
   x: number;
   y: number;
@@ -21,6 +32,100 @@ export interface BoundingBox {
   text: string;
 }
 
+export const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.tif', '.tiff'];
+
+// Pages whose text layer has fewer characters than this are treated as scans
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Scanned pages are rasterized at this resolution before OCR
+const OCR_RENDER_DPI = 300;
+
+export function isImageFile(filepath: string): boolean {
+  return IMAGE_EXTENSIONS.includes(extname(filepath).toLowerCase());
+}
+
+/**
+ * Whether a page needs OCR: scanned and faxed pages have no text layer, or only a stray
+ * header or page number.
+ */
+export function needsOcr(page: PageOCRResult): boolean {
+  return page.text.replace(/\s+/g, '').length < MIN_TEXT_LAYER_CHARS;
+}
+
+/**
+ * Converts a Tesseract page into a PageOCRResult. Word boxes are divided by `scale` so pages
+ * rasterized from a PDF report PDF points like the text layer does.
+ */
+export function ocrPageResult(
+  result: Pick<TesseractPage, 'text' | 'confidence' | 'blocks'>,
+  pageNumber: number,
+  scale: number = 1,
+  size?: { width: number; height: number }
+): PageOCRResult {
+  const boundingBoxes: BoundingBox[] = [];
+  for (const block of result.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          if (!word.text.trim()) continue;
+          boundingBoxes.push({
+            x: word.bbox.x0 / scale,
+            y: word.bbox.y0 / scale,
+            width: (word.bbox.x1 - word.bbox.x0) / scale,
+            height: (word.bbox.y1 - word.bbox.y0) / scale,
+            text: word.text,
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    pageNumber,
+    text: result.text.replace(/[ \t]+/g, ' ').trim(),
+    width: size?.width,
+    height: size?.height,
+    boundingBoxes,
+    source: 'ocr',
+    confidence: Math.round(result.confidence) / 100,
+  };
+}
+
+/**
+ * Starts a Tesseract worker with local language data, so OCR never downloads models.
+ * OCR_LANG_PATH overrides the bundled English data with a directory of traineddata files.
+ */
+async function createOcrWorker(): Promise<TesseractWorker> {
+  const { createWorker } = await import('tesseract.js');
+  const langPath =
+    process.env.OCR_LANG_PATH ||
+    join(process.cwd(), 'node_modules', '@tesseract.js-data', 'eng', '4.0.0');
+  return createWorker(process.env.OCR_LANGUAGES || 'eng', undefined, {
+    langPath,
+    gzip: !process.env.OCR_LANG_PATH,
+    cacheMethod: 'none',
+  });
+}
+
+/**
+ * OCR for image uploads (PNG, JPEG, TIFF). Boxes are in image pixels. Multi-page TIFFs are
+ * read up to their first page, which is what Tesseract decodes.
+ */
+export async function extractTextFromImage(filepath: string): Promise<OCRResult> {
+  const worker = await createOcrWorker();
+  try {
+    const { data } = await worker.recognize(
+      readFileSync(filepath),
+      {},
+      { text: true, blocks: true }
+    );
+    const page = ocrPageResult(data, 1);
+    return { text: page.text, pages: [page], totalPages: 1 };
+  } finally {
+    await worker.terminate();
+  }
+}
+
 export async function extractTextFromPDF(filepath: string): Promise<OCRResult> {
   return new Promise((resolve, reject) => {
     try {
@@ -87,26 +192,133 @@ export async function extractTextFromPDF(filepath: string): Promise<OCRResult> {
   });
 }
 
+/**
+ * Text with word-level bounding boxes, read with pdfjs-dist. Boxes are in PDF points at
+ * scale 1 with the origin at the top left of the page. Pages without a text layer are
+ * rasterized and OCR'd, and image files are OCR'd directly. Falls back to pdf2json text
+ * without boxes when pdfjs cannot read the file.
+ */
 export async function extractTextWithCoordinates(filepath: string): Promise<OCRResult> {
-  // This is a placeholder for more advanced OCR with bounding boxes
-  // In production, you would use:
-  // - AWS Textract
-  // - Google Cloud Vision API
-  // - Tesseract.js with image preprocessing
-  // - pdfjs-dist for more detailed text extraction with positions
-
-  const basicResult = await extractTextFromPDF(filepath);
-
-  // Add placeholder bounding boxes (would be populated by actual OCR service)
-  const resultWithBoxes: OCRResult = {
-    ...basicResult,
-    pages: basicResult.pages.map((page) => ({
-      ...page,
-      boundingBoxes: [], // Would be populated by OCR service
-    })),
-  };
+  if (isImageFile(filepath)) {
+    return extractTextFromImage(filepath);
+  }
 
-  return resultWithBoxes;
+  try {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const pdf = await pdfjs.getDocument({
+      data: new Uint8Array(readFileSync(filepath)),
+      // Font metrics for the standard 14 fonts; without them text widths are estimates
+      standardFontDataUrl:
+        join(process.cwd(), 'node_modules', 'pdfjs-dist', 'standard_fonts') + '/',
+      disableFontFace: true,
+      isEvalSupported: false,
+    }).promise;
+
+    const pages: PageOCRResult[] = [];
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: 1 });
+        const content = await page.getTextContent();
+        const boundingBoxes: BoundingBox[] = [];
+        let pageText = '';
+
+        for (const item of content.items) {
+          if (!('str' in item)) continue;
+          pageText += item.str + (item.hasEOL ? '\n' : ' ');
+          if (!item.str.trim()) continue;
+
+          // Run position in viewport space: tx[4], tx[5] is the start of the baseline
+          const tx = pdfjs.Util.transform(viewport.transform, item.transform);
+          const height = Math.hypot(tx[2], tx[3]) || item.height;
+          const charWidth = item.width / item.str.length;
+
+          // pdfjs returns runs of text; split them into words, spacing characters evenly
+          for (const word of item.str.matchAll(/\S+/g)) {
+            boundingBoxes.push({
+              x: tx[4] + (word.index ?? 0) * charWidth,
+              y: tx[5] - height,
+              width: word[0].length * charWidth,
+              height,
+              text: word[0],
+            });
+          }
+        }
+
+        pages.push({
+          pageNumber,
+          text: pageText.replace(/[ \t]+/g, ' ').trim(),
+          width: viewport.width,
+          height: viewport.height,
+          boundingBoxes,
+          source: 'text_layer',
+          confidence: 1,
+        });
+        page.cleanup();
+      }
+
+      const scanned = pages.filter(needsOcr);
+      if (scanned.length > 0) {
+        try {
+          const worker = await createOcrWorker();
+          try {
+            for (const scan of scanned) {
+              pages[scan.pageNumber - 1] = await ocrPdfPage(
+                worker,
+                await pdf.getPage(scan.pageNumber)
+              );
+            }
+          } finally {
+            await worker.terminate();
+          }
+        } catch (ocrError) {
+          // Keep the text layer result; extraction then sees the page as empty
+          console.warn('OCR of scanned pages failed:', ocrError);
+        }
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    return {
+      text: pages.map((page) => page.text).join('\n\n'),
+      pages,
+      totalPages: pages.length,
+    };
+  } catch (error) {
+    console.warn('pdfjs text extraction failed, falling back to pdf2json:', error);
+    const basicResult = await extractTextFromPDF(filepath);
+    return {
+      ...basicResult,
+      pages: basicResult.pages.map((page) => ({ ...page, boundingBoxes: [] })),
+    };
+  }
+}
+
+async function ocrPdfPage(worker: TesseractWorker, page: PDFPageProxy): Promise<PageOCRResult> {
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const scale = OCR_RENDER_DPI / 72;
+  const viewport = page.getViewport({ scale });
+  const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+  // Scans are often transparent images; Tesseract needs a white background
+  const context = canvas.getContext('2d');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({
+    canvas: null,
+    canvasContext: context as unknown as CanvasRenderingContext2D,
+    viewport,
+  }).promise;
+
+  const { data } = await worker.recognize(
+    canvas.toBuffer('image/png'),
+    {},
+    { text: true, blocks: true }
+  );
+  const size = page.getViewport({ scale: 1 });
+  page.cleanup();
+  return ocrPageResult(data, page.pageNumber, scale, { width: size.width, height: size.height });
 }
 
 // AWS Textract integration (for future use)
@@ -115,4 +327,3 @@ export async function extractWithAWSTextract(filepath: string): Promise<OCRResul
   // This would use the AWS SDK to call Textract
   throw new Error('AWS Textract integration not yet implemented');
 }
-
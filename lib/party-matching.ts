@@ -0,0 +1,407 @@
+import { Prisma } from '@prisma/client';
+import { prisma, DbClient } from './db';
+
+// Party matching. Parties found in extracted invoices and contracts are matched to existing
+// parties on tax ID, DUNS and NPI numbers, names (legal, trading and alternate names, compared
+// without corporate suffixes) and mailing and remit-to addresses. A confident match links the
+// document to the existing party. Otherwise the party is created as Pending, linked to the
+// document it came from, and when an existing party is a possible match a suggestion to merge
+// the two is queued for review.
+
+export const AUTO_LINK_THRESHOLD = 0.9;
+export const SUGGESTION_THRESHOLD = 0.6;
+const MAX_SUGGESTIONS = 3;
+
+export const PENDING_PARTY_STATUS = 'Pending';
+export const MERGED_PARTY_STATUS = 'Merged';
+
+// An exact normalized name scores the auto-link threshold; similar names score less
+const NAME_WEIGHT = 0.9;
+const ADDRESS_BONUS = 0.1;
+// Parties whose identifiers disagree are never linked automatically
+const CONFLICT_CAP = 0.75;
+const MIN_ADDRESS_SIMILARITY = 0.8;
+// Name words too short or common to narrow down the candidates
+const MIN_NAME_WORD_LENGTH = 3;
+const NAME_STOP_WORDS = new Set(['and', 'for', 'the']);
+
+const CORPORATE_SUFFIXES = new Set([
+  'inc',
+  'incorporated',
+  'llc',
+  'llp',
+  'lp',
+  'ltd',
+  'limited',
+  'corp',
+  'corporation',
+  'co',
+  'company',
+  'plc',
+  'pc',
+  'pllc',
+]);
+
+export interface PartyIdentity {
+  name: string;
+  taxId?: string | null;
+  dunsNumber?: string | null;
+  npiNumber?: string | null;
+  address?: string | null;
+  remitToAddress?: string | null;
+}
+
+export interface PartyCandidate {
+  partyId: string;
+  legalName: string;
+  tradingName: string | null;
+  alternateNames: unknown;
+  taxId: string | null;
+  dunsNumber: string | null;
+  npiNumber: string | null;
+  address: string | null;
+  remitToAddress: string | null;
+}
+
+export interface PartyMatch {
+  partyId: string;
+  score: number;
+  reasons: string[];
+}
+
+export type PartyResolution =
+  | { outcome: 'matched'; partyId: string; match: PartyMatch }
+  | { outcome: 'created'; partyId: string; suggestions: PartyMatch[] };
+
+const candidateSelect = {
+  partyId: true,
+  legalName: true,
+  tradingName: true,
+  alternateNames: true,
+  taxId: true,
+  dunsNumber: true,
+  npiNumber: true,
+  address: true,
+  remitToAddress: true,
+} as const;
+
+/**
+ * Lowercased name without punctuation, a leading "the" or trailing corporate suffixes, so
+ * "The Acme Medical Co., Inc." and "ACME MEDICAL" compare equal.
+ */
+export function normalizePartyName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  while (words.length > 1 && CORPORATE_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  if (words.length > 1 && words[0] === 'the') {
+    words.shift();
+  }
+  return words.join(' ');
+}
+
+function normalizeIdentifier(value: string | null | undefined): string {
+  return (value || '').replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+}
+
+// Dice coefficient over words
+function wordSimilarity(a: string, b: string): number {
+  const left = new Set(a.split(' ').filter(Boolean));
+  const right = new Set(b.split(' ').filter(Boolean));
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+  const shared = Array.from(left).filter((word) => right.has(word)).length;
+  return (2 * shared) / (left.size + right.size);
+}
+
+// "P.O. Box" and "PO Box" compare equal
+function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function addressesMatch(a: string | null | undefined, b: string | null | undefined): boolean {
+  return (
+    !!a && !!b && wordSimilarity(normalizeAddress(a), normalizeAddress(b)) >= MIN_ADDRESS_SIMILARITY
+  );
+}
+
+/**
+ * Legal, trading and alternate names of a party.
+ */
+export function partyNames(
+  party: Pick<PartyCandidate, 'legalName' | 'tradingName' | 'alternateNames'>
+): string[] {
+  return [
+    party.legalName,
+    party.tradingName,
+    ...(Array.isArray(party.alternateNames) ? party.alternateNames : []),
+  ].filter((name): name is string => typeof name === 'string' && name.trim() !== '');
+}
+
+/**
+ * Scores how likely an extracted party is the candidate, 0-1, with the reasons.
+ */
+export function scorePartyMatch(identity: PartyIdentity, candidate: PartyCandidate): PartyMatch {
+  const reasons: string[] = [];
+  let identifierScore = 0;
+  let conflict = false;
+
+  const identifiers: Array<[string, string | null | undefined, string | null]> = [
+    ['Tax ID', identity.taxId, candidate.taxId],
+    ['DUNS number', identity.dunsNumber, candidate.dunsNumber],
+    ['NPI number', identity.npiNumber, candidate.npiNumber],
+  ];
+  for (const [label, extracted, existing] of identifiers) {
+    const left = normalizeIdentifier(extracted);
+    const right = normalizeIdentifier(existing);
+    if (!left || !right) continue;
+    if (left === right) {
+      identifierScore = 1;
+      reasons.push(`${label} matches`);
+    } else {
+      conflict = true;
+      reasons.push(`${label} differs`);
+    }
+  }
+
+  const extractedName = normalizePartyName(identity.name);
+  let nameScore = 0;
+  let matchedName: string | null = null;
+  for (const name of partyNames(candidate)) {
+    const similarity = wordSimilarity(extractedName, normalizePartyName(name));
+    if (similarity > nameScore) {
+      nameScore = similarity;
+      matchedName = name;
+    }
+  }
+  if (matchedName) {
+    const alternate = matchedName !== candidate.legalName && matchedName !== candidate.tradingName;
+    reasons.push(
+      nameScore === 1
+        ? `Name matches${alternate ? ` alternate name "${matchedName}"` : ''}`
+        : `Name is similar to "${matchedName}" (${Math.round(nameScore * 100)}%)`
+    );
+  }
+
+  let bonus = 0;
+  if (addressesMatch(identity.address, candidate.address)) {
+    bonus += ADDRESS_BONUS;
+    reasons.push('Address matches');
+  }
+  if (
+    addressesMatch(identity.remitToAddress, candidate.remitToAddress) ||
+    addressesMatch(identity.remitToAddress, candidate.address)
+  ) {
+    bonus += ADDRESS_BONUS;
+    reasons.push('Remit-to address matches');
+  }
+
+  let score = Math.min(1, Math.max(identifierScore, nameScore * NAME_WEIGHT) + bonus);
+  if (conflict) {
+    score = Math.min(score, CONFLICT_CAP);
+  }
+  return { partyId: candidate.partyId, score: Math.round(score * 1000) / 1000, reasons };
+}
+
+/**
+ * Candidates ordered by score, best first, leaving out those that share nothing.
+ */
+export function rankPartyMatches(
+  identity: PartyIdentity,
+  candidates: PartyCandidate[]
+): PartyMatch[] {
+  return candidates
+    .map((candidate) => scorePartyMatch(identity, candidate))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Ways an identifier may have been stored: as extracted, bare, or in the usual
+// "12-3456789" (EIN) and "12-345-6789" (DUNS) formats
+function identifierVariants(value: string | null | undefined): string[] {
+  const bare = normalizeIdentifier(value);
+  if (!bare) {
+    return [];
+  }
+  const variants = [value!.trim(), bare];
+  if (/^\d{9}$/.test(bare)) {
+    variants.push(`${bare.slice(0, 2)}-${bare.slice(2)}`);
+    variants.push(`${bare.slice(0, 2)}-${bare.slice(2, 5)}-${bare.slice(5)}`);
+  }
+  return Array.from(new Set(variants));
+}
+
+/**
+ * Query filter for the parties that can score as a possible match: an identifier that may
+ * match, a legal or trading name sharing a word with the extracted name, or the extracted
+ * name as an alternate name. Parties sharing only an address never reach the suggestion
+ * threshold, so they aren't loaded. Null when there is nothing to look up by.
+ */
+export function candidateFilter(identity: PartyIdentity): Prisma.PartyWhereInput | null {
+  const conditions: Prisma.PartyWhereInput[] = [];
+  for (const field of ['taxId', 'dunsNumber', 'npiNumber'] as const) {
+    const variants = identifierVariants(identity[field]);
+    if (variants.length > 0) {
+      conditions.push({ [field]: { in: variants, mode: 'insensitive' } });
+    }
+  }
+
+  const words = normalizePartyName(identity.name)
+    .split(' ')
+    .filter((word) => word.length >= MIN_NAME_WORD_LENGTH && !NAME_STOP_WORDS.has(word));
+  for (const word of Array.from(new Set(words))) {
+    conditions.push({ legalName: { contains: word, mode: 'insensitive' } });
+    conditions.push({ tradingName: { contains: word, mode: 'insensitive' } });
+  }
+
+  const name = identity.name.trim();
+  if (name) {
+    conditions.push({ alternateNames: { array_contains: [name] } });
+  }
+
+  return conditions.length > 0 ? { OR: conditions } : null;
+}
+
+/**
+ * Existing parties of the type that may be the extracted party, best first. Pending parties
+ * are included, so a new vendor's second invoice links to the party made from its first.
+ */
+export async function findPartyMatches(
+  identity: PartyIdentity,
+  partyType: string,
+  db: DbClient = prisma
+): Promise<PartyMatch[]> {
+  const filter = candidateFilter(identity);
+  if (!filter) {
+    return [];
+  }
+  const candidates = await db.party.findMany({
+    where: { partyType, partyStatus: { not: MERGED_PARTY_STATUS }, ...filter },
+    select: candidateSelect,
+  });
+  return rankPartyMatches(identity, candidates);
+}
+
+/**
+ * Fills identifiers and addresses the party doesn't have yet, and keeps a name it wasn't
+ * known by as an alternate name.
+ */
+export async function enrichParty(
+  partyId: string,
+  identity: PartyIdentity,
+  userId: string,
+  db: DbClient = prisma
+): Promise<void> {
+  const party = await db.party.findUnique({ where: { partyId }, select: candidateSelect });
+  if (!party) {
+    return;
+  }
+
+  const data: Record<string, unknown> = {};
+  for (const field of ['taxId', 'dunsNumber', 'npiNumber', 'address', 'remitToAddress'] as const) {
+    if (!party[field] && identity[field]) {
+      data[field] = identity[field];
+    }
+  }
+  const name = identity.name.trim();
+  const known = partyNames(party).map(normalizePartyName);
+  if (name && !known.includes(normalizePartyName(name))) {
+    data.alternateNames = [
+      ...(Array.isArray(party.alternateNames) ? party.alternateNames : []),
+      name,
+    ];
+  }
+
+  if (Object.keys(data).length > 0) {
+    await db.party.update({
+      where: { partyId },
+      data: { ...data, updatedBy: userId, updatedDate: new Date() },
+    });
+  }
+}
+
+/**
+ * Links an extracted party to the existing party it matches, or creates it as Pending and
+ * queues suggestions for the possible matches.
+ */
+export async function resolveParty(
+  identity: PartyIdentity,
+  context: { partyType: string; documentId?: string | null; userId: string },
+  db: DbClient = prisma
+): Promise<PartyResolution> {
+  const matches = await findPartyMatches(identity, context.partyType, db);
+  const best = matches[0];
+
+  if (best && best.score >= AUTO_LINK_THRESHOLD) {
+    await enrichParty(best.partyId, identity, context.userId, db);
+    return { outcome: 'matched', partyId: best.partyId, match: best };
+  }
+
+  const party = await db.party.create({
+    data: {
+      partyType: context.partyType,
+      legalName: identity.name,
+      taxId: identity.taxId || null,
+      dunsNumber: identity.dunsNumber || null,
+      npiNumber: identity.npiNumber || null,
+      address: identity.address || null,
+      remitToAddress: identity.remitToAddress || null,
+      partyStatus: PENDING_PARTY_STATUS,
+      sourceDocumentId: context.documentId || null,
+      createdBy: context.userId,
+    },
+  });
+
+  const suggestions = matches
+    .filter((match) => match.score >= SUGGESTION_THRESHOLD)
+    .slice(0, MAX_SUGGESTIONS);
+  for (const suggestion of suggestions) {
+    await db.partyMatchSuggestion.create({
+      data: {
+        partyId: party.partyId,
+        candidatePartyId: suggestion.partyId,
+        documentId: context.documentId || null,
+        score: suggestion.score,
+        reasons: suggestion.reasons,
+      },
+    });
+  }
+
+  return { outcome: 'created', partyId: party.partyId, suggestions };
+}
+
+/**
+ * Accepts a suggestion by merging the Pending party into the existing party.
+ */
+export async function acceptMatchSuggestion(suggestionId: string, userId: string): Promise<void> {
+  const { mergeParties } = await import('./party-merge');
+  const suggestion = await prisma.partyMatchSuggestion.findUniqueOrThrow({
+    where: { suggestionId },
+  });
+  await mergeParties(suggestion.candidatePartyId, [suggestion.partyId], userId);
+}
+
+/**
+ * Rejects a suggestion. The Pending party stays as it is.
+ */
+export async function rejectMatchSuggestion(
+  suggestionId: string,
+  userId: string,
+  db: DbClient = prisma
+): Promise<void> {
+  await db.partyMatchSuggestion.update({
+    where: { suggestionId },
+    data: { status: 'Rejected', reviewedBy: userId, reviewedDate: new Date() },
+  });
+}
@@ -0,0 +1,516 @@
+import { Prisma } from '@prisma/client';
+import { prisma, DbClient } from './db';
+import {
+  MERGED_PARTY_STATUS,
+  PartyCandidate,
+  SUGGESTION_THRESHOLD,
+  normalizePartyName,
+  partyNames,
+  scorePartyMatch,
+} from './party-matching';
+
+// Party merge. A duplicate party is merged into a survivor: its invoices, contract parties,
+// co-development partnership, UOM conversions and extraction hints move to the survivor, which
+// takes over its names, external ids and the identifiers it lacked. The duplicate is kept with
+// status Merged, and the MERGE audit entry records exactly what moved, so undoing the merge
+// moves those records back even after the survivor has gained new ones.
+
+export const MERGE_ACTION = 'MERGE';
+export const UNDO_MERGE_ACTION = 'UNMERGE';
+
+// Survivor fields filled from the duplicate when the survivor has none
+const FILLED_FIELDS = [
+  'tradingName',
+  'taxId',
+  'dunsNumber',
+  'npiNumber',
+  'cageCode',
+  'address',
+  'remitToAddress',
+  'primaryContactEmail',
+  'primaryContactPhone',
+] as const;
+
+// Parties compared for duplicates when their names share a first word; larger groups of
+// names (a common first word) are only compared on identifiers and exact names
+const MAX_NAME_BLOCK = 200;
+
+export class PartyMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PartyMergeError';
+  }
+}
+
+// What a merge changed, kept in its audit entry
+export type MergeRecord = {
+  survivorPartyId: string;
+  mergedPartyId: string;
+  previousStatus: string;
+  vendorInvoiceIds: string[];
+  customerInvoiceIds: string[];
+  movedContractParties: Array<{ contractId: string; partyRole: string }>;
+  // Rows dropped because the survivor already had the role on the contract
+  droppedContractParties: Array<{
+    contractId: string;
+    partyRole: string;
+    isPrimary: boolean | null;
+    specificPaymentTerms: Prisma.JsonValue;
+  }>;
+  coDevPartnershipMoved: boolean;
+  uomConversionIds: string[];
+  extractionHintIds: string[];
+  filledFields: string[];
+  addedAlternateNames: string[];
+  addedExternalIdKeys: string[];
+  // Match suggestions the merge settled, reopened by undo
+  acceptedSuggestionIds: string[];
+  rejectedSuggestionIds: string[];
+};
+
+export interface DuplicateCandidate extends PartyCandidate {
+  partyType: string;
+}
+
+export interface DuplicateCluster {
+  partyIds: string[];
+  // Best pair score in the cluster
+  score: number;
+  reasons: string[];
+}
+
+const asObject = (value: Prisma.JsonValue | null): Prisma.JsonObject =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+/**
+ * Merges a duplicate into the survivor and records the merge in the audit log. Returns the
+ * audit entry id, which undoes the merge.
+ */
+export async function mergeParty(
+  survivorPartyId: string,
+  mergedPartyId: string,
+  userId: string,
+  db: DbClient = prisma
+): Promise<string> {
+  if (survivorPartyId === mergedPartyId) {
+    throw new PartyMergeError('A party cannot be merged into itself');
+  }
+  const [survivor, merged] = await Promise.all([
+    db.party.findUnique({ where: { partyId: survivorPartyId } }),
+    db.party.findUnique({ where: { partyId: mergedPartyId } }),
+  ]);
+  if (!survivor || !merged) {
+    throw new PartyMergeError('Party not found');
+  }
+  if (survivor.partyStatus === MERGED_PARTY_STATUS || merged.partyStatus === MERGED_PARTY_STATUS) {
+    throw new PartyMergeError(
+      `${(merged.partyStatus === MERGED_PARTY_STATUS ? merged : survivor).legalName} was already merged`
+    );
+  }
+  if (survivor.partyType !== merged.partyType) {
+    throw new PartyMergeError(
+      `A ${merged.partyType} cannot be merged into a ${survivor.partyType}`
+    );
+  }
+  const from = merged.partyId;
+  const to = survivor.partyId;
+
+  const vendorInvoices = await db.invoice.findMany({
+    where: { vendorPartyId: from },
+    select: { invoiceId: true },
+  });
+  const customerInvoices = await db.invoice.findMany({
+    where: { customerPartyId: from },
+    select: { invoiceId: true },
+  });
+  await db.invoice.updateMany({ where: { vendorPartyId: from }, data: { vendorPartyId: to } });
+  await db.invoice.updateMany({ where: { customerPartyId: from }, data: { customerPartyId: to } });
+
+  const movedContractParties: MergeRecord['movedContractParties'] = [];
+  const droppedContractParties: MergeRecord['droppedContractParties'] = [];
+  for (const contractParty of await db.contractParty.findMany({ where: { partyId: from } })) {
+    const { contractId, partyRole, isPrimary, specificPaymentTerms } = contractParty;
+    const existing = await db.contractParty.findUnique({
+      where: { contractId_partyId_partyRole: { contractId, partyRole, partyId: to } },
+    });
+    if (existing) {
+      await db.contractParty.delete({
+        where: { contractId_partyId_partyRole: { contractId, partyRole, partyId: from } },
+      });
+      droppedContractParties.push({ contractId, partyRole, isPrimary, specificPaymentTerms });
+    } else {
+      await db.contractParty.update({
+        where: { contractId_partyId_partyRole: { contractId, partyRole, partyId: from } },
+        data: { partyId: to },
+      });
+      movedContractParties.push({ contractId, partyRole });
+    }
+  }
+
+  // A party has at most one partnership; the survivor's own is kept
+  let coDevPartnershipMoved = false;
+  const partnership = await db.coDevPartnership.findUnique({ where: { partnerId: from } });
+  if (partnership && !(await db.coDevPartnership.findUnique({ where: { partnerId: to } }))) {
+    await db.coDevPartnership.update({ where: { partnerId: from }, data: { partnerId: to } });
+    coDevPartnershipMoved = true;
+  }
+
+  // Conversions the survivor already has for the same units stay with the duplicate
+  const uomConversionIds: string[] = [];
+  for (const conversion of await db.uomConversion.findMany({ where: { vendorPartyId: from } })) {
+    const existing = await db.uomConversion.findFirst({
+      where: { vendorPartyId: to, fromUom: conversion.fromUom, toUom: conversion.toUom },
+    });
+    if (!existing) {
+      await db.uomConversion.update({
+        where: { conversionId: conversion.conversionId },
+        data: { vendorPartyId: to },
+      });
+      uomConversionIds.push(conversion.conversionId);
+    }
+  }
+
+  const hints = await db.vendorExtractionHint.findMany({
+    where: { vendorPartyId: from },
+    select: { hintId: true },
+  });
+  await db.vendorExtractionHint.updateMany({
+    where: { vendorPartyId: from },
+    data: { vendorPartyId: to },
+  });
+
+  // The survivor takes the duplicate's names, external ids and missing identifiers
+  const data: Prisma.PartyUpdateInput = {};
+  const filledFields = FILLED_FIELDS.filter((field) => !survivor[field] && merged[field]);
+  for (const field of filledFields) {
+    data[field] = merged[field];
+  }
+  const known = new Set(partyNames(survivor).map(normalizePartyName));
+  const addedAlternateNames: string[] = [];
+  for (const name of partyNames(merged)) {
+    const normalized = normalizePartyName(name);
+    if (!known.has(normalized)) {
+      known.add(normalized);
+      addedAlternateNames.push(name);
+    }
+  }
+  if (addedAlternateNames.length > 0) {
+    data.alternateNames = [
+      ...(Array.isArray(survivor.alternateNames) ? survivor.alternateNames : []),
+      ...addedAlternateNames,
+    ];
+  }
+  const survivorIds = asObject(survivor.externalIds);
+  const mergedIds = asObject(merged.externalIds);
+  const addedExternalIdKeys = Object.keys(mergedIds).filter((key) => !(key in survivorIds));
+  if (addedExternalIdKeys.length > 0) {
+    data.externalIds = {
+      ...survivorIds,
+      ...Object.fromEntries(addedExternalIdKeys.map((key) => [key, mergedIds[key]])),
+    } as Prisma.InputJsonObject;
+  }
+  await db.party.update({
+    where: { partyId: to },
+    data: { ...data, updatedBy: userId, updatedDate: new Date() },
+  });
+  await db.party.update({
+    where: { partyId: from },
+    data: { partyStatus: MERGED_PARTY_STATUS, updatedBy: userId, updatedDate: new Date() },
+  });
+
+  // Open match suggestions for the duplicate are settled by the merge
+  const reviewed = { reviewedBy: userId, reviewedDate: new Date() };
+  const openSuggestions = await db.partyMatchSuggestion.findMany({
+    where: { OR: [{ partyId: from }, { candidatePartyId: from }], status: 'Pending' },
+    select: { suggestionId: true, partyId: true, candidatePartyId: true },
+  });
+  const acceptedSuggestionIds = openSuggestions
+    .filter((suggestion) => suggestion.partyId === from && suggestion.candidatePartyId === to)
+    .map((suggestion) => suggestion.suggestionId);
+  const rejectedSuggestionIds = openSuggestions
+    .map((suggestion) => suggestion.suggestionId)
+    .filter((suggestionId) => !acceptedSuggestionIds.includes(suggestionId));
+  await db.partyMatchSuggestion.updateMany({
+    where: { suggestionId: { in: acceptedSuggestionIds } },
+    data: { status: 'Accepted', ...reviewed },
+  });
+  await db.partyMatchSuggestion.updateMany({
+    where: { suggestionId: { in: rejectedSuggestionIds } },
+    data: { status: 'Rejected', ...reviewed },
+  });
+
+  const record: MergeRecord = {
+    survivorPartyId: to,
+    mergedPartyId: from,
+    previousStatus: merged.partyStatus,
+    vendorInvoiceIds: vendorInvoices.map((invoice) => invoice.invoiceId),
+    customerInvoiceIds: customerInvoices.map((invoice) => invoice.invoiceId),
+    movedContractParties,
+    droppedContractParties,
+    coDevPartnershipMoved,
+    uomConversionIds,
+    extractionHintIds: hints.map((hint) => hint.hintId),
+    filledFields,
+    addedAlternateNames,
+    addedExternalIdKeys,
+    acceptedSuggestionIds,
+    rejectedSuggestionIds,
+  };
+  const entry = await db.auditLog.create({
+    data: {
+      tableName: 'parties',
+      recordId: from,
+      action: MERGE_ACTION,
+      changedFields: ['partyStatus'],
+      oldValues: { partyStatus: merged.partyStatus },
+      newValues: record as Prisma.InputJsonObject,
+      changedBy: userId,
+      changeReason: `Merged into ${survivor.legalName}`,
+    },
+  });
+  return entry.auditId;
+}
+
+/**
+ * Merges duplicates into the survivor in one transaction. Returns the merges' audit entry ids.
+ */
+export async function mergeParties(
+  survivorPartyId: string,
+  mergedPartyIds: string[],
+  userId: string
+): Promise<string[]> {
+  return prisma.$transaction(async (tx) => {
+    const auditIds: string[] = [];
+    for (const mergedPartyId of mergedPartyIds) {
+      auditIds.push(await mergeParty(survivorPartyId, mergedPartyId, userId, tx));
+    }
+    return auditIds;
+  });
+}
+
+/**
+ * Undoes a merge: what it moved goes back to the duplicate, what it added to the survivor is
+ * removed, the duplicate gets its status back and the suggestions the merge settled reopen.
+ */
+export async function revertPartyMerge(
+  auditId: string,
+  userId: string,
+  db: DbClient = prisma
+): Promise<void> {
+  const entry = await db.auditLog.findUnique({ where: { auditId } });
+  if (!entry || entry.tableName !== 'parties' || entry.action !== MERGE_ACTION) {
+    throw new PartyMergeError('Merge not found');
+  }
+  const undone = await db.auditLog.findFirst({
+    where: {
+      tableName: 'parties',
+      recordId: entry.recordId,
+      action: UNDO_MERGE_ACTION,
+      newValues: { path: ['mergeAuditId'], equals: auditId },
+    },
+  });
+  if (undone) {
+    throw new PartyMergeError('Merge was already undone');
+  }
+
+  // Records move back from the survivor to the duplicate
+  const record = entry.newValues as unknown as MergeRecord;
+  const from = record.survivorPartyId;
+  const to = record.mergedPartyId;
+  const [survivor, merged] = await Promise.all([
+    db.party.findUniqueOrThrow({ where: { partyId: from } }),
+    db.party.findUniqueOrThrow({ where: { partyId: to } }),
+  ]);
+  // The survivor's records now belong to the party it was merged into; that merge goes first
+  if (survivor.partyStatus === MERGED_PARTY_STATUS) {
+    throw new PartyMergeError(`${survivor.legalName} was merged since; undo that merge first`);
+  }
+
+  await db.invoice.updateMany({
+    where: { invoiceId: { in: record.vendorInvoiceIds }, vendorPartyId: from },
+    data: { vendorPartyId: to },
+  });
+  await db.invoice.updateMany({
+    where: { invoiceId: { in: record.customerInvoiceIds }, customerPartyId: from },
+    data: { customerPartyId: to },
+  });
+
+  for (const { contractId, partyRole } of record.movedContractParties) {
+    const moved = await db.contractParty.findUnique({
+      where: { contractId_partyId_partyRole: { contractId, partyRole, partyId: from } },
+    });
+    if (moved) {
+      await db.contractParty.update({
+        where: { contractId_partyId_partyRole: { contractId, partyRole, partyId: from } },
+        data: { partyId: to },
+      });
+    }
+  }
+  for (const dropped of record.droppedContractParties) {
+    const key = { contractId: dropped.contractId, partyRole: dropped.partyRole, partyId: to };
+    const [contract, existing] = await Promise.all([
+      db.contract.findUnique({ where: { contractId: dropped.contractId } }),
+      db.contractParty.findUnique({ where: { contractId_partyId_partyRole: key } }),
+    ]);
+    if (!contract || existing) continue;
+    await db.contractParty.create({
+      data: {
+        contractId: dropped.contractId,
+        partyId: to,
+        partyRole: dropped.partyRole,
+        isPrimary: dropped.isPrimary,
+        specificPaymentTerms: dropped.specificPaymentTerms ?? Prisma.JsonNull,
+      },
+    });
+  }
+
+  if (record.coDevPartnershipMoved) {
+    const partnership = await db.coDevPartnership.findUnique({ where: { partnerId: from } });
+    if (partnership) {
+      await db.coDevPartnership.update({ where: { partnerId: from }, data: { partnerId: to } });
+    }
+  }
+  await db.uomConversion.updateMany({
+    where: { conversionId: { in: record.uomConversionIds }, vendorPartyId: from },
+    data: { vendorPartyId: to },
+  });
+  await db.vendorExtractionHint.updateMany({
+    where: { hintId: { in: record.extractionHintIds }, vendorPartyId: from },
+    data: { vendorPartyId: to },
+  });
+
+  // Values edited on the survivor since the merge are left alone
+  const data: Prisma.PartyUpdateInput = {};
+  for (const field of record.filledFields as Array<(typeof FILLED_FIELDS)[number]>) {
+    if (survivor[field] === merged[field]) {
+      data[field] = null;
+    }
+  }
+  if (record.addedAlternateNames.length > 0 && Array.isArray(survivor.alternateNames)) {
+    data.alternateNames = survivor.alternateNames.filter(
+      (name) => typeof name !== 'string' || !record.addedAlternateNames.includes(name)
+    );
+  }
+  if (record.addedExternalIdKeys.length > 0) {
+    data.externalIds = Object.fromEntries(
+      Object.entries(asObject(survivor.externalIds)).filter(
+        ([key]) => !record.addedExternalIdKeys.includes(key)
+      )
+    ) as Prisma.InputJsonObject;
+  }
+  await db.party.update({
+    where: { partyId: from },
+    data: { ...data, updatedBy: userId, updatedDate: new Date() },
+  });
+  await db.party.update({
+    where: { partyId: to },
+    data: { partyStatus: record.previousStatus, updatedBy: userId, updatedDate: new Date() },
+  });
+
+  const settledSuggestionIds = [
+    ...(record.acceptedSuggestionIds ?? []),
+    ...(record.rejectedSuggestionIds ?? []),
+  ];
+  await db.partyMatchSuggestion.updateMany({
+    where: { suggestionId: { in: settledSuggestionIds } },
+    data: { status: 'Pending', reviewedBy: null, reviewedDate: null },
+  });
+
+  await db.auditLog.create({
+    data: {
+      tableName: 'parties',
+      recordId: to,
+      action: UNDO_MERGE_ACTION,
+      changedFields: ['partyStatus'],
+      oldValues: { partyStatus: MERGED_PARTY_STATUS },
+      newValues: {
+        partyStatus: record.previousStatus,
+        mergeAuditId: auditId,
+        survivorPartyId: from,
+      },
+      changedBy: userId,
+      changeReason: `Merge into ${survivor.legalName} undone`,
+    },
+  });
+}
+
+/**
+ * Undoes a merge in one transaction.
+ */
+export async function undoPartyMerge(auditId: string, userId: string): Promise<void> {
+  await prisma.$transaction((tx) => revertPartyMerge(auditId, userId, tx));
+}
+
+/**
+ * Groups parties that may be duplicates: same type, and a pair score (shared identifiers,
+ * similar names, matching addresses) of at least the suggestion threshold. Pairs are only
+ * scored within blocks sharing an identifier, an exact name or the first word of a name.
+ */
+export function findDuplicateClusters(parties: DuplicateCandidate[]): DuplicateCluster[] {
+  const blocks = new Map<string, number[]>();
+  const addToBlock = (key: string, index: number) => {
+    const block = blocks.get(key) || [];
+    if (!block.includes(index)) block.push(index);
+    blocks.set(key, block);
+  };
+  parties.forEach((party, index) => {
+    const identifiers = { tax: party.taxId, duns: party.dunsNumber, npi: party.npiNumber };
+    for (const [kind, value] of Object.entries(identifiers)) {
+      const normalized = (value || '').replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+      if (normalized) addToBlock(`${party.partyType}|${kind}:${normalized}`, index);
+    }
+    for (const name of partyNames(party)) {
+      const normalized = normalizePartyName(name);
+      if (!normalized) continue;
+      addToBlock(`${party.partyType}|name:${normalized}`, index);
+      addToBlock(`${party.partyType}|word:${normalized.split(' ')[0]}`, index);
+    }
+  });
+
+  // Union-find over parties, keeping the best pair score and the reasons per cluster root
+  const parent = parties.map((_, index) => index);
+  const root = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = root(parent[index]));
+  const pairs: Array<{ a: number; b: number; score: number; reasons: string[] }> = [];
+  const scored = new Set<string>();
+
+  for (const [key, members] of Array.from(blocks.entries())) {
+    if (members.length < 2 || (key.includes('|word:') && members.length > MAX_NAME_BLOCK)) {
+      continue;
+    }
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const [a, b] = [members[i], members[j]];
+        const pairKey = `${Math.min(a, b)}:${Math.max(a, b)}`;
+        if (scored.has(pairKey)) continue;
+        scored.add(pairKey);
+
+        const best = partyNames(parties[a])
+          .map((name) => scorePartyMatch({ ...parties[a], name }, parties[b]))
+          .sort((x, y) => y.score - x.score)[0];
+        if (best && best.score >= SUGGESTION_THRESHOLD) {
+          pairs.push({ a, b, score: best.score, reasons: best.reasons });
+          parent[root(a)] = root(b);
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<number, { members: Set<number>; score: number; reasons: Set<string> }>();
+  for (const pair of pairs) {
+    const key = root(pair.a);
+    const cluster = clusters.get(key) || { members: new Set(), score: 0, reasons: new Set() };
+    cluster.members.add(pair.a).add(pair.b);
+    cluster.score = Math.max(cluster.score, pair.score);
+    pair.reasons.forEach((reason) => cluster.reasons.add(reason));
+    clusters.set(key, cluster);
+  }
+
+  return Array.from(clusters.values())
+    .map((cluster) => ({
+      partyIds: Array.from(cluster.members).map((index) => parties[index].partyId),
+      score: cluster.score,
+      reasons: Array.from(cluster.reasons),
+    }))
+    .sort((a, b) => b.score - a.score || b.partyIds.length - a.partyIds.length);
+}
@@ -71,6 +71,7 @@ export function canAccessRoute(route: string): boolean {
     '/exceptions': 'exceptions:view',
     '/approvals': ['approvals:approve', 'approvals:reject', 'approvals:escalate'],
     '/documents': 'documents:view',
+    '/review': 'documents:review',
     '/service-catalog': 'service-catalog:read',
     '/pricing-models': 'pricing-models:read',
     '/audit-logs': 'admin:audit',
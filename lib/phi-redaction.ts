@@ -0,0 +1,240 @@
+import { prisma, DbClient } from './db';
+import { PageOCRResult } from './ocr';
+
+// PHI redaction. Healthcare invoices carry patient names, MRNs, dates of birth and account
+// numbers in their line descriptions; before document text is sent to an external model
+// these are replaced with tokens such as [[PHI_MRN_1]], and the tokens in the model's answer
+// are replaced with the original values again. The token map is kept per document in our
+// own database, with an audit entry counting what was redacted.
+//
+// Detection errs on the side of redacting: a token only costs the model some context, and
+// is restored in the extracted values. PHI_REDACTION=off disables redaction.
+
+export type PhiType = 'SSN' | 'MRN' | 'DOB' | 'PATIENT' | 'ACCOUNT' | 'PHONE';
+
+export interface Redaction {
+  token: string;
+  phiType: PhiType;
+  value: string;
+  // First page the value was found on
+  pageNumber: number | null;
+  occurrences: number;
+}
+
+interface PhiPattern {
+  phiType: PhiType;
+  // The redacted value is the last capture group, which must end the match, else the whole
+  // match; the text before it (a label such as "MRN:") is kept
+  pattern: RegExp;
+}
+
+const SEPARATOR = '[ \\t]*[:#]?[ \\t]*';
+const DATE =
+  '(\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|[A-Z][a-z]{2,8}\\.? \\d{1,2},? \\d{4})';
+// Identifiers contain at least one digit, so "MRN: see attached" is left alone
+const IDENTIFIER = '((?=[A-Z-]*\\d)[A-Z0-9][A-Z0-9-]{3,})';
+// Label words that follow a name on the same line rather than being part of it
+const NOT_LABEL = '(?!(?:DOB|MRN|SSN|Acct|Account|Phone|Date|ID|Member)\\b)';
+const NAME_WORD = `${NOT_LABEL}[A-Z][A-Za-z'-]*\\.?`;
+
+// Labelled patterns first, so their values get the specific type rather than PHONE or SSN
+const PHI_PATTERNS: PhiPattern[] = [
+  {
+    phiType: 'SSN',
+    pattern: new RegExp(
+      `\\b(?:SSN|Social Security(?: No\\.?| Number)?)${SEPARATOR}(\\d{9})\\b`,
+      'gi'
+    ),
+  },
+  { phiType: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  {
+    phiType: 'MRN',
+    pattern: new RegExp(
+      `\\b(?:MRN|Med(?:ical)? Rec(?:ord)?(?: No\\.?| Number| #)?)${SEPARATOR}${IDENTIFIER}`,
+      'gi'
+    ),
+  },
+  {
+    phiType: 'DOB',
+    pattern: new RegExp(
+      `\\b(?:DOB|D\\.O\\.B\\.?|Date of Birth|Birth ?Date)${SEPARATOR}${DATE}`,
+      'gi'
+    ),
+  },
+  {
+    phiType: 'ACCOUNT',
+    pattern: new RegExp(
+      `\\b(?:(?:(?:Patient|Pt\\.?|Guarantor)[ \\t]+)?(?:Account|Acct\\.?)(?:[ \\t]*(?:No\\.?|Number|#))?|(?:Member|Subscriber|Policy)[ \\t]*(?:ID|No\\.?|Number|#))${SEPARATOR}${IDENTIFIER}`,
+      'gi'
+    ),
+  },
+  {
+    // "Patient Name: Smith, John A."
+    phiType: 'PATIENT',
+    pattern: new RegExp(
+      `\\b(?:Patient|Pt\\.?|Member|Insured|Subscriber|Guarantor)(?:[ \\t]+Name)?[ \\t]*[:-][ \\t]*(${NAME_WORD}(?:,?[ \\t]+${NAME_WORD}){1,3})`,
+      'gi'
+    ),
+  },
+  {
+    // "Lab panel for patient John A. Smith": capitalized words after the word patient
+    phiType: 'PATIENT',
+    pattern: new RegExp(
+      `\\b(?:[Pp]atient|PATIENT|[Pp]t\\.)[ \\t]+(${NAME_WORD}(?:[ \\t]+[A-Z]\\.)?[ \\t]+${NAME_WORD})`,
+      'g'
+    ),
+  },
+  { phiType: 'PHONE', pattern: /(?<![\d-])(?:\+?1[-. ]?)?\(?\d{3}\)?[-. ]?\d{3}[-.]\d{4}(?!\d)/g },
+];
+
+const TOKEN_PATTERN = /\[\[PHI_([A-Z]+)_(\d+)\]\]/g;
+
+export function redactionEnabled(): boolean {
+  return process.env.PHI_REDACTION?.toLowerCase() !== 'off';
+}
+
+/**
+ * Tokens of one document. The same value is always given the same token, so a document
+ * redacts to the same text each time and stored model responses stay reusable.
+ */
+export class RedactionVault {
+  private byValue = new Map<string, Redaction>();
+  private byToken = new Map<string, Redaction>();
+  private counters = new Map<PhiType, number>();
+
+  /**
+   * Replaces the PHI in text with tokens.
+   */
+  redact(text: string, pageNumber: number | null = null): string {
+    if (!redactionEnabled()) {
+      return text;
+    }
+
+    let redacted = text;
+    for (const { phiType, pattern } of PHI_PATTERNS) {
+      redacted = redacted.replace(pattern, (match: string, ...groups: unknown[]) => {
+        // Capture groups come before the match offset; without one the match is redacted
+        const offset = groups.findIndex((group) => typeof group === 'number');
+        const value = (groups[offset - 1] as string | undefined) ?? match;
+        // Never re-redact a token or part of one
+        if (!value.trim() || value.includes('[[PHI_')) {
+          return match;
+        }
+        return (
+          match.slice(0, match.length - value.length) + this.tokenFor(phiType, value, pageNumber)
+        );
+      });
+    }
+    return redacted;
+  }
+
+  private tokenFor(phiType: PhiType, value: string, pageNumber: number | null): string {
+    const key = `${phiType}\u0000${value}`;
+    const existing = this.byValue.get(key);
+    if (existing) {
+      existing.occurrences++;
+      return existing.token;
+    }
+
+    const index = (this.counters.get(phiType) || 0) + 1;
+    this.counters.set(phiType, index);
+    const redaction = {
+      token: `[[PHI_${phiType}_${index}]]`,
+      phiType,
+      value,
+      pageNumber,
+      occurrences: 1,
+    };
+    this.byValue.set(key, redaction);
+    this.byToken.set(redaction.token, redaction);
+    return redaction.token;
+  }
+
+  /**
+   * Copy of data with the tokens in its strings replaced by the original values. Tokens
+   * this vault didn't issue are left as they are.
+   */
+  rehydrate<T>(data: T): T {
+    const restore = (value: any): any => {
+      if (typeof value === 'string') {
+        return value.replace(TOKEN_PATTERN, (token) => this.byToken.get(token)?.value ?? token);
+      }
+      if (Array.isArray(value)) {
+        return value.map(restore);
+      }
+      if (value && typeof value === 'object' && !(value instanceof Date)) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, restore(item)]));
+      }
+      return value;
+    };
+    return restore(data);
+  }
+
+  get redactions(): Redaction[] {
+    return Array.from(this.byToken.values());
+  }
+
+  /**
+   * Occurrences redacted per PHI type.
+   */
+  summary(): Partial<Record<PhiType, number>> {
+    const counts: Partial<Record<PhiType, number>> = {};
+    for (const redaction of this.byToken.values()) {
+      counts[redaction.phiType] = (counts[redaction.phiType] || 0) + redaction.occurrences;
+    }
+    return counts;
+  }
+}
+
+/**
+ * Copies of the pages with PHI replaced by tokens from vault.
+ */
+export function redactPages(pages: PageOCRResult[], vault: RedactionVault): PageOCRResult[] {
+  // Word boxes hold the original words; the redacted copies are only used for prompts
+  return pages.map((page) => ({ ...page, text: vault.redact(page.text, page.pageNumber) }));
+}
+
+/**
+ * Stores a document's token map, replacing the one from an earlier extraction, and logs
+ * what was redacted. The audit entry carries counts and tokens, never the values.
+ */
+export async function saveRedactions(
+  documentId: string,
+  vault: RedactionVault,
+  db: DbClient = prisma
+): Promise<number> {
+  const redactions = vault.redactions;
+  const existing = await db.documentRedaction.count({ where: { documentId } });
+  if (redactions.length === 0 && existing === 0) {
+    return 0;
+  }
+
+  await db.documentRedaction.deleteMany({ where: { documentId } });
+  if (redactions.length > 0) {
+    await db.documentRedaction.createMany({
+      data: redactions.map(({ token, phiType, value, pageNumber, occurrences }) => ({
+        documentId,
+        token,
+        phiType,
+        originalValue: value,
+        pageNumber,
+        occurrences,
+      })),
+    });
+  }
+
+  await db.auditLog.create({
+    data: {
+      tableName: 'document_metadata',
+      recordId: documentId,
+      action: 'REDACT',
+      newValues: {
+        redacted: vault.summary(),
+        tokens: redactions.map(({ token, pageNumber }) => ({ token, pageNumber })),
+      },
+      changedBy: 'system',
+      changeReason: 'PHI redacted before extraction',
+    },
+  });
+  return redactions.length;
+}
@@ -0,0 +1,368 @@
+import { Decimal } from '@prisma/client/runtime/library';
+
+// Expected-price engine for contract billable items.
+// Evaluates the item's PricingModel (Tiered, Volume, Flat, Percentage) and falls back
+// to BillableItem.contractPrice / listPrice when no model applies. A location-specific
+// price negotiated for the line's facility replaces both.
+
+export type PricingMethod =
+  | 'contract_price'
+  | 'graduated'
+  | 'all_units'
+  | 'flat'
+  | 'percentage'
+  | 'location_price';
+
+export interface TierApplication {
+  tierId?: string;
+  tierName?: string | null;
+  tierSequence?: number;
+  quantity: Decimal;
+  rate: Decimal;
+  amount: Decimal;
+  overageOnly: boolean;
+}
+
+export interface ExpectedPriceResult {
+  unitPrice: Decimal;
+  extendedAmount: Decimal;
+  quantity: Decimal;
+  priorQuantity: Decimal;
+  method: PricingMethod;
+  pricingModelId?: string;
+  modelType?: string;
+  locationId?: string;
+  appliedTier?: TierApplication;
+  tierBreakdown: TierApplication[];
+}
+
+interface PricingFormula {
+  base?: 'list_price' | 'contract_price' | 'base_rate';
+  percentage?: number;
+  minimum_charge?: number;
+  volume_basis?: 'contract_year' | 'line';
+}
+
+export interface ExpectedPriceOptions {
+  // Volume already billed for this item in the current contract period (year-to-date).
+  // When set, tiers are selected on cumulative volume rather than on the line quantity.
+  priorQuantity?: Decimal;
+  // Unit price negotiated for the line's service location (ContractLocation override)
+  locationPrice?: { locationId: string; price: Decimal };
+}
+
+const ZERO = new Decimal(0);
+
+function toDecimal(value: any): Decimal | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  return value instanceof Decimal ? value : new Decimal(value.toString());
+}
+
+function defaultUnitPrice(billableItem: any): Decimal {
+  return toDecimal(billableItem.contractPrice) || toDecimal(billableItem.listPrice) || ZERO;
+}
+
+/**
+ * Decide whether tiers are priced graduated (each unit at the rate of the band it falls in)
+ * or all-units (every unit at the rate of the highest band reached).
+ * calculationMethod wins, then the tiers' isCumulative flags, then the model type.
+ */
+function resolveTierMethod(pricingModel: any, tiers: any[]): 'graduated' | 'all_units' {
+  const method = pricingModel.calculationMethod?.toLowerCase().replace(/[\s-]/g, '_');
+  if (method === 'graduated' || method === 'tiered' || method === 'incremental') {
+    return 'graduated';
+  }
+  if (method === 'all_units' || method === 'volume' || method === 'all_unit') {
+    return 'all_units';
+  }
+
+  const flagged = tiers.filter((tier) => tier.isCumulative !== null && tier.isCumulative !== undefined);
+  if (flagged.length > 0) {
+    return flagged.some((tier) => tier.isCumulative === true) ? 'graduated' : 'all_units';
+  }
+
+  return pricingModel.modelType?.toLowerCase() === 'volume' ? 'all_units' : 'graduated';
+}
+
+function sortTiers(tiers: any[]): any[] {
+  return [...tiers].sort((a, b) => {
+    const byMin = toDecimal(a.minValue)!.comparedTo(toDecimal(b.minValue)!);
+    return byMin !== 0 ? byMin : (a.tierSequence || 0) - (b.tierSequence || 0);
+  });
+}
+
+/**
+ * Lower edge of a tier band. Contracts write tiers either as 0-100 / 100-500 or
+ * 0-100 / 101-500; using the previous tier's max keeps both forms gap-free.
+ * The first band starts at zero unless it is an overage-only tier, in which case
+ * the units below its threshold are priced at the item's default unit price.
+ */
+function bandStart(sortedTiers: any[], index: number): Decimal {
+  if (index === 0) {
+    return sortedTiers[0].appliesToOverageOnly ? toDecimal(sortedTiers[0].minValue)! : ZERO;
+  }
+  return toDecimal(sortedTiers[index - 1].maxValue) || toDecimal(sortedTiers[index].minValue)!;
+}
+
+function bandEnd(sortedTiers: any[], index: number): Decimal | null {
+  return toDecimal(sortedTiers[index].maxValue);
+}
+
+function tierCharge(tier: any, units: Decimal, entersBand: boolean = true): Decimal {
+  const rate = toDecimal(tier.rate) || ZERO;
+  const rateType = tier.rateType?.toLowerCase();
+  // Flat/fixed tiers charge the rate once for the band, regardless of units in it
+  if (rateType === 'flat' || rateType === 'fixed') {
+    return units.greaterThan(0) && entersBand ? rate : ZERO;
+  }
+  return rate.times(units);
+}
+
+function toApplication(tier: any, units: Decimal, amount: Decimal): TierApplication {
+  return {
+    tierId: tier.tierId,
+    tierName: tier.tierName,
+    tierSequence: tier.tierSequence,
+    quantity: units,
+    rate: toDecimal(tier.rate) || ZERO,
+    amount,
+    overageOnly: tier.appliesToOverageOnly === true,
+  };
+}
+
+function baseApplication(units: Decimal, billableItem: any): TierApplication {
+  const rate = defaultUnitPrice(billableItem);
+  return {
+    tierName: 'Base',
+    quantity: units,
+    rate,
+    amount: rate.times(units),
+    overageOnly: false,
+  };
+}
+
+/**
+ * Graduated pricing: each unit is charged at the rate of the band it falls in.
+ * With a prior quantity the line covers units (prior, prior + quantity] of the
+ * period's cumulative volume, so a line crossing a boundary is split across tiers.
+ */
+function priceGraduated(
+  quantity: Decimal,
+  sortedTiers: any[],
+  billableItem: any,
+  priorQuantity: Decimal = ZERO
+): TierApplication[] {
+  const applications: TierApplication[] = [];
+  const windowEnd = priorQuantity.plus(quantity);
+  const overlap = (start: Decimal, end: Decimal | null) => {
+    const upper = end ? Decimal.min(windowEnd, end) : windowEnd;
+    return upper.minus(Decimal.max(start, priorQuantity));
+  };
+
+  const baseUnits = overlap(ZERO, bandStart(sortedTiers, 0));
+  if (baseUnits.greaterThan(0)) {
+    applications.push(baseApplication(baseUnits, billableItem));
+  }
+
+  sortedTiers.forEach((tier, index) => {
+    const start = bandStart(sortedTiers, index);
+    const units = overlap(start, bandEnd(sortedTiers, index));
+    if (units.greaterThan(0)) {
+      const entersBand = priorQuantity.lessThanOrEqualTo(start);
+      applications.push(toApplication(tier, units, tierCharge(tier, units, entersBand)));
+    }
+  });
+
+  return applications;
+}
+
+/**
+ * All-units pricing: every unit is charged at the rate of the band the quantity reaches.
+ * A tier flagged appliesToOverageOnly only prices the units above its threshold; the
+ * units below are priced as if the quantity had stopped at the threshold.
+ */
+function priceAllUnits(
+  quantity: Decimal,
+  sortedTiers: any[],
+  billableItem: any
+): TierApplication[] {
+  if (quantity.lessThanOrEqualTo(0)) {
+    return [];
+  }
+  if (sortedTiers.length === 0) {
+    return [baseApplication(quantity, billableItem)];
+  }
+
+  let index = 0;
+  for (let i = sortedTiers.length - 1; i > 0; i--) {
+    if (quantity.greaterThan(bandStart(sortedTiers, i))) {
+      index = i;
+      break;
+    }
+  }
+
+  const tier = sortedTiers[index];
+  if (tier.appliesToOverageOnly) {
+    const threshold = bandStart(sortedTiers, index);
+    const overage = quantity.minus(threshold);
+    const below = priceAllUnits(Decimal.min(quantity, threshold), sortedTiers.slice(0, index), billableItem);
+    return overage.greaterThan(0)
+      ? [...below, toApplication(tier, overage, tierCharge(tier, overage))]
+      : below;
+  }
+
+  return [toApplication(tier, quantity, tierCharge(tier, quantity))];
+}
+
+function pricePercentage(billableItem: any, pricingModel: any): Decimal {
+  const formula: PricingFormula = (pricingModel.calculationFormula as PricingFormula) || {};
+  const percentage =
+    formula.percentage !== undefined ? new Decimal(formula.percentage) : toDecimal(pricingModel.baseRate);
+
+  if (!percentage) {
+    return defaultUnitPrice(billableItem);
+  }
+
+  let base: Decimal | null;
+  switch (formula.base) {
+    case 'contract_price':
+      base = toDecimal(billableItem.contractPrice);
+      break;
+    case 'base_rate':
+      base = toDecimal(pricingModel.baseRate);
+      break;
+    default:
+      base = toDecimal(billableItem.listPrice);
+  }
+
+  return (base || ZERO).times(percentage).dividedBy(100);
+}
+
+function applyMinimumCharge(amount: Decimal, pricingModel: any): Decimal {
+  const formula: PricingFormula = (pricingModel.calculationFormula as PricingFormula) || {};
+  if (formula.minimum_charge === undefined) {
+    return amount;
+  }
+  return Decimal.max(amount, new Decimal(formula.minimum_charge));
+}
+
+/**
+ * Whether tier selection for this item is based on cumulative contract-period volume.
+ * Tiered and Volume models are, unless calculationFormula.volume_basis is 'line'.
+ */
+export function usesCumulativeVolume(billableItem: any): boolean {
+  const pricingModel = billableItem?.pricingModel;
+  if (!pricingModel || pricingModel.isActive === false || !pricingModel.pricingTiers?.length) {
+    return false;
+  }
+  const modelType = pricingModel.modelType?.toLowerCase();
+  if (modelType === 'flat' || modelType === 'percentage') {
+    return false;
+  }
+  const formula: PricingFormula = (pricingModel.calculationFormula as PricingFormula) || {};
+  return formula.volume_basis !== 'line';
+}
+
+/**
+ * Calculate the expected price of a quantity of a billable item under its pricing model.
+ * Returns the effective unit price (extended amount / quantity) alongside the tiers applied.
+ */
+export function calculateExpectedPrice(
+  quantity: Decimal,
+  billableItem: any,
+  options: ExpectedPriceOptions = {}
+): ExpectedPriceResult {
+  const pricingModel = billableItem.pricingModel;
+  const modelType: string | undefined = pricingModel?.modelType;
+  const tiers: any[] = pricingModel?.pricingTiers || [];
+  const cumulative = options.priorQuantity !== undefined && usesCumulativeVolume(billableItem);
+  const priorQuantity = cumulative ? options.priorQuantity! : ZERO;
+
+  const build = (
+    method: PricingMethod,
+    extendedAmount: Decimal,
+    tierBreakdown: TierApplication[] = []
+  ): ExpectedPriceResult => ({
+    unitPrice: quantity.greaterThan(0) ? extendedAmount.dividedBy(quantity) : defaultUnitPrice(billableItem),
+    extendedAmount,
+    quantity,
+    priorQuantity,
+    method,
+    pricingModelId: pricingModel?.modelId,
+    modelType,
+    appliedTier: tierBreakdown[tierBreakdown.length - 1],
+    tierBreakdown,
+  });
+
+  if (options.locationPrice) {
+    return {
+      ...build('location_price', options.locationPrice.price.times(quantity)),
+      unitPrice: options.locationPrice.price,
+      pricingModelId: undefined,
+      modelType: undefined,
+      locationId: options.locationPrice.locationId,
+    };
+  }
+
+  if (!pricingModel || pricingModel.isActive === false) {
+    return build('contract_price', defaultUnitPrice(billableItem).times(quantity));
+  }
+
+  switch (modelType?.toLowerCase()) {
+    case 'flat': {
+      const flatAmount = toDecimal(pricingModel.baseRate) || defaultUnitPrice(billableItem);
+      return build('flat', applyMinimumCharge(flatAmount, pricingModel));
+    }
+    case 'percentage': {
+      const unitPrice = pricePercentage(billableItem, pricingModel);
+      return build('percentage', applyMinimumCharge(unitPrice.times(quantity), pricingModel));
+    }
+    default: {
+      if (tiers.length === 0) {
+        const unitPrice = toDecimal(pricingModel.baseRate) || defaultUnitPrice(billableItem);
+        return build('contract_price', applyMinimumCharge(unitPrice.times(quantity), pricingModel));
+      }
+
+      const sortedTiers = sortTiers(tiers);
+      // On a cumulative basis every unit is priced at the band its position in the
+      // period's volume falls in, whichever way the model prices a single quantity.
+      const method = cumulative ? 'graduated' : resolveTierMethod(pricingModel, sortedTiers);
+      const breakdown =
+        method === 'graduated'
+          ? priceGraduated(quantity, sortedTiers, billableItem, priorQuantity)
+          : priceAllUnits(quantity, sortedTiers, billableItem);
+      const amount = breakdown.reduce((sum, tier) => sum.plus(tier.amount), ZERO);
+      return build(method, applyMinimumCharge(amount, pricingModel), breakdown);
+    }
+  }
+}
+
+/**
+ * JSON-safe summary of an expected-price calculation, for LineItemMatch.matchScoreBreakdown.
+ */
+export function serializeExpectedPrice(result: ExpectedPriceResult) {
+  const serializeTier = (tier: TierApplication) => ({
+    tier_id: tier.tierId || null,
+    tier_name: tier.tierName || null,
+    tier_sequence: tier.tierSequence ?? null,
+    quantity: tier.quantity.toString(),
+    rate: tier.rate.toString(),
+    amount: tier.amount.toString(),
+    overage_only: tier.overageOnly,
+  });
+
+  return {
+    method: result.method,
+    pricing_model_id: result.pricingModelId || null,
+    model_type: result.modelType || null,
+    location_id: result.locationId || null,
+    quantity: result.quantity.toString(),
+    prior_period_quantity: result.priorQuantity.toString(),
+    expected_unit_price: result.unitPrice.toString(),
+    expected_extended_amount: result.extendedAmount.toString(),
+    applied_tier: result.appliedTier ? serializeTier(result.appliedTier) : null,
+    tier_breakdown: result.tierBreakdown.map(serializeTier),
+  };
+}
@@ -0,0 +1,352 @@
+import { prisma, DbClient } from './db';
+import { Decimal } from '@prisma/client/runtime/library';
+
+// Unit-of-measure normalization. Invoice lines are converted into the billable item's
+// primary (contract) unit before pricing, so a case of 12 billed at the case price is
+// compared against twelve times the each price rather than reported as a variance.
+//
+// Conversions are looked up, in order, from:
+//   1. BillableItem.uomConversionRules  { "CS": 12 } = 12 contract units per case
+//   2. a pack size printed in the invoice UOM  ("CS/12", "BX of 100", "12/CS")
+//   3. the vendor's rows in the UomConversion table
+//   4. global UomConversion rows (no vendor)
+//   5. standard conversions between time units
+
+export type UomConversionSource =
+  | 'identity'
+  | 'item_rule'
+  | 'pack_size'
+  | 'vendor_table'
+  | 'global_table'
+  | 'standard'
+  | 'derived';
+
+export interface UomConversionRow {
+  vendorPartyId: string | null;
+  fromUom: string;
+  toUom: string;
+  factor: Decimal | number | string;
+}
+
+export interface UomConversion {
+  invoiceUom: string;
+  contractUom: string;
+  // Contract units in one invoice unit
+  factor: Decimal;
+  source: UomConversionSource;
+}
+
+export interface NormalizedLineQuantities {
+  contractUom: string | null;
+  uomConversionFactor: Decimal | null;
+  normalizedQuantity: Decimal | null;
+  normalizedUnitPrice: Decimal | null;
+}
+
+const UOM_ALIASES: Record<string, string> = {
+  ea: 'EA',
+  each: 'EA',
+  unit: 'EA',
+  units: 'EA',
+  un: 'EA',
+  pc: 'EA',
+  pcs: 'EA',
+  piece: 'EA',
+  pieces: 'EA',
+  bx: 'BX',
+  box: 'BX',
+  boxes: 'BX',
+  cs: 'CS',
+  case: 'CS',
+  cases: 'CS',
+  pk: 'PK',
+  pack: 'PK',
+  packs: 'PK',
+  ct: 'CT',
+  carton: 'CT',
+  cartons: 'CT',
+  dz: 'DZ',
+  doz: 'DZ',
+  dozen: 'DZ',
+  hr: 'HR',
+  hrs: 'HR',
+  hour: 'HR',
+  hours: 'HR',
+  day: 'DAY',
+  days: 'DAY',
+  dy: 'DAY',
+  wk: 'WK',
+  week: 'WK',
+  weeks: 'WK',
+  mo: 'MO',
+  mos: 'MO',
+  mth: 'MO',
+  month: 'MO',
+  months: 'MO',
+  monthly: 'MO',
+  yr: 'YR',
+  year: 'YR',
+  years: 'YR',
+  annual: 'YR',
+};
+
+// Units whose size varies by vendor and product; a size is needed from a rule, the
+// invoice or the conversion table
+const PACK_UNITS = new Set(['BX', 'CS', 'PK', 'CT']);
+
+// Conversions that hold for every vendor. Months are deliberately not converted to days:
+// contracts that bill a monthly rate by the day need a global or item rule.
+const STANDARD_CONVERSIONS: UomConversionRow[] = [
+  { vendorPartyId: null, fromUom: 'DZ', toUom: 'EA', factor: 12 },
+  { vendorPartyId: null, fromUom: 'DAY', toUom: 'HR', factor: 24 },
+  { vendorPartyId: null, fromUom: 'WK', toUom: 'DAY', factor: 7 },
+  { vendorPartyId: null, fromUom: 'YR', toUom: 'MO', factor: 12 },
+];
+
+/**
+ * Canonical code for a unit of measure: "Cases" and "cs." are both CS. Unknown units are
+ * upper-cased as printed.
+ */
+export function normalizeUom(value: string): string {
+  const cleaned = value.trim().toLowerCase().replace(/\.$/, '');
+  return UOM_ALIASES[cleaned] || cleaned.toUpperCase();
+}
+
+/**
+ * A pack unit with its size printed in the UOM, e.g. "CS/12", "Case of 12", "BX (100)",
+ * "12/CS" or "100 EA/BX".
+ */
+export function parsePackUom(value: string): { unit: string; size: Decimal } | null {
+  const cleaned = value.trim().toLowerCase();
+  const sizeAfter = cleaned.match(
+    /^([a-z]+)\.?\s*(?:\/|-|x|of|\()?\s*(\d+)\s*(?:\)|ea|each|pcs?)?$/
+  );
+  const sizeBefore = cleaned.match(/^(\d+)\s*(?:ea|each|pcs?)?\s*(?:\/|per)\s*([a-z]+)\.?$/);
+
+  const unit = sizeAfter ? sizeAfter[1] : sizeBefore ? sizeBefore[2] : null;
+  const size = sizeAfter ? sizeAfter[2] : sizeBefore ? sizeBefore[1] : null;
+  if (!unit || !size || Number(size) <= 0) {
+    return null;
+  }
+
+  const canonical = normalizeUom(unit);
+  return PACK_UNITS.has(canonical) ? { unit: canonical, size: new Decimal(size) } : null;
+}
+
+/**
+ * Canonical unit without any printed pack size: "CS/12" is CS.
+ */
+export function baseUom(value: string): string {
+  return parsePackUom(value)?.unit || normalizeUom(value);
+}
+
+function toDecimal(value: Decimal | number | string): Decimal {
+  return value instanceof Decimal ? value : new Decimal(value.toString());
+}
+
+/**
+ * BillableItem.uomConversionRules as canonical UOM -> contract units per that UOM.
+ * Values may be a number or { factor }.
+ */
+export function parseConversionRules(value: unknown): Map<string, Decimal> {
+  const rules = new Map<string, Decimal>();
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return rules;
+  }
+
+  for (const [uom, rule] of Object.entries(value as Record<string, any>)) {
+    const factor = typeof rule === 'object' && rule !== null ? rule.factor : rule;
+    const number = Number(factor);
+    if (!Number.isFinite(number) || number <= 0) {
+      console.warn(`Ignoring invalid UOM conversion rule for ${uom}:`, rule);
+      continue;
+    }
+    rules.set(normalizeUom(uom), new Decimal(factor.toString()));
+  }
+  return rules;
+}
+
+interface ConversionEdge {
+  from: string;
+  to: string;
+  factor: Decimal;
+  source: UomConversionSource;
+}
+
+function edgesFor(rows: UomConversionRow[], source: UomConversionSource): ConversionEdge[] {
+  return rows.flatMap((row) => {
+    const factor = toDecimal(row.factor);
+    if (factor.lessThanOrEqualTo(0)) return [];
+    const from = normalizeUom(row.fromUom);
+    const to = normalizeUom(row.toUom);
+    return [
+      { from, to, factor, source },
+      { from: to, to: from, factor: new Decimal(1).dividedBy(factor), source },
+    ];
+  });
+}
+
+/**
+ * Conversion from an invoice UOM into the billable item's primary UOM, or null when no
+ * rule, printed pack size or table row connects the two.
+ */
+export function resolveUomConversion(
+  invoiceUom: string | null | undefined,
+  billableItem: { primaryUom: string; uomConversionRules?: unknown },
+  conversions: UomConversionRow[] = [],
+  vendorPartyId?: string | null
+): UomConversion | null {
+  if (!invoiceUom?.trim() || !billableItem.primaryUom?.trim()) {
+    return null;
+  }
+
+  const pack = parsePackUom(invoiceUom);
+  const from = pack ? pack.unit : normalizeUom(invoiceUom);
+  const contractPack = parsePackUom(billableItem.primaryUom);
+  const to = contractPack ? contractPack.unit : normalizeUom(billableItem.primaryUom);
+  const result = (factor: Decimal, source: UomConversionSource): UomConversion => ({
+    invoiceUom,
+    contractUom: billableItem.primaryUom,
+    factor,
+    source,
+  });
+
+  if (from === to && (!pack || !contractPack || pack.size.equals(contractPack.size))) {
+    return result(new Decimal(1), 'identity');
+  }
+
+  const itemRules = parseConversionRules(billableItem.uomConversionRules);
+  const itemRule = itemRules.get(normalizeUom(invoiceUom)) || itemRules.get(from);
+  if (itemRule) {
+    return result(itemRule, 'item_rule');
+  }
+
+  // Edges in precedence order; the first path found wins
+  const edges: ConversionEdge[] = [];
+  if (pack) {
+    edges.push({ from, to: 'EA', factor: pack.size, source: 'pack_size' });
+  }
+  if (contractPack) {
+    edges.push({
+      from: 'EA',
+      to,
+      factor: new Decimal(1).dividedBy(contractPack.size),
+      source: 'pack_size',
+    });
+  }
+  for (const [uom, factor] of itemRules) {
+    edges.push({ from: uom, to, factor, source: 'item_rule' });
+    edges.push({
+      from: to,
+      to: uom,
+      factor: new Decimal(1).dividedBy(factor),
+      source: 'item_rule',
+    });
+  }
+  edges.push(
+    ...edgesFor(
+      conversions.filter((row) => !!vendorPartyId && row.vendorPartyId === vendorPartyId),
+      'vendor_table'
+    ),
+    ...edgesFor(
+      conversions.filter((row) => !row.vendorPartyId),
+      'global_table'
+    ),
+    ...edgesFor(STANDARD_CONVERSIONS, 'standard')
+  );
+
+  // Breadth-first, so a direct conversion is preferred over a chain (CS -> BX -> EA)
+  const visited = new Set([from]);
+  let frontier: { unit: string; factor: Decimal; sources: Set<UomConversionSource> }[] = [
+    { unit: from, factor: new Decimal(1), sources: new Set() },
+  ];
+  while (frontier.length > 0) {
+    const next: typeof frontier = [];
+    for (const node of frontier) {
+      for (const edge of edges) {
+        if (edge.from !== node.unit || visited.has(edge.to)) continue;
+        const factor = node.factor.times(edge.factor);
+        const sources = new Set(node.sources).add(edge.source);
+        if (edge.to === to) {
+          return result(factor, sources.size === 1 ? edge.source : 'derived');
+        }
+        visited.add(edge.to);
+        next.push({ unit: edge.to, factor, sources });
+      }
+    }
+    frontier = next;
+  }
+
+  return null;
+}
+
+/**
+ * Line quantity and unit price in contract units. Without a conversion only the contract
+ * UOM is recorded, so stale normalized values from an earlier run are cleared.
+ */
+export function normalizeLineQuantities(
+  lineItem: { invoiceQuantity?: Decimal | null; invoiceUnitPrice?: Decimal | null },
+  billableItem: { primaryUom: string },
+  conversion: UomConversion | null
+): NormalizedLineQuantities {
+  if (!conversion) {
+    return {
+      contractUom: billableItem.primaryUom || null,
+      uomConversionFactor: null,
+      normalizedQuantity: null,
+      normalizedUnitPrice: null,
+    };
+  }
+
+  const quantity = lineItem.invoiceQuantity ? toDecimal(lineItem.invoiceQuantity) : null;
+  const unitPrice = lineItem.invoiceUnitPrice ? toDecimal(lineItem.invoiceUnitPrice) : null;
+
+  return {
+    contractUom: conversion.contractUom,
+    uomConversionFactor: conversion.factor.toDecimalPlaces(4),
+    normalizedQuantity: quantity ? quantity.times(conversion.factor).toDecimalPlaces(4) : null,
+    normalizedUnitPrice: unitPrice
+      ? unitPrice.dividedBy(conversion.factor).toDecimalPlaces(4)
+      : null,
+  };
+}
+
+/**
+ * Active conversion table rows for a vendor plus the global rows.
+ */
+export async function loadUomConversions(
+  vendorPartyId: string | null | undefined,
+  db: DbClient = prisma
+): Promise<UomConversionRow[]> {
+  return db.uomConversion.findMany({
+    where: {
+      isActive: true,
+      OR: [{ vendorPartyId: null }, ...(vendorPartyId ? [{ vendorPartyId }] : [])],
+    },
+    select: { vendorPartyId: true, fromUom: true, toUom: true, factor: true },
+  });
+}
+
+/**
+ * Table row converting between the same units for the same vendor, or among the global rows
+ * when vendorPartyId is null, in either direction. The table's unique key does not stop two
+ * global rows, as Postgres treats every null vendor as distinct, so writes check here.
+ */
+export async function findConflictingUomConversion(
+  row: Pick<UomConversionRow, 'vendorPartyId' | 'fromUom' | 'toUom'>,
+  excludeConversionId?: string,
+  db: DbClient = prisma
+) {
+  const fromUom = normalizeUom(row.fromUom);
+  const toUom = normalizeUom(row.toUom);
+  return db.uomConversion.findFirst({
+    where: {
+      vendorPartyId: row.vendorPartyId,
+      OR: [
+        { fromUom, toUom },
+        { fromUom: toUom, toUom: fromUom },
+      ],
+      ...(excludeConversionId ? { conversionId: { not: excludeConversionId } } : {}),
+    },
+  });
+}
@@ -1,19 +1,39 @@
-import { prisma } from './db';
+import { prisma, DbClient } from './db';
 import { Decimal } from '@prisma/client/runtime/library';
+import { ValidationContext, ValidationResult } from './validation-rules';
 import {
-  validatePrice,
-  validateQuantity,
-  validateUOM,
-  validateDateRange,
-  validateLocation,
-  validateVendor,
-  validateCurrency,
-  ValidationContext,
-  ValidationResult,
-} from './validation-rules';
+  DUPLICATE_EXCEPTION_CATEGORY,
+  ExceptionDraft,
+  evaluateRule,
+  resolveRuleSet,
+  serializeRuleSet,
+} from './validation-rule-registry';
+import {
+  ExpectedPriceResult,
+  serializeExpectedPrice,
+  usesCumulativeVolume,
+} from './pricing-engine';
+import { VolumeTracker, clearInvoiceVolume, recordInvoiceVolume } from './volume-ledger';
+import { extractAdvisoryFindings, summarizeAdvisoryPayload } from './validation-engine';
+import { getLocationPrice } from './location-pricing';
+import {
+  NormalizedLineQuantities,
+  loadUomConversions,
+  normalizeLineQuantities,
+  resolveUomConversion,
+} from './uom-conversion';
+import { matchInvoiceLineItems } from './line-item-matching';
+
+export const VALIDATION_ENGINE_VERSION = '4.1';
+
+/**
+ * Status shared by InvoiceValidation.overallStatus and Invoice.validationStatus.
+ * Pending: not validated yet; Error: the validation run itself failed.
+ */
+export type ValidationStatus = 'Pending' | 'Passed' | 'Failed' | 'Error';
 
 export interface ValidationSummary {
-  overallStatus: 'Passed' | 'Failed' | 'Partial';
+  overallStatus: ValidationStatus;
   totalExceptions: number;
   totalSavings: Decimal;
   contractMatched: boolean;
@@ -22,19 +42,58 @@ export interface ValidationSummary {
   currencyMatch: boolean;
 }
 
+export interface RunValidationOptions {
+  // LLM validation payload; its exceptions are recorded as advisory findings
+  advisoryPayload?: any;
+  requestId?: string;
+}
+
+/**
+ * An invoice fails when any non-advisory exception is raised.
+ */
+export function determineValidationStatus(
+  exceptions: Pick<ExceptionDraft, 'advisory'>[]
+): ValidationStatus {
+  return exceptions.some((exception) => !exception.advisory) ? 'Failed' : 'Passed';
+}
+
+/**
+ * Validate an invoice against its contract. This is the single validation path: rules from
+ * the registry decide the status, an optional LLM payload adds advisory exceptions, and
+ * failed validations are handed to the approval workflow.
+ */
 export async function runInvoiceValidation(
   invoiceId: string,
-  userId: string
+  userId: string,
+  options: RunValidationOptions = {}
 ): Promise<string> {
+  const startTime = Date.now();
   const { handleValidationError, logError } = await import('./error-handling');
 
   try {
+    // Lines not matched yet are matched to the contract's billable items first. Matching
+    // commits on its own, ahead of the idempotency check and the run's transaction: it only
+    // derives matches from the invoice and contract, so a replay or a run that fails later
+    // leaves the lines matched the way the next run would match them.
+    await prisma.$transaction((tx) => matchInvoiceLineItems(invoiceId, userId, tx), {
+      timeout: 30000,
+    });
+
+    // A request id makes the run idempotent: replays return the validation it produced
+    if (options.requestId) {
+      const existing = await findValidationForRequest(invoiceId, options.requestId);
+      if (existing) {
+        return existing.validationId;
+      }
+    }
+
     // Get invoice with all related data
     const invoice = await prisma.invoice.findUnique({
     where: { invoiceId },
     include: {
       vendorParty: true,
       customerParty: true,
+      serviceLocation: true,
       contract: {
         include: {
           contractParties: {
@@ -46,7 +105,9 @@ export async function runInvoiceValidation(
         },
       },
       invoiceLineItems: {
+        orderBy: { lineNumber: 'asc' },
         include: {
+          serviceLocation: true,
           billableItem: {
             include: {
               pricingModel: {
@@ -80,105 +141,39 @@ export async function runInvoiceValidation(
     }
 
   const contract = invoice.contract;
-  const exceptions: any[] = [];
+  const exceptions: ExceptionDraft[] = [];
   let totalSavings = new Decimal(0);
   let contractMatched = !!contract;
   let vendorValidated = false;
   let dateRangeValid = false;
   let currencyMatch = false;
+  let rulesAppliedCount = 0;
+  const expectedPricing = new Map<string, ExpectedPriceResult>();
+  const priceRecords: { lineItem: any; billableItemId: string; result: ValidationResult }[] = [];
+  const normalizedLines: { lineItemId: string; quantities: NormalizedLineQuantities }[] = [];
+  const volumeTracker = contract ? new VolumeTracker(invoice, contract) : null;
+  const uomConversions = await loadUomConversions(invoice.vendorPartyId);
 
-  // Invoice-level validations
-  if (contract) {
-    // Validate vendor
-    const vendorResult = await validateVendor({
-      invoice,
-      contract,
-      lineItem: null as any,
-    });
-    vendorValidated = vendorResult.passed;
-    if (!vendorResult.passed) {
-      exceptions.push({
-        lineNumber: null,
-        fieldName: 'vendor',
-        exceptionType: 'Vendor Mismatch',
-        exceptionCategory: 'Party Validation',
-        severity: 'High',
-        expectedValue: vendorResult.expectedValue,
-        actualValue: vendorResult.actualValue,
-        message: vendorResult.message,
-        recommendation: 'Verify vendor matches contract',
-      });
-    }
-
-    // Validate currency
-    const currencyResult = await validateCurrency({
-      invoice,
-      contract,
-      lineItem: null as any,
-    });
-    currencyMatch = currencyResult.passed;
-    if (!currencyResult.passed) {
-      exceptions.push({
-        lineNumber: null,
-        fieldName: 'currency',
-        exceptionType: 'Currency Mismatch',
-        exceptionCategory: 'Currency Validation',
-        severity: 'High',
-        expectedValue: currencyResult.expectedValue,
-        actualValue: currencyResult.actualValue,
-        message: currencyResult.message,
-        recommendation: 'Verify currency matches contract',
-      });
-    }
+  // Rule set for this contract: registry defaults merged with Contract.validationConfig
+  const ruleSet = resolveRuleSet(contract?.validationConfig);
+  const invoiceRules = ruleSet.filter((rule) => rule.definition.scope === 'invoice');
+  const lineRules = ruleSet.filter((rule) => rule.definition.scope === 'line');
 
-    // Validate date range
-    const dateResult = await validateDateRange({
-      invoice,
-      contract,
-      lineItem: invoice,
-    });
-    dateRangeValid = dateResult.passed;
-    if (!dateResult.passed) {
-      exceptions.push({
-        lineNumber: null,
-        fieldName: 'servicePeriod',
-        exceptionType: 'Date Range Invalid',
-        exceptionCategory: 'Date Validation',
-        severity: 'Medium',
-        expectedValue: dateResult.expectedValue,
-        actualValue: dateResult.actualValue,
-        message: dateResult.message,
-        recommendation: 'Verify service period is within contract dates',
-      });
-    }
+  // Invoice-level validations
+  const invoiceContext: ValidationContext = {
+    invoice,
+    contract,
+    lineItem: null as any,
+  };
+  for (const rule of invoiceRules) {
+    const outcome = await evaluateRule(rule, invoiceContext);
+    if (!outcome) continue;
+    rulesAppliedCount++;
 
-    // Validate location
-    const locationResult = await validateLocation({
-      invoice,
-      contract,
-      lineItem: null as any,
-    });
-    if (!locationResult.passed) {
-      exceptions.push({
-        lineNumber: null,
-        fieldName: 'location',
-        exceptionType: 'Location Not Authorized',
-        exceptionCategory: 'Location Validation',
-        severity: 'High',
-        message: locationResult.message,
-        recommendation: 'Verify location is covered by contract',
-      });
-    }
-  } else {
-    exceptions.push({
-      lineNumber: null,
-      fieldName: 'contract',
-      exceptionType: 'Contract Not Matched',
-      exceptionCategory: 'Contract Matching',
-      severity: 'High',
-      message: 'No matching contract found for this invoice',
-      recommendation: 'Manually match invoice to contract or create new contract',
-    });
+    if (outcome.ruleId === 'vendor') vendorValidated = outcome.result.passed;
+    if (outcome.ruleId === 'currency') currencyMatch = outcome.result.passed;
+    if (outcome.ruleId === 'date_range') dateRangeValid = outcome.result.passed;
+    exceptions.push(...outcome.exceptions);
   }
 
   // Line item validations
@@ -191,83 +186,72 @@ export async function runInvoiceValidation(
       billableItem: billableItem || undefined,
     };
 
-    // Price validation
+    // Convert quantity and unit price into contract units before anything is priced
     if (billableItem) {
-      const priceResult = await validatePrice(context);
-      if (!priceResult.passed && priceResult.variance) {
-        const varianceAmount = priceResult.variance.abs();
-        totalSavings = totalSavings.plus(varianceAmount);
-
-        // Find extraction IDs for citation
-        const contractExtraction = invoice.sourceDocument?.documentExtractions.find(
-          (e) => e.fieldName === 'contractPrice' || e.fieldName.includes('price')
-        );
-        const invoiceExtraction = invoice.sourceDocument?.documentExtractions.find(
-          (e) => e.fieldName === 'unitPrice' || e.fieldName.includes('price')
-        );
+      context.uomConversion = resolveUomConversion(
+        lineItem.invoiceUom,
+        billableItem,
+        uomConversions,
+        invoice.vendorPartyId
+      );
+      const quantities = normalizeLineQuantities(lineItem, billableItem, context.uomConversion);
+      Object.assign(lineItem, quantities);
+      normalizedLines.push({ lineItemId: lineItem.lineItemId, quantities });
+    }
 
-        exceptions.push({
-          lineNumber: lineItem.lineNumber,
-          fieldName: 'price',
-          exceptionType: 'Price Variance',
-          exceptionCategory: 'Pricing Validation',
-          severity: varianceAmount.greaterThan(1000) ? 'High' : 'Medium',
-          expectedValue: priceResult.expectedValue,
-          actualValue: priceResult.actualValue,
-          varianceAmount: varianceAmount,
-          rootCause: 'Price exceeds allowed tolerance',
-          message: priceResult.message,
-          recommendation: 'Review pricing and request credit if applicable',
-          contractExtractionId: contractExtraction?.extractionId,
-          invoiceExtractionId: invoiceExtraction?.extractionId,
-        });
-      }
-    } else {
-      exceptions.push({
-        lineNumber: lineItem.lineNumber,
-        fieldName: 'billableItem',
-        exceptionType: 'Item Not Matched',
-        exceptionCategory: 'Item Matching',
-        severity: 'Medium',
-        message: `Line item "${lineItem.description}" could not be matched to a contract billable item`,
-        recommendation: 'Manually match line item to contract item or add new item to contract',
-      });
+    // Price negotiated for the line's facility, if the contract has one
+    if (billableItem) {
+      context.locationPrice = getLocationPrice(
+        contract?.contractLocations,
+        lineItem.serviceLocationId || invoice.serviceLocationId,
+        billableItem.itemId
+      );
     }
 
-    // Quantity validation
-    const quantityResult = await validateQuantity(context);
-    if (!quantityResult.passed) {
-      exceptions.push({
-        lineNumber: lineItem.lineNumber,
-        fieldName: 'quantity',
-        exceptionType: 'Invalid Quantity',
-        exceptionCategory: 'Quantity Validation',
-        severity: 'Low',
-        actualValue: quantityResult.actualValue,
-        message: quantityResult.message,
-        recommendation: 'Verify quantity is correct',
-      });
+    const lineQuantity = lineItem.normalizedQuantity || lineItem.invoiceQuantity;
+    const cumulative =
+      volumeTracker !== null && !!billableItem && usesCumulativeVolume(billableItem);
+    if (cumulative) {
+      context.priorQuantity = await volumeTracker!.priorQuantity(lineItem, billableItem!.itemId);
     }
 
-    // UOM validation
-    if (billableItem) {
-      const uomResult = await validateUOM(context);
-      if (!uomResult.passed) {
-        exceptions.push({
-          lineNumber: lineItem.lineNumber,
-          fieldName: 'uom',
-          exceptionType: 'UOM Mismatch',
-          exceptionCategory: 'UOM Validation',
-          severity: 'Medium',
-          expectedValue: uomResult.expectedValue,
-          actualValue: uomResult.actualValue,
-          message: uomResult.message,
-          recommendation: 'Verify unit of measure matches contract or apply conversion',
+    for (const rule of lineRules) {
+      const outcome = await evaluateRule(rule, context);
+      if (!outcome) continue;
+      rulesAppliedCount++;
+
+      if (outcome.ruleId === 'price' && billableItem && outcome.result.pricing) {
+        expectedPricing.set(lineItem.lineItemId, outcome.result.pricing);
+        priceRecords.push({
+          lineItem,
+          billableItemId: billableItem.itemId,
+          result: outcome.result,
         });
+        // Billing below the contract floor is a compliance issue, not a savings
+        const savings = outcome.result.details?.bound === 'floor' ? [] : outcome.exceptions;
+        for (const exception of savings) {
+          if (exception.varianceAmount) {
+            totalSavings = totalSavings.plus(exception.varianceAmount);
+          }
+        }
       }
+      exceptions.push(...outcome.exceptions);
+    }
+
+    if (cumulative && lineQuantity) {
+      volumeTracker!.add(lineItem, billableItem!.itemId, lineQuantity);
     }
   }
 
+  // LLM findings are advisory: recorded for review, never part of the status or savings
+  if (options.advisoryPayload) {
+    exceptions.push(...(await extractAdvisoryFindings(invoice, options.advisoryPayload)));
+  }
+  const advisory = options.advisoryPayload
+    ? summarizeAdvisoryPayload(options.advisoryPayload)
+    : null;
+  const overallStatus = determineValidationStatus(exceptions);
+
   // Calculate expected vs actual amounts
   // Convert Prisma Decimal to Decimal.js if needed
   const actualNetAmount = invoice.netServiceAmount instanceof Decimal 
@@ -275,70 +259,131 @@ export async function runInvoiceValidation(
     : new Decimal(invoice.netServiceAmount?.toString() || '0');
 
   const expectedNetAmount = contract
-    ? invoice.invoiceLineItems.reduce((sum, line) => {
-        if (line.billableItem?.contractPrice) {
-          const contractPrice = line.billableItem.contractPrice instanceof Decimal
-            ? line.billableItem.contractPrice
-            : new Decimal(line.billableItem.contractPrice?.toString() || '0');
-          const qty = line.normalizedQuantity 
-            ? (line.normalizedQuantity instanceof Decimal ? line.normalizedQuantity : new Decimal(line.normalizedQuantity.toString()))
-            : line.invoiceQuantity
-            ? (line.invoiceQuantity instanceof Decimal ? line.invoiceQuantity : new Decimal(line.invoiceQuantity.toString()))
-            : new Decimal(1);
-          return sum.plus(contractPrice.times(qty));
-        }
-        return sum;
-      }, new Decimal(0))
+    ? Array.from(expectedPricing.values()).reduce(
+        (sum, pricing) => sum.plus(pricing.extendedAmount),
+        new Decimal(0)
+      )
     : actualNetAmount;
 
   const varianceAmount = actualNetAmount.minus(expectedNetAmount);
   const potentialSavings = varianceAmount.greaterThan(0) ? varianceAmount : new Decimal(0);
 
-  // Create validation record
-  const validation = await prisma.invoiceValidation.create({
-    data: {
-      invoiceId,
-      overallStatus: exceptions.length === 0 ? 'Passed' : 'Failed',
-      contractMatched,
-      vendorValidated,
-      dateRangeValid,
-      currencyMatch,
-      expectedNetAmount,
-      actualNetAmount,
-      varianceAmount,
-      potentialSavings: totalSavings.plus(potentialSavings),
-      recommendedPaymentAmount: expectedNetAmount,
-      validatedBy: userId,
-      rulesAppliedCount: 7, // Number of validation rules
-    },
-  });
+  const { autoCreateApprovalRequests, isInvoiceRejected } = await import('./approval-workflow');
 
-  // Create exception records
-  for (const exceptionData of exceptions) {
-    await prisma.validationException.create({
-      data: {
-        validationId: validation.validationId,
-        ...exceptionData,
-      },
-    });
-  }
+  // Persist the run atomically: a failure leaves the previous validation current and untouched
+  const validation = await prisma.$transaction(
+    async (tx) => {
+      const previousValidations = await tx.invoiceValidation.findMany({
+        where: { invoiceId, supersededById: null },
+        include: { validationExceptions: true },
+      });
 
-  // Update invoice validation status
-  await prisma.invoice.update({
-    where: { invoiceId },
-    data: {
-      validationStatus: validation.overallStatus,
-    },
-  });
+      // Create validation record
+      const created = await tx.invoiceValidation.create({
+        data: {
+          invoiceId,
+          requestId: options.requestId,
+          validationEngineVersion: VALIDATION_ENGINE_VERSION,
+          overallStatus,
+          confidenceScore: advisory?.confidenceScore,
+          contractMatched,
+          vendorValidated,
+          dateRangeValid,
+          currencyMatch,
+          expectedNetAmount,
+          actualNetAmount,
+          varianceAmount,
+          potentialSavings: totalSavings.plus(potentialSavings),
+          recommendedPaymentAmount: expectedNetAmount,
+          processingTimeMs: Date.now() - startTime,
+          validationMethod: advisory ? 'rules_with_llm_advisory' : 'rules',
+          autoApproved: overallStatus === 'Passed',
+          validatedBy: userId,
+          validationConfigUsed: serializeRuleSet(ruleSet),
+          rulesAppliedCount,
+          intelligenceSummary: advisory?.intelligenceSummary,
+        },
+      });
 
-    // Auto-create approval requests for exceptions
-    if (exceptions.length > 0) {
-      const { autoCreateApprovalRequests } = await import('./approval-workflow');
-      await autoCreateApprovalRequests(validation.validationId, userId);
-    }
+      if (previousValidations.length > 0) {
+        await tx.invoiceValidation.updateMany({
+          where: { validationId: { in: previousValidations.map((v) => v.validationId) } },
+          data: { supersededById: created.validationId, supersededDate: new Date() },
+        });
+      }
+
+      // Create exception records, keeping the resolution of the same exception from the
+      // validation this run supersedes
+      const previousExceptions = previousValidations.flatMap((v) => v.validationExceptions);
+      for (const exceptionData of exceptions) {
+        const previous = previousExceptions.find((candidate) =>
+          isSameException(candidate, exceptionData)
+        );
+        await tx.validationException.create({
+          data: {
+            validationId: created.validationId,
+            ...exceptionData,
+            ...(previous?.resolutionNotes || previous?.resolved
+              ? {
+                  resolved: previous.resolved,
+                  resolutionNotes: previous.resolutionNotes,
+                  resolvedBy: previous.resolvedBy,
+                  resolvedDate: previous.resolvedDate,
+                }
+              : {}),
+          },
+        });
+      }
+
+      for (const line of normalizedLines) {
+        await tx.invoiceLineItem.update({
+          where: { lineItemId: line.lineItemId },
+          data: line.quantities,
+        });
+      }
+
+      for (const record of priceRecords) {
+        await recordExpectedPrice(tx, record.lineItem, record.billableItemId, record.result, userId);
+      }
+
+      // A validated invoice counts toward contract-year volume whether or not it passed: its
+      // exceptions are still being worked. Duplicates and invoices whose approval was rejected
+      // don't count, and a run for one takes back what the run it supersedes recorded.
+      const isDuplicate = exceptions.some(
+        (exception) => exception.exceptionCategory === DUPLICATE_EXCEPTION_CATEGORY
+      );
+      if (!isDuplicate && !(await isInvoiceRejected(invoiceId, tx))) {
+        await recordInvoiceVolume(invoice, tx);
+      } else {
+        await clearInvoiceVolume(invoiceId, tx);
+      }
+
+      // Update invoice validation status
+      await tx.invoice.update({
+        where: { invoiceId },
+        data: {
+          validationStatus: created.overallStatus,
+        },
+      });
+
+      // One open approval request per invoice, moved to this run or withdrawn
+      await autoCreateApprovalRequests(created.validationId, userId, tx);
+
+      return created;
+    },
+    { timeout: 30000 }
+  );
 
     return validation.validationId;
   } catch (error) {
+    // A concurrent run with the same request id committed first
+    if (options.requestId && (error as any)?.code === 'P2002') {
+      const existing = await findValidationForRequest(invoiceId, options.requestId);
+      if (existing) {
+        return existing.validationId;
+      }
+    }
+
     await handleValidationError(
       invoiceId,
       error instanceof Error ? error : new Error(String(error)),
@@ -348,3 +393,79 @@ export async function runInvoiceValidation(
   }
 }
 
+async function findValidationForRequest(invoiceId: string, requestId: string) {
+  return prisma.invoiceValidation.findUnique({
+    where: { invoiceId_requestId: { invoiceId, requestId } },
+    select: { validationId: true },
+  });
+}
+
+/**
+ * Exceptions from successive runs are the same finding when they flag the same rule
+ * outcome on the same line and field.
+ */
+function isSameException(previous: any, draft: ExceptionDraft): boolean {
+  return (
+    previous.exceptionType === draft.exceptionType &&
+    previous.lineNumber === draft.lineNumber &&
+    (previous.fieldName || null) === (draft.fieldName || null) &&
+    (previous.relatedInvoiceId || null) === (draft.relatedInvoiceId || null) &&
+    previous.advisory === !!draft.advisory
+  );
+}
+
+/**
+ * Persist the expected price on the line item and record the pricing model tier
+ * that produced it on the line's billable item match.
+ */
+async function recordExpectedPrice(
+  db: DbClient,
+  lineItem: any,
+  billableItemId: string,
+  priceResult: ValidationResult,
+  userId: string
+): Promise<void> {
+  const pricing = priceResult.pricing!;
+
+  await db.invoiceLineItem.update({
+    where: { lineItemId: lineItem.lineItemId },
+    data: {
+      expectedUnitPrice: pricing.unitPrice,
+      priceVariance: priceResult.variance ? priceResult.variance.times(pricing.quantity) : null,
+      withinTolerance: priceResult.passed,
+    },
+  });
+
+  const existingMatch = await db.lineItemMatch.findFirst({
+    where: { lineItemId: lineItem.lineItemId, billableItemId },
+  });
+  const previousBreakdown = (existingMatch?.matchScoreBreakdown as Record<string, any>) || {};
+  const matchScoreBreakdown = {
+    ...previousBreakdown,
+    pricing: serializeExpectedPrice(pricing),
+  };
+
+  if (existingMatch) {
+    await db.lineItemMatch.update({
+      where: { matchId: existingMatch.matchId },
+      data: {
+        matchScoreBreakdown,
+        priceValid: priceResult.passed,
+        withinTolerance: priceResult.passed,
+      },
+    });
+  } else {
+    await db.lineItemMatch.create({
+      data: {
+        lineItemId: lineItem.lineItemId,
+        billableItemId,
+        matchConfidence: new Decimal(100),
+        matchMethod: 'direct_reference',
+        matchScoreBreakdown,
+        priceValid: priceResult.passed,
+        withinTolerance: priceResult.passed,
+        matchedBy: userId,
+      },
+    });
+  }
+}
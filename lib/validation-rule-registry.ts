@@ -0,0 +1,489 @@
+import { z } from 'zod';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  DEFAULT_DUPLICATE_PARAMETERS,
+  DuplicateFinding,
+  DuplicateParameters,
+  findDuplicateInvoices,
+} from './duplicate-detection';
+import {
+  validatePrice,
+  validateQuantity,
+  validateUOM,
+  validateDateRange,
+  validateLocation,
+  LocationViolation,
+  validateVendor,
+  validateCurrency,
+  ValidationContext,
+  ValidationResult,
+} from './validation-rules';
+
+// Validation rule registry. Every rule the orchestrator runs is registered here with its
+// scope, default severity and parameters; Contract.validationConfig can enable/disable
+// rules, override severity and set parameters per contract.
+
+export const RULE_REGISTRY_VERSION = '1.0';
+
+export type RuleScope = 'invoice' | 'line';
+export type ExceptionSeverity = 'High' | 'Medium' | 'Low';
+
+// Category of the exceptions raised for invoices that duplicate earlier ones
+export const DUPLICATE_EXCEPTION_CATEGORY = 'Duplicate Detection';
+
+export interface ExceptionDraft {
+  lineNumber: number | null;
+  fieldName: string | null;
+  exceptionType: string;
+  exceptionCategory: string;
+  severity: ExceptionSeverity;
+  expectedValue?: string;
+  actualValue?: string;
+  varianceAmount?: Decimal;
+  rootCause?: string;
+  message: string;
+  recommendation?: string;
+  contractExtractionId?: string;
+  invoiceExtractionId?: string;
+  relatedInvoiceId?: string;
+  source?: 'rule' | 'llm';
+  advisory?: boolean;
+}
+
+type ExceptionDraftInput = Omit<ExceptionDraft, 'severity'> & { severity?: ExceptionSeverity };
+
+export interface ValidationRuleDefinition {
+  id: string;
+  name: string;
+  scope: RuleScope;
+  defaultSeverity: ExceptionSeverity;
+  defaultParameters: Record<string, any>;
+  // Whether the rule runs for this context at all (e.g. price needs a matched billable item)
+  appliesTo?: (context: ValidationContext) => boolean;
+  evaluate: (
+    context: ValidationContext,
+    parameters: Record<string, any>
+  ) => Promise<ValidationResult>;
+  toException: (
+    result: ValidationResult,
+    context: ValidationContext,
+    parameters: Record<string, any>
+  ) => ExceptionDraftInput | ExceptionDraftInput[];
+}
+
+export interface ResolvedRule {
+  definition: ValidationRuleDefinition;
+  enabled: boolean;
+  severity?: ExceptionSeverity;
+  parameters: Record<string, any>;
+}
+
+export interface RuleOutcome {
+  ruleId: string;
+  result: ValidationResult;
+  exceptions: ExceptionDraft[];
+}
+
+const ruleConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  severity: z.enum(['High', 'Medium', 'Low']).optional(),
+  parameters: z.record(z.string(), z.any()).optional(),
+});
+
+export const validationConfigSchema = z.object({
+  rules: z.record(z.string(), ruleConfigSchema).optional(),
+});
+
+export type ValidationConfig = z.infer<typeof validationConfigSchema>;
+
+const registry: Map<string, ValidationRuleDefinition> = new Map();
+
+export function registerValidationRule(definition: ValidationRuleDefinition): void {
+  registry.set(definition.id, definition);
+}
+
+export function getValidationRule(ruleId: string): ValidationRuleDefinition | undefined {
+  return registry.get(ruleId);
+}
+
+export function getValidationRules(): ValidationRuleDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Merge a contract's validationConfig over the registry defaults. Rules are returned in
+ * registration order; unknown rule ids in the config are ignored.
+ */
+export function resolveRuleSet(validationConfig: unknown): ResolvedRule[] {
+  let config: ValidationConfig = {};
+  if (validationConfig) {
+    const parsed = validationConfigSchema.safeParse(validationConfig);
+    if (parsed.success) {
+      config = parsed.data;
+    } else {
+      console.warn('Invalid contract validationConfig, using rule defaults:', parsed.error.message);
+    }
+  }
+
+  return getValidationRules().map((definition) => {
+    const ruleConfig = config.rules?.[definition.id] || {};
+    return {
+      definition,
+      enabled: ruleConfig.enabled ?? true,
+      severity: ruleConfig.severity,
+      parameters: { ...definition.defaultParameters, ...(ruleConfig.parameters || {}) },
+    };
+  });
+}
+
+/**
+ * Snapshot of the rule set for InvoiceValidation.validationConfigUsed, so a result can be
+ * reproduced from the record alone.
+ */
+export function serializeRuleSet(rules: ResolvedRule[]) {
+  return {
+    registry_version: RULE_REGISTRY_VERSION,
+    rules: rules.map((rule) => ({
+      id: rule.definition.id,
+      name: rule.definition.name,
+      scope: rule.definition.scope,
+      enabled: rule.enabled,
+      severity: rule.severity || rule.definition.defaultSeverity,
+      severity_overridden: !!rule.severity,
+      parameters: rule.parameters,
+    })),
+  };
+}
+
+/**
+ * Run one rule against a context. Returns null when the rule is disabled or does not apply.
+ */
+export async function evaluateRule(
+  rule: ResolvedRule,
+  context: ValidationContext
+): Promise<RuleOutcome | null> {
+  const { definition } = rule;
+  if (!rule.enabled || (definition.appliesTo && !definition.appliesTo(context))) {
+    return null;
+  }
+
+  const result = await definition.evaluate(context, rule.parameters);
+  if (result.passed) {
+    return { ruleId: definition.id, result, exceptions: [] };
+  }
+
+  const drafts = definition.toException(result, context, rule.parameters);
+  return {
+    ruleId: definition.id,
+    result,
+    exceptions: (Array.isArray(drafts) ? drafts : [drafts]).map((draft) => ({
+      ...draft,
+      severity: rule.severity || draft.severity || definition.defaultSeverity,
+    })),
+  };
+}
+
+// ============================================
+// Built-in rules
+// ============================================
+
+const hasContract = (context: ValidationContext) => !!context.contract;
+const hasBillableItem = (context: ValidationContext) => !!context.billableItem;
+
+registerValidationRule({
+  id: 'contract_match',
+  name: 'Contract Matched',
+  scope: 'invoice',
+  defaultSeverity: 'High',
+  defaultParameters: {},
+  evaluate: async (context) => ({
+    passed: !!context.contract,
+    message: context.contract
+      ? 'Invoice is matched to a contract'
+      : 'No matching contract found for this invoice',
+  }),
+  toException: (result) => ({
+    lineNumber: null,
+    fieldName: 'contract',
+    exceptionType: 'Contract Not Matched',
+    exceptionCategory: 'Contract Matching',
+    message: result.message,
+    recommendation: 'Manually match invoice to contract or create new contract',
+  }),
+});
+
+registerValidationRule({
+  id: 'vendor',
+  name: 'Vendor Matches Contract',
+  scope: 'invoice',
+  defaultSeverity: 'High',
+  defaultParameters: {},
+  appliesTo: hasContract,
+  evaluate: (context) => validateVendor(context),
+  toException: (result) => ({
+    lineNumber: null,
+    fieldName: 'vendor',
+    exceptionType: 'Vendor Mismatch',
+    exceptionCategory: 'Party Validation',
+    expectedValue: result.expectedValue,
+    actualValue: result.actualValue,
+    message: result.message,
+    recommendation: 'Verify vendor matches contract',
+  }),
+});
+
+registerValidationRule({
+  id: 'currency',
+  name: 'Currency Matches Contract',
+  scope: 'invoice',
+  defaultSeverity: 'High',
+  defaultParameters: {},
+  appliesTo: hasContract,
+  evaluate: (context) => validateCurrency(context),
+  toException: (result) => ({
+    lineNumber: null,
+    fieldName: 'currency',
+    exceptionType: 'Currency Mismatch',
+    exceptionCategory: 'Currency Validation',
+    expectedValue: result.expectedValue,
+    actualValue: result.actualValue,
+    message: result.message,
+    recommendation: 'Verify currency matches contract',
+  }),
+});
+
+registerValidationRule({
+  id: 'date_range',
+  name: 'Service Period Within Contract',
+  scope: 'invoice',
+  defaultSeverity: 'Medium',
+  defaultParameters: {},
+  appliesTo: hasContract,
+  // The invoice header carries the service period for invoice-level date checks
+  evaluate: (context) => validateDateRange({ ...context, lineItem: context.invoice }),
+  toException: (result) => ({
+    lineNumber: null,
+    fieldName: 'servicePeriod',
+    exceptionType: 'Date Range Invalid',
+    exceptionCategory: 'Date Validation',
+    expectedValue: result.expectedValue,
+    actualValue: result.actualValue,
+    message: result.message,
+    recommendation: 'Verify service period is within contract dates',
+  }),
+});
+
+registerValidationRule({
+  id: 'location',
+  name: 'Location Covered By Contract',
+  scope: 'invoice',
+  defaultSeverity: 'High',
+  defaultParameters: {},
+  appliesTo: hasContract,
+  evaluate: (context) => validateLocation(context),
+  toException: (result) => {
+    const violations: LocationViolation[] = result.details?.violations || [];
+    if (violations.length === 0) {
+      return {
+        lineNumber: null,
+        fieldName: 'serviceLocation',
+        exceptionType: 'Location Not Authorized',
+        exceptionCategory: 'Location Validation',
+        message: result.message,
+        recommendation: 'Verify location is covered by contract',
+      };
+    }
+
+    return violations.map((violation) => ({
+      lineNumber: violation.lineNumber,
+      fieldName: 'serviceLocation',
+      exceptionType:
+        violation.reason === 'unresolved' ? 'Unknown Location' : 'Location Not Authorized',
+      exceptionCategory: 'Location Validation',
+      severity: violation.reason === 'unresolved' ? ('Medium' as const) : undefined,
+      expectedValue: result.expectedValue,
+      actualValue: violation.locationText,
+      message:
+        violation.reason === 'unresolved'
+          ? `${violation.lineNumber ? `Line ${violation.lineNumber}: ` : ''}location "${
+              violation.locationText
+            }" does not match any known facility`
+          : `${violation.lineNumber ? `Line ${violation.lineNumber}: ` : ''}location "${
+              violation.locationText
+            }" is not covered by the contract`,
+      recommendation:
+        violation.reason === 'unresolved'
+          ? 'Map the location to a facility, then re-run validation'
+          : 'Verify the facility is covered by the contract or bill it under the correct contract',
+    }));
+  },
+});
+
+registerValidationRule({
+  id: 'duplicate',
+  name: 'Not A Duplicate Invoice',
+  scope: 'invoice',
+  defaultSeverity: 'High',
+  defaultParameters: { ...DEFAULT_DUPLICATE_PARAMETERS },
+  evaluate: async (context, parameters) => {
+    const duplicates = await findDuplicateInvoices(
+      context.invoice,
+      parameters as DuplicateParameters
+    );
+    return {
+      passed: duplicates.length === 0,
+      message:
+        duplicates.length === 0
+          ? 'No duplicate invoices found'
+          : `${duplicates.length} possible duplicate(s) of earlier invoices found`,
+      details: { duplicates },
+    };
+  },
+  toException: (result) =>
+    (result.details?.duplicates as DuplicateFinding[]).map((duplicate) => {
+      const wholeInvoice = duplicate.lineNumber === null;
+      // A similar invoice number alone may be an OCR misread, so it stays Medium
+      const exactMatch =
+        duplicate.kinds.includes('invoice_number') || duplicate.kinds.includes('file_hash');
+      return {
+        lineNumber: duplicate.lineNumber,
+        fieldName: wholeInvoice ? 'invoiceNumber' : 'servicePeriod',
+        exceptionType: wholeInvoice ? 'Duplicate Invoice' : 'Duplicate Billing',
+        exceptionCategory: DUPLICATE_EXCEPTION_CATEGORY,
+        severity: wholeInvoice && !exactMatch ? 'Medium' : 'High',
+        expectedValue: duplicate.priorInvoiceNumber || duplicate.priorInvoiceId,
+        varianceAmount: duplicate.amount,
+        rootCause: duplicate.kinds.join(', '),
+        message: duplicate.message,
+        recommendation: wholeInvoice
+          ? 'Compare with the prior invoice and hold payment if already paid'
+          : 'Confirm the service period was not already billed and request a credit',
+        relatedInvoiceId: duplicate.priorInvoiceId,
+      };
+    }),
+});
+
+registerValidationRule({
+  id: 'item_match',
+  name: 'Line Matched To Billable Item',
+  scope: 'line',
+  defaultSeverity: 'Medium',
+  defaultParameters: {},
+  evaluate: async (context) => ({
+    passed: !!context.billableItem,
+    message: context.billableItem
+      ? 'Line item matched to contract billable item'
+      : `Line item "${context.lineItem.description}" could not be matched to a contract billable item`,
+  }),
+  toException: (result, context) => ({
+    lineNumber: context.lineItem.lineNumber,
+    fieldName: 'billableItem',
+    exceptionType: 'Item Not Matched',
+    exceptionCategory: 'Item Matching',
+    message: result.message,
+    recommendation: 'Manually match line item to contract item or add new item to contract',
+  }),
+});
+
+registerValidationRule({
+  id: 'price',
+  name: 'Unit Price Within Bounds And Tolerance',
+  scope: 'line',
+  defaultSeverity: 'Medium',
+  // toleranceType/toleranceValue apply to items that carry no tolerance of their own
+  defaultParameters: {
+    toleranceType: null,
+    toleranceValue: null,
+    highSeverityVariance: 1000,
+  },
+  appliesTo: hasBillableItem,
+  evaluate: (context, parameters) =>
+    validatePrice(context, {
+      type: parameters.toleranceType ?? undefined,
+      value: parameters.toleranceValue ?? undefined,
+    }),
+  toException: (result, context, parameters) => {
+    const bound: 'floor' | 'ceiling' | undefined = result.details?.bound;
+    // Extended over the line's quantity, like the savings the run totals up
+    const varianceAmount: Decimal = result.details?.financialImpact ?? new Decimal(0);
+    const extractions = context.invoice.sourceDocument?.documentExtractions || [];
+
+    // Find extraction IDs for citation
+    const contractExtraction = extractions.find(
+      (e: any) => e.fieldName === 'contractPrice' || e.fieldName.includes('price')
+    );
+    const invoiceExtraction = extractions.find(
+      (e: any) => e.fieldName === 'unitPrice' || e.fieldName.includes('price')
+    );
+
+    const severity: ExceptionSeverity =
+      bound === 'floor'
+        ? 'Low'
+        : varianceAmount.greaterThan(parameters.highSeverityVariance)
+        ? 'High'
+        : 'Medium';
+
+    return {
+      lineNumber: context.lineItem.lineNumber,
+      fieldName: 'price',
+      exceptionType:
+        bound === 'ceiling'
+          ? 'Above Contract Ceiling'
+          : bound === 'floor'
+          ? 'Below Contract Floor'
+          : 'Price Variance',
+      exceptionCategory: 'Pricing Validation',
+      severity,
+      expectedValue: result.expectedValue,
+      actualValue: result.actualValue,
+      varianceAmount,
+      rootCause: bound ? `Price violates contract ${bound}` : 'Price exceeds allowed tolerance',
+      message: result.message,
+      recommendation:
+        bound === 'floor'
+          ? 'Confirm the item and unit of measure; a price below the floor may be a billing error'
+          : 'Review pricing and request credit if applicable',
+      contractExtractionId: contractExtraction?.extractionId,
+      invoiceExtractionId: invoiceExtraction?.extractionId,
+    };
+  },
+});
+
+registerValidationRule({
+  id: 'quantity',
+  name: 'Quantity Valid',
+  scope: 'line',
+  defaultSeverity: 'Low',
+  defaultParameters: {},
+  evaluate: (context) => validateQuantity(context),
+  toException: (result, context) => ({
+    lineNumber: context.lineItem.lineNumber,
+    fieldName: 'quantity',
+    exceptionType: 'Invalid Quantity',
+    exceptionCategory: 'Quantity Validation',
+    actualValue: result.actualValue,
+    message: result.message,
+    recommendation: 'Verify quantity is correct',
+  }),
+});
+
+registerValidationRule({
+  id: 'uom',
+  name: 'Unit Of Measure Matches Contract',
+  scope: 'line',
+  defaultSeverity: 'Medium',
+  defaultParameters: {},
+  appliesTo: hasBillableItem,
+  evaluate: (context) => validateUOM(context),
+  toException: (result, context) => ({
+    lineNumber: context.lineItem.lineNumber,
+    fieldName: 'uom',
+    exceptionType: 'UOM Mismatch',
+    exceptionCategory: 'UOM Validation',
+    expectedValue: result.expectedValue,
+    actualValue: result.actualValue,
+    message: result.message,
+    recommendation:
+      'Verify the unit of measure, or add a conversion for it to the billable item or UOM table',
+  }),
+});
@@ -1,5 +1,8 @@
 import { prisma } from './db';
 import { Decimal } from '@prisma/client/runtime/library';
+import { calculateExpectedPrice, ExpectedPriceResult } from './pricing-engine';
+import { ResolvedLocationPrice } from './location-pricing';
+import { UomConversion, baseUom, resolveUomConversion } from './uom-conversion';
 
 export interface ValidationResult {
   passed: boolean;
@@ -7,6 +10,8 @@ export interface ValidationResult {
   variance?: Decimal;
   expectedValue?: string;
   actualValue?: string;
+  pricing?: ExpectedPriceResult;
+  details?: Record<string, any>;
 }
 
 export interface ValidationContext {
@@ -14,11 +19,24 @@ export interface ValidationContext {
   contract: any;
   lineItem: any;
   billableItem?: any;
+  priorQuantity?: Decimal;
+  locationPrice?: ResolvedLocationPrice | null;
+  // Conversion into contract units from the normalization step; null when none exists
+  uomConversion?: UomConversion | null;
+}
+
+export interface PriceTolerance {
+  type?: string;
+  value?: number | Decimal;
 }
 
 // Price Validation
+// defaultTolerance applies when the billable item has no allowed variance of its own.
+// variance is per unit; details.financialImpact is the variance over the line's quantity,
+// the amount a price exception records, on both the bounds and the tolerance path.
 export async function validatePrice(
-  context: ValidationContext
+  context: ValidationContext,
+  defaultTolerance: PriceTolerance = {}
 ): Promise<ValidationResult> {
   const { lineItem, billableItem } = context;
 
@@ -29,10 +47,67 @@ export async function validatePrice(
     };
   }
 
-  const invoicePrice = lineItem.invoiceUnitPrice || new Decimal(0);
-  const contractPrice = billableItem.contractPrice || billableItem.listPrice;
-  const allowedVariance = billableItem.allowedVarianceValue || new Decimal(0);
-  const varianceType = billableItem.allowedVarianceType || 'absolute';
+  // Compared in contract units once the line has been normalized
+  const invoicePrice =
+    lineItem.normalizedUnitPrice || lineItem.invoiceUnitPrice || new Decimal(0);
+  const quantity = lineItem.normalizedQuantity || lineItem.invoiceQuantity || new Decimal(1);
+  const locationPrice = context.locationPrice;
+  const pricing = calculateExpectedPrice(quantity, billableItem, {
+    priorQuantity: context.priorQuantity,
+    locationPrice: locationPrice || undefined,
+  });
+  const contractPrice = pricing.unitPrice;
+
+  // Tolerance: location override, then the item's own, then the rule default
+  const itemHasTolerance =
+    billableItem.allowedVarianceValue !== null && billableItem.allowedVarianceValue !== undefined;
+  let allowedVariance: Decimal = itemHasTolerance
+    ? billableItem.allowedVarianceValue
+    : new Decimal(defaultTolerance.value ?? 0);
+  let varianceType: string =
+    (itemHasTolerance ? billableItem.allowedVarianceType : defaultTolerance.type) || 'absolute';
+  if (locationPrice?.toleranceValue !== undefined) {
+    allowedVariance = locationPrice.toleranceValue;
+    varianceType = locationPrice.toleranceType || 'absolute';
+  }
+
+  // Floor and ceiling take precedence over tolerance: a price outside the contract's
+  // bounds fails even when it is within tolerance of the expected price
+  const bound = checkPriceBounds(invoicePrice, billableItem);
+  if (bound) {
+    const boundVariance = invoicePrice.minus(bound.limit);
+    const position = bound.type === 'ceiling' ? 'above' : 'below';
+    return {
+      passed: false,
+      message: `Unit price ${invoicePrice.toString()} is ${position} the contract ${
+        bound.type
+      } of ${bound.limit.toString()}`,
+      variance: boundVariance,
+      expectedValue: bound.limit.toString(),
+      actualValue: invoicePrice.toString(),
+      pricing,
+      details: {
+        bound: bound.type,
+        limit: bound.limit,
+        financialImpact: boundVariance.abs().times(quantity),
+      },
+    };
+  }
+
+  // Not-to-exceed items carry bounds but no price of their own
+  const boundsOnly =
+    !locationPrice &&
+    pricing.method === 'contract_price' &&
+    (billableItem.contractPrice === null || billableItem.contractPrice === undefined) &&
+    !!(billableItem.priceFloor || billableItem.priceCeiling);
+  if (boundsOnly) {
+    return {
+      passed: true,
+      message: 'Price is within contract floor and ceiling',
+      actualValue: invoicePrice.toString(),
+      pricing,
+    };
+  }
 
   let variance: Decimal;
   let withinTolerance: boolean;
@@ -53,13 +128,33 @@ export async function validatePrice(
     passed: withinTolerance,
     message: withinTolerance
       ? 'Price is within allowed tolerance'
-      : `Price variance exceeds tolerance: ${variance.toString()}`,
+      : `Price variance exceeds tolerance: ${variance.toString()} per unit`,
     variance,
     expectedValue: contractPrice.toString(),
     actualValue: invoicePrice.toString(),
+    pricing,
+    details: {
+      financialImpact: variance.abs().times(quantity),
+    },
   };
 }
 
+/**
+ * The billable item's price floor or ceiling the unit price violates, if any.
+ */
+export function checkPriceBounds(
+  unitPrice: Decimal,
+  billableItem: { priceFloor?: Decimal | null; priceCeiling?: Decimal | null }
+): { type: 'floor' | 'ceiling'; limit: Decimal } | null {
+  if (billableItem.priceCeiling && unitPrice.greaterThan(billableItem.priceCeiling)) {
+    return { type: 'ceiling', limit: new Decimal(billableItem.priceCeiling.toString()) };
+  }
+  if (billableItem.priceFloor && unitPrice.lessThan(billableItem.priceFloor)) {
+    return { type: 'floor', limit: new Decimal(billableItem.priceFloor.toString()) };
+  }
+  return null;
+}
+
 // Quantity Validation
 export async function validateQuantity(
   context: ValidationContext
@@ -102,8 +197,8 @@ export async function validateUOM(
     };
   }
 
-  const invoiceUom = lineItem.invoiceUom?.toLowerCase();
-  const contractUom = billableItem.primaryUom?.toLowerCase();
+  const invoiceUom = lineItem.invoiceUom?.trim();
+  const contractUom = billableItem.primaryUom?.trim();
 
   if (!invoiceUom || !contractUom) {
     return {
@@ -114,36 +209,44 @@ export async function validateUOM(
     };
   }
 
-  // Check if UOMs match or if conversion is allowed
-  const allowedUoms = (billableItem.allowedUoms as string[]) || [];
-  const normalizedInvoiceUom = invoiceUom.toLowerCase();
-  const normalizedContractUom = contractUom.toLowerCase();
+  const conversion =
+    context.uomConversion !== undefined
+      ? context.uomConversion
+      : resolveUomConversion(invoiceUom, billableItem);
 
-  if (normalizedInvoiceUom === normalizedContractUom) {
+  if (conversion?.source === 'identity') {
     return {
       passed: true,
       message: 'UOM matches contract',
     };
   }
 
-  // Check if invoice UOM is in allowed UOMs list
-  const allowedUomsLower = allowedUoms.map((uom) => uom.toLowerCase());
-  if (allowedUomsLower.includes(normalizedInvoiceUom)) {
-    // Check if conversion factor exists
-    const conversionRules = (billableItem.uomConversionRules as any) || {};
-    if (conversionRules[normalizedInvoiceUom]) {
-      return {
-        passed: true,
-        message: 'UOM is allowed with conversion',
-      };
-    }
+  // A contract that lists allowed UOMs only accepts those, even when a conversion exists
+  const allowedUoms = ((billableItem.allowedUoms as string[]) || []).map(baseUom);
+  if (allowedUoms.length > 0 && !allowedUoms.includes(baseUom(invoiceUom))) {
+    return {
+      passed: false,
+      message: `UOM ${invoiceUom} is not allowed by the contract, which bills in ${contractUom}`,
+      expectedValue: contractUom,
+      actualValue: invoiceUom,
+    };
+  }
+
+  if (!conversion) {
+    return {
+      passed: false,
+      message: `UOM mismatch: no conversion from ${invoiceUom} to contract UOM ${contractUom}`,
+      expectedValue: contractUom,
+      actualValue: invoiceUom,
+    };
   }
 
   return {
-    passed: false,
-    message: `UOM mismatch: invoice uses ${invoiceUom}, contract requires ${contractUom}`,
-    expectedValue: contractUom,
-    actualValue: invoiceUom,
+    passed: true,
+    message: `UOM converted: 1 ${invoiceUom} = ${conversion.factor
+      .toDecimalPlaces(4)
+      .toString()} ${contractUom}`,
+    details: { factor: conversion.factor, source: conversion.source },
   };
 }
 
@@ -187,6 +290,17 @@ export async function validateDateRange(
 }
 
 // Location Validation
+export interface LocationViolation {
+  lineNumber: number | null;
+  locationId: string | null;
+  locationText: string;
+  reason: 'not_covered' | 'unresolved';
+}
+
+/**
+ * Checks the invoice's service location, and any line-level location that differs from it,
+ * against the contract's ContractLocation set.
+ */
 export async function validateLocation(
   context: ValidationContext
 ): Promise<ValidationResult> {
@@ -200,10 +314,12 @@ export async function validateLocation(
   }
 
   // Get contract locations
-  const contractLocations = await prisma.contractLocation.findMany({
-    where: { contractId: contract.contractId },
-    include: { location: true },
-  });
+  const contractLocations =
+    (contract as any).contractLocations ||
+    (await prisma.contractLocation.findMany({
+      where: { contractId: contract.contractId },
+      include: { location: true },
+    }));
 
   if (contractLocations.length === 0) {
     // If no specific locations in contract, assume all locations are valid
@@ -213,11 +329,69 @@ export async function validateLocation(
     };
   }
 
-  // In a real system, you would check if invoice location matches contract locations
-  // For now, we'll assume validation passes if contract has locations defined
+  const covered = new Set<string>(contractLocations.map((cl: any) => cl.locationId));
+  const checks: { lineNumber: number | null; record: any }[] = [
+    { lineNumber: null, record: invoice },
+    ...((invoice as any).invoiceLineItems || [])
+      .filter(
+        (line: any) =>
+          (line.serviceLocationId || line.serviceLocationText) &&
+          line.serviceLocationId !== invoice.serviceLocationId
+      )
+      .map((line: any) => ({ lineNumber: line.lineNumber, record: line })),
+  ];
+
+  const violations: LocationViolation[] = [];
+  let checked = 0;
+  for (const { lineNumber, record } of checks) {
+    if (!record.serviceLocationId && !record.serviceLocationText) continue;
+    checked++;
+
+    const locationText =
+      record.serviceLocation?.locationName ||
+      record.serviceLocationText ||
+      record.serviceLocationId;
+    if (!record.serviceLocationId) {
+      violations.push({ lineNumber, locationId: null, locationText, reason: 'unresolved' });
+    } else if (!covered.has(record.serviceLocationId)) {
+      violations.push({
+        lineNumber,
+        locationId: record.serviceLocationId,
+        locationText,
+        reason: 'not_covered',
+      });
+    }
+  }
+
+  const contractLocationNames = contractLocations
+    .map((cl: any) => cl.location?.locationName || cl.locationId)
+    .join(', ');
+
+  if (checked === 0) {
+    return {
+      passed: true,
+      message: 'Invoice has no service location; location not verified',
+    };
+  }
+
+  if (violations.length > 0) {
+    return {
+      passed: false,
+      message: violations
+        .map((violation) =>
+          violation.reason === 'unresolved'
+            ? `Location "${violation.locationText}" does not match any known facility`
+            : `Location "${violation.locationText}" is not covered by the contract`
+        )
+        .join('; '),
+      expectedValue: contractLocationNames,
+      details: { violations },
+    };
+  }
+
   return {
     passed: true,
-    message: 'Location validation passed (simplified)',
+    message: 'Service location is covered by the contract',
   };
 }
 
@@ -293,32 +467,3 @@ export async function validateCurrency(
   };
 }
 
-// Tiered Pricing Calculation
-export function calculateTieredPrice(
-  quantity: Decimal,
-  pricingModel: any,
-  tiers: any[]
-): Decimal {
-  if (!tiers || tiers.length === 0) {
-    return pricingModel.baseRate || new Decimal(0);
-  }
-
-  // Sort tiers by minValue
-  const sortedTiers = [...tiers].sort((a, b) =>
-    a.minValue.comparedTo(b.minValue)
-  );
-
-  // Find applicable tier
-  for (let i = sortedTiers.length - 1; i >= 0; i--) {
-    const tier = sortedTiers[i];
-    if (quantity.greaterThanOrEqualTo(tier.minValue)) {
-      if (!tier.maxValue || quantity.lessThanOrEqualTo(tier.maxValue)) {
-        return tier.rate;
-      }
-    }
-  }
-
-  // If quantity exceeds all tiers, use the highest tier rate
-  return sortedTiers[sortedTiers.length - 1].rate;
-}
-
@@ -0,0 +1,328 @@
+import { prisma, DbClient } from './db';
+import { normalizePartyName, partyNames } from './party-matching';
+import { RedactionVault } from './phi-redaction';
+
+// Vendor extraction templates. Corrections made in extraction review are kept per vendor
+// party; when a later invoice is recognised as coming from that vendor, the corrections are
+// shown to the model as examples, and header values reviewers have replaced before (the
+// remit-to lockbox read as the vendor name) are replaced before validation.
+
+const INVOICE_DATA_PREFIX = 'validation_request.invoice_data.';
+export const VENDOR_NAME_FIELD = 'invoice_header.vendor_party_id';
+
+// Prompt size limits: fields with the most corrections first, newest examples first
+const MAX_GUIDANCE_FIELDS = 10;
+const MAX_EXAMPLES_PER_FIELD = 3;
+const MAX_TEMPLATE_HINTS = 200;
+// Free-text fields hold patient details specific to one invoice, not a vendor's layout, so
+// their corrections are never shown to the model
+const FREE_TEXT_FIELD = /(^|\.)(description|notes?|memo|source_line_text)$/;
+// Vendor names are looked for in the document header
+const VENDOR_SEARCH_CHARS = 4000;
+const MIN_VENDOR_NAME_LENGTH = 4;
+
+export interface VendorHint {
+  fieldName: string;
+  extractedValue: string | null;
+  correctedValue: string | null;
+  sourcePageNumber: number | null;
+}
+
+export interface VendorTemplate {
+  vendorPartyId: string;
+  vendorName: string;
+  hints: VendorHint[];
+}
+
+export interface VendorCandidate {
+  partyId: string;
+  // Legal and trading names, alternate names and vendor names entered in review
+  names: string[];
+}
+
+export interface FieldAccuracy {
+  fieldName: string;
+  // YYYY-MM of extraction
+  month: string;
+  reviewed: number;
+  corrected: number;
+  accuracy: number;
+}
+
+/**
+ * Template path of a stored extraction field: the invoice data path with line indexes
+ * replaced by "*". Null for fields outside the invoice data.
+ */
+export function hintFieldName(fieldName: string): string | null {
+  if (!fieldName.startsWith(INVOICE_DATA_PREFIX)) {
+    return null;
+  }
+  return fieldName
+    .slice(INVOICE_DATA_PREFIX.length)
+    .split('.')
+    .map((segment) => (/^\d+$/.test(segment) ? '*' : segment))
+    .join('.');
+}
+
+/**
+ * The candidate whose name appears in the document header, preferring the longest match
+ * so "Acme Medical Supply" wins over "Acme".
+ */
+export function identifyVendor(text: string, candidates: VendorCandidate[]): string | null {
+  const header = ` ${normalizePartyName(text.slice(0, VENDOR_SEARCH_CHARS))} `;
+  let best: { partyId: string; length: number } | null = null;
+
+  for (const candidate of candidates) {
+    for (const name of candidate.names) {
+      const normalized = normalizePartyName(name);
+      if (normalized.length < MIN_VENDOR_NAME_LENGTH) continue;
+      if (header.includes(` ${normalized} `) && (!best || normalized.length > best.length)) {
+        best = { partyId: candidate.partyId, length: normalized.length };
+      }
+    }
+  }
+
+  return best?.partyId ?? null;
+}
+
+/**
+ * Loads the template of the vendor a document comes from, if reviewers have corrected
+ * that vendor's invoices before.
+ */
+export async function loadVendorTemplate(
+  text: string,
+  db: DbClient = prisma
+): Promise<VendorTemplate | null> {
+  const parties = await db.party.findMany({
+    where: { extractionHints: { some: {} } },
+    select: {
+      partyId: true,
+      legalName: true,
+      tradingName: true,
+      alternateNames: true,
+      extractionHints: {
+        where: { fieldName: VENDOR_NAME_FIELD },
+        select: { correctedValue: true },
+      },
+    },
+  });
+
+  const candidates = parties.map((party) => ({
+    partyId: party.partyId,
+    names: [
+      ...partyNames(party),
+      ...party.extractionHints
+        .map((hint) => hint.correctedValue)
+        .filter((name): name is string => typeof name === 'string'),
+    ],
+  }));
+  const vendorPartyId = identifyVendor(text, candidates);
+  if (!vendorPartyId) {
+    return null;
+  }
+
+  const hints = await db.vendorExtractionHint.findMany({
+    where: { vendorPartyId },
+    orderBy: { createdDate: 'desc' },
+    take: MAX_TEMPLATE_HINTS,
+  });
+  const party = parties.find((candidate) => candidate.partyId === vendorPartyId)!;
+
+  return {
+    vendorPartyId,
+    vendorName: party.tradingName || party.legalName,
+    hints: hints.map(({ fieldName, extractedValue, correctedValue, sourcePageNumber }) => ({
+      fieldName,
+      extractedValue,
+      correctedValue,
+      sourcePageNumber,
+    })),
+  };
+}
+
+/**
+ * Prompt section listing the vendor's past corrections, or '' without any. The values are
+ * redacted with the document's vault, so PHI a reviewer typed into a correction is sent as
+ * tokens like the document's own.
+ */
+export function vendorPromptGuidance(
+  template: VendorTemplate | null,
+  vault?: RedactionVault
+): string {
+  const hints = (template?.hints || []).filter((hint) => !FREE_TEXT_FIELD.test(hint.fieldName));
+  if (!template || hints.length === 0) {
+    return '';
+  }
+
+  const byField = new Map<string, VendorHint[]>();
+  for (const hint of hints) {
+    byField.set(hint.fieldName, [...(byField.get(hint.fieldName) || []), hint]);
+  }
+
+  const quote = (value: string | null) => (value === null || value === '' ? 'empty' : `"${value}"`);
+  const lines = Array.from(byField.entries())
+    .sort(([, a], [, b]) => b.length - a.length)
+    .slice(0, MAX_GUIDANCE_FIELDS)
+    .map(([fieldName, hints]) => {
+      const seen = new Set<string>();
+      const examples = hints
+        .filter((hint) => {
+          const key = `${hint.extractedValue}\u0000${hint.correctedValue}`;
+          return !seen.has(key) && seen.add(key);
+        })
+        .slice(0, MAX_EXAMPLES_PER_FIELD)
+        .map((hint) => {
+          const page = hint.sourcePageNumber ? ` on page ${hint.sourcePageNumber}` : '';
+          return hint.extractedValue === null
+            ? `missed, correct value ${quote(hint.correctedValue)}`
+            : `extracted ${quote(hint.extractedValue)}${page}, correct value ${quote(
+                hint.correctedValue
+              )}`;
+        });
+      const times = hints.length === 1 ? 'once' : `${hints.length} times`;
+      return `- ${fieldName} (corrected ${times}): ${examples.join('; ')}`;
+    });
+
+  const guidance = `VENDOR-SPECIFIC CORRECTIONS:
+This invoice appears to be from ${template.vendorName}. Reviewers corrected these fields on earlier invoices from this vendor ("*" stands for any line item); do not repeat these mistakes:
+${lines.join('\n')}
+
+`;
+  return vault ? vault.redact(guidance) : guidance;
+}
+
+/**
+ * Replaces invoice header values reviewers have replaced before with the value they chose,
+ * when every correction of that value agrees. Returns the corrected field names.
+ */
+export function applyKnownCorrections(
+  header: Record<string, any>,
+  template: VendorTemplate | null
+): string[] {
+  if (!template) {
+    return [];
+  }
+
+  const corrections = new Map<string, Set<string | null>>();
+  for (const hint of template.hints) {
+    if (!hint.fieldName.startsWith('invoice_header.') || hint.extractedValue === null) continue;
+    const key = `${hint.fieldName}\u0000${hint.extractedValue}`;
+    corrections.set(key, (corrections.get(key) || new Set()).add(hint.correctedValue));
+  }
+
+  const applied: string[] = [];
+  for (const [key, value] of Object.entries(header)) {
+    if (typeof value !== 'string') continue;
+    const fieldName = `invoice_header.${key}`;
+    const corrected = corrections.get(`${fieldName}\u0000${value}`);
+    if (corrected?.size === 1) {
+      const [correctedValue] = Array.from(corrected);
+      header[key] = correctedValue ?? '';
+      applied.push(fieldName);
+    }
+  }
+  return applied;
+}
+
+// Fields added in review were missed by the extraction
+const isCorrected = (field: {
+  extractedValue: string | null;
+  normalizedValue: string | null;
+  extractionMethod: string | null;
+}) => field.extractionMethod === 'manual_review' || field.normalizedValue !== field.extractedValue;
+
+/**
+ * Saves the corrections made in a document's review as hints for its vendor. Returns the
+ * number of hints saved.
+ */
+export async function learnFromReview(
+  documentId: string,
+  vendorPartyId: string,
+  userId: string,
+  db: DbClient = prisma
+): Promise<number> {
+  const fields = await db.documentExtractionData.findMany({
+    where: { documentId, entityType: 'extracted_field', isValidated: true },
+  });
+
+  let learned = 0;
+  for (const field of fields) {
+    const fieldName = hintFieldName(field.fieldName);
+    if (!fieldName || !isCorrected(field)) continue;
+
+    const hint = {
+      vendorPartyId,
+      fieldName,
+      extractedValue: field.extractionMethod === 'manual_review' ? null : field.extractedValue,
+      correctedValue: field.normalizedValue,
+      sourcePageNumber: field.sourcePageNumber,
+      documentId,
+    };
+    await db.vendorExtractionHint.upsert({
+      where: { extractionId: field.extractionId },
+      create: { ...hint, extractionId: field.extractionId, createdBy: userId },
+      update: hint,
+    });
+    learned++;
+  }
+
+  return learned;
+}
+
+/**
+ * Per-field accuracy by month over reviewed fields: the share reviewers left unchanged.
+ */
+export function summarizeFieldAccuracy(
+  fields: Array<{
+    fieldName: string;
+    extractedValue: string | null;
+    normalizedValue: string | null;
+    extractionMethod: string | null;
+    extractedDate: Date;
+  }>
+): FieldAccuracy[] {
+  const groups = new Map<string, FieldAccuracy>();
+
+  for (const field of fields) {
+    const fieldName = hintFieldName(field.fieldName);
+    if (!fieldName) continue;
+
+    const month = field.extractedDate.toISOString().slice(0, 7);
+    const key = `${month}\u0000${fieldName}`;
+    const group = groups.get(key) || { fieldName, month, reviewed: 0, corrected: 0, accuracy: 0 };
+    group.reviewed++;
+    if (isCorrected(field)) group.corrected++;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      accuracy: Math.round(((group.reviewed - group.corrected) / group.reviewed) * 1000) / 1000,
+    }))
+    .sort((a, b) => b.month.localeCompare(a.month) || a.fieldName.localeCompare(b.fieldName));
+}
+
+/**
+ * Field accuracy of a vendor's invoices, measured on reviewed documents.
+ */
+export async function vendorFieldAccuracy(
+  vendorPartyId: string,
+  db: DbClient = prisma
+): Promise<FieldAccuracy[]> {
+  const fields = await db.documentExtractionData.findMany({
+    where: {
+      entityType: 'extracted_field',
+      isValidated: true,
+      invoice: { vendorPartyId },
+    },
+    select: {
+      fieldName: true,
+      extractedValue: true,
+      normalizedValue: true,
+      extractionMethod: true,
+      extractedDate: true,
+    },
+  });
+  return summarizeFieldAccuracy(fields);
+}
@@ -0,0 +1,159 @@
+import { prisma, DbClient } from './db';
+import { Decimal } from '@prisma/client/runtime/library';
+
+// Per-contract, per-billable-item usage ledger. Volume tiers are priced on the quantity
+// billed so far in the contract year, not on a single invoice line.
+
+export interface ContractPeriod {
+  start: Date;
+  end: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addUTCYears(date: Date, years: number): Date {
+  const result = new Date(date);
+  result.setUTCFullYear(result.getUTCFullYear() + years);
+  return result;
+}
+
+/**
+ * Contract year containing the given date. Contract years run from each anniversary
+ * of the effective date and are cut off at the expiration date.
+ */
+export function getContractPeriod(
+  contract: { effectiveDate: Date; expirationDate: Date },
+  date: Date
+): ContractPeriod {
+  const effective = new Date(contract.effectiveDate);
+  const expiration = new Date(contract.expirationDate);
+
+  let years = date.getUTCFullYear() - effective.getUTCFullYear();
+  if (addUTCYears(effective, years) > date) {
+    years -= 1;
+  }
+  years = Math.max(0, years);
+
+  const start = addUTCYears(effective, years);
+  const nextAnniversary = addUTCYears(effective, years + 1);
+  const end = new Date(Math.min(nextAnniversary.getTime() - DAY_MS, expiration.getTime()));
+
+  return { start, end };
+}
+
+/**
+ * Date a line's volume counts against: its service start, else the invoice's, else the invoice date.
+ */
+export function getUsageDate(invoice: any, lineItem: any): Date {
+  return new Date(
+    lineItem.servicePeriodStart || invoice.servicePeriodStart || invoice.invoiceDate
+  );
+}
+
+/**
+ * Quantity of a billable item already billed in the contract period up to the given date,
+ * excluding the invoice being validated.
+ */
+export async function getPriorPeriodVolume(
+  contractId: string,
+  billableItemId: string,
+  period: ContractPeriod,
+  usageDate: Date,
+  excludeInvoiceId: string
+): Promise<Decimal> {
+  const result = await prisma.volumeUsageEntry.aggregate({
+    where: {
+      contractId,
+      billableItemId,
+      invoiceId: { not: excludeInvoiceId },
+      usageDate: { gte: period.start, lte: usageDate },
+    },
+    _sum: { quantity: true },
+  });
+
+  return result._sum.quantity || new Decimal(0);
+}
+
+/**
+ * Tracks year-to-date volume while validating an invoice, so several lines for the same
+ * item on one invoice accumulate on top of each other.
+ */
+export class VolumeTracker {
+  private running: Map<string, Decimal> = new Map();
+
+  constructor(
+    private invoice: any,
+    private contract: any
+  ) {}
+
+  async priorQuantity(lineItem: any, billableItemId: string): Promise<Decimal> {
+    const usageDate = getUsageDate(this.invoice, lineItem);
+    const period = getContractPeriod(this.contract, usageDate);
+    const key = `${billableItemId}:${period.start.toISOString()}`;
+
+    if (!this.running.has(key)) {
+      const prior = await getPriorPeriodVolume(
+        this.contract.contractId,
+        billableItemId,
+        period,
+        usageDate,
+        this.invoice.invoiceId
+      );
+      this.running.set(key, prior);
+    }
+
+    return this.running.get(key)!;
+  }
+
+  add(lineItem: any, billableItemId: string, quantity: Decimal): void {
+    const period = getContractPeriod(this.contract, getUsageDate(this.invoice, lineItem));
+    const key = `${billableItemId}:${period.start.toISOString()}`;
+    this.running.set(key, (this.running.get(key) || new Decimal(0)).plus(quantity));
+  }
+}
+
+/**
+ * Remove the invoice's entries from the ledger, e.g. when it turns out to be a duplicate or is
+ * rejected.
+ */
+export async function clearInvoiceVolume(invoiceId: string, db: DbClient = prisma): Promise<void> {
+  await db.volumeUsageEntry.deleteMany({
+    where: { invoiceId },
+  });
+}
+
+/**
+ * Write the invoice's matched lines to the ledger, replacing any entries from a previous run.
+ */
+export async function recordInvoiceVolume(invoice: any, db: DbClient = prisma): Promise<void> {
+  const contract = invoice.contract;
+
+  await clearInvoiceVolume(invoice.invoiceId, db);
+
+  if (!contract) {
+    return;
+  }
+
+  for (const lineItem of invoice.invoiceLineItems) {
+    if (!lineItem.billableItemId) continue;
+
+    const quantity = lineItem.normalizedQuantity || lineItem.invoiceQuantity;
+    if (!quantity || quantity.lessThanOrEqualTo(0)) continue;
+
+    const usageDate = getUsageDate(invoice, lineItem);
+    const period = getContractPeriod(contract, usageDate);
+
+    await db.volumeUsageEntry.create({
+      data: {
+        contractId: contract.contractId,
+        billableItemId: lineItem.billableItemId,
+        invoiceId: invoice.invoiceId,
+        lineItemId: lineItem.lineItemId,
+        periodStart: period.start,
+        periodEnd: period.end,
+        usageDate,
+        quantity,
+      },
+    });
+  }
+}
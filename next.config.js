@@ -7,6 +7,10 @@ const nextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  experimental: {
+    // pdfjs-dist and tesseract.js load workers, fonts and wasm at runtime; bundling breaks them
+    serverComponentsExternalPackages: ['pdfjs-dist', 'tesseract.js', '@napi-rs/canvas'],
+  },
   webpack: (config, { isServer }) => {
     if (isServer) {
       // Externalize pdf-parse and its dependencies for server-side
@@ -123,6 +123,7 @@ async function main() {
     { permissionName: 'documents:view', resource: 'documents', action: 'view', description: 'View documents' },
     { permissionName: 'documents:download', resource: 'documents', action: 'download', description: 'Download documents' },
     { permissionName: 'documents:delete', resource: 'documents', action: 'delete', description: 'Delete documents' },
+    { permissionName: 'documents:review', resource: 'documents', action: 'review', description: 'Review and approve low-confidence extractions' },
     { permissionName: 'validations:trigger', resource: 'validations', action: 'trigger', description: 'Trigger validations' },
     { permissionName: 'validations:view', resource: 'validations', action: 'view', description: 'View validations' },
     { permissionName: 'validations:override', resource: 'validations', action: 'override', description: 'Override validations' },
@@ -224,6 +225,7 @@ async function main() {
     'documents:upload',
     'documents:view',
     'documents:download',
+    'documents:review',
     'service-catalog:read',
     'pricing-models:read',
     'validations:trigger',
@@ -300,6 +302,7 @@ async function main() {
     'parties:delete',
     'locations:read',
     'documents:view',
+    'documents:review',
     'service-catalog:read',
     'pricing-models:read',
     'validations:view',
@@ -0,0 +1,72 @@
+import { existsSync, readFileSync } from 'fs';
+import { ExtractionCacheMode } from '../lib/extraction-cache';
+import { findRegressions, runEvaluation, writeReport } from '../lib/extraction-evaluation';
+
+// Runs the extraction evaluation and writes the report. Exits non-zero when F1 is below
+// --min-f1 or a metric dropped from --baseline, so it can gate prompt changes:
+//
+//   EXTRACTION_PROVIDER=mock npm run eval:extraction
+//   npm run eval:extraction -- --replay --baseline reports/evaluation/baseline.json
+
+function parseArgs(argv: string[]) {
+  const options = {
+    dir: 'fixtures/evaluation',
+    out: 'reports/evaluation',
+    cacheMode: 'use' as ExtractionCacheMode,
+    baseline: undefined as string | undefined,
+    tolerance: 0,
+    minF1: undefined as number | undefined,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--replay') options.cacheMode = 'replay';
+    else if (arg === '--refresh') options.cacheMode = 'refresh';
+    else if (arg === '--out') options.out = argv[++i];
+    else if (arg === '--baseline') options.baseline = argv[++i];
+    else if (arg === '--tolerance') options.tolerance = Number(argv[++i]);
+    else if (arg === '--min-f1') options.minF1 = Number(argv[++i]);
+    else if (!arg.startsWith('--')) options.dir = arg;
+    else throw new Error(`Unknown option: ${arg}`);
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  console.log(`Evaluating extraction on ${options.dir} (cache: ${options.cacheMode})...\n`);
+
+  const report = await runEvaluation(options.dir, options.cacheMode);
+  const files = writeReport(report, options.out);
+
+  for (const result of report.cases) {
+    const status = result.error ? `failed: ${result.error}` : `F1 ${result.f1}`;
+    console.log(`  ${result.name} (${result.documentType}): ${status}`);
+  }
+  console.log('\nSummary:', report.summary);
+  console.log(`Report written to ${files.join(', ')}`);
+
+  const failures: string[] = [];
+  if (options.minF1 !== undefined && report.summary.f1 < options.minF1) {
+    failures.push(`f1 ${report.summary.f1} is below ${options.minF1}`);
+  }
+  if (options.baseline) {
+    if (!existsSync(options.baseline)) {
+      throw new Error(`Baseline report not found: ${options.baseline}`);
+    }
+    const baseline = JSON.parse(readFileSync(options.baseline, 'utf8'));
+    failures.push(...findRegressions(report.summary, baseline.summary, options.tolerance));
+  }
+
+  if (failures.length > 0) {
+    console.error('\n❌ Evaluation gate failed:');
+    failures.forEach((failure) => console.error(`  - ${failure}`));
+    process.exit(1);
+  }
+  console.log('\n✅ Evaluation passed');
+}
+
+main().catch((e) => {
+  console.error('Error:', e);
+  process.exit(1);
+});